@@ -36,7 +36,8 @@ export async function POST(request: NextRequest) {
       where: { email },
     });
 
-    if (!user) {
+    // Bot accounts are played by the server and never sign in
+    if (!user || user.isBot) {
       return NextResponse.json(
         { error: 'Invalid credentials' },
         { status: 401 }
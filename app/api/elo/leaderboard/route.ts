@@ -22,9 +22,10 @@ export async function GET(request: NextRequest) {
     const url = new URL(request.url);
     const limitParam = url.searchParams.get('limit');
     const limit = limitParam ? Math.min(Math.max(parseInt(limitParam), 1), 50) : 10;
+    const includeBots = url.searchParams.get('includeBots') === 'true';
 
     // Get ELO leaderboard
-    const leaderboard = await getEloLeaderboard(limit);
+    const leaderboard = await getEloLeaderboard(limit, includeBots);
 
     return NextResponse.json({
       success: true,
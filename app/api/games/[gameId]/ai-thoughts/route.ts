@@ -1,62 +1,57 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAccessToken } from '../../../../../src/utils/jwt';
-import { persistentGameCache } from '../../../../../src/utils/persistentGameCache';
-import { fallbackGameCache } from '../../../../../src/utils/fallbackGameCache';
+import { verifyAuth } from '../../../../../lib/auth';
+import { EventStore } from '../../../../../src/services/eventStore';
+import { ReplayService } from '../../../../../src/services/replay';
+import { AIPlayer } from '../../../../../packages/common/src/game-engine/ai-player';
+import { AIRationale, AIThoughtsResponse } from '../../../../../packages/common/src/types/game';
+import { EventType } from '../../../../../packages/common/src/types/events';
 
 /**
- * Get AI thought process for display
+ * Get the AI's reasoning for display.
+ *
+ * While the game is on, only a description of the latest AI move that gives nothing
+ * away about its hand. Once the game is over, every recorded rationale in full.
  */
 export async function GET(
   request: NextRequest,
   { params }: { params: { gameId: string } }
 ) {
   try {
-    // Get token from Authorization header
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
       return NextResponse.json(
-        { error: 'Authorization token required' },
-        { status: 401 }
-      );
-    }
-
-    const token = authHeader.substring(7);
-    const decoded = verifyAccessToken(token);
-    
-    if (!decoded) {
-      return NextResponse.json(
-        { error: 'Invalid or expired token' },
+        { error: 'Authentication failed' },
         { status: 401 }
       );
     }
 
     const { gameId } = params;
-    
-    // Get game engine from cache
-    let gameEngine;
-    try {
-      gameEngine = await persistentGameCache.get(gameId);
-      if (!gameEngine) {
-        gameEngine = await fallbackGameCache.get(gameId);
-      }
-    } catch (error) {
-      console.log('Cache retrieval failed:', error.message);
-    }
-    
-    if (!gameEngine) {
+    const { state } = await ReplayService.rebuildState(gameId);
+
+    if (!state.players.some(player => player.id === authResult.user.id)) {
       return NextResponse.json(
-        { error: 'Game state not found' },
-        { status: 404 }
+        { error: 'Access denied. You are not a player in this game.' },
+        { status: 403 }
       );
     }
 
-    // Get AI thoughts
-    const thoughts = gameEngine.getAIThoughts();
-    
-    return NextResponse.json({
-      success: true,
-      thoughts
-    });
+    const aiMoves: NonNullable<AIThoughtsResponse['rationales']> = (await EventStore.getAllEvents(gameId))
+      .filter(event => event.eventType === EventType.AI_MOVE_COMPLETED && event.metadata?.rationale)
+      .map(event => ({
+        sequenceNumber: event.sequenceNumber as number,
+        moveType: event.eventData.moveType,
+        rationale: event.metadata.rationale as AIRationale,
+      }));
+    const latest = aiMoves[aiMoves.length - 1];
+
+    const response: AIThoughtsResponse = {
+      thoughts: latest ? AIPlayer.describeRationale(latest.rationale) : [],
+      sequenceNumber: latest?.sequenceNumber ?? null,
+      gameOver: state.gameOver,
+      ...(state.gameOver && { rationales: aiMoves }),
+    };
+
+    return NextResponse.json({ success: true, ...response });
 
   } catch (error) {
     console.error('AI Thoughts API error:', error);
@@ -65,4 +60,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '../../../../../lib/auth';
+import { EventStore } from '../../../../../src/services/eventStore';
+import { ReplayService } from '../../../../../src/services/replay';
+import { EventSourcingEngine } from '../../../../../packages/common/src/game-engine/event-sourcing';
+import { analyzeDecision, summarizeAnalysis } from '../../../../../packages/common/src/game-engine/move-analysis';
+import { GameState, MoveAnnotation } from '../../../../../packages/common/src/types/game';
+import { EventType, GameEvent } from '../../../../../packages/common/src/types/events';
+
+const DECISION_EVENTS: string[] = [
+  EventType.TAKE_UPCARD,
+  EventType.PASS_UPCARD,
+  EventType.DRAW_FROM_STOCK,
+  EventType.DRAW_FROM_DISCARD,
+  EventType.DISCARD_CARD,
+  EventType.KNOCK,
+  EventType.GIN,
+];
+
+/**
+ * GET /api/games/[gameId]/analysis
+ * Replay a finished game and compare every human decision with the AI's evaluation,
+ * flagging inaccuracies and blunders and scoring each player's accuracy
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: 'Authentication failed' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = params;
+    const { state: finalState } = await ReplayService.rebuildState(gameId);
+
+    const playerIds = finalState.cutthroat?.seats ?? finalState.players.map(player => player.id);
+    if (!playerIds.includes(authResult.user.id)) {
+      return NextResponse.json(
+        { error: 'Access denied. You are not a player in this game.' },
+        { status: 403 }
+      );
+    }
+
+    if (!finalState.gameOver) {
+      return NextResponse.json(
+        { error: 'Analysis is only available once the game is over' },
+        { status: 400 }
+      );
+    }
+
+    const events = ReplayService.toEngineEvents(await EventStore.getAllEvents(gameId));
+    const moves: MoveAnnotation[] = [];
+    const priorEvents: Array<Pick<GameEvent, 'eventType' | 'eventData'>> = [];
+    const aiPlayerId = finalState.vsAI ? finalState.players[1]?.id : undefined; // The AI or bot is always seated second
+
+    // Walk the game once, analysing each human decision from the position just before it
+    const engine = new EventSourcingEngine(gameId, []);
+    let state: GameState = engine.replayEvents();
+
+    for (const event of events) {
+      const playerId = (event.eventData as { playerId?: string } | undefined)?.playerId;
+      if (DECISION_EVENTS.includes(event.eventType) && playerId && playerId !== aiPlayerId) {
+        // The position the player decided from, with every hand visible
+        const position: GameState = JSON.parse(JSON.stringify(state));
+        const annotation = analyzeDecision(position, event, priorEvents);
+        if (annotation) {
+          moves.push(annotation);
+        }
+      }
+
+      // The engine updates hands and piles in place, so it is given a copy and the logged event stays as it was
+      priorEvents.push({ eventType: event.eventType, eventData: event.eventData });
+      state = engine.addEvent(JSON.parse(JSON.stringify(event)));
+    }
+
+    console.log(`🔍 Analysis: ${moves.length} decisions analyzed in game ${gameId}`);
+
+    return NextResponse.json({
+      success: true,
+      analysis: summarizeAnalysis(gameId, moves),
+    });
+
+  } catch (error) {
+    console.error('Analysis API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
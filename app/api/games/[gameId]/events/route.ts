@@ -2,9 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyAccessToken } from '../../../../../src/utils/jwt';
 import { prisma } from '../../../../../src/utils/database';
 import { GameEventsService } from '../../../../../src/services/gameEvents';
+import { EventStore } from '../../../../../src/services/eventStore';
+import { ReplayService } from '../../../../../src/services/replay';
+import { createEventLogHeader, redactEventLog, serializeEventLog } from '../../../../../packages/common/src/game-engine/event-log';
 
 /**
  * Get game events for debugging and monitoring
+ *
+ * With ?format=jsonl, downloads the game's stored event log instead: complete once the
+ * game is finished, and until then redacted to what the requesting player has seen.
  */
 export async function GET(
   request: NextRequest,
@@ -39,7 +45,9 @@ export async function GET(
         id: true,
         player1Id: true,
         player2Id: true,
-        vsAI: true
+        vsAI: true,
+        status: true,
+        participants: { select: { userId: true } }
       }
     });
 
@@ -51,7 +59,9 @@ export async function GET(
     }
 
     // Check if user is a player in this game
-    const isPlayer = game.player1Id === decoded.userId || game.player2Id === decoded.userId;
+    const isPlayer = game.player1Id === decoded.userId
+      || game.player2Id === decoded.userId
+      || game.participants.some(participant => participant.userId === decoded.userId);
     
     if (!isPlayer) {
       return NextResponse.json(
@@ -62,6 +72,25 @@ export async function GET(
 
     // Get query parameters
     const url = new URL(request.url);
+
+    if (url.searchParams.get('format') === 'jsonl') {
+      const events = ReplayService.toEngineEvents(await EventStore.getAllEvents(gameId));
+      const redactedFor = game.status === 'FINISHED' ? null : decoded.userId;
+      const logEvents = redactedFor ? redactEventLog(events, redactedFor) : events;
+
+      const log = serializeEventLog({
+        header: createEventLogHeader(gameId, logEvents, redactedFor),
+        events: logEvents,
+      });
+
+      return new NextResponse(log, {
+        headers: {
+          'Content-Type': 'application/x-ndjson',
+          'Content-Disposition': `attachment; filename="game-${gameId}.jsonl"`,
+        },
+      });
+    }
+
     const limit = parseInt(url.searchParams.get('limit') || '50');
     const eventType = url.searchParams.get('type') || 'all';
 
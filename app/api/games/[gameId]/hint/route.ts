@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '../../../../../lib/auth';
+import { prisma } from '../../../../../src/utils/database';
+import { ReplayService } from '../../../../../src/services/replay';
+import { getHintRefusal, getMoveHints } from '../../../../../packages/common/src/game-engine/hints';
+import { HintResponse } from '../../../../../packages/common/src/types/game';
+import { getKnockLimit } from '../../../../../packages/common/src/utils/scoring';
+
+/**
+ * POST /api/games/[gameId]/hint
+ * Suggest moves for the requesting player's turn from their own hand, in games against the AI.
+ * Every hint is counted against the game, and a game with hints is not rated.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: 'Authentication failed' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = params;
+    const userId = authResult.user.id;
+    const { state } = await ReplayService.rebuildState(gameId);
+
+    const player = state.players.find(p => p.id === userId);
+    if (!player) {
+      return NextResponse.json(
+        { error: 'Access denied. You are not a player in this game.' },
+        { status: 403 }
+      );
+    }
+
+    const refusal = getHintRefusal(state, userId);
+    if (refusal) {
+      return NextResponse.json(
+        { error: refusal },
+        { status: 400 }
+      );
+    }
+
+    const hints = getMoveHints(
+      userId,
+      player.hand,
+      state.phase,
+      state.discardPile,
+      state.stockPileCount,
+      getKnockLimit(state)
+    );
+
+    const { hintsUsed } = await prisma.game.update({
+      where: { id: gameId },
+      data: { hintsUsed: { increment: 1 } },
+      select: { hintsUsed: true },
+    });
+
+    console.log(`💡 Hint: ${authResult.user.username} used hint ${hintsUsed} in game ${gameId}`);
+
+    const response: HintResponse = { hints, hintsUsed };
+    return NextResponse.json({ success: true, ...response });
+
+  } catch (error) {
+    console.error('Hint API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
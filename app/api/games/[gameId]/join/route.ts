@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
 import { verifyAuth } from '../../../../../lib/auth';
+import { createCommittedDeal } from '../../../../../lib/deal-seeds';
+import { joinMatch } from '../../../../../lib/match-series';
+import { seatPartnershipPlayer } from '../../../../../lib/partnerships';
+import { seatCutthroatPlayer } from '../../../../../lib/cutthroat';
 import { EventStore } from '../../../../../src/services/eventStore';
 import { ReplayService } from '../../../../../src/services/replay';
 import { createNotification } from '../../../../../src/utils/notifications';
@@ -88,6 +92,30 @@ export async function POST(
       );
     }
 
+    // Cutthroat and partnership games fill every seat before the cards are dealt
+    if (game.maxPlayers > 2) {
+      const seatResult = game.maxPlayers === 3
+        ? await seatCutthroatPlayer(params.gameId, user, requestId)
+        : await seatPartnershipPlayer(params.gameId, user, requestId);
+      if (!seatResult.success) {
+        const status = seatResult.code === 'STATE_VERSION_MISMATCH' ? 409 : 400;
+        return NextResponse.json({ error: seatResult.error, code: seatResult.code }, { status });
+      }
+
+      const seatedState = await ReplayService.rebuildFilteredState(params.gameId, user.id);
+      return NextResponse.json({
+        success: true,
+        streamVersion: seatedState.version,
+        gameState: seatedState.state,
+        metadata: {
+          eventType: 'PLAYER_JOINED',
+          playerId: user.id,
+          seat: seatResult.seat,
+          version: 'event-sourced-v2'
+        }
+      });
+    }
+
     if (game.player2Id && game.player2Id !== 'waiting-for-player') {
       return NextResponse.json(
         { error: 'Game is full' },
@@ -153,26 +181,16 @@ export async function POST(
     
     // For PvP games, we need to manually create the GAME_STARTED event with proper card dealing
     // since createInitialGameEvents() with vsAI=false only returns GAME_CREATED
-    const { createDeck, shuffleDeck } = await import('@gin-rummy/common');
-    const deck = shuffleDeck(createDeck());
-    
-    // Deal 10 cards to each player
-    const player1Hand = deck.splice(0, 10);
-    const player2Hand = deck.splice(0, 10);
-    const topDiscardCard = deck.splice(0, 1)[0];
+    // Shuffle from the round's seed and publish a commitment so the deal can be verified later
+    const { deal: initialDeal, seedCommitment } = createCommittedDeal(params.gameId, 1);
     
     const gameStartedEventData = {
       gameId: params.gameId,
       player1Id: game.player1Id,
       player2Id: user.id,
       startingPlayerId: game.player1Id, // Player 1 always starts first
-      initialDeal: {
-        player1Hand,
-        player2Hand,
-        topDiscardCard,
-        stockSize: deck.length,
-        stockPile: [...deck], // Remaining cards in stock
-      },
+      initialDeal,
+      seedCommitment,
     };
 
     console.log('🎮 GameJoin: Creating GAME_STARTED event with card dealing');
@@ -211,6 +229,8 @@ export async function POST(
       }
     });
 
+    await joinMatch(params.gameId, user.id);
+
     // Send notifications to both players
     try {
       // Notify Player 1 that Player 2 joined
@@ -4,10 +4,12 @@ import { PrismaClient } from '@prisma/client';
 import { randomUUID } from 'crypto';
 import { EventStore } from '../../../../../src/services/eventStore';
 import { ReplayService } from '../../../../../src/services/replay';
-import { calculateScoreWithLayOffs } from '../../../../../packages/common/src/utils/scoring';
+import { calculateScoreWithLayOffs, resolveRuleSet } from '../../../../../packages/common/src/utils/scoring';
+import { settleHollywood } from '../../../../../packages/common/src/utils/hollywood-scoring';
 import { getCardValue } from '../../../../../packages/common/src/utils/cards';
 import { Card, Meld, Rank, Suit } from '../../../../../packages/common/src/types/game';
 import { maybeCaptureSnapshot } from '../../../../../src/services/snapshot';
+import { getDealSeed } from '../../../../../lib/deal-seeds';
 
 const prisma = new PrismaClient();
 
@@ -79,10 +81,15 @@ export async function POST(
           knocker.melds || [],
           opponent.hand,
           opponent.melds || [],
-          normalizedLayoffs
+          normalizedLayoffs,
+          resolveRuleSet(currentState.state.ruleSet)
         )
       : null;
 
+    // LAYOFF_COMPLETED carries unscaled scores (the engine applies the hand multiplier on replay);
+    // the round summary and response report what was actually awarded
+    const scoreMultiplier = currentState.state.handRules?.scoreMultiplier ?? 1;
+
     let expectedVersion = currentState.version;
 
     // Emit granular layoff events for turn history
@@ -155,9 +162,11 @@ export async function POST(
           opponentId: opponent.id,
           opponentMelds: opponent.melds || [],
           scores: {
-            knocker: scoreSnapshot.knockerScore,
-            opponent: scoreSnapshot.opponentScore
-          }
+            knocker: scoreSnapshot.knockerScore * scoreMultiplier,
+            opponent: scoreSnapshot.opponentScore * scoreMultiplier
+          },
+          ...(updatedState.state.hollywood ? { hollywood: updatedState.state.hollywood } : {}),
+          seed: getDealSeed(gameId, updatedState.state.roundNumber || 1)
         },
         knocker.id
       );
@@ -180,6 +189,16 @@ export async function POST(
       });
     }
 
+    // Partnership tables score the hand once the other table has finished it too
+    if (updatedState.state.partnership) {
+      try {
+        const { scorePartnershipHand } = await import('../../../../../lib/partnerships');
+        await scorePartnershipHand(gameId);
+      } catch (partnershipError) {
+        console.error('❌ LayoffAPI: Failed to score partnership hand:', partnershipError);
+      }
+    }
+
     // Check if game should be finished after layoff completion
     if (updatedState.state.gameOver) {
       console.log('🏁 LayoffAPI: Game finished detected, creating GAME_FINISHED event');
@@ -189,6 +208,10 @@ export async function POST(
       const loser = updatedState.state.players.find(p => p.id !== updatedState.state.winner);
       
       if (winner && loser) {
+        const hollywoodSettlement = updatedState.state.hollywood
+          ? settleHollywood(updatedState.state.hollywood, [winner.id, loser.id])
+          : undefined;
+
         const gameFinishedEventData = {
           gameId: gameId,
           winnerId: winner.id,
@@ -196,7 +219,8 @@ export async function POST(
           loserId: loser.id,
           loserScore: loser.score,
           endReason: 'KNOCK' as const, // Assuming knock since we're in layoff phase
-          duration: 0
+          duration: 0,
+          ...(hollywoodSettlement ? { hollywoodSettlement } : {})
         };
 
         const finishedResult = await EventStore.appendEvent(
@@ -223,20 +247,17 @@ export async function POST(
 
         console.log(`🏆 LayoffAPI: GAME_FINISHED event created for winner ${winner.id}`);
         
-        // Update ELO ratings for PvP games
-        if (!updatedState.state.vsAI) {
-          try {
-            console.log('🎯 LayoffAPI: Game completed, processing ELO updates');
-            const { updatePlayerElos } = await import('../../../../../src/utils/elo');
-            const eloChanges = await updatePlayerElos(winner.id, loser.id, gameId);
-            console.log('✅ LayoffAPI: ELO ratings updated successfully');
+        // Update ELO ratings for PvP games, or advance the match this game belongs to
+        try {
+          console.log('🎯 LayoffAPI: Game completed, settling result');
+          const { settleFinishedGame } = await import('../../../../../lib/match-series');
+          const eloChanges = await settleFinishedGame(gameId, winner.id, loser.id, { settlement: hollywoodSettlement });
+          if (eloChanges) {
             console.log(`📊 LayoffAPI: ELO changes - Winner: +${eloChanges.winner.change}, Loser: ${eloChanges.loser.change}`);
-          } catch (eloError) {
-            console.error('❌ LayoffAPI: Failed to update ELO ratings:', eloError);
-            // Don't fail the whole request if ELO update fails
           }
-        } else {
-          console.log('🤖 LayoffAPI: Skipping ELO update for AI game');
+        } catch (eloError) {
+          console.error('❌ LayoffAPI: Failed to settle game result:', eloError);
+          // Don't fail the whole request if ELO update fails
         }
         
         // Update the games table to mark as finished
@@ -256,7 +277,7 @@ export async function POST(
       success: true,
       layOffs,
       finalScores: scoreSnapshot
-        ? { knocker: scoreSnapshot.knockerScore, opponent: scoreSnapshot.opponentScore }
+        ? { knocker: scoreSnapshot.knockerScore * scoreMultiplier, opponent: scoreSnapshot.opponentScore * scoreMultiplier }
         : { knocker: 0, opponent: 0 },
       message: 'Layoff completed successfully'
     });
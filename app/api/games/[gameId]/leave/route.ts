@@ -2,10 +2,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { verifyAccessToken } from '../../../../../src/utils/jwt';
 import { prisma } from '../../../../../src/utils/database';
 import { EventStore } from '../../../../../src/services/eventStore';
-import { updatePlayerElos } from '../../../../../src/utils/elo';
+import { cancelMatchForGame, settleFinishedGame } from '../../../../../lib/match-series';
+import { concedeCutthroatGame, getCutthroatPlayerIds, unseatCutthroatPlayer } from '../../../../../lib/cutthroat';
+import { unseatPartnershipPlayer } from '../../../../../lib/partnerships';
 import { ReplayService } from '../../../../../src/services/replay';
 import { maybeCaptureSnapshot } from '../../../../../src/services/snapshot';
 import { randomUUID } from 'crypto';
+import { getDealSeed } from '../../../../../lib/deal-seeds';
 
 export async function POST(
   request: NextRequest,
@@ -65,6 +68,53 @@ export async function POST(
       );
     }
 
+    // A cutthroat player may be in any of three seats, so the concession is worked out from the game itself
+    if (game.maxPlayers === 3 && game.status === 'ACTIVE') {
+      const seatedIds = await getCutthroatPlayerIds(gameId);
+      if (!seatedIds.includes(decoded.userId)) {
+        return NextResponse.json(
+          { error: 'You are not in this game' },
+          { status: 400 }
+        );
+      }
+
+      const winnerId = await concedeCutthroatGame(gameId, decoded.userId);
+      if (winnerId) {
+        try {
+          await settleFinishedGame(gameId, winnerId, decoded.userId);
+        } catch (error) {
+          console.error('❌ LeaveAPI: Failed to settle conceded cutthroat game:', error);
+        }
+      }
+
+      return NextResponse.json({
+        message: 'Successfully left game',
+        game: await prisma.game.findUnique({ where: { id: gameId } })
+      });
+    }
+
+    // Any cutthroat or partnership seat can be given up before the cards are dealt
+    if (game.maxPlayers > 2 && game.status === 'WAITING') {
+      const result = game.maxPlayers === 3
+        ? await unseatCutthroatPlayer(gameId, decoded.userId, randomUUID())
+        : await unseatPartnershipPlayer(gameId, decoded.userId, randomUUID());
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error },
+          { status: 400 }
+        );
+      }
+
+      if (result.cancelled) {
+        await cancelMatchForGame(gameId);
+      }
+
+      return NextResponse.json({
+        message: 'Successfully left game',
+        game: await prisma.game.findUnique({ where: { id: gameId } })
+      });
+    }
+
     // Check if user is in the game
     const isPlayer1 = game.player1Id === decoded.userId;
     const isPlayer2 = game.player2Id === decoded.userId;
@@ -76,6 +126,14 @@ export async function POST(
       );
     }
 
+    // Once the tables are dealt, a partnership is conceded from the player's own table
+    if (game.maxPlayers > 2 && game.status === 'ACTIVE') {
+      return NextResponse.json(
+        { error: 'Leave from your partnership table instead' },
+        { status: 400 }
+      );
+    }
+
     // Determine new status and update game
     let updateData: any = {};
     
@@ -139,48 +197,46 @@ export async function POST(
         const winnerId = updatedGame.winnerId;
         const loserId = winnerId === updatedGame.player1Id ? updatedGame.player2Id : updatedGame.player1Id;
         
-        if (loserId && !updatedGame.vsAI) {
-          // Update ELO ratings
-          const eloChanges = await updatePlayerElos(winnerId, loserId, gameId);
-          console.log(`✅ LeaveAPI: ELO updated - Winner: +${eloChanges.winner}, Loser: ${eloChanges.loser}`);
-          
-          // Create GAME_FINISHED event
-          const winner = winnerId === updatedGame.player1Id ? updatedGame.player1 : updatedGame.player2;
-          const loser = loserId === updatedGame.player1Id ? updatedGame.player1 : updatedGame.player2;
-          
-          if (winner && loser) {
-            const gameFinishedEventData = {
-              gameId: gameId,
-              winnerId: winner.id,
-              winnerScore: 0, // No actual game score for forfeit
-              loserId: loser.id,
-              loserScore: 0,
-              endReason: 'QUIT' as const,
-              duration: Date.now() - (updatedGame.createdAt?.getTime() || Date.now()) // Approximate duration
-            };
-
-            const currentVersion = await EventStore.getCurrentVersion(gameId);
-            const finishedResult = await EventStore.appendEvent(
-              gameId,
-              randomUUID(),
-              currentVersion,
-              'GAME_FINISHED',
-              gameFinishedEventData,
-              decoded.userId
-            );
-
-            if (finishedResult.success) {
-              const finalState = await ReplayService.rebuildState(gameId);
-              await maybeCaptureSnapshot(gameId, finishedResult.sequence, {
-                eventType: 'GAME_FINISHED',
-                force: true,
-                state: finalState.state
-              });
-            } else {
-              console.error('❌ LeaveAPI: Failed to create GAME_FINISHED event during leave:', finishedResult.error);
-            }
+        if (loserId) {
+          // Update ELO ratings where the game is rated; leaving a match game concedes the whole match
+          const eloChanges = await settleFinishedGame(gameId, winnerId, loserId, { forfeitMatch: true, forfeitReason: 'QUIT' });
+          if (eloChanges) {
+            console.log(`✅ LeaveAPI: ELO updated - Winner: +${eloChanges.winner.change}, Loser: ${eloChanges.loser.change}`);
+          }
+
+          // Create GAME_FINISHED event, revealing the seed of the hand left unfinished
+          const { state: leftState } = await ReplayService.rebuildState(gameId);
+          const gameFinishedEventData = {
+            gameId: gameId,
+            winnerId,
+            winnerScore: 0, // No actual game score for forfeit
+            loserId,
+            loserScore: 0,
+            endReason: 'QUIT' as const,
+            duration: Date.now() - (updatedGame.createdAt?.getTime() || Date.now()), // Approximate duration
+            seed: getDealSeed(gameId, leftState.roundNumber || 1)
+          };
+
+          const currentVersion = await EventStore.getCurrentVersion(gameId);
+          const finishedResult = await EventStore.appendEvent(
+            gameId,
+            randomUUID(),
+            currentVersion,
+            'GAME_FINISHED',
+            gameFinishedEventData,
+            decoded.userId
+          );
 
+          if (finishedResult.success) {
+            const finalState = await ReplayService.rebuildState(gameId);
+            await maybeCaptureSnapshot(gameId, finishedResult.sequence, {
+              eventType: 'GAME_FINISHED',
+              force: true,
+              state: finalState.state
+            });
             console.log(`🏆 LeaveAPI: GAME_FINISHED event created for forfeit win`);
+          } else {
+            console.error('❌ LeaveAPI: Failed to create GAME_FINISHED event during leave:', finishedResult.error);
           }
         }
       } catch (error) {
@@ -189,6 +245,30 @@ export async function POST(
       }
     }
 
+    // Leaving before the game starts is recorded too, so the lobby listing follows
+    if (game.status === 'WAITING') {
+      const currentVersion = await EventStore.getCurrentVersion(gameId);
+      const leftResult = updatedGame.status === 'CANCELLED'
+        ? await EventStore.appendEvent(gameId, randomUUID(), currentVersion, 'GAME_CANCELLED', {
+            gameId,
+            reason: 'PLAYER_QUIT',
+            cancelledBy: decoded.userId
+          }, decoded.userId)
+        : await EventStore.appendEvent(gameId, randomUUID(), currentVersion, 'PLAYER_LEFT', {
+            gameId,
+            playerId: decoded.userId,
+            reason: 'QUIT'
+          }, decoded.userId);
+
+      if (!leftResult.success) {
+        console.error('❌ LeaveAPI: Failed to record leaving a waiting game:', leftResult.error);
+      }
+    }
+
+    if (updatedGame.status === 'CANCELLED') {
+      await cancelMatchForGame(gameId);
+    }
+
     return NextResponse.json({
       message: 'Successfully left game',
       game: updatedGame
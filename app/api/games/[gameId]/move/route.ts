@@ -4,13 +4,17 @@ import { TurnController } from '../../../../../lib/turn-controller';
 import { getAIQueueProcessor } from '../../../../../lib/ai-queue-processor';
 import { GameActionSchema, EventType } from '../../../../../packages/common/src/types/events';
 import { verifyAuth } from '../../../../../lib/auth';
+import { createCommittedDeal, getDealSeed } from '../../../../../lib/deal-seeds';
 import { EventStore } from '../../../../../src/services/eventStore';
 import { ReplayService } from '../../../../../src/services/replay';
 import { createNotification } from '../../../../../src/utils/notifications';
-import { createDeck, shuffleDeck } from '../../../../../packages/common/src/utils/cards';
-import { calculateScoreWithLayOffs } from '../../../../../packages/common/src/utils/scoring';
+import { calculateScoreWithLayOffs, calculateDeadwood, resolveRuleSet, getKnockLimit, isKnockAllowed, isDeadHand } from '../../../../../packages/common/src/utils/scoring';
+import { settleHollywood } from '../../../../../packages/common/src/utils/hollywood-scoring';
+import { isAwaitingPartnerTable } from '../../../../../packages/common/src/utils/partnership';
+import { GamePhase } from '../../../../../packages/common/src/types/game';
 import { v4 as uuidv4 } from 'uuid';
 import { maybeCaptureSnapshot } from '../../../../../src/services/snapshot';
+import { enforceGameClock } from '../../../../../lib/clock-sweeper';
 
 const prisma = new PrismaClient();
 const turnController = new TurnController(prisma);
@@ -23,6 +27,9 @@ function generateEventData(action: any, gameState: any, userId: string): any {
   switch (action.type) {
     case 'DRAW_FROM_STOCK':
       return generateDrawFromStockEventData(gameState, userId);
+
+    case 'ROUND_DRAWN':
+      return generateRoundDrawnEventData(gameState, userId);
     
     case 'DRAW_FROM_DISCARD':
       return generateDrawFromDiscardEventData(gameState, userId);
@@ -82,6 +89,27 @@ function generateDrawFromStockEventData(gameState: any, userId: string): any {
   };
 }
 
+/**
+ * Generate event data for a drawn hand (stock down to its last two cards)
+ */
+function generateRoundDrawnEventData(gameState: any, userId: string): any {
+  if (gameState.currentPlayerId !== userId) {
+    throw new Error('Not your turn');
+  }
+  
+  if (gameState.phase !== 'draw') {
+    throw new Error(`Cannot draw from stock in phase: ${gameState.phase}`);
+  }
+  
+  return {
+    gameId: gameState.id,
+    playerId: userId,
+    roundNumber: gameState.roundNumber || 1,
+    stockRemaining: gameState.stockPileCount,
+    seed: getDealSeed(gameState.id, gameState.roundNumber || 1)
+  };
+}
+
 /**
  * Generate event data for drawing from discard pile
  */
@@ -154,24 +182,20 @@ function generatePassUpcardEventData(gameState: any, userId: string): any {
  * Generate event data for starting a new round
  */
 function generateStartNewRoundEventData(gameState: any, userId: string): any {
-  // Create new deck and deal cards
-  const deck = shuffleDeck(createDeck());
-  const player1Hand = deck.splice(0, 10);
-  const player2Hand = deck.splice(0, 10);
-  const topDiscardCard = deck.splice(0, 1)[0];
-  const stockPile = deck;
+  if (isAwaitingPartnerTable(gameState)) {
+    throw new Error('Waiting for the other table to finish the hand');
+  }
+
+  // Deal the new round from its seed and commit to it
+  const roundNumber = (gameState.roundNumber || 0) + 1;
+  const { deal: newDeal, seedCommitment } = createCommittedDeal(gameState.id, roundNumber);
   
   return {
     playerId: userId,
     gameId: gameState.id,
-    roundNumber: (gameState.roundNumber || 0) + 1,
-    newDeal: {
-      player1Hand,
-      player2Hand,
-      topDiscardCard,
-      stockSize: stockPile.length,
-      stockPile
-    }
+    roundNumber,
+    newDeal,
+    seedCommitment
   };
 }
 
@@ -218,6 +242,10 @@ function generateKnockEventData(action: any, gameState: any, userId: string): an
   if (gameState.currentPlayerId !== userId) {
     throw new Error('Not your turn');
   }
+
+  if (!isKnockAllowed(gameState.gameType)) {
+    throw new Error('Knocking is not allowed in Straight Gin - only gin ends a hand');
+  }
   
   const knocker = gameState.players.find((p: any) => p.id === userId);
   const opponent = gameState.players.find((p: any) => p.id !== userId);
@@ -254,7 +282,13 @@ function generateKnockEventData(action: any, gameState: any, userId: string): an
   // Calculate knocker's deadwood value
   const knockerDeadwoodValue = action.deadwoodValue || 0;
   
-  // Calculate scores using proper scoring function
+  // Enforce the knock limit for this hand
+  const rules = resolveRuleSet(gameState.ruleSet);
+  const knockLimit = getKnockLimit(gameState);
+  const actualDeadwood = calculateDeadwood(knockerHandAfterDiscard, knockerMelds);
+  if (actualDeadwood > knockLimit) {
+    throw new Error(`Cannot knock with ${actualDeadwood} deadwood (maximum ${knockLimit})`);
+  }
   
   // Calculate scores with proper layoff handling
   // Note: Initial scoring without layoffs - layoffs will be applied during layoff phase
@@ -263,7 +297,8 @@ function generateKnockEventData(action: any, gameState: any, userId: string): an
     knockerMelds,
     opponent.hand,
     opponentMelds,
-    [] // Empty layoffs for initial calculation - will be updated during layoff phase
+    [], // Empty layoffs for initial calculation - will be updated during layoff phase
+    rules
   );
   
   return {
@@ -319,13 +354,14 @@ function generateGinEventData(action: any, gameState: any, userId: string): any
   const ginnerMelds = action.melds || [];
   const opponentMelds = opponent.melds || [];
   
-  // Use proper gin scoring - ginner gets opponent's deadwood + 25 bonus
+  // Use proper gin scoring - ginner gets opponent's deadwood + the game's gin bonus
   const scores = calculateScoreWithLayOffs(
     handAfterDiscard,
     ginnerMelds,
     opponent.hand,
     opponentMelds,
-    [] // No layoffs allowed in gin
+    [], // No layoffs allowed in gin
+    resolveRuleSet(gameState.ruleSet)
   );
 
   return {
@@ -337,7 +373,8 @@ function generateGinEventData(action: any, gameState: any, userId: string): any
     scores: {
       ginner: scores.knockerScore, // Ginner gets the "knocker" score since they initiated
       opponent: scores.opponentScore
-    }
+    },
+    seed: getDealSeed(gameState.id, gameState.roundNumber || 1)
   };
 }
 
@@ -479,10 +516,28 @@ export async function POST(
       ...((action.type === 'knock' || action.type === 'gin') && action.cardId ? { cardToDiscard: action.cardId } : {})
     };
 
-    
+
+    // A move that arrives after the player's time ran out loses to the timeout
+    const clockResult = await enforceGameClock(params.gameId);
+    if (clockResult.eventType) {
+      return NextResponse.json(
+        {
+          error: 'Your time ran out before this move was received.',
+          code: 'CLOCK_EXPIRED',
+          timeoutEvent: clockResult.eventType,
+        },
+        { status: 409 }
+      );
+    }
+
     // STEP 4: Get current game state and validate move
     const currentStateResult = await ReplayService.rebuildState(params.gameId);
     const currentGameState = currentStateResult.state;
+
+    // Drawing with only two cards left in the stock ends the hand as a draw
+    if (backendAction.type === EventType.DRAW_FROM_STOCK && isDeadHand(currentGameState.stockPileCount)) {
+      backendAction.type = EventType.ROUND_DRAWN;
+    }
     
     // STEP 5: Generate proper event data based on current game state
     let eventData;
@@ -573,7 +628,8 @@ export async function POST(
       'KNOCK': 'knocked',
       'GIN': 'went gin',
       'TAKE_UPCARD': 'took the upcard',
-      'PASS_UPCARD': 'passed the upcard'
+      'PASS_UPCARD': 'passed the upcard',
+      'ROUND_DRAWN': 'drew the hand'
     };
 
     const moveDescription = moveDescriptions[backendAction.type] || 'made a move';
@@ -684,8 +740,21 @@ export async function POST(
     } else {
     }
 
-    // STEP 9: Process ELO rating updates if game is completed
-    if (gameState.gameOver && gameState.winner && !gameState.vsAI) {
+    // STEP 8b: Partnership tables score the hand once the other table has finished it too
+    if (gameState.partnership && gameState.phase === GamePhase.RoundOver) {
+      try {
+        const { scorePartnershipHand } = await import('../../../../../lib/partnerships');
+        const handScored = await scorePartnershipHand(params.gameId);
+        if (handScored) {
+          responseData.partnershipHand = handScored;
+        }
+      } catch (partnershipError) {
+        console.error('❌ Move: Failed to score partnership hand:', partnershipError);
+      }
+    }
+
+    // STEP 9: Process ELO rating updates (or match progress) if game is completed
+    if (gameState.gameOver && gameState.winner) {
       try {
         console.log('🎯 Move: Game completed, processing ELO updates');
         
@@ -694,23 +763,27 @@ export async function POST(
         const loserId = gameState.players.find((p: any) => p.id !== winnerId)?.id;
         
         if (loserId) {
-          const { updatePlayerElos } = await import('../../../../../src/utils/elo');
-          const eloChanges = await updatePlayerElos(winnerId, loserId, params.gameId);
+          const { settleFinishedGame } = await import('../../../../../lib/match-series');
+          const settlement = gameState.hollywood
+            ? settleHollywood(gameState.hollywood, [winnerId, loserId])
+            : undefined;
+          const eloChanges = await settleFinishedGame(params.gameId, winnerId, loserId, { settlement });
           
           // Add ELO changes to response for client to display
-          responseData.eloChanges = {
-            [winnerId]: eloChanges.winner,
-            [loserId]: eloChanges.loser
-          };
-          
-          console.log('✅ Move: ELO ratings updated successfully');
+          if (eloChanges) {
+            responseData.eloChanges = {
+              [winnerId]: eloChanges.winner,
+              [loserId]: eloChanges.loser
+            };
+            console.log('✅ Move: ELO ratings updated successfully');
+          }
           
           // Send game end streaming notification with ELO data
           const { notifyGameEnded } = await import('../../../../../src/utils/gameStreaming');
           const winnerPlayer = gameState.players.find((p: any) => p.id === winnerId);
           const loserPlayer = gameState.players.find((p: any) => p.id === loserId);
           
-          if (winnerPlayer && loserPlayer) {
+          if (winnerPlayer && loserPlayer && !gameState.vsAI) {
             await notifyGameEnded(params.gameId, {
               winner: { id: winnerId, username: winnerPlayer.username },
               loser: { id: loserId, username: loserPlayer.username },
@@ -762,7 +835,8 @@ function createTurnHistoryEntry(event: any, player: any, gameState: any) {
     'KNOCK': 'knocked',
     'GIN': 'went gin',
     'TAKE_UPCARD': 'took the upcard',
-    'PASS_UPCARD': 'passed on the upcard'
+    'PASS_UPCARD': 'passed on the upcard',
+    'ROUND_DRAWN': 'ended a dead hand with two cards left in stock'
   };
 
   const description = eventDescriptions[event.eventType] || `made a ${event.eventType.toLowerCase()} move`;
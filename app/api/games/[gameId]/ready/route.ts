@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { randomUUID } from 'crypto';
 import { verifyAuth } from '../../../../../lib/auth';
+import { createCommittedDeal } from '../../../../../lib/deal-seeds';
 import { EventStore } from '../../../../../src/services/eventStore';
 import { ReplayService } from '../../../../../src/services/replay';
 import { maybeCaptureSnapshot } from '../../../../../src/services/snapshot';
+import { isAwaitingPartnerTable } from '../../../../../packages/common/src/utils/partnership';
 
 /**
  * POST /api/games/[gameId]/ready
@@ -49,6 +51,11 @@ export async function POST(
       return NextResponse.json({ error: 'Cannot mark ready in current game phase' }, { status: 400 });
     }
 
+    // Partnership and cutthroat games deal as soon as the last seat is taken
+    if (isWaitingForPlayers && (currentState.state.partnership || currentState.state.cutthroat)) {
+      return NextResponse.json({ error: 'This game starts when every seat is filled' }, { status: 400 });
+    }
+
     // Create appropriate player ready event based on game phase
     const eventData = {
       playerId: user.id,
@@ -114,14 +121,8 @@ export async function POST(
         console.log('🚀 ReadyAPI: Both players ready, starting initial game');
         fs.appendFileSync('/tmp/ready-debug.log', `${new Date().toISOString()} - STARTING GAME for ${gameId}\n`);
         
-        // Create deck and deal cards for initial game
-        const { createDeck, shuffleDeck } = await import('../../../../../packages/common/src/utils/cards');
-        const deck = shuffleDeck(createDeck());
-        
-        // Deal 10 cards to each player
-        const player1Hand = deck.splice(0, 10);
-        const player2Hand = deck.splice(0, 10);
-        const topDiscardCard = deck.splice(0, 1)[0];
+        // Deal the initial hand from its committed seed
+        const { deal: initialDeal, seedCommitment } = createCommittedDeal(gameId, 1);
         
         const player1 = updatedState.state.players[0];
         const player2 = updatedState.state.players[1];
@@ -140,13 +141,8 @@ export async function POST(
             startingPlayerId: player1.id, // First player starts
             player1Id: player1.id,
             player2Id: player2.id,
-            initialDeal: {
-              player1Hand,
-              player2Hand,
-              topDiscardCard,
-              stockSize: deck.length,
-              stockPile: deck
-            }
+            initialDeal,
+            seedCommitment
           },
           user.id // Use the current user's ID to satisfy foreign key constraint
         );
@@ -182,17 +178,15 @@ export async function POST(
           console.error('❌ ReadyAPI: EventStore error details:', JSON.stringify(gameStartResult.error, null, 2));
           fs.appendFileSync('/tmp/ready-debug.log', `${new Date().toISOString()} - GAME_STARTED EVENT FAILED: ${JSON.stringify(gameStartResult.error)}\n`);
         }
+      } else if (isAwaitingPartnerTable(updatedState.state)) {
+        // The round starts once the other table has finished the hand and it is scored
+        console.log('⏳ ReadyAPI: Both players ready, waiting for the other partnership table');
       } else {
         console.log('🚀 ReadyAPI: Both players ready, starting new round');
         
-        // Create new round event with new deal
-        const { createDeck, shuffleDeck } = await import('../../../../../packages/common/src/utils/cards');
-        const deck = shuffleDeck(createDeck());
-        
-        // Deal 10 cards to each player
-        const player1Hand = deck.splice(0, 10);
-        const player2Hand = deck.splice(0, 10);
-        const topDiscardCard = deck.splice(0, 1)[0];
+        // Create new round event with a new committed deal
+        const roundNumber = (updatedState.state.roundNumber || 1) + 1;
+        const { deal: newDeal, seedCommitment } = createCommittedDeal(gameId, roundNumber);
         
         const newRoundResult = await EventStore.appendEvent(
           gameId,
@@ -202,14 +196,9 @@ export async function POST(
           {
             playerId: user.id,
             gameId,
-            roundNumber: (updatedState.state.roundNumber || 1) + 1,
-            newDeal: {
-              player1Hand,
-              player2Hand,
-              topDiscardCard,
-              stockSize: deck.length,
-              stockPile: deck
-            }
+            roundNumber,
+            newDeal,
+            seedCommitment
           },
           user.id
         );
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '../../../../../lib/auth';
+import { EventStore } from '../../../../../src/services/eventStore';
+import { ReplayService } from '../../../../../src/services/replay';
+import { gameRecordFromEvents } from '../../../../../packages/common/src/game-engine/game-record-events';
+import { serializeGameRecord } from '../../../../../packages/common/src/utils/game-record';
+
+/**
+ * GET /api/games/[gameId]/record
+ * Download a finished two-player game as a game record, to share it or study it elsewhere
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  try {
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: 'Authentication failed' },
+        { status: 401 }
+      );
+    }
+
+    const { gameId } = params;
+    const { state } = await ReplayService.rebuildState(gameId);
+
+    const playerIds = state.cutthroat?.seats ?? state.players.map(player => player.id);
+    if (!playerIds.includes(authResult.user.id)) {
+      return NextResponse.json(
+        { error: 'Access denied. You are not a player in this game.' },
+        { status: 403 }
+      );
+    }
+
+    // A record shows every card, so it waits until nothing is left to hide
+    if (!state.gameOver) {
+      return NextResponse.json(
+        { error: 'A game record is only available once the game is over' },
+        { status: 400 }
+      );
+    }
+
+    if (state.cutthroat || state.partnership) {
+      return NextResponse.json(
+        { error: 'Game records cover two-player games only' },
+        { status: 400 }
+      );
+    }
+
+    const events = ReplayService.toEngineEvents(await EventStore.getAllEvents(gameId));
+    const record = serializeGameRecord(gameRecordFromEvents(events));
+
+    return new NextResponse(record, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="game-${gameId}.txt"`,
+      },
+    });
+
+  } catch (error) {
+    console.error('Game record API error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { TurnController } from '../../../../../lib/turn-controller';
 import { verifyAuth } from '../../../../../lib/auth';
 import { EventStore } from '../../../../../src/services/eventStore';
 import { ReplayService } from '../../../../../src/services/replay';
+import { enforceGameClock } from '../../../../../lib/clock-sweeper';
 
 const prisma = new PrismaClient();
 const turnController = new TurnController(prisma);
@@ -48,7 +49,9 @@ async function generateTurnHistoryFromEvents(prisma: PrismaClient, gameId: strin
           'DISCARD_CARD',
           'KNOCK',
           'GIN',
-          'LAY_OFF'
+          'LAY_OFF',
+          'TIMEOUT_AUTO_PLAY',
+          'TIMEOUT_FORFEIT'
         ].includes(event.eventType);
       })
       .map((event, index) => {
@@ -85,6 +88,12 @@ async function generateTurnHistoryFromEvents(prisma: PrismaClient, gameId: strin
           case 'LAY_OFF':
             description = 'laid off cards';
             break;
+          case 'TIMEOUT_AUTO_PLAY':
+            description = 'ran out of move time and was played for';
+            break;
+          case 'TIMEOUT_FORFEIT':
+            description = 'ran out of time and forfeited';
+            break;
           default:
             description = event.eventType.toLowerCase().replace(/_/g, ' ');
         }
@@ -132,6 +141,13 @@ export async function GET(
 
     const userId = authResult.user.id;
 
+    // Record any expired clock before loading, so pollers don't wait on the sweeper
+    try {
+      await enforceGameClock(gameId);
+    } catch (error) {
+      console.warn('⚠️ StateAPI: Clock check failed:', error);
+    }
+
     // Load game state using new EventStore + ReplayService (with player filtering)
     let result;
     let streamVersion;
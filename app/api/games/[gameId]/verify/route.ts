@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '../../../../../lib/auth';
+import { verifyDeals } from '../../../../../lib/deal-seeds';
+import { EventStore } from '../../../../../src/services/eventStore';
+import { ReplayService } from '../../../../../src/services/replay';
+
+/**
+ * GET /api/games/[gameId]/verify
+ *
+ * Re-derive every deal in the game from its revealed seed and check it against
+ * the commitment published when the cards were dealt
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { gameId: string } }
+) {
+  const { gameId } = params;
+
+  try {
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: 'Authentication failed' },
+        { status: 401 }
+      );
+    }
+
+    const events = await EventStore.getAllEvents(gameId);
+    if (events.length === 0) {
+      return NextResponse.json(
+        { error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    const { state } = await ReplayService.rebuildState(gameId);
+    const report = verifyDeals(events, state.gameOver);
+    console.log(`🔐 VerifyAPI: Checked ${report.deals.length} deals for game ${gameId} - ${report.verified ? 'verified' : 'UNVERIFIED'}`);
+
+    return NextResponse.json({
+      gameId,
+      ...report,
+    });
+
+  } catch (error) {
+    console.error('❌ VerifyAPI: Failed to verify deals:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify deals' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sweepGameClocks } from '../../../../lib/clock-sweeper';
+
+/**
+ * GET /api/games/clock-sweep
+ *
+ * Scheduled job that records timeouts for timed games whose player on turn
+ * has run out of time. Refuses to run unless CRON_SECRET is set and sent as a bearer token.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('❌ ClockSweepAPI: CRON_SECRET is not configured');
+    return NextResponse.json(
+      { error: 'Clock sweep is not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const results = await sweepGameClocks();
+    const timedOut = results.filter(result => result.eventType);
+    console.log(`⏰ ClockSweepAPI: Checked ${results.length} timed games, recorded ${timedOut.length} timeouts`);
+
+    return NextResponse.json({
+      checked: results.length,
+      timeouts: timedOut,
+      errors: results.filter(result => result.error),
+    });
+
+  } catch (error) {
+    console.error('❌ ClockSweepAPI: Sweep failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to sweep game clocks' },
+      { status: 500 }
+    );
+  }
+}
@@ -23,51 +23,24 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get user's games from database
-    const games = await prisma.game.findMany({
+    // Get user's games from the lobby projection
+    const games = await prisma.lobbyGame.findMany({
       where: {
-        AND: [
-          {
-            OR: [
-              { player1Id: decoded.userId },
-              { player2Id: decoded.userId }
-            ]
-          },
-          {
-            status: {
-              in: ['WAITING', 'ACTIVE']
-            }
-          }
-        ]
+        playerIds: { has: decoded.userId },
+        status: {
+          in: ['WAITING', 'ACTIVE']
+        }
       },
       orderBy: {
-        updatedAt: 'desc'
-      },
-      include: {
-        player1: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
-            elo: true,
-          }
-        },
-        player2: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
-            elo: true,
-          }
-        }
+        lastEventAt: 'desc'
       }
     });
 
     // Format games for frontend
     const formattedGames = games.map(game => ({
-      id: game.id,
+      id: game.gameId,
       status: game.status,
-      playerCount: game.player2Id ? 2 : 1,
+      playerCount: game.playerIds.length,
       maxPlayers: game.maxPlayers,
       isPrivate: game.isPrivate,
       vsAI: game.vsAI,
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { verifyAuth } from '../../../../lib/auth';
+import { EventSourcingEngine } from '../../../../packages/common/src/game-engine/event-sourcing';
+import { gameRecordToEvents } from '../../../../packages/common/src/game-engine/game-record-events';
+import { parseGameRecord } from '../../../../packages/common/src/utils/game-record';
+
+const MAX_RECORD_LENGTH = 500_000; // Far beyond any finished game
+
+const recordRequestSchema = z.object({
+  record: z.string().min(1).max(MAX_RECORD_LENGTH),
+});
+
+/**
+ * POST /api/games/records
+ * Check an uploaded game record by playing it back through the engine. Nothing is
+ * stored; the response summarizes the game the record describes, or says where it
+ * stops making sense.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: 'Authentication failed' },
+        { status: 401 }
+      );
+    }
+
+    const parseResult = recordRequestSchema.safeParse(await request.json());
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: parseResult.error },
+        { status: 400 }
+      );
+    }
+
+    let record;
+    let events;
+    try {
+      record = parseGameRecord(parseResult.data.record);
+      events = gameRecordToEvents(record);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'The game record could not be read' },
+        { status: 400 }
+      );
+    }
+
+    const state = new EventSourcingEngine(record.header.gameId, events).replayEvents();
+
+    return NextResponse.json({
+      success: true,
+      record: {
+        gameId: record.header.gameId,
+        date: record.header.date,
+        gameType: record.header.gameType,
+        vsAI: record.header.vsAI,
+        players: record.header.players.map((player, index) => ({
+          ...player,
+          score: state.players[index]?.score ?? 0,
+        })),
+        result: record.header.result,
+        termination: record.header.termination ?? null,
+        hands: record.hands.length,
+      },
+    });
+
+  } catch (error) {
+    console.error('Game record upload error:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,11 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { PrismaClient } from '@prisma/client';
 import { TurnController } from '../../../lib/turn-controller';
 import { EventSourcedGinRummyGame } from '../../../packages/common/src/game-engine/event-sourced-gin-rummy';
+import { RuleSetSchema, GameType, TimeControlSchema, AIStrategy, Difficulty, AIPersonality, AISpeed } from '../../../packages/common/src/types/game';
 import { verifyAuth } from '../../../lib/auth';
 import { eventLogger } from '../../../lib/event-logger';
+import { createCommittedDeal } from '../../../lib/deal-seeds';
 import { EventStore } from '../../../src/services/eventStore';
 import { ReplayService } from '../../../src/services/replay';
 import { maybeCaptureSnapshot } from '../../../src/services/snapshot';
+import { createPartnershipGame } from '../../../lib/partnerships';
+import { createCutthroatGame } from '../../../lib/cutthroat';
+import { resolveAIOpponent } from '../../../lib/bots';
 import crypto from 'crypto';
 import { z } from 'zod';
 
@@ -24,8 +29,16 @@ function addCorsHeaders(response: NextResponse) {
 const CreateGameSchema = z.object({
   vsAI: z.boolean().optional().default(false),
   isPrivate: z.boolean().optional().default(false),
-  maxPlayers: z.number().min(2).max(4).optional().default(2),
+  maxPlayers: z.union([z.literal(2), z.literal(3), z.literal(4)]).optional().default(2), // 3 for cutthroat, 4 for a 2v2 partnership
   player2Id: z.string().optional(),
+  ruleSet: RuleSetSchema.optional(),
+  gameType: z.nativeEnum(GameType).optional().default(GameType.Standard),
+  timeControl: TimeControlSchema.optional(),
+  aiStrategy: z.nativeEnum(AIStrategy).optional(),
+  aiDifficulty: z.nativeEnum(Difficulty).optional(),
+  aiPersonality: z.nativeEnum(AIPersonality).optional(),
+  aiSpeed: z.nativeEnum(AISpeed).optional(),
+  botId: z.string().optional(), // AI games only: play a bot account instead of the anonymous AI
 });
 
 const ListGamesSchema = z.object({
@@ -65,9 +78,52 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { vsAI, isPrivate, player2Id } = parsed.data;
+    const { vsAI, isPrivate, maxPlayers, player2Id, ruleSet, gameType, timeControl, aiStrategy, aiDifficulty, aiPersonality, aiSpeed, botId } = parsed.data;
 
-    console.log('🎮 GameCreate: Creating game for user:', user.id, { vsAI, isPrivate, player2Id });
+    console.log('🎮 GameCreate: Creating game for user:', user.id, { vsAI, isPrivate, maxPlayers, player2Id, ruleSet, gameType, timeControl, aiStrategy, aiDifficulty, aiPersonality, aiSpeed, botId });
+
+    if (maxPlayers > 2) {
+      if (vsAI || gameType === GameType.Hollywood) {
+        return NextResponse.json(
+          { error: `${maxPlayers}-player games are played by people only and cannot use Hollywood scoring` },
+          { status: 400 }
+        );
+      }
+
+      const settings = { ruleSet, gameType, timeControl, isPrivate };
+      const gameId = maxPlayers === 4
+        ? await createPartnershipGame(user, settings)
+        : await createCutthroatGame(user, settings);
+      const stateResult = await ReplayService.rebuildFilteredState(gameId, user.id);
+
+      eventLogger.logGameEvent(gameId, 'GAME_CREATED', {
+        creator: user.id,
+        maxPlayers,
+        isPrivate,
+        eventCount: stateResult.version
+      });
+
+      return addCorsHeaders(NextResponse.json({
+        success: true,
+        gameId,
+        gameState: stateResult.state,
+        streamVersion: stateResult.version,
+        message: `${maxPlayers === 4 ? 'Partnership' : 'Cutthroat'} game created - waiting for ${maxPlayers - 1} more players`,
+        version: 'event-sourced-v2'
+      }));
+    }
+
+    // A bot always plays the way its account says
+    const aiOpponent = vsAI ? await resolveAIOpponent(botId) : null;
+    if (vsAI && !aiOpponent) {
+      return NextResponse.json(
+        { error: 'Bot not found' },
+        { status: 404 }
+      );
+    }
+    const aiSettings = aiOpponent?.bot
+      ? { aiStrategy: aiOpponent.bot.strategy, aiDifficulty: aiOpponent.bot.difficulty, aiPersonality: aiOpponent.bot.personality }
+      : { aiStrategy, aiDifficulty, aiPersonality };
 
     // Create game with event sourcing
     const result = await prisma.$transaction(async (tx) => {
@@ -79,12 +135,14 @@ export async function POST(request: NextRequest) {
         data: {
           id: gameId,
           status: 'WAITING',
-          gameType: 'STANDARD',
+          gameType,
+          clockMode: timeControl?.mode ?? null,
           player1Id: user.id,
-          player2Id: vsAI ? 'ai-player' : player2Id, // For AI games, player2 is the AI player
+          player2Id: aiOpponent ? aiOpponent.id : player2Id, // For AI games, player2 is the AI player or bot
           currentPlayerId: null, // Will be set when game starts
           isPrivate,
           vsAI,
+          aiDifficulty: vsAI ? aiSettings.aiDifficulty ?? Difficulty.Medium : null,
           maxPlayers: 2,
           eventCount: 0,
           streamVersion: 0, // Initialize stream version
@@ -95,12 +153,14 @@ export async function POST(request: NextRequest) {
 
       // STEP 2: Generate initial events using event-sourced game engine
       const eventSourcedGame = new EventSourcedGinRummyGame(gameId);
+      const { deal: initialDeal, seedCommitment } = createCommittedDeal(gameId, 1);
       const initialEvents = eventSourcedGame.createInitialGameEvents(
         user.id,
-        vsAI ? 'ai-player' : (player2Id || 'waiting-for-player'),
+        aiOpponent ? aiOpponent.id : (player2Id || 'waiting-for-player'),
         vsAI,
         user.username, // player1Username
-        vsAI ? 'AI' : undefined // player2Username (only for AI games)
+        aiOpponent?.username, // player2Username (only for AI games)
+        { ruleSet, gameType, timeControl, initialDeal, seedCommitment, ...aiSettings, aiSpeed }
       );
 
       console.log('🎮 GameCreate: Generated initial events:', initialEvents.length);
@@ -144,6 +204,7 @@ export async function POST(request: NextRequest) {
     });
 
     console.log('🎮 GameCreate: Transaction completed successfully');
+    await EventStore.updateProjections(result.gameId);
 
     // STEP 5: Load the created game state using new ReplayService
     const stateResult = await ReplayService.rebuildFilteredState(result.gameId, user.id);
@@ -227,7 +288,7 @@ export async function GET(request: NextRequest) {
 
     const { status, limit, offset } = parsed.data;
 
-    // Build where clause
+    // Build where clause against the lobby read model
     const where: any = {};
     if (status) {
       where.status = status;
@@ -241,57 +302,32 @@ export async function GET(request: NextRequest) {
     // Exclude PvE games from public lobby - they should only appear in "My Games"
     where.vsAI = false;
 
-    // Exclude games where the current user is already a participant
-    where.AND = [
-      {
-        player1Id: {
-          not: authResult.user.id
-        }
-      },
-      {
-        OR: [
-          { player2Id: null },
-          { player2Id: { not: authResult.user.id } }
-        ]
-      }
-    ];
+    // Partnership tables are reached through their partnership game
+    where.parentGameId = null;
 
-    // Get games from database
+    // Exclude games where the current user is already seated
+    where.NOT = {
+      playerIds: { has: authResult.user.id }
+    };
+
+    // Get games from the lobby projection
     const [games, total] = await Promise.all([
-      prisma.game.findMany({
+      prisma.lobbyGame.findMany({
         where,
         skip: offset,
         take: limit,
         orderBy: {
           createdAt: 'desc'
-        },
-        include: {
-          player1: {
-            select: {
-              id: true,
-              username: true,
-              email: true,
-              elo: true,
-            }
-          },
-          player2: {
-            select: {
-              id: true,
-              username: true,
-              email: true,
-              elo: true,
-            }
-          }
         }
       }),
-      prisma.game.count({ where })
+      prisma.lobbyGame.count({ where })
     ]);
 
     // Format games for frontend
     const formattedGames = games.map(game => ({
-      id: game.id,
+      id: game.gameId,
       status: game.status,
-      playerCount: game.player2Id ? 2 : 1,
+      playerCount: game.playerIds.length,
       maxPlayers: game.maxPlayers,
       isPrivate: game.isPrivate,
       vsAI: game.vsAI,
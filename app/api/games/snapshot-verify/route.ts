@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyRecentSnapshots } from '../../../../lib/snapshot-verifier';
+
+/**
+ * GET /api/games/snapshot-verify
+ *
+ * Scheduled job that replays games with recent snapshots from their first event
+ * and invalidates snapshots that diverge. Refuses to run unless CRON_SECRET is set and sent as a bearer token.
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) {
+    console.error('❌ SnapshotVerifyAPI: CRON_SECRET is not configured');
+    return NextResponse.json(
+      { error: 'Snapshot verification is not configured' },
+      { status: 500 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json(
+      { error: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const results = await verifyRecentSnapshots();
+    const invalidated = results.filter(result => result.invalidated.length > 0);
+    console.log(`📸 SnapshotVerifyAPI: Verified ${results.length} games, invalidated snapshots in ${invalidated.length}`);
+
+    return NextResponse.json({
+      verified: results.length,
+      invalidated,
+      errors: results.filter(result => result.error),
+    });
+
+  } catch (error) {
+    console.error('❌ SnapshotVerifyAPI: Verification failed:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify snapshots' },
+      { status: 500 }
+    );
+  }
+}
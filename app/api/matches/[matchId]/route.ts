@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyAuth } from '../../../../lib/auth';
+import { getMatchStandings } from '../../../../lib/match-series';
+
+/**
+ * GET /api/matches/[matchId]
+ *
+ * Match standings: game wins per player and the games played so far
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { matchId: string } }
+) {
+  try {
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: 'Authentication failed' },
+        { status: 401 }
+      );
+    }
+
+    const match = await getMatchStandings(params.matchId);
+    if (!match) {
+      return NextResponse.json(
+        { error: 'Match not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ match });
+
+  } catch (error) {
+    console.error('❌ MatchAPI: Failed to load match:', error);
+    return NextResponse.json(
+      { error: 'Failed to load match' },
+      { status: 500 }
+    );
+  }
+}
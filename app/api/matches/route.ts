@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PrismaClient } from '@prisma/client';
+import { z } from 'zod';
+import { verifyAuth } from '../../../lib/auth';
+import { createMatch, getMatchStandings } from '../../../lib/match-series';
+import { CreateMatchSchema, MatchStandings } from '../../../packages/common/src/types/game';
+
+const prisma = new PrismaClient();
+
+const ListMatchesSchema = z.object({
+  userId: z.string().optional(),
+  limit: z.coerce.number().min(1).max(50).optional().default(10),
+});
+
+/**
+ * POST /api/matches
+ *
+ * Create a best-of-N match and its first game. Takes the same options as
+ * game creation plus bestOf; every game in the match reuses them.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: 'Authentication failed' },
+        { status: 401 }
+      );
+    }
+
+    const user = authResult.user;
+    const body = await request.json().catch(() => ({}));
+
+    const parsed = CreateMatchSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const { bestOf, vsAI, isPrivate, player2Id, ruleSet, gameType, timeControl, aiStrategy, aiDifficulty, aiPersonality, aiSpeed, botId } = parsed.data;
+
+    console.log(`🏆 MatchCreate: Creating best-of-${bestOf} match for user:`, user.id, { vsAI, gameType });
+
+    const { matchId, gameId } = await createMatch({
+      creator: { id: user.id, username: user.username },
+      bestOf,
+      vsAI,
+      player2Id,
+      botId,
+      settings: { ruleSet, gameType, timeControl, isPrivate, aiStrategy, aiDifficulty, aiPersonality, aiSpeed },
+    });
+
+    return NextResponse.json({
+      success: true,
+      matchId,
+      gameId,
+      match: await getMatchStandings(matchId),
+    });
+
+  } catch (error) {
+    console.error('❌ MatchCreate: Failed to create match:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to create match',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/matches
+ *
+ * Recent matches for the current user, or for another player with ?userId=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await verifyAuth(request);
+    if (!authResult.success) {
+      return NextResponse.json(
+        { error: 'Authentication failed' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsed = ListMatchesSchema.safeParse(Object.fromEntries(searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const userId = parsed.data.userId || authResult.user.id;
+    const matches = await prisma.match.findMany({
+      where: {
+        OR: [{ player1Id: userId }, { player2Id: userId }],
+      },
+      orderBy: { createdAt: 'desc' },
+      take: parsed.data.limit,
+      select: { id: true },
+    });
+
+    const standings = await Promise.all(matches.map(match => getMatchStandings(match.id)));
+
+    return NextResponse.json({
+      matches: standings.filter((match): match is MatchStandings => !!match),
+    });
+
+  } catch (error) {
+    console.error('❌ MatchList: Failed to list matches:', error);
+    return NextResponse.json(
+      { error: 'Failed to list matches' },
+      { status: 500 }
+    );
+  }
+}
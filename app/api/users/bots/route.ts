@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { listBots } from '../../../../lib/bots';
+
+/**
+ * GET /api/users/bots
+ *
+ * The bot roster with each bot's rating and how it plays, weakest first
+ */
+export async function GET() {
+  try {
+    const bots = await listBots();
+    return NextResponse.json({ bots });
+
+  } catch (error) {
+    console.error('Get bots error:', error);
+    return NextResponse.json(
+      { error: 'Failed to get bots' },
+      { status: 500 }
+    );
+  }
+}
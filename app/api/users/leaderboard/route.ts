@@ -6,20 +6,24 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const limit = Math.max(1, Math.min(100, parseInt(searchParams.get('limit') || '50') || 50));
     const offset = Math.max(0, parseInt(searchParams.get('offset') || '0') || 0);
+    const includeBots = searchParams.get('includeBots') === 'true';
+
+    // Only include users who have played games; bots only on request
+    const where = {
+      gamesPlayed: { gt: 0 },
+      ...(includeBots ? {} : { isBot: false })
+    };
 
     // Get top players by ELO
     const users = await prisma.user.findMany({
-      where: {
-        gamesPlayed: {
-          gt: 0 // Only include users who have played games
-        }
-      },
+      where,
       select: {
         id: true,
         username: true,
         elo: true,
         gamesPlayed: true,
         gamesWon: true,
+        isBot: true,
         createdAt: true
       },
       orderBy: {
@@ -37,13 +41,7 @@ export async function GET(request: NextRequest) {
     }));
 
     // Get total count for pagination
-    const totalUsers = await prisma.user.count({
-      where: {
-        gamesPlayed: {
-          gt: 0
-        }
-      }
-    });
+    const totalUsers = await prisma.user.count({ where });
 
     return NextResponse.json({
       users: leaderboard,
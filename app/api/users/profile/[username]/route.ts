@@ -116,7 +116,15 @@ export async function GET(
       updatedAt: user.updatedAt,
       winRate,
       recentGames,
-      eloHistory
+      eloHistory,
+      isBot: user.isBot,
+      ...(user.isBot && {
+        bot: {
+          strategy: user.botStrategy,
+          difficulty: user.botDifficulty,
+          personality: user.botPersonality
+        }
+      })
     };
 
     return NextResponse.json(profile);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAccessToken } from '../../../../src/utils/jwt';
 import { prisma } from '../../../../src/utils/database';
+import { Difficulty } from '../../../../packages/common/src/types/game';
 
 export async function GET(request: NextRequest) {
   try {
@@ -52,57 +53,22 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get player1 games
-    const player1Games = await prisma.game.findMany({
-      where: {
-        player1Id: userId,
-        status: 'FINISHED'
-      },
-      select: {
-        id: true,
-        knockType: true,
-        winnerId: true,
-        player1Score: true,
-        player2Score: true,
-        duration: true,
-        createdAt: true
-      }
+    // Finished games from the player results projection, newest first
+    const results = await prisma.playerResult.findMany({
+      where: { userId },
+      orderBy: { finishedAt: 'desc' }
     });
 
-    // Get player2 games
-    const player2Games = await prisma.game.findMany({
-      where: {
-        player2Id: userId,
-        status: 'FINISHED'
-      },
-      select: {
-        id: true,
-        knockType: true,
-        winnerId: true,
-        player1Score: true,
-        player2Score: true,
-        duration: true,
-        createdAt: true
-      }
-    });
-
-    // Combine all games
-    const allGames = [
-      ...player1Games.map(game => ({
-        ...game,
-        isPlayer1: true,
-        userScore: game.player1Score || 0,
-        opponentScore: game.player2Score || 0,
-        won: game.winnerId === userId
-      })),
-      ...player2Games.map(game => ({
-        ...game,
-        isPlayer1: false,
-        userScore: game.player2Score || 0,
-        opponentScore: game.player1Score || 0,
-        won: game.winnerId === userId
-      }))
-    ].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    const allGames = results.map(result => ({
+      id: result.gameId,
+      knockType: result.endReason,
+      won: result.won,
+      userScore: result.pointsFor,
+      opponentScore: result.pointsAgainst,
+      duration: result.durationMs,
+      vsAI: result.vsAI,
+      aiDifficulty: result.aiDifficulty
+    }));
 
     // Calculate detailed statistics
     const totalGames = allGames.length;
@@ -138,6 +104,41 @@ export async function GET(request: NextRequest) {
     const recentWins = recentGames.filter(game => game.won).length;
     const recentWinRate = recentGames.length > 0 ? (recentWins / recentGames.length) * 100 : 0;
 
+    // PvE results, tracked apart and broken down by the AI's difficulty
+    const pveGames = allGames.filter(game => game.vsAI);
+    const pveWins = pveGames.filter(game => game.won).length;
+    const pveByDifficulty = Object.fromEntries(
+      Object.values(Difficulty).map(difficulty => {
+        const games = pveGames.filter(game => (game.aiDifficulty || Difficulty.Medium) === difficulty);
+        const wins = games.filter(game => game.won).length;
+        return [difficulty, { wins, losses: games.length - wins }];
+      })
+    );
+
+    // Head-to-head records against the players met most often
+    const records = await prisma.headToHead.findMany({
+      where: { playerId: userId },
+      orderBy: { lastPlayedAt: 'desc' }
+    });
+    const opponents = await prisma.user.findMany({
+      where: { id: { in: records.map(record => record.opponentId) } },
+      select: { id: true, username: true, isBot: true }
+    });
+    const headToHead = records
+      .map(record => {
+        const opponent = opponents.find(user => user.id === record.opponentId);
+        return {
+          opponentId: record.opponentId,
+          username: opponent?.username ?? 'AI',
+          isBot: opponent?.isBot ?? false,
+          wins: record.wins,
+          losses: record.losses,
+          lastPlayedAt: record.lastPlayedAt
+        };
+      })
+      .sort((a, b) => (b.wins + b.losses) - (a.wins + a.losses))
+      .slice(0, 10);
+
     // ELO progression
     const currentElo = user.elo;
     const eloHistory = user.eloHistory.reverse().map(entry => ({
@@ -183,6 +184,17 @@ export async function GET(request: NextRequest) {
       averageOpponentScore: Math.round(avgOpponentScore),
       averageDuration: Math.round(avgDuration / 1000), // Convert to seconds
       
+      // Games against the AI
+      pve: {
+        gamesPlayed: pveGames.length,
+        gamesWon: pveWins,
+        winRate: pveGames.length > 0 ? (pveWins / pveGames.length) * 100 : 0,
+        byDifficulty: pveByDifficulty
+      },
+      
+      // Records against individual opponents
+      headToHead,
+
       // Recent performance
       recentPerformance: {
         games: recentGames.length,
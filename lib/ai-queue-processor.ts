@@ -1,9 +1,18 @@
 import { PrismaClient } from '@prisma/client';
 import { TurnController } from './turn-controller';
 import { GameStateLoader } from './game-state-loader';
-import { EventType } from '../packages/common/src/types/events';
+import { AIMoveCompletedEventData, EventType, GameAction, GameEvent } from '../packages/common/src/types/events';
 import { AIPlayer } from '../packages/common/src/game-engine/ai-player';
-import { GamePhase } from '../packages/common/src/types/game';
+import { ExpertAIPlayer } from '../packages/common/src/game-engine/expert-ai-player';
+import { MasterAIPlayer, SearchBudget } from '../packages/common/src/game-engine/master-ai-player';
+import { OpponentModel } from '../packages/common/src/game-engine/opponent-model';
+import { getThinkTime, scaleForSpeed } from '../packages/common/src/game-engine/pacing';
+import { AIPersonality, AIRationale, AIStrategy, Difficulty, GameMove, GameState, MoveType } from '../packages/common/src/types/game';
+import { getKnockLimit } from '../packages/common/src/utils/scoring';
+import { EventStore } from '../src/services/eventStore';
+import { settleFinishedGame } from './match-series';
+
+const ROUND_REVIEW_MS = 5000; // Time for the human to read the round results before the AI lays off
 
 /**
  * AI Queue Processor - Deterministic AI Move Processing
@@ -21,9 +30,11 @@ export class AIQueueProcessor {
   private gameStateLoader: GameStateLoader;
   private processingQueue = new Map<string, Promise<void>>();
   private isProcessing = false;
+  private searchBudget: Partial<SearchBudget>;
 
-  constructor(prisma: PrismaClient) {
+  constructor(prisma: PrismaClient, searchBudget: Partial<SearchBudget> = {}) {
     this.prisma = prisma;
+    this.searchBudget = searchBudget;
     this.turnController = new TurnController(prisma);
     this.gameStateLoader = new GameStateLoader(prisma);
   }
@@ -109,18 +120,20 @@ export class AIQueueProcessor {
 
       console.log(`🤖 AIQueue: Confirmed AI turn for player ${aiPlayer.id}`);
 
-      // STEP 3: Show AI thinking indicators
-      await this.showAIThinking(gameId, gameState);
-
-      // STEP 4: Generate AI move based on current phase
-      const aiAction = await this.generateAIAction(gameState, aiPlayer.id);
-      if (!aiAction) {
+      // STEP 3: Generate AI move based on current phase
+      const generated = await this.generateAIAction(gameId, gameState, aiPlayer.id);
+      if (!generated) {
         console.error('🤖 AIQueue: Failed to generate valid AI action');
         return;
       }
 
+      const { action: aiAction, rationale } = generated;
       console.log(`🤖 AIQueue: Generated AI action: ${aiAction.type}`);
 
+      // STEP 4: Show AI thinking indicators, paced to how hard the decision was
+      const thinkTime = getThinkTime(rationale, gameState.stockPileCount, gameState.aiSpeed);
+      await this.showAIThinking(rationale ? AIPlayer.describeRationale(rationale) : [], thinkTime - (Date.now() - startTime));
+
       // STEP 5: Process AI move through TurnController (same as human moves)
       console.log('🤖 AIQueue: Processing AI move through TurnController...');
       const result = await this.turnController.processTurn(gameId, aiPlayer.id, aiAction);
@@ -138,6 +151,18 @@ export class AIQueueProcessor {
         newCurrentPlayer: result.gameState.currentPlayerId
       });
 
+      if (rationale) {
+        await this.recordAIMove(gameId, aiPlayer.id, result.event, rationale, processingTime);
+      }
+
+      // A finishing AI move still has to move any match along
+      if (result.gameState.gameOver && result.gameState.winner) {
+        const loserId = result.gameState.players.find(p => p.id !== result.gameState.winner)?.id;
+        if (loserId) {
+          await settleFinishedGame(gameId, result.gameState.winner, loserId);
+        }
+      }
+
       // STEP 5.5: Generate turn history entry for this AI move
       // TEMPORARILY DISABLED FOR DEBUGGING
       console.log('🤖 AIQueue: AI turn history generation temporarily disabled for debugging');
@@ -160,115 +185,133 @@ export class AIQueueProcessor {
   }
 
   /**
-   * Show AI thinking with realistic delay and thoughts
+   * Show AI thinking for whatever is left of its think time once the move is generated
    */
-  private async showAIThinking(gameId: string, gameState: any): Promise<void> {
-    // Generate contextual AI thoughts based on game state
-    const thoughts = this.generateAIThoughts(gameState);
-    
+  private async showAIThinking(thoughts: string[], remainingMs: number): Promise<void> {
     console.log(`🤖 AIQueue: AI thinking with thoughts:`, thoughts);
-    
-    // TODO: In future, create AI_THINKING_STARTED event
-    // For now, trigger thinking via WebSocket-like mechanism
-    // We'll add a simple way to communicate with the frontend
-    
-    const thinkingTime = Math.random() * 1500 + 2000; // 2-3.5 seconds to show thoughts
-    console.log(`🤖 AIQueue: AI thinking for ${Math.round(thinkingTime)}ms...`);
-    await new Promise(resolve => setTimeout(resolve, thinkingTime));
+
+    if (remainingMs <= 0) {
+      return;
+    }
+    console.log(`🤖 AIQueue: AI thinking for ${Math.round(remainingMs)}ms...`);
+    await new Promise(resolve => setTimeout(resolve, remainingMs));
   }
-  
+
   /**
-   * Generate contextual AI thoughts based on current game state
+   * Record why the AI made a move in an AI_MOVE_COMPLETED event straight after it.
+   * A human move that gets in first wins; the rationale is only lost, never the move.
    */
-  private generateAIThoughts(gameState: any): string[] {
-    const thoughts: string[] = [];
-    const aiPlayer = gameState.players.find((p: any) => p.id !== gameState.players[0].id);
-    
-    if (!aiPlayer) {
-      return ['Analyzing game state...'];
-    }
-    
-    const phase = gameState.phase;
-    const handSize = aiPlayer.handSize;
-    const discardPile = gameState.discardPile;
-    const topCard = discardPile && discardPile.length > 0 ? discardPile[0] : null;
-    
-    switch (phase) {
-      case 'draw':
-        thoughts.push('Hmm, should I draw from the stock or discard pile?');
-        if (topCard) {
-          thoughts.push(`The discard pile has a ${topCard.rank} of ${topCard.suit}...`);
-          thoughts.push('Let me consider if this card helps my hand.');
-        }
-        thoughts.push('I think I\'ll draw from the stock pile.');
-        break;
-        
-      case 'discard':
-        thoughts.push('Time to discard a card...');
-        thoughts.push('Let me analyze which card is least useful.');
-        if (handSize > 10) {
-          thoughts.push('I have too many cards, need to discard wisely.');
-        }
-        break;
-        
-      case 'upcard_decision':
-        if (topCard) {
-          thoughts.push(`Initial upcard is ${topCard.rank} of ${topCard.suit}...`);
-          thoughts.push('Should I take it or pass?');
-          thoughts.push('I\'ll pass for now and see what I draw.');
-        }
-        break;
-        
-      default:
-        thoughts.push('Analyzing the current situation...');
-        thoughts.push('Calculating optimal move...');
+  private async recordAIMove(
+    gameId: string,
+    playerId: string,
+    moveEvent: GameEvent,
+    rationale: AIRationale,
+    thinkingDuration: number
+  ): Promise<void> {
+    const data: AIMoveCompletedEventData = {
+      playerId,
+      moveType: moveEvent.eventType,
+      moveData: moveEvent.eventData,
+      thinkingDuration,
+    };
+
+    const result = await EventStore.appendEvent(
+      gameId,
+      null,
+      moveEvent.sequenceNumber,
+      EventType.AI_MOVE_COMPLETED,
+      data,
+      playerId,
+      { rationale }
+    );
+    if (!result.success) {
+      console.warn(`🤖 AIQueue: Could not record AI rationale: ${result.error?.message}`);
     }
-    
-    return thoughts;
   }
 
   /**
-   * Generate AI action based on current game state
+   * Generate AI action based on current game state, playing at the game's chosen
+   * strategy, difficulty and personality
    */
-  private async generateAIAction(gameState: any, aiPlayerId: string): Promise<any> {
+  private async generateAIAction(
+    gameId: string,
+    gameState: GameState,
+    aiPlayerId: string
+  ): Promise<{ action: GameAction; rationale: AIRationale | null } | null> {
     console.log(`🤖 AIQueue: Generating action for phase: ${gameState.phase}`);
 
-    switch (gameState.phase) {
-      case 'draw':
-        // AI chooses between drawing from stock or discard pile
-        // For now, simple logic: prefer discard if it helps
-        return {
-          type: EventType.DRAW_FROM_STOCK,
-          gameId: gameState.id,
-          playerId: aiPlayerId
-        };
-
-      case 'discard':
-        // AI needs to discard a card
-        const aiPlayer = gameState.players.find((p: any) => p.id === aiPlayerId);
-        if (!aiPlayer || aiPlayer.hand.length === 0) {
-          console.error('🤖 AIQueue: AI player has no cards to discard');
-          return null;
-        }
+    const aiPlayer = gameState.players.find(p => p.id === aiPlayerId);
+    const opponent = gameState.players.find(p => p.id !== aiPlayerId);
+    if (!aiPlayer || !opponent || aiPlayer.hand.length === 0) {
+      console.error('🤖 AIQueue: AI player has no hand to play');
+      return null;
+    }
 
-        // Simple logic: discard first card (in real game, this would be smarter)
-        return {
-          type: EventType.DISCARD_CARD,
-          gameId: gameState.id,
-          playerId: aiPlayerId,
-          cardId: aiPlayer.hand[0].id
-        };
-
-      case 'upcard_decision':
-        // AI decides whether to take the initial upcard
-        return {
-          type: 'PASS_UPCARD', // This might need to be added to EventType
-          gameId: gameState.id,
-          playerId: aiPlayerId
-        };
+    const strategy = gameState.aiStrategy ?? AIStrategy.Standard;
+    const difficulty = gameState.aiDifficulty ?? Difficulty.Medium;
+    const personality = gameState.aiPersonality ?? AIPersonality.Balanced;
+
+    let ai: AIPlayer;
+    if (strategy === AIStrategy.Standard) {
+      ai = new AIPlayer(aiPlayerId, personality);
+    } else {
+      const events = await EventStore.getAllEvents(gameId);
+      const model = OpponentModel.fromEvents(
+        events.map(event => ({ eventType: event.eventType as EventType, eventData: event.eventData })),
+        opponent.id
+      );
+      console.log(`🤖 AIQueue: ${strategy} AI opponent model:`, {
+        knownCards: model.getKnownCards().map(c => `${c.rank}${c.suit}`).join(', ') || 'none',
+        rejectedCards: model.getRejectedCards().length,
+        estimatedDeadwood: model.estimateDeadwood(aiPlayer.hand)
+      });
 
+      ai = strategy === AIStrategy.Master
+        ? new MasterAIPlayer(aiPlayerId, model, this.searchBudget, Math.random, personality)
+        : new ExpertAIPlayer(aiPlayerId, model, personality);
+    }
+
+    const move = ai.getMoveWithDifficulty(
+      aiPlayer.hand,
+      gameState.phase,
+      gameState.discardPile,
+      gameState.stockPileCount,
+      difficulty,
+      getKnockLimit(gameState)
+    );
+
+    const searchStats = ai instanceof MasterAIPlayer ? ai.getSearchStats() : null;
+    if (searchStats) {
+      console.log(`🤖 AIQueue: Master AI searched ${searchStats.iterations} rollouts in ${searchStats.elapsedMs}ms`);
+    }
+
+    const action = this.toGameAction(gameId, move);
+    return action ? { action, rationale: ai.getLastRationale() } : null;
+  }
+
+  /**
+   * Convert an AI move into the action TurnController expects
+   */
+  private toGameAction(gameId: string, move: GameMove): GameAction | null {
+    const base = { gameId, playerId: move.playerId };
+
+    switch (move.type) {
+      case MoveType.TakeUpcard:
+        return { ...base, type: EventType.TAKE_UPCARD };
+      case MoveType.PassUpcard:
+        return { ...base, type: EventType.PASS_UPCARD };
+      case MoveType.DrawStock:
+        return { ...base, type: EventType.DRAW_FROM_STOCK };
+      case MoveType.DrawDiscard:
+        return { ...base, type: EventType.DRAW_FROM_DISCARD };
+      case MoveType.Discard:
+        return { ...base, type: EventType.DISCARD_CARD, cardId: move.cardId! };
+      case MoveType.Knock:
+        return { ...base, type: EventType.KNOCK, melds: move.melds || [], cardToDiscard: move.cardId! };
+      case MoveType.Gin:
+        return { ...base, type: EventType.GIN, melds: move.melds || [], cardToDiscard: move.cardId! };
       default:
-        console.warn(`🤖 AIQueue: Unhandled game phase: ${gameState.phase}`);
+        console.warn(`🤖 AIQueue: Unhandled AI move: ${move.type}`);
         return null;
     }
   }
@@ -332,7 +375,7 @@ export class AIQueueProcessor {
       });
 
       // Create AI player instance for decision making
-      const ai = new AIPlayer(aiPlayer.id);
+      const ai = new AIPlayer(aiPlayer.id, gameState.aiPersonality);
       
       // Calculate available layoffs
       const availableLayoffs = ai.calculateOptimalLayoffs(
@@ -345,36 +388,20 @@ export class AIQueueProcessor {
         `${lo.cards.map(c => `${c.rank}${c.suit}`).join(',')} → ${lo.targetMeld.type}(${lo.targetMeld.cards.map(c => `${c.rank}${c.suit}`).join(',')})`
       ));
       
-      // Debug: Show AI deadwood cards and knocker melds in detail
-      const aiDeadwood = aiPlayer.hand.filter((card: any) => {
-        const meldedCardIds = new Set((aiPlayer.melds || []).flatMap((meld: any) => meld.cards.map((c: any) => c.id)));
-        return !meldedCardIds.has(card.id);
-      });
-      console.log(`🤖 AIQueue: AI deadwood cards:`, aiDeadwood.map(c => `${c.rank}${c.suit}`).join(', '));
-      console.log(`🤖 AIQueue: Testing each AI deadwood card against each knocker meld:`);
-      
-      aiDeadwood.forEach((card: any) => {
-        (knocker.melds || []).forEach((meld: any, meldIndex: number) => {
-          const canLayoff = card.rank === meld.cards[0].rank || (
-            meld.type === 'run' && card.suit === meld.cards[0].suit
-          );
-          console.log(`🤖 AIQueue:   ${card.rank}${card.suit} vs Meld${meldIndex}[${meld.type}: ${meld.cards.map((c: any) => `${c.rank}${c.suit}`).join(',')}] → ${canLayoff ? 'CAN LAYOFF' : 'cannot layoff'}`);
-        });
-      });
-
       // Decide whether to perform layoffs
       const shouldLayoff = ai.shouldPerformLayoffs(
         aiPlayer.hand,
         aiPlayer.melds || [],
         knocker.melds || [],
-        'medium' // Default difficulty
+        gameState.aiDifficulty ?? Difficulty.Medium
       );
 
       console.log(`🤖 AIQueue: AI layoff decision: ${shouldLayoff ? 'LAYOFF' : 'SKIP'}, available layoffs: ${availableLayoffs.length}`);
 
       // Add delay for human player to review round results before AI processes layoffs
-      console.log('🤖 AIQueue: Waiting 5 seconds for human player to review round results...');
-      await new Promise(resolve => setTimeout(resolve, 5000));
+      const reviewTime = scaleForSpeed(ROUND_REVIEW_MS, gameState.aiSpeed);
+      console.log(`🤖 AIQueue: Waiting ${reviewTime}ms for human player to review round results...`);
+      await new Promise(resolve => setTimeout(resolve, reviewTime));
 
       // Create and process the AI layoff decision action
       const layoffAction = {
@@ -436,7 +463,8 @@ export class AIQueueProcessor {
       'GIN': 'went gin',
       'TAKE_UPCARD': 'took the upcard',
       'PASS_UPCARD': 'passed on the upcard',
-      'AI_LAYOFF_DECISION': 'decided on layoffs'
+      'AI_LAYOFF_DECISION': 'decided on layoffs',
+      'ROUND_DRAWN': 'ended a dead hand with two cards left in stock'
     };
 
     const description = eventDescriptions[event.eventType] || `made a ${event.eventType.toLowerCase()} move`;
@@ -458,7 +486,11 @@ let aiQueueProcessor: AIQueueProcessor | null = null;
 
 export function getAIQueueProcessor(prisma: PrismaClient): AIQueueProcessor {
   if (!aiQueueProcessor) {
-    aiQueueProcessor = new AIQueueProcessor(prisma);
+    // Keeps the master AI's search from holding up the server
+    aiQueueProcessor = new AIQueueProcessor(prisma, {
+      ...(process.env.AI_SEARCH_MAX_MS ? { maxMillis: Number(process.env.AI_SEARCH_MAX_MS) } : {}),
+      ...(process.env.AI_SEARCH_MAX_ITERATIONS ? { maxIterations: Number(process.env.AI_SEARCH_MAX_ITERATIONS) } : {}),
+    });
     console.log('🤖 AIQueue: Initialized AI queue processor singleton');
   }
   return aiQueueProcessor;
@@ -0,0 +1,77 @@
+/**
+ * Bot Accounts
+ *
+ * Named computer opponents that are real users. A bot always plays with the
+ * strategy, difficulty and personality on its account, and unlike the anonymous
+ * AI its games are rated, so its ELO tracks how strong it really is.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { AIPersonality, AIStrategy, Difficulty } from '../packages/common/src/types/game';
+import { BotUser } from '../packages/common/src/types/user';
+
+const prisma = new PrismaClient();
+
+export const AI_PLAYER_ID = 'ai-player'; // The anonymous, unrated AI
+
+const BOT_SELECT = {
+  id: true,
+  username: true,
+  elo: true,
+  gamesPlayed: true,
+  gamesWon: true,
+  botStrategy: true,
+  botDifficulty: true,
+  botPersonality: true,
+} as const;
+
+function toBotUser(user: any): BotUser {
+  return {
+    id: user.id,
+    username: user.username,
+    elo: user.elo,
+    gamesPlayed: user.gamesPlayed,
+    gamesWon: user.gamesWon,
+    strategy: (user.botStrategy as AIStrategy) ?? AIStrategy.Standard,
+    difficulty: (user.botDifficulty as Difficulty) ?? Difficulty.Medium,
+    personality: (user.botPersonality as AIPersonality) ?? AIPersonality.Balanced,
+  };
+}
+
+/**
+ * Every bot, weakest first
+ */
+export async function listBots(): Promise<BotUser[]> {
+  const bots = await prisma.user.findMany({
+    where: { isBot: true },
+    select: BOT_SELECT,
+    orderBy: { elo: 'asc' },
+  });
+  return bots.map(toBotUser);
+}
+
+/**
+ * A bot by id, or null if there is no such bot
+ */
+export async function findBot(botId: string): Promise<BotUser | null> {
+  const bot = await prisma.user.findFirst({
+    where: { id: botId, isBot: true },
+    select: BOT_SELECT,
+  });
+  return bot ? toBotUser(bot) : null;
+}
+
+/**
+ * The opponent in an AI game: the chosen bot, or the anonymous AI when none was
+ * chosen. Returns null if the chosen bot does not exist.
+ */
+export async function resolveAIOpponent(
+  botId?: string
+): Promise<{ id: string; username: string; bot: BotUser | null } | null> {
+  if (!botId) {
+    return { id: AI_PLAYER_ID, username: 'AI', bot: null };
+  }
+
+  const bot = await findBot(botId);
+  return bot ? { id: bot.id, username: bot.username, bot } : null;
+}
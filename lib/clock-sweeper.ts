@@ -0,0 +1,138 @@
+/**
+ * Game Clock Sweeper
+ *
+ * Clocks are derived from event timestamps, so nothing ticks on the server. The
+ * sweeper replays each timed game and, when the player on turn has run out of
+ * time, appends the timeout event the engine produces: an auto-played move when
+ * the per-move limit expires, or a forfeit when the game bank is empty.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { EventSourcedGinRummyGame } from '../packages/common/src/game-engine/event-sourced-gin-rummy';
+import { EventType } from '../packages/common/src/types/events';
+import { GamePhase, GameState } from '../packages/common/src/types/game';
+import { settleHollywood } from '../packages/common/src/utils/hollywood-scoring';
+import { EventStore } from '../src/services/eventStore';
+import { ReplayService } from '../src/services/replay';
+import { maybeCaptureSnapshot } from '../src/services/snapshot';
+import { getAIQueueProcessor } from './ai-queue-processor';
+import { getDealSeed, SEED_REVEALING_EVENTS } from './deal-seeds';
+import { settleFinishedGame } from './match-series';
+import { scorePartnershipHand } from './partnerships';
+
+const prisma = new PrismaClient();
+
+export interface ClockEnforcementResult {
+  gameId: string;
+  eventType?: EventType; // Set when a timeout event was recorded
+  error?: string;
+}
+
+/**
+ * Record a timeout for a game if the player on turn has run out of time
+ */
+export async function enforceGameClock(gameId: string, now: Date = new Date()): Promise<ClockEnforcementResult> {
+  const { state, version } = await ReplayService.rebuildState(gameId);
+
+  const engine = new EventSourcedGinRummyGame(gameId);
+  const timeoutEvent = engine.createTimeoutEvent(state, now.getTime(), version + 1);
+  if (!timeoutEvent) {
+    return { gameId };
+  }
+
+  // Running out the stock ends the hand and a forfeit ends the game, so either can reveal the seed
+  if (SEED_REVEALING_EVENTS.includes(timeoutEvent.eventType)) {
+    (timeoutEvent.eventData as { seed?: string }).seed = getDealSeed(gameId, state.roundNumber || 1);
+  }
+
+  const appendResult = await EventStore.appendEvent(
+    gameId,
+    randomUUID(),
+    version,
+    timeoutEvent.eventType,
+    timeoutEvent.eventData,
+    timeoutEvent.playerId
+  );
+
+  if (!appendResult.success) {
+    // A move landing first is fine; the next sweep will look again
+    console.warn(`⚠️ ClockSweeper: Could not record ${timeoutEvent.eventType} for game ${gameId}:`, appendResult.error);
+    return { gameId, error: appendResult.error?.message };
+  }
+
+  console.log(`⏰ ClockSweeper: Recorded ${timeoutEvent.eventType} for ${timeoutEvent.playerId} in game ${gameId}`);
+
+  const { state: newState } = await ReplayService.rebuildState(gameId);
+
+  await maybeCaptureSnapshot(gameId, appendResult.sequence, {
+    eventType: timeoutEvent.eventType,
+    state: newState
+  });
+
+  if (newState.gameOver && newState.winner) {
+    await finishTimedOutGame(gameId, newState.winner, newState);
+  } else if (newState.partnership && newState.phase === GamePhase.RoundOver) {
+    await scorePartnershipHand(gameId);
+  } else if (newState.vsAI && newState.currentPlayerId === newState.players[1]?.id) {
+    getAIQueueProcessor(prisma).queueAIMove(gameId).catch(error => {
+      console.error('❌ ClockSweeper: AI queue processing failed:', error);
+    });
+  }
+
+  return { gameId, eventType: timeoutEvent.eventType };
+}
+
+/**
+ * Check every active game that was created with a time control
+ */
+export async function sweepGameClocks(now: Date = new Date()): Promise<ClockEnforcementResult[]> {
+  const games = await prisma.game.findMany({
+    where: {
+      status: 'ACTIVE',
+      clockMode: { not: null },
+    },
+    select: { id: true },
+  });
+
+  const results: ClockEnforcementResult[] = [];
+
+  // One game at a time keeps the sweep from competing with live moves for connections
+  for (const game of games) {
+    try {
+      results.push(await enforceGameClock(game.id, now));
+    } catch (error) {
+      console.error(`❌ ClockSweeper: Failed to enforce clock for game ${game.id}:`, error);
+      results.push({ gameId: game.id, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  return results;
+}
+
+async function finishTimedOutGame(gameId: string, winnerId: string, state: GameState) {
+  await prisma.game.update({
+    where: { id: gameId },
+    data: {
+      status: 'FINISHED',
+      winnerId,
+      finishedAt: new Date(),
+      ...(state.players.length >= 1 && { player1Score: state.players[0].score }),
+      ...(state.players.length >= 2 && { player2Score: state.players[1].score }),
+    },
+  });
+
+  const loserId = state.players.find(p => p.id !== winnerId)?.id;
+  if (!loserId) {
+    return;
+  }
+
+  try {
+    const settlement = state.hollywood
+      ? settleHollywood(state.hollywood, [winnerId, loserId])
+      : undefined;
+    await settleFinishedGame(gameId, winnerId, loserId, { settlement, forfeitReason: 'TIME_LIMIT' });
+  } catch (error) {
+    console.error('❌ ClockSweeper: Failed to settle timed-out game:', error);
+  }
+}
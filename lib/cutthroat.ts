@@ -0,0 +1,319 @@
+/**
+ * Cutthroat Games
+ *
+ * Three-player gin played as one game stream. Players take seats 0-2 as they
+ * join and the cards are dealt once the third seat fills. The engine rotates
+ * the seats each hand: the dealer sits out while the other two play.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { EventSourcedGinRummyGame } from '../packages/common/src/game-engine/event-sourced-gin-rummy';
+import { GameStatus, GameType, OPEN_SEAT, RuleSet, TimeControl } from '../packages/common/src/types/game';
+import { CUTTHROAT_SEATS, getCutthroatHand } from '../packages/common/src/utils/cutthroat';
+import { getOpenSeat } from '../packages/common/src/utils/partnership';
+import { EventStore } from '../src/services/eventStore';
+import { ReplayService } from '../src/services/replay';
+import { maybeCaptureSnapshot } from '../src/services/snapshot';
+import { createNotification } from '../src/utils/notifications';
+import { createCommittedDeal, getDealSeed } from './deal-seeds';
+
+const prisma = new PrismaClient();
+
+export interface CutthroatSettings {
+  ruleSet?: Partial<RuleSet>;
+  gameType?: GameType;
+  timeControl?: TimeControl;
+  isPrivate?: boolean;
+}
+
+interface CutthroatPlayer {
+  id: string;
+  username: string;
+}
+
+export type CutthroatSeatResult =
+  | { success: true; seat: number; started: boolean }
+  | { success: false; error: string; code?: string };
+
+export type CutthroatUnseatResult =
+  | { success: true; cancelled: boolean }
+  | { success: false; error: string; code?: string };
+
+/**
+ * Create a cutthroat game with its creator in seat 0
+ */
+export async function createCutthroatGame(creator: CutthroatPlayer, settings: CutthroatSettings): Promise<string> {
+  const gameId = crypto.randomUUID();
+  const seats = [creator.id, ...Array(CUTTHROAT_SEATS - 1).fill(OPEN_SEAT)];
+
+  const events = new EventSourcedGinRummyGame(gameId).createInitialGameEvents(
+    creator.id,
+    OPEN_SEAT,
+    false,
+    creator.username,
+    undefined,
+    {
+      ruleSet: settings.ruleSet,
+      gameType: settings.gameType,
+      timeControl: settings.timeControl,
+      cutthroat: { seats },
+    }
+  );
+
+  await EventStore.createGameWithEvents(
+    {
+      id: gameId,
+      status: 'WAITING',
+      gameType: settings.gameType ?? GameType.Standard,
+      clockMode: settings.timeControl?.mode ?? null,
+      player1Id: creator.id,
+      isPrivate: settings.isPrivate ?? false,
+      vsAI: false,
+      maxPlayers: CUTTHROAT_SEATS,
+    },
+    [creator.id],
+    events
+  );
+
+  console.log(`🔺 Cutthroat: Created cutthroat game ${gameId}`);
+  return gameId;
+}
+
+/**
+ * Seat a player in the first open seat and deal the first hand once all three are seated
+ */
+export async function seatCutthroatPlayer(
+  gameId: string,
+  player: CutthroatPlayer,
+  requestId: string
+): Promise<CutthroatSeatResult> {
+  const { state, version } = await ReplayService.rebuildState(gameId);
+  const cutthroat = state.cutthroat;
+
+  if (!cutthroat) {
+    return { success: false, error: 'Not a cutthroat game' };
+  }
+
+  if (cutthroat.seats.includes(player.id)) {
+    return { success: false, error: 'You are already in this game' };
+  }
+
+  const seat = getOpenSeat(cutthroat.seats);
+  if (seat === null) {
+    return { success: false, error: 'Game is full' };
+  }
+
+  const appendResult = await EventStore.appendEvent(
+    gameId,
+    requestId,
+    version,
+    'PLAYER_JOINED',
+    { gameId, playerId: player.id, playerUsername: player.username, seat },
+    player.id
+  );
+
+  if (!appendResult.success) {
+    return {
+      success: false,
+      error: appendResult.error?.message || 'Failed to join game',
+      code: appendResult.error?.code,
+    };
+  }
+
+  await prisma.gameParticipant.create({
+    data: { gameId, userId: player.id, seat },
+  });
+
+  console.log(`🔺 Cutthroat: ${player.username} took seat ${seat} in game ${gameId}`);
+
+  const seats = cutthroat.seats.map((id, index) => (index === seat ? player.id : id));
+  if (getOpenSeat(seats) !== null) {
+    await maybeCaptureSnapshot(gameId, appendResult.sequence, { eventType: 'PLAYER_JOINED' });
+    return { success: true, seat, started: false };
+  }
+
+  // Everyone is seated: deal the first hand to the two players left of the dealer
+  const { dealerId, activePlayerIds: [firstId, secondId] } = getCutthroatHand(seats, 1);
+  const { deal: initialDeal, seedCommitment } = createCommittedDeal(gameId, 1);
+
+  const startResult = await EventStore.appendEvent(
+    gameId,
+    crypto.randomUUID(),
+    appendResult.sequence,
+    'GAME_STARTED',
+    {
+      gameId,
+      player1Id: firstId,
+      player2Id: secondId,
+      startingPlayerId: firstId,
+      initialDeal,
+      seedCommitment,
+    },
+    player.id
+  );
+
+  if (!startResult.success) {
+    console.error(`❌ Cutthroat: Failed to deal game ${gameId}:`, startResult.error);
+    return { success: true, seat, started: false };
+  }
+
+  await prisma.game.update({
+    where: { id: gameId },
+    data: {
+      status: 'ACTIVE',
+      player2Id: seats[1],
+      currentPlayerId: firstId,
+    },
+  });
+
+  const startedState = await ReplayService.rebuildState(gameId);
+  await maybeCaptureSnapshot(gameId, startResult.sequence, {
+    eventType: 'GAME_STARTED',
+    force: true,
+    state: startedState.state
+  });
+
+  for (const playerId of seats) {
+    await createNotification({
+      userId: playerId,
+      type: 'GAME_STARTED',
+      title: 'Cutthroat game started!',
+      message: playerId === dealerId
+        ? 'All three seats are filled. You deal the first hand and sit it out.'
+        : 'All three seats are filled. You are playing the first hand.',
+      data: { gameId },
+    });
+  }
+
+  console.log(`🔺 Cutthroat: Dealt game ${gameId}, ${dealerId} sits out the first hand`);
+  return { success: true, seat, started: true };
+}
+
+/**
+ * Free a player's seat before the cards are dealt, cancelling the game once nobody is left seated
+ */
+export async function unseatCutthroatPlayer(
+  gameId: string,
+  playerId: string,
+  requestId: string
+): Promise<CutthroatUnseatResult> {
+  const { state, version } = await ReplayService.rebuildState(gameId);
+  const cutthroat = state.cutthroat;
+
+  if (!cutthroat || state.status !== GameStatus.Waiting) {
+    return { success: false, error: 'Game is not waiting for players' };
+  }
+
+  if (!cutthroat.seats.includes(playerId)) {
+    return { success: false, error: 'You are not in this game' };
+  }
+
+  const stillSeated = cutthroat.seats.filter(id => id !== OPEN_SEAT && id !== playerId);
+  const appendResult = stillSeated.length > 0
+    ? await EventStore.appendEvent(gameId, requestId, version, 'PLAYER_LEFT', {
+        gameId,
+        playerId,
+        reason: 'QUIT',
+      }, playerId)
+    : await EventStore.appendEvent(gameId, requestId, version, 'GAME_CANCELLED', {
+        gameId,
+        reason: 'PLAYER_QUIT',
+        cancelledBy: playerId,
+      }, playerId);
+
+  if (!appendResult.success) {
+    return {
+      success: false,
+      error: appendResult.error?.message || 'Failed to leave game',
+      code: appendResult.error?.code,
+    };
+  }
+
+  await prisma.gameParticipant.deleteMany({ where: { gameId, userId: playerId } });
+
+  if (stillSeated.length === 0) {
+    await prisma.game.update({
+      where: { id: gameId },
+      data: { status: 'CANCELLED', finishedAt: new Date() },
+    });
+    console.log(`🔺 Cutthroat: Last player left, cancelled game ${gameId}`);
+    return { success: true, cancelled: true };
+  }
+
+  // The game row needs a host, so it passes to the next player still seated
+  await prisma.game.updateMany({
+    where: { id: gameId, player1Id: playerId },
+    data: { player1Id: stillSeated[0] },
+  });
+
+  console.log(`🔺 Cutthroat: ${playerId} left their seat in game ${gameId}`);
+  return { success: true, cancelled: false };
+}
+
+/**
+ * Concede a cutthroat game for a player who leaves it. The leading player of the
+ * other two wins, including the one sitting out the hand. Returns the winner.
+ */
+export async function concedeCutthroatGame(gameId: string, playerId: string): Promise<string | null> {
+  const { state, version } = await ReplayService.rebuildState(gameId);
+  const everyone = state.cutthroat?.sittingOut ? [...state.players, state.cutthroat.sittingOut] : state.players;
+  const leaver = everyone.find(p => p.id === playerId);
+  const winner = everyone
+    .filter(p => p.id !== playerId)
+    .sort((a, b) => b.score - a.score)[0];
+
+  if (!leaver || !winner) {
+    return null;
+  }
+
+  const finishedResult = await EventStore.appendEvent(
+    gameId,
+    crypto.randomUUID(),
+    version,
+    'GAME_FINISHED',
+    {
+      gameId,
+      winnerId: winner.id,
+      winnerScore: winner.score,
+      loserId: leaver.id,
+      loserScore: leaver.score,
+      endReason: 'QUIT',
+      duration: 0,
+      seed: getDealSeed(gameId, state.roundNumber || 1),
+    },
+    playerId
+  );
+
+  if (!finishedResult.success) {
+    console.error(`❌ Cutthroat: Failed to record concession in game ${gameId}:`, finishedResult.error);
+    return null;
+  }
+
+  await prisma.game.update({
+    where: { id: gameId },
+    data: { status: 'FINISHED', winnerId: winner.id, finishedAt: new Date() },
+  });
+
+  const finalState = await ReplayService.rebuildState(gameId);
+  await maybeCaptureSnapshot(gameId, finishedResult.sequence, {
+    eventType: 'GAME_FINISHED',
+    force: true,
+    state: finalState.state
+  });
+
+  console.log(`🔺 Cutthroat: ${leaver.username} conceded game ${gameId} to ${winner.username}`);
+  return winner.id;
+}
+
+/**
+ * Everyone seated in a cutthroat game, for settling results against all of them
+ */
+export async function getCutthroatPlayerIds(gameId: string): Promise<string[]> {
+  const participants = await prisma.gameParticipant.findMany({
+    where: { gameId, role: 'PLAYER' },
+    orderBy: { seat: 'asc' },
+    select: { userId: true },
+  });
+  return participants.map(participant => participant.userId);
+}
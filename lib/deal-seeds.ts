@@ -0,0 +1,159 @@
+/**
+ * Deal Seeds and Commitments
+ *
+ * Every hand is shuffled from a seed derived from a server secret, the game ID and
+ * the round number. The deal event publishes a SHA-256 commitment to that seed and
+ * the seed is revealed once the hand is over, so anyone holding the event log can
+ * re-derive the deal and check the server did not stack the deck.
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { createSeededRandom, dealRound } from '../packages/common/src/utils/cards';
+import { Card, Deal } from '../packages/common/src/types/game';
+
+export type DealVerificationStatus = 'verified' | 'mismatch' | 'pending' | 'unrevealed' | 'uncommitted';
+
+export interface DealVerification {
+  roundNumber: number;
+  sequenceNumber: number;
+  status: DealVerificationStatus;
+  seedCommitment?: string;
+  seed?: string;
+  reason?: string;
+}
+
+export interface DealVerificationReport {
+  verified: boolean; // False if any revealed deal failed to check out, or a finished game left one unrevealed
+  deals: DealVerification[];
+}
+
+/**
+ * Events that end a hand, or the game part way through one, and so reveal that hand's seed
+ */
+export const SEED_REVEALING_EVENTS: string[] = [
+  'ROUND_ENDED',
+  'ROUND_DRAWN',
+  'GIN',
+  'AI_LAYOFF_DECISION',
+  'GAME_FINISHED',
+  'TIMEOUT_FORFEIT',
+];
+
+interface LoggedEvent {
+  eventType: string;
+  sequenceNumber: number;
+  eventData: any;
+}
+
+/**
+ * Derive the shuffle seed for a round. Stateless, so the seed can be revealed later without storing it.
+ * Game IDs are public, so without a secret of its own every deal could be computed in advance; refuse to deal instead.
+ */
+export function getDealSeed(gameId: string, roundNumber: number): string {
+  const secret = process.env.DEAL_SEED_SECRET;
+  if (!secret) {
+    throw new Error('DEAL_SEED_SECRET is not configured, so hands cannot be dealt');
+  }
+  return createHmac('sha256', secret).update(`${gameId}:${roundNumber}`).digest('hex');
+}
+
+/**
+ * Hash a seed into the commitment published with the deal
+ */
+export function commitToSeed(seed: string): string {
+  return createHash('sha256').update(seed).digest('hex');
+}
+
+/**
+ * Deal a round from its seed along with the commitment to publish
+ */
+export function createCommittedDeal(gameId: string, roundNumber: number): { deal: Deal; seedCommitment: string } {
+  const seed = getDealSeed(gameId, roundNumber);
+  return {
+    deal: dealRound(createSeededRandom(seed)),
+    seedCommitment: commitToSeed(seed),
+  };
+}
+
+/**
+ * Re-derive every deal in an event log from its revealed seed.
+ * Once the game is over every hand should have revealed its seed, so one still pending is unverified.
+ */
+export function verifyDeals(events: LoggedEvent[], gameOver: boolean = false): DealVerificationReport {
+  const deals: DealVerification[] = [];
+  const dealtCards: Deal[] = [];
+
+  for (const event of events) {
+    const data = event.eventData || {};
+
+    if (SEED_REVEALING_EVENTS.includes(event.eventType)) {
+      // A hand's seed is revealed by the first hand-ending event after its deal
+      const index = deals.length - 1;
+      if (index >= 0 && data.seed && !deals[index].seed) {
+        Object.assign(deals[index], checkDeal(dealtCards[index], deals[index].seedCommitment, data.seed));
+      }
+      continue;
+    }
+
+    switch (event.eventType) {
+      case 'GAME_STARTED':
+      case 'START_NEW_ROUND':
+      case 'ROUND_STARTED': {
+        const deal = data.initialDeal || data.newDeal;
+        if (!deal) break;
+
+        deals.push({
+          roundNumber: data.roundNumber || 1,
+          sequenceNumber: event.sequenceNumber,
+          status: data.seedCommitment ? 'pending' : 'uncommitted',
+          seedCommitment: data.seedCommitment,
+        });
+        dealtCards.push(deal);
+        break;
+      }
+    }
+  }
+
+  if (gameOver) {
+    for (const result of deals.filter(deal => deal.status === 'pending')) {
+      result.status = 'unrevealed';
+      result.reason = 'The game ended without revealing the seed for this deal';
+    }
+  }
+
+  return {
+    verified: deals.every(result => result.status !== 'mismatch' && result.status !== 'unrevealed'),
+    deals,
+  };
+}
+
+/**
+ * Check one recorded deal against a revealed seed and the commitment published with it
+ */
+export function checkDeal(
+  deal: Deal,
+  seedCommitment: string | undefined,
+  seed: string
+): Pick<DealVerification, 'status' | 'seed' | 'reason'> {
+  if (!seedCommitment) {
+    return { status: 'uncommitted', seed };
+  }
+
+  if (commitToSeed(seed) !== seedCommitment) {
+    return { status: 'mismatch', seed, reason: 'Revealed seed does not match the commitment' };
+  }
+
+  const expected = dealRound(createSeededRandom(seed));
+  const matches = sameCards(deal.player1Hand, expected.player1Hand)
+    && sameCards(deal.player2Hand, expected.player2Hand)
+    && sameCards([deal.topDiscardCard], [expected.topDiscardCard])
+    && sameCards(deal.stockPile || [], expected.stockPile);
+
+  return matches
+    ? { status: 'verified', seed }
+    : { status: 'mismatch', seed, reason: 'Recorded deal differs from the shuffle of the revealed seed' };
+}
+
+function sameCards(a: Card[], b: Card[]): boolean {
+  return a.length === b.length && a.every((card, index) => card.id === b[index].id);
+}
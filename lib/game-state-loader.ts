@@ -2,6 +2,7 @@ import { PrismaClient } from '@prisma/client';
 import { EventSourcingEngine } from '../packages/common/src/game-engine/event-sourcing';
 import { GameState, GamePhase } from '@gin-rummy/common';
 import { GameEvent } from '../packages/common/src/types/events';
+import { AI_PLAYER_ID } from './bots';
 
 /**
  * Universal Game State Loader
@@ -181,33 +182,38 @@ export class GameStateLoader {
     code: string;
   }> {
     try {
-      const games = await this.prisma.game.findMany({
+      // Read from the lobby projection so cutthroat and partnership seats are included
+      const games = await this.prisma.lobbyGame.findMany({
         where: {
-          OR: [
-            { player1Id: userId },
-            { player2Id: userId },
-          ],
+          playerIds: { has: userId },
           status: { in: ['WAITING', 'ACTIVE'] },
         },
-        include: {
-          player1: { select: { username: true } },
-          player2: { select: { username: true } },
-        },
-        orderBy: { updatedAt: 'desc' },
+        orderBy: { lastEventAt: 'desc' },
         take: limit,
       });
 
-      const gameList = games.map(game => ({
-        id: game.id,
-        status: game.status,
-        vsAI: game.vsAI,
-        currentPlayerId: game.currentPlayerId,
-        isPlayerTurn: game.currentPlayerId === userId,
-        opponent: game.player1Id === userId 
-          ? (game.player2?.username || 'Waiting...')
-          : (game.player1?.username || 'Unknown'),
-        updatedAt: game.updatedAt,
-      }));
+      const opponentIds = [...new Set(games.flatMap(game => game.playerIds))].filter(id => id !== userId);
+      const opponents = await this.prisma.user.findMany({
+        where: { id: { in: opponentIds } },
+        select: { id: true, username: true },
+      });
+      const usernames = new Map(opponents.map(user => [user.id, user.username]));
+      usernames.set(AI_PLAYER_ID, 'AI');
+
+      const gameList = games.map(game => {
+        const others = game.playerIds.filter(id => id !== userId);
+        return {
+          id: game.gameId,
+          status: game.status,
+          vsAI: game.vsAI,
+          currentPlayerId: game.currentPlayerId,
+          isPlayerTurn: game.currentPlayerId === userId,
+          opponent: others.length > 0
+            ? others.map(id => usernames.get(id) || 'Unknown').join(', ')
+            : 'Waiting...',
+          updatedAt: game.lastEventAt,
+        };
+      });
 
       return {
         success: true,
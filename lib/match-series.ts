@@ -0,0 +1,370 @@
+/**
+ * Match Series
+ *
+ * A match links a best-of-N run of games between the same two players. Every
+ * game is still its own event stream; when one finishes the match either
+ * creates the next game with the same rules or, once a player has clinched it,
+ * closes the series and rates it in ELO as a single result.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { EventSourcedGinRummyGame } from '../packages/common/src/game-engine/event-sourced-gin-rummy';
+import { GameCreatedEventData } from '../packages/common/src/types/events';
+import { AIPersonality, AISpeed, AIStrategy, Difficulty, GameStatus, GameType, HollywoodSettlement, MatchStandings, MatchStatus, RuleSet, TimeControl } from '../packages/common/src/types/game';
+import { getMatchGameOrder, getMatchWinner, getMatchWinsNeeded, tallyMatchWins } from '../packages/common/src/utils/match';
+import { EventStore } from '../src/services/eventStore';
+import { EloCalculation, updatePlayerElos, updateTeamElos } from '../src/utils/elo';
+import { createNotification } from '../src/utils/notifications';
+import { createCommittedDeal } from './deal-seeds';
+import { getCutthroatPlayerIds } from './cutthroat';
+import { forfeitPartnership } from './partnerships';
+import { resolveAIOpponent } from './bots';
+
+const prisma = new PrismaClient();
+
+const WAITING_PLAYER_ID = 'waiting-for-player';
+
+export interface MatchGameSettings {
+  ruleSet?: Partial<RuleSet>;
+  gameType?: GameType;
+  timeControl?: TimeControl;
+  isPrivate?: boolean;
+  aiStrategy?: AIStrategy;
+  aiDifficulty?: Difficulty;
+  aiPersonality?: AIPersonality;
+  aiSpeed?: AISpeed;
+}
+
+interface MatchPlayer {
+  id: string;
+  username: string;
+}
+
+/**
+ * Create a match and its first game
+ */
+export async function createMatch(options: {
+  creator: MatchPlayer;
+  bestOf: number;
+  vsAI: boolean;
+  player2Id?: string;
+  botId?: string;
+  settings: MatchGameSettings;
+}): Promise<{ matchId: string; gameId: string }> {
+  const { creator, bestOf, vsAI, player2Id, botId } = options;
+  let { settings } = options;
+
+  const aiOpponent = vsAI ? await resolveAIOpponent(botId) : null;
+  if (vsAI && !aiOpponent) {
+    throw new Error(`Bot ${botId} not found`);
+  }
+  // A bot always plays the way its account says, in every game of the match
+  if (aiOpponent?.bot) {
+    const { strategy, difficulty, personality } = aiOpponent.bot;
+    settings = { ...settings, aiStrategy: strategy, aiDifficulty: difficulty, aiPersonality: personality };
+  }
+
+  const player2 = aiOpponent
+    ? { id: aiOpponent.id, username: aiOpponent.username }
+    : player2Id
+      ? await prisma.user.findUnique({ where: { id: player2Id }, select: { id: true, username: true } })
+      : null;
+
+  const match = await prisma.match.create({
+    data: {
+      bestOf,
+      vsAI,
+      player1Id: creator.id,
+      player2Id: player2?.id ?? null,
+    },
+  });
+
+  const gameId = await createMatchGame(match.id, 1, vsAI, creator, player2, settings);
+  console.log(`🏆 Match: Created best-of-${bestOf} match ${match.id} with first game ${gameId}`);
+
+  return { matchId: match.id, gameId };
+}
+
+/**
+ * Record the player who joined a match's first game as the match opponent
+ */
+export async function joinMatch(gameId: string, playerId: string): Promise<void> {
+  const game = await prisma.game.findUnique({ where: { id: gameId }, select: { matchId: true } });
+  if (!game?.matchId) {
+    return;
+  }
+
+  await prisma.match.updateMany({
+    where: { id: game.matchId, player2Id: null },
+    data: { player2Id: playerId },
+  });
+}
+
+/**
+ * Cancel the match a cancelled game belonged to, if it was still undecided
+ */
+export async function cancelMatchForGame(gameId: string): Promise<void> {
+  const game = await prisma.game.findUnique({ where: { id: gameId }, select: { matchId: true } });
+  if (!game?.matchId) {
+    return;
+  }
+
+  await prisma.match.updateMany({
+    where: { id: game.matchId, status: 'IN_PROGRESS' },
+    data: { status: 'CANCELLED', finishedAt: new Date() },
+  });
+}
+
+/**
+ * Settle a finished game. Standalone games are rated on their own; match games
+ * advance the match instead, and only the match result is rated. Partnership
+ * tables hand their result to the partnership game, and cutthroat games rate
+ * the winner against both other players. AI games are only rated against a bot
+ * account, and games played with hints are never rated.
+ * Returns the ELO changes if a rating was applied.
+ */
+export async function settleFinishedGame(
+  gameId: string,
+  winnerId: string,
+  loserId: string,
+  options: { settlement?: HollywoodSettlement; forfeitMatch?: boolean; forfeitReason?: 'QUIT' | 'TIME_LIMIT' } = {}
+): Promise<EloCalculation | null> {
+  const game = await prisma.game.findUnique({
+    where: { id: gameId },
+    select: { vsAI: true, matchId: true, parentGameId: true, maxPlayers: true, hintsUsed: true, player2: { select: { isBot: true } } },
+  });
+
+  if (!game) {
+    return null;
+  }
+
+  // A partnership table only finishes on its own by forfeit, which decides the partnership
+  if (game.parentGameId) {
+    await forfeitPartnership(gameId, winnerId, options.forfeitReason);
+    return null;
+  }
+
+  const rated = (!game.vsAI || !!game.player2?.isBot) && game.hintsUsed === 0;
+
+  // Cutthroat is rated as the winner beating both other players, whoever was in the last hand
+  if (game.maxPlayers === 3) {
+    if (rated) {
+      const playerIds = await getCutthroatPlayerIds(gameId);
+      await updateTeamElos([winnerId], playerIds.filter(id => id !== winnerId), gameId);
+    }
+    return null;
+  }
+
+  if (!game.matchId) {
+    return rated ? updatePlayerElos(winnerId, loserId, gameId, options.settlement) : null;
+  }
+
+  return advanceMatch(game.matchId, gameId, winnerId, loserId, options.forfeitMatch ?? false);
+}
+
+/**
+ * Current standings for a match, or null if it doesn't exist
+ */
+export async function getMatchStandings(matchId: string): Promise<MatchStandings | null> {
+  const match = await prisma.match.findUnique({
+    where: { id: matchId },
+    include: {
+      player1: { select: { id: true, username: true } },
+      player2: { select: { id: true, username: true } },
+      games: {
+        select: { id: true, matchGameNumber: true, status: true, winnerId: true },
+        orderBy: { matchGameNumber: 'asc' },
+      },
+    },
+  });
+
+  if (!match) {
+    return null;
+  }
+
+  const players = [match.player1, match.player2].filter((player): player is MatchPlayer => !!player);
+  const wins = tallyMatchWins(players.map(player => player.id), match.games.map(game => game.winnerId));
+  const currentGame = match.games.find(game => game.status === 'WAITING' || game.status === 'ACTIVE');
+
+  return {
+    matchId: match.id,
+    bestOf: match.bestOf,
+    winsNeeded: getMatchWinsNeeded(match.bestOf),
+    status: match.status as MatchStatus,
+    players: players.map(player => ({ ...player, wins: wins[player.id] })),
+    winnerId: match.winnerId ?? undefined,
+    currentGameId: currentGame?.id,
+    games: match.games.map(game => ({
+      gameId: game.id,
+      gameNumber: game.matchGameNumber ?? 0,
+      status: game.status as GameStatus,
+      winnerId: game.winnerId ?? undefined,
+    })),
+  };
+}
+
+async function advanceMatch(
+  matchId: string,
+  gameId: string,
+  winnerId: string,
+  loserId: string,
+  forfeitMatch: boolean
+): Promise<EloCalculation | null> {
+  const match = await prisma.match.findUnique({
+    where: { id: matchId },
+    include: {
+      games: { select: { id: true, winnerId: true, matchGameNumber: true, hintsUsed: true } },
+      player2: { select: { isBot: true } },
+    },
+  });
+
+  if (!match || match.status !== 'IN_PROGRESS') {
+    return null;
+  }
+
+  // The finished game may not have its winner written yet, so count it explicitly
+  const gameWinners = match.games.map(game => (game.id === gameId ? winnerId : game.winnerId));
+  const wins = tallyMatchWins([winnerId, loserId], gameWinners);
+  const matchWinnerId = forfeitMatch ? winnerId : getMatchWinner(match.bestOf, wins);
+
+  if (!matchWinnerId) {
+    const finishedGame = match.games.find(game => game.id === gameId);
+    await createNextMatchGame(match.id, gameId, (finishedGame?.matchGameNumber ?? match.games.length) + 1);
+    return null;
+  }
+
+  // Only the caller that closes the match rates it
+  const { count } = await prisma.match.updateMany({
+    where: { id: matchId, status: 'IN_PROGRESS' },
+    data: { status: 'FINISHED', winnerId: matchWinnerId, finishedAt: new Date() },
+  });
+
+  console.log(`🏆 Match: ${matchWinnerId} won match ${matchId} (${wins[winnerId]}-${wins[loserId]})`);
+
+  // A hint in any game of the match leaves the whole match unrated
+  const rated = (!match.vsAI || !!match.player2?.isBot) && !match.games.some(game => game.hintsUsed > 0);
+  if (count === 0 || !rated) {
+    return null;
+  }
+
+  const matchLoserId = matchWinnerId === winnerId ? loserId : winnerId;
+  return updatePlayerElos(matchWinnerId, matchLoserId, gameId);
+}
+
+async function createNextMatchGame(matchId: string, previousGameId: string, gameNumber: number): Promise<void> {
+  const [match, created] = await Promise.all([
+    prisma.match.findUnique({
+      where: { id: matchId },
+      include: {
+        player1: { select: { id: true, username: true } },
+        player2: { select: { id: true, username: true } },
+      },
+    }),
+    prisma.gameEvent.findFirst({
+      where: { gameId: previousGameId, eventType: 'GAME_CREATED' },
+    }),
+  ]);
+
+  if (!match || !match.player2) {
+    console.error(`❌ Match: Cannot continue match ${matchId} without both players`);
+    return;
+  }
+
+  // Same rules as the game that just finished
+  const previous = (created?.eventData || {}) as Partial<GameCreatedEventData>;
+  const settings: MatchGameSettings = {
+    ruleSet: previous.ruleSet,
+    gameType: previous.gameType,
+    timeControl: previous.timeControl,
+    isPrivate: previous.isPrivate,
+    aiStrategy: previous.aiStrategy,
+    aiDifficulty: previous.aiDifficulty,
+    aiPersonality: previous.aiPersonality,
+    aiSpeed: previous.aiSpeed,
+  };
+
+  try {
+    const gameId = await createMatchGame(match.id, gameNumber, match.vsAI, match.player1, match.player2, settings);
+    console.log(`🏆 Match: Created game ${gameNumber} (${gameId}) of match ${matchId}`);
+
+    for (const player of [match.player1, match.player2]) {
+      // The AI or bot in an AI match has nobody to notify
+      if (match.vsAI && player.id === match.player2.id) continue;
+      await createNotification({
+        userId: player.id,
+        type: 'GAME_STARTED',
+        title: `Game ${gameNumber} is ready`,
+        message: `Game ${gameNumber} of your best-of-${match.bestOf} match is ready to play.`,
+        data: { gameId, matchId, gameNumber },
+      });
+    }
+  } catch (error: any) {
+    // Another request already created this game
+    if (error.code === 'P2002') {
+      console.log(`🏆 Match: Game ${gameNumber} of match ${matchId} already exists`);
+      return;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Create one game of a match. AI games start immediately; PvP games with both
+ * players known wait for them to ready up, with the first move alternating.
+ */
+async function createMatchGame(
+  matchId: string,
+  gameNumber: number,
+  vsAI: boolean,
+  player1: MatchPlayer,
+  player2: MatchPlayer | null,
+  settings: MatchGameSettings
+): Promise<string> {
+  const gameId = crypto.randomUUID();
+  const [first, second]: [MatchPlayer, MatchPlayer | null] = vsAI || !player2
+    ? [player1, player2]
+    : getMatchGameOrder([player1, player2], gameNumber);
+
+  const { deal: initialDeal, seedCommitment } = createCommittedDeal(gameId, 1);
+  const events = new EventSourcedGinRummyGame(gameId).createInitialGameEvents(
+    first.id,
+    second?.id ?? WAITING_PLAYER_ID,
+    vsAI,
+    first.username,
+    second?.username,
+    {
+      ruleSet: settings.ruleSet,
+      gameType: settings.gameType,
+      timeControl: settings.timeControl,
+      aiStrategy: settings.aiStrategy,
+      aiDifficulty: settings.aiDifficulty,
+      aiPersonality: settings.aiPersonality,
+      aiSpeed: settings.aiSpeed,
+      initialDeal,
+      seedCommitment,
+    }
+  );
+
+  await EventStore.createGameWithEvents(
+    {
+      id: gameId,
+      status: vsAI ? 'ACTIVE' : 'WAITING',
+      gameType: settings.gameType ?? GameType.Standard,
+      clockMode: settings.timeControl?.mode ?? null,
+      player1Id: first.id,
+      player2Id: second?.id ?? null,
+      currentPlayerId: vsAI ? first.id : null,
+      isPrivate: settings.isPrivate ?? false,
+      vsAI,
+      aiDifficulty: vsAI ? settings.aiDifficulty ?? Difficulty.Medium : null,
+      maxPlayers: 2,
+      matchId,
+      matchGameNumber: gameNumber,
+    },
+    [],
+    events
+  );
+
+  return gameId;
+}
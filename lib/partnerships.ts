@@ -0,0 +1,554 @@
+/**
+ * Partnership Games
+ *
+ * A 2v2 partnership is a parent game that only seats the four players, plus two
+ * ordinary head-to-head tables created once every seat is filled: seats 0 v 1
+ * and seats 2 v 3, so each table pits one player from each team. When both
+ * tables have finished a hand, their running totals are combined into team
+ * scores and recorded on the parent and both tables. The first team to the
+ * target wins, and the whole partnership is rated as a team result.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+import { EventSourcedGinRummyGame } from '../packages/common/src/game-engine/event-sourced-gin-rummy';
+import {
+  EventType,
+  PartnershipHandScoredEventData,
+  PartnershipTablesCreatedEventData,
+} from '../packages/common/src/types/events';
+import { GamePhase, GameState, GameStatus, GameType, OPEN_SEAT, PartnershipTable, RuleSet, TimeControl } from '../packages/common/src/types/game';
+import {
+  PARTNERSHIP_SEATS,
+  combineTableScores,
+  getOpenSeat,
+  getPlayerTeam,
+  getSeatTeam,
+  getTableSeats,
+  getWinningTeam,
+} from '../packages/common/src/utils/partnership';
+import { resolveRuleSet } from '../packages/common/src/utils/scoring';
+import { EventStore } from '../src/services/eventStore';
+import { ReplayService } from '../src/services/replay';
+import { maybeCaptureSnapshot } from '../src/services/snapshot';
+import { updateTeamElos } from '../src/utils/elo';
+import { createNotification } from '../src/utils/notifications';
+import { createCommittedDeal } from './deal-seeds';
+
+const prisma = new PrismaClient();
+
+export interface PartnershipSettings {
+  ruleSet?: Partial<RuleSet>;
+  gameType?: GameType;
+  timeControl?: TimeControl;
+  isPrivate?: boolean;
+}
+
+interface PartnershipPlayer {
+  id: string;
+  username: string;
+}
+
+export type SeatResult =
+  | { success: true; seat: number; tablesCreated: boolean }
+  | { success: false; error: string; code?: string };
+
+export type UnseatResult =
+  | { success: true; cancelled: boolean }
+  | { success: false; error: string; code?: string };
+
+/**
+ * Create a partnership game with its creator in seat 0
+ */
+export async function createPartnershipGame(
+  creator: PartnershipPlayer,
+  settings: PartnershipSettings
+): Promise<string> {
+  const gameId = crypto.randomUUID();
+  const seats = [creator.id, ...Array(PARTNERSHIP_SEATS - 1).fill(OPEN_SEAT)];
+
+  const events = new EventSourcedGinRummyGame(gameId).createInitialGameEvents(
+    creator.id,
+    OPEN_SEAT,
+    false,
+    creator.username,
+    undefined,
+    {
+      ruleSet: settings.ruleSet,
+      gameType: settings.gameType,
+      timeControl: settings.timeControl,
+      partnership: { parentGameId: gameId, seats },
+    }
+  );
+
+  await EventStore.createGameWithEvents(
+    {
+      id: gameId,
+      status: 'WAITING',
+      gameType: settings.gameType ?? GameType.Standard,
+      player1Id: creator.id,
+      isPrivate: settings.isPrivate ?? false,
+      vsAI: false,
+      maxPlayers: PARTNERSHIP_SEATS,
+    },
+    [creator.id],
+    events
+  );
+
+  console.log(`🤝 Partnership: Created partnership game ${gameId}`);
+  return gameId;
+}
+
+/**
+ * Seat a player in the first open seat, creating the tables once all four are seated
+ */
+export async function seatPartnershipPlayer(
+  gameId: string,
+  player: PartnershipPlayer,
+  requestId: string
+): Promise<SeatResult> {
+  const { state, version } = await ReplayService.rebuildState(gameId);
+  const partnership = state.partnership;
+
+  if (!partnership) {
+    return { success: false, error: 'Not a partnership game' };
+  }
+
+  if (partnership.seats.includes(player.id)) {
+    return { success: false, error: 'You are already in this game' };
+  }
+
+  const seat = getOpenSeat(partnership.seats);
+  if (seat === null) {
+    return { success: false, error: 'Game is full' };
+  }
+
+  // The seat was chosen from this version, so a join that lands first makes us retry
+  const appendResult = await EventStore.appendEvent(
+    gameId,
+    requestId,
+    version,
+    'PLAYER_JOINED',
+    { gameId, playerId: player.id, playerUsername: player.username, seat },
+    player.id
+  );
+
+  if (!appendResult.success) {
+    return {
+      success: false,
+      error: appendResult.error?.message || 'Failed to join game',
+      code: appendResult.error?.code,
+    };
+  }
+
+  await prisma.gameParticipant.create({
+    data: { gameId, userId: player.id, seat },
+  });
+
+  await maybeCaptureSnapshot(gameId, appendResult.sequence, { eventType: 'PLAYER_JOINED' });
+  console.log(`🤝 Partnership: ${player.username} took seat ${seat} in game ${gameId}`);
+
+  const seatsLeft = partnership.seats.filter((id, index) => id === OPEN_SEAT && index !== seat).length;
+  if (seatsLeft > 0) {
+    return { success: true, seat, tablesCreated: false };
+  }
+
+  await createPartnershipTables(gameId);
+  return { success: true, seat, tablesCreated: true };
+}
+
+/**
+ * Free a player's seat before the tables are dealt, cancelling the game once nobody is left seated
+ */
+export async function unseatPartnershipPlayer(
+  gameId: string,
+  playerId: string,
+  requestId: string
+): Promise<UnseatResult> {
+  const { state, version } = await ReplayService.rebuildState(gameId);
+  const partnership = state.partnership;
+
+  if (!partnership || state.status !== GameStatus.Waiting) {
+    return { success: false, error: 'Game is not waiting for players' };
+  }
+
+  if (!partnership.seats.includes(playerId)) {
+    return { success: false, error: 'You are not in this game' };
+  }
+
+  const stillSeated = partnership.seats.filter(id => id !== OPEN_SEAT && id !== playerId);
+  const appendResult = stillSeated.length > 0
+    ? await EventStore.appendEvent(gameId, requestId, version, 'PLAYER_LEFT', {
+        gameId,
+        playerId,
+        reason: 'QUIT',
+      }, playerId)
+    : await EventStore.appendEvent(gameId, requestId, version, 'GAME_CANCELLED', {
+        gameId,
+        reason: 'PLAYER_QUIT',
+        cancelledBy: playerId,
+      }, playerId);
+
+  if (!appendResult.success) {
+    return {
+      success: false,
+      error: appendResult.error?.message || 'Failed to leave game',
+      code: appendResult.error?.code,
+    };
+  }
+
+  await prisma.gameParticipant.deleteMany({ where: { gameId, userId: playerId } });
+
+  if (stillSeated.length === 0) {
+    await prisma.game.update({
+      where: { id: gameId },
+      data: { status: 'CANCELLED', finishedAt: new Date() },
+    });
+    console.log(`🤝 Partnership: Last player left, cancelled game ${gameId}`);
+    return { success: true, cancelled: true };
+  }
+
+  // The game row needs a host, so it passes to the next player still seated
+  await prisma.game.updateMany({
+    where: { id: gameId, player1Id: playerId },
+    data: { player1Id: stillSeated[0] },
+  });
+
+  console.log(`🤝 Partnership: ${playerId} left their seat in game ${gameId}`);
+  return { success: true, cancelled: false };
+}
+
+/**
+ * Create both tables for a fully seated partnership game
+ */
+export async function createPartnershipTables(parentGameId: string): Promise<PartnershipTable[]> {
+  const { state, version } = await ReplayService.rebuildState(parentGameId);
+  const partnership = state.partnership;
+
+  if (!partnership || getOpenSeat(partnership.seats) !== null) {
+    throw new Error('Partnership game is not fully seated');
+  }
+
+  if (partnership.tables.length > 0) {
+    return partnership.tables;
+  }
+
+  const tables: PartnershipTable[] = [];
+  try {
+    for (const tableNumber of [0, 1]) {
+      const playerIds = getTableSeats(tableNumber).map(seat => partnership.seats[seat]) as [string, string];
+      const players = playerIds.map(id => state.players.find(p => p.id === id)!);
+      const gameId = await createTableGame(parentGameId, tableNumber, state, players);
+      tables.push({ tableNumber, gameId, playerIds });
+    }
+  } catch (error: any) {
+    // Another request already created the tables
+    if (error.code === 'P2002') {
+      console.log(`🤝 Partnership: Tables for game ${parentGameId} already exist`);
+      return (await ReplayService.rebuildState(parentGameId)).state.partnership?.tables ?? [];
+    }
+    throw error;
+  }
+
+  const eventData: PartnershipTablesCreatedEventData = { gameId: parentGameId, tables };
+  const appendResult = await EventStore.appendEvent(
+    parentGameId,
+    crypto.randomUUID(),
+    version,
+    EventType.PARTNERSHIP_TABLES_CREATED,
+    eventData
+  );
+
+  if (!appendResult.success) {
+    throw new Error(`Failed to record partnership tables: ${appendResult.error?.message}`);
+  }
+
+  await prisma.game.update({
+    where: { id: parentGameId },
+    data: { status: 'ACTIVE' },
+  });
+
+  for (const playerId of partnership.seats) {
+    const table = tables.find(t => t.playerIds.includes(playerId))!;
+    await createNotification({
+      userId: playerId,
+      type: 'GAME_STARTED',
+      title: 'Partnership game started!',
+      message: `All four seats are filled. You are playing at table ${table.tableNumber + 1}.`,
+      data: { gameId: table.gameId, parentGameId, tableNumber: table.tableNumber },
+    });
+  }
+
+  console.log(`🤝 Partnership: Created tables ${tables.map(t => t.gameId).join(', ')} for game ${parentGameId}`);
+  return tables;
+}
+
+/**
+ * Score the current hand once both tables have finished it. Safe to call after
+ * every hand at either table; it does nothing until the other table catches up.
+ */
+export async function scorePartnershipHand(tableGameId: string): Promise<PartnershipHandScoredEventData | null> {
+  const table = await prisma.game.findUnique({
+    where: { id: tableGameId },
+    select: { parentGameId: true },
+  });
+
+  if (!table?.parentGameId) {
+    return null;
+  }
+
+  const parent = await ReplayService.rebuildState(table.parentGameId);
+  const partnership = parent.state.partnership;
+  if (!partnership || partnership.winningTeam !== undefined) {
+    return null;
+  }
+
+  const handNumber = partnership.handsScored + 1;
+  const tableStates = await Promise.all(
+    partnership.tables.map(async t => ({ table: t, ...(await ReplayService.rebuildState(t.gameId)) }))
+  );
+
+  const handFinished = tableStates.every(({ state }) =>
+    state.phase === GamePhase.RoundOver && (state.roundNumber || 1) === handNumber
+  );
+  if (!handFinished) {
+    console.log(`🤝 Partnership: Hand ${handNumber} of game ${table.parentGameId} is still being played`);
+    return null;
+  }
+
+  const tableScores = tableStates.map(({ table: t, state }) => ({
+    tableNumber: t.tableNumber,
+    scores: Object.fromEntries(state.players.map(p => [p.id, p.score])),
+  }));
+  const teamScores = combineTableScores(partnership.seats, tableScores.map(t => t.scores));
+  const winningTeam = getWinningTeam(teamScores, resolveRuleSet(parent.state.ruleSet).targetScore);
+
+  const eventData: PartnershipHandScoredEventData = {
+    gameId: table.parentGameId,
+    handNumber,
+    tableScores,
+    teamScores,
+    ...(winningTeam !== null && { winningTeam }),
+  };
+
+  // The parent append is the guard: if both tables finish together only one call wins it
+  const parentResult = await EventStore.appendEvent(
+    table.parentGameId,
+    crypto.randomUUID(),
+    parent.version,
+    EventType.PARTNERSHIP_HAND_SCORED,
+    eventData
+  );
+
+  if (!parentResult.success) {
+    console.log(`🤝 Partnership: Hand ${handNumber} of game ${table.parentGameId} already scored`);
+    return null;
+  }
+
+  for (const { table: t, state, version } of tableStates) {
+    const result = await EventStore.appendEvent(
+      t.gameId,
+      crypto.randomUUID(),
+      version,
+      EventType.PARTNERSHIP_HAND_SCORED,
+      { ...eventData, gameId: t.gameId }
+    );
+    if (!result.success) {
+      console.error(`❌ Partnership: Failed to record hand ${handNumber} at table ${t.gameId}:`, result.error);
+    } else if (winningTeam === null && state.players.every(p => p.isReadyForNextRound)) {
+      await startNextTableRound(t.gameId, state.players[0].id, handNumber + 1, result.sequence);
+    }
+  }
+
+  console.log(`🤝 Partnership: Hand ${handNumber} of game ${table.parentGameId} scored ${teamScores.join(' to ')}`);
+
+  if (winningTeam !== null) {
+    await finishPartnershipGame(table.parentGameId, partnership.seats, winningTeam, teamScores);
+  }
+
+  return eventData;
+}
+
+/**
+ * End a partnership because a player forfeited at their table; the other team wins
+ */
+export async function forfeitPartnership(
+  tableGameId: string,
+  winnerId: string,
+  forfeitReason?: PartnershipHandScoredEventData['forfeitReason']
+): Promise<void> {
+  const table = await prisma.game.findUnique({
+    where: { id: tableGameId },
+    select: { parentGameId: true },
+  });
+
+  if (!table?.parentGameId) {
+    return;
+  }
+
+  const parent = await ReplayService.rebuildState(table.parentGameId);
+  const partnership = parent.state.partnership;
+  const winningTeam = partnership && getPlayerTeam(partnership, winnerId);
+  if (!partnership || winningTeam === null || winningTeam === undefined || partnership.winningTeam !== undefined) {
+    return;
+  }
+
+  // No new hand is scored; the running team totals stand
+  const eventData: PartnershipHandScoredEventData = {
+    gameId: table.parentGameId,
+    handNumber: partnership.handsScored,
+    tableScores: [],
+    teamScores: partnership.teamScores,
+    winningTeam,
+    forfeitReason,
+  };
+
+  const parentResult = await EventStore.appendEvent(
+    table.parentGameId,
+    crypto.randomUUID(),
+    parent.version,
+    EventType.PARTNERSHIP_HAND_SCORED,
+    eventData
+  );
+
+  if (!parentResult.success) {
+    console.warn(`⚠️ Partnership: Could not record forfeit for game ${table.parentGameId}:`, parentResult.error);
+    return;
+  }
+
+  // The forfeited table is already over; the other one stops here
+  for (const t of partnership.tables.filter(t => t.gameId !== tableGameId)) {
+    const { version } = await ReplayService.rebuildState(t.gameId);
+    await EventStore.appendEvent(
+      t.gameId,
+      crypto.randomUUID(),
+      version,
+      EventType.PARTNERSHIP_HAND_SCORED,
+      { ...eventData, gameId: t.gameId }
+    );
+  }
+
+  console.log(`🤝 Partnership: Team ${winningTeam} wins game ${table.parentGameId} by forfeit`);
+  await finishPartnershipGame(table.parentGameId, partnership.seats, winningTeam, partnership.teamScores);
+}
+
+/**
+ * Deal the next hand at a table whose players readied up while the other table was still playing
+ */
+async function startNextTableRound(
+  tableGameId: string,
+  playerId: string,
+  roundNumber: number,
+  expectedVersion: number
+): Promise<void> {
+  const { deal: newDeal, seedCommitment } = createCommittedDeal(tableGameId, roundNumber);
+  const result = await EventStore.appendEvent(
+    tableGameId,
+    crypto.randomUUID(),
+    expectedVersion,
+    'START_NEW_ROUND',
+    { playerId, gameId: tableGameId, roundNumber, newDeal, seedCommitment },
+    playerId
+  );
+
+  if (!result.success) {
+    console.error(`❌ Partnership: Failed to start round ${roundNumber} at table ${tableGameId}:`, result.error);
+    return;
+  }
+
+  const { state } = await ReplayService.rebuildState(tableGameId);
+  await maybeCaptureSnapshot(tableGameId, result.sequence, { eventType: 'START_NEW_ROUND', state });
+}
+
+async function finishPartnershipGame(
+  parentGameId: string,
+  seats: string[],
+  winningTeam: number,
+  teamScores: [number, number]
+): Promise<void> {
+  const winnerIds = seats.filter((_, seat) => getSeatTeam(seat) === winningTeam);
+  const loserIds = seats.filter((_, seat) => getSeatTeam(seat) !== winningTeam);
+
+  // Only the caller that closes the parent game rates it
+  const { count } = await prisma.game.updateMany({
+    where: { id: parentGameId, status: 'ACTIVE' },
+    data: {
+      status: 'FINISHED',
+      winnerId: winnerIds[0],
+      player1Score: teamScores[0],
+      player2Score: teamScores[1],
+      finishedAt: new Date(),
+    },
+  });
+
+  await prisma.game.updateMany({
+    where: { parentGameId, status: 'ACTIVE' },
+    data: { status: 'FINISHED', winnerId: winnerIds[0], finishedAt: new Date() },
+  });
+
+  if (count === 0) {
+    return;
+  }
+
+  console.log(`🏆 Partnership: Team ${winningTeam} won game ${parentGameId} (${teamScores.join(' to ')})`);
+
+  const hintedTables = await prisma.game.count({ where: { parentGameId, hintsUsed: { gt: 0 } } });
+  if (hintedTables > 0) {
+    console.log(`💡 Partnership: Hints were used in game ${parentGameId}, so it is not rated`);
+    return;
+  }
+
+  try {
+    await updateTeamElos(winnerIds, loserIds, parentGameId);
+  } catch (error) {
+    console.error('❌ Partnership: Failed to update team ratings:', error);
+  }
+}
+
+async function createTableGame(
+  parentGameId: string,
+  tableNumber: number,
+  parent: GameState,
+  players: PartnershipPlayer[]
+): Promise<string> {
+  const gameId = crypto.randomUUID();
+  const [first, second] = players;
+
+  const { deal: initialDeal, seedCommitment } = createCommittedDeal(gameId, 1);
+  const events = new EventSourcedGinRummyGame(gameId).createInitialGameEvents(
+    first.id,
+    second.id,
+    false,
+    first.username,
+    second.username,
+    {
+      ruleSet: parent.ruleSet,
+      gameType: parent.gameType,
+      timeControl: parent.timeControl,
+      initialDeal,
+      seedCommitment,
+      partnership: { parentGameId, tableNumber, seats: parent.partnership!.seats },
+    }
+  );
+
+  await EventStore.createGameWithEvents(
+    {
+      id: gameId,
+      status: 'ACTIVE',
+      gameType: parent.gameType,
+      clockMode: parent.timeControl?.mode ?? null,
+      player1Id: first.id,
+      player2Id: second.id,
+      currentPlayerId: first.id,
+      isPrivate: true,
+      vsAI: false,
+      maxPlayers: 2,
+      parentGameId,
+      tableNumber,
+    },
+    players.map(player => player.id),
+    events
+  );
+
+  return gameId;
+}
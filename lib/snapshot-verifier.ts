@@ -0,0 +1,100 @@
+/**
+ * Snapshot Verifier
+ *
+ * Snapshots are a cache over the event stream, so a snapshot that disagrees with
+ * the stream is wrong by definition. The verifier replays each game from its first
+ * event, compares the result with every snapshot the game keeps, and invalidates
+ * the ones that diverged; replays then fall back to the events until a fresh
+ * snapshot is captured.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { EventSourcingEngine } from '../packages/common/src/game-engine/event-sourcing';
+import { GameState } from '../packages/common/src/types/game';
+import { EventStore, hashState } from '../src/services/eventStore';
+import { ReplayService } from '../src/services/replay';
+
+const prisma = new PrismaClient();
+
+const DEFAULT_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export interface SnapshotVerificationResult {
+  gameId: string;
+  checked: number;
+  invalidated: number[]; // Sequence numbers of the snapshots removed
+  error?: string;
+}
+
+/**
+ * Replay a game from scratch and invalidate any snapshot that doesn't match
+ */
+export async function verifyGameSnapshots(gameId: string): Promise<SnapshotVerificationResult> {
+  const snapshots = await EventStore.getSnapshots(gameId);
+  const result: SnapshotVerificationResult = { gameId, checked: snapshots.length, invalidated: [] };
+  if (snapshots.length === 0) {
+    return result;
+  }
+
+  const events = ReplayService.toEngineEvents(await EventStore.getAllEvents(gameId));
+  let state: GameState | undefined;
+  let version = 0;
+
+  for (const snapshot of snapshots) {
+    // Carry the replay forward from the previous snapshot rather than starting over
+    const segment = events.filter(event => event.sequenceNumber > version && event.sequenceNumber <= snapshot.sequenceNumber);
+    state = new EventSourcingEngine(gameId, segment, state, version).replayEvents();
+    version = snapshot.sequenceNumber;
+
+    if (hashState(snapshot.state) !== snapshot.stateHash) {
+      await EventStore.invalidateSnapshot(
+        gameId,
+        snapshot,
+        'SNAPSHOT_HASH_MISMATCH',
+        `Snapshot at version ${snapshot.sequenceNumber} does not match its stored hash`
+      );
+      result.invalidated.push(snapshot.sequenceNumber);
+    } else if (hashState(state) !== snapshot.stateHash) {
+      await EventStore.invalidateSnapshot(
+        gameId,
+        snapshot,
+        'SNAPSHOT_DIVERGED',
+        `Snapshot at version ${snapshot.sequenceNumber} differs from a full replay of the events`
+      );
+      result.invalidated.push(snapshot.sequenceNumber);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Verify every game that has taken a snapshot since the given time
+ */
+export async function verifyRecentSnapshots(
+  since: Date = new Date(Date.now() - DEFAULT_LOOKBACK_MS)
+): Promise<SnapshotVerificationResult[]> {
+  const snapshots = await prisma.gameSnapshot.findMany({
+    where: { createdAt: { gte: since } },
+    distinct: ['gameId'],
+    select: { gameId: true },
+  });
+
+  const results: SnapshotVerificationResult[] = [];
+
+  // Replays are CPU-bound, so one game at a time keeps live requests responsive
+  for (const { gameId } of snapshots) {
+    try {
+      results.push(await verifyGameSnapshots(gameId));
+    } catch (error) {
+      console.error(`❌ SnapshotVerifier: Failed to verify snapshots for game ${gameId}:`, error);
+      results.push({
+        gameId,
+        checked: 0,
+        invalidated: [],
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  return results;
+}
@@ -4,7 +4,9 @@ import { EventSourcingEngine } from '../packages/common/src/game-engine/event-so
 import { EventSourcedGinRummyGame } from '../packages/common/src/game-engine/event-sourced-gin-rummy';
 import { GameState, GamePhase } from '@gin-rummy/common';
 import crypto from 'crypto';
+import { EventStore, hashState, isSnapshotIntact } from '../src/services/eventStore';
 import { maybeCaptureSnapshot } from '../src/services/snapshot';
+import { getDealSeed, SEED_REVEALING_EVENTS } from './deal-seeds';
 
 /**
  * TurnController - Database-First Atomic Turn Management
@@ -23,9 +25,16 @@ export class TurnController {
   constructor(private prisma: PrismaClient) {}
 
   /**
-   * Process a player action atomically
+   * Process a player action atomically. The move is timestamped when it was
+   * received, so retries and lock waits don't count against the player's clock.
    */
-  async processTurn(gameId: string, playerId: string, action: GameAction, retryCount: number = 0): Promise<{
+  async processTurn(
+    gameId: string,
+    playerId: string,
+    action: GameAction,
+    retryCount: number = 0,
+    receivedAt: Date = new Date()
+  ): Promise<{
     success: true;
     gameState: GameState;
     event: GameEvent;
@@ -104,6 +113,12 @@ export class TurnController {
         }
         
         const newEvent = eventResult;
+        newEvent.metadata = { ...newEvent.metadata, timestamp: receivedAt.toISOString() };
+
+        // Gin, a dead hand or the AI's layoffs end the round here rather than in a route, so reveal its seed now
+        if (SEED_REVEALING_EVENTS.includes(newEvent.eventType)) {
+          (newEvent.eventData as { seed?: string }).seed = getDealSeed(gameId, currentState.roundNumber || 1);
+        }
 
         console.log(`✨ TurnController: Created event ${newEvent.eventType} (seq: ${newEvent.sequenceNumber})`);
 
@@ -129,7 +144,7 @@ export class TurnController {
           metadata: newEvent.metadata,
           processed: true,
           processedAt: new Date(),
-          createdAt: new Date(),
+          createdAt: receivedAt,
         };
         console.log('💾 TurnController: Field values:');
         console.log('  id:', typeof prismaData.id, prismaData.id);
@@ -226,6 +241,7 @@ export class TurnController {
           eventType: result.event.eventType,
           state: result.gameState
         });
+        await EventStore.updateProjections(gameId);
       }
 
       return result;
@@ -254,7 +270,7 @@ export class TurnController {
         const delay = 50 * Math.pow(2, retryCount);
         await new Promise(resolve => setTimeout(resolve, delay));
         
-        return this.processTurn(gameId, playerId, action, retryCount + 1);
+        return this.processTurn(gameId, playerId, action, retryCount + 1, receivedAt);
       }
 
       // Map database errors to user-friendly messages
@@ -338,6 +354,9 @@ export class TurnController {
     console.log(`📖 TurnController: Loading game state for ${gameId}${userId ? ` (user: ${userId})` : ' (system)'}`);
 
     try {
+      // Set inside the transaction; typed by assertion since TS does not track callback assignments
+      let corruptSnapshot = null as { id: string; sequenceNumber: number } | null;
+
       // OPTIMIZATION: Use database transaction for consistency
       const result = await this.prisma.$transaction(async (tx) => {
         // Get game metadata with optimized query
@@ -392,7 +411,14 @@ export class TurnController {
             orderBy: { sequenceNumber: 'desc' },
           });
 
-          if (latestSnapshot) {
+          const snapshotIntact = latestSnapshot && isSnapshotIntact({
+            state: latestSnapshot.gameState as unknown as GameState,
+            stateHash: latestSnapshot.stateHash,
+          });
+          if (latestSnapshot && !snapshotIntact) {
+            // Fall back to the full replay below and invalidate once the transaction is done
+            corruptSnapshot = latestSnapshot;
+          } else if (latestSnapshot) {
             console.log(`📸 TurnController: Found snapshot at sequence ${latestSnapshot.sequenceNumber}`);
             
             // Load only events after the snapshot
@@ -452,7 +478,7 @@ export class TurnController {
                 gameId,
                 sequenceNumber: events.length,
                 gameState: gameState as any,
-                stateHash: this.calculateStateHash(gameState),
+                stateHash: hashState(gameState),
                 createdBy: 'system',
               },
             });
@@ -465,6 +491,15 @@ export class TurnController {
         return gameState;
       });
 
+      if (corruptSnapshot) {
+        await EventStore.invalidateSnapshot(
+          gameId,
+          corruptSnapshot,
+          'SNAPSHOT_HASH_MISMATCH',
+          `Snapshot at version ${corruptSnapshot.sequenceNumber} does not match its stored hash`
+        );
+      }
+
       // Apply user perspective (hide opponent cards if needed)
       const finalState = userId ? this.applyUserPerspective(result, userId) : result;
 
@@ -887,37 +922,4 @@ export class TurnController {
     };
   }
 
-  /**
-   * Calculate a hash of the game state for snapshot validation
-   */
-  private calculateStateHash(state: GameState): string {
-    try {
-      // Create a deterministic representation of the game state
-      const stateForHash = {
-        gameId: state.id,
-        status: state.status,
-        phase: state.phase,
-        currentPlayerId: state.currentPlayerId,
-        playerHands: state.players.map(p => ({
-          id: p.id,
-          handSize: p.handSize,
-          score: p.score,
-          hasKnocked: p.hasKnocked,
-          hasGin: p.hasGin
-        })),
-        stockPileCount: state.stockPileCount,
-        discardPileTop: state.discardPile[0]?.id || null,
-        gameOver: state.gameOver,
-        winner: state.winner
-      };
-
-      return crypto.createHash('sha256')
-        .update(JSON.stringify(stateForHash))
-        .digest('hex')
-        .substring(0, 16); // Use first 16 characters for efficiency
-    } catch (error) {
-      console.warn('⚠️ Failed to calculate state hash:', error);
-      return Date.now().toString();
-    }
-  }
 }
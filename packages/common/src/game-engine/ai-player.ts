@@ -1,5 +1,6 @@
-import { Card, GameMove, MoveType, Meld, GamePhase } from '../types/game';
+import { Card, GameMove, MoveType, Meld, GamePhase, DEFAULT_RULE_SET, AIPersonality, AIMoveCandidate, AIRationale } from '../types/game';
 import {
+  createDeck,
   getCardValue,
   findCardGroups,
   getRankValue,
@@ -7,64 +8,83 @@ import {
   isValidSet,
 } from '../utils/cards';
 import { calculateDeadwood, findOptimalMelds } from '../utils/scoring';
+import { findBestLayOffs } from '../utils/layoffs';
+import { Strategy } from './strategy';
+
+const DECK = createDeck();
+const DISCARD_DRAW_MARGIN = 5; // How much the top discard must improve the hand to be worth taking
+
+/**
+ * Whether a rationale candidate is this move. Draw candidates name the card on offer, draw moves do not.
+ */
+function isCandidateFor(candidate: AIMoveCandidate, move: GameMove): boolean {
+  return candidate.type === move.type && (move.cardId === undefined || candidate.cardId === move.cardId);
+}
 
 /**
  * AI strategy for Gin Rummy
  * Uses heuristic evaluation to make decisions
  */
-export class AIPlayer {
-  private readonly playerId: string;
+export class AIPlayer implements Strategy {
+  protected readonly playerId: string;
+  protected readonly personality: AIPersonality;
+  protected lastRationale: AIRationale | null = null;
 
-  constructor(playerId: string) {
+  constructor(playerId: string, personality: AIPersonality = AIPersonality.Balanced) {
     this.playerId = playerId;
+    this.personality = personality;
   }
 
   /**
-   * Get AI thought process for display (without revealing strategy)
+   * Get AI thought process for display (without revealing strategy).
+   * Works the move out for real and describes only what playing it will make public.
    */
   public getThoughts(
     hand: Card[],
     phase: GamePhase,
     discardPile: Card[],
-    stockCount: number
+    stockCount: number,
+    knockLimit: number = DEFAULT_RULE_SET.knockLimit
   ): string[] {
-    const thoughts: string[] = [];
-    
-    if (phase === GamePhase.Draw) {
-      thoughts.push("Looking at my cards...");
-      
-      if (discardPile.length > 0) {
-        const topDiscard = discardPile[discardPile.length - 1];
-        thoughts.push(`Hmm, should I take the ${topDiscard.rank}?`);
-        
-        // Don't reveal the actual evaluation
-        const shouldTake = Math.random() > 0.6; // Just for thinking variety
-        if (shouldTake) {
-          thoughts.push("That could be useful...");
-          thoughts.push("I'll take it");
-        } else {
-          thoughts.push("I'll pass on that");
-          thoughts.push("Drawing from the deck");
+    this.getMove(hand, phase, discardPile, stockCount, knockLimit);
+    return this.lastRationale ? AIPlayer.describeRationale(this.lastRationale) : [];
+  }
+
+  /**
+   * Describe a rationale in words without scores or deadwood, so it is safe to show mid-game
+   */
+  public static describeRationale(rationale: AIRationale): string[] {
+    const name = (cardId?: string) => {
+      const card = DECK.find(c => c.id === cardId);
+      return card ? `${card.rank} of ${card.suit}` : 'card';
+    };
+    const { chosen } = rationale;
+    const thoughts = ['Looking at my cards...'];
+
+    switch (chosen.type) {
+      case MoveType.TakeUpcard:
+      case MoveType.DrawDiscard:
+        thoughts.push(`Weighing the ${name(chosen.cardId)} against a card from the deck`);
+        thoughts.push(`I'll take the ${name(chosen.cardId)}`);
+        break;
+
+      case MoveType.PassUpcard:
+      case MoveType.DrawStock: {
+        const offered = rationale.candidates.find(c => c.cardId);
+        if (offered) {
+          thoughts.push(`Weighing the ${name(offered.cardId)} against a card from the deck`);
         }
-      } else {
-        thoughts.push("Drawing from the deck");
+        thoughts.push(chosen.type === MoveType.PassUpcard ? "I'll pass on the upcard" : 'Drawing from the deck');
+        break;
+      }
+
+      default: {
+        const discards = rationale.candidates.filter(c => c.type === MoveType.Discard).length;
+        thoughts.push(`Comparing ${discards} ${discards === 1 ? 'card' : 'cards'} to discard`);
+        thoughts.push(chosen.type === MoveType.Discard ? `Letting go of the ${name(chosen.cardId)}` : 'Time to lay my cards down');
       }
-    } else if (phase === GamePhase.Discard) {
-      thoughts.push("Which card should I discard?");
-      thoughts.push("Let me think about this...");
-      
-      // Generic thoughts without revealing strategy
-      const thinkingOptions = [
-        "This one doesn't fit well",
-        "I don't need this card",
-        "This seems like the right choice",
-        "Better to get rid of this one"
-      ];
-      
-      const randomThought = thinkingOptions[Math.floor(Math.random() * thinkingOptions.length)];
-      thoughts.push(randomThought);
     }
-    
+
     return thoughts;
   }
 
@@ -75,15 +95,17 @@ export class AIPlayer {
     hand: Card[],
     phase: GamePhase,
     discardPile: Card[],
-    stockCount: number
+    stockCount: number,
+    knockLimit: number = DEFAULT_RULE_SET.knockLimit
   ): GameMove {
     console.log(`AI evaluating move: phase=${phase}, hand size=${hand.length}, discard pile size=${discardPile.length}`);
-    if (phase === GamePhase.Draw) {
-      const move = this.getDrawMove(hand, discardPile, stockCount);
+    if (phase === GamePhase.UpcardDecision || phase === GamePhase.Draw) {
+      // The upcard is worth taking exactly when it would be worth drawing
+      const move = this.getDrawMove(hand, discardPile, phase);
       console.log(`AI chose draw move: ${move.type}`);
       return move;
     } else if (phase === GamePhase.Discard) {
-      const move = this.getDiscardMove(hand);
+      const move = this.getDiscardMove(hand, knockLimit);
       console.log(`AI chose discard move: ${move.type}`);
       return move;
     }
@@ -92,118 +114,122 @@ export class AIPlayer {
   }
 
   /**
-   * Decide whether to draw from stock or discard pile
+   * Rationale for the most recent move, or null before the first move
+   */
+  public getLastRationale(): AIRationale | null {
+    return this.lastRationale;
+  }
+
+  /**
+   * Record the candidates behind a move and return the move
+   */
+  protected decide(phase: GamePhase, candidates: AIMoveCandidate[], move: GameMove): GameMove {
+    const ranked = [...candidates].sort((a, b) => (b.score ?? Infinity) - (a.score ?? Infinity));
+    const chosen = ranked.find(c => isCandidateFor(c, move)) ?? ranked[0];
+    this.lastRationale = { phase, chosen, candidates: ranked };
+    return move;
+  }
+
+  /**
+   * Decide whether to take the top discard or draw from stock
    */
-  private getDrawMove(hand: Card[], discardPile: Card[], stockCount: number): GameMove {
+  private getDrawMove(hand: Card[], discardPile: Card[], phase: GamePhase): GameMove {
+    const upcard = phase === GamePhase.UpcardDecision;
+    const take = upcard ? MoveType.TakeUpcard : MoveType.DrawDiscard;
+    const pass = upcard ? MoveType.PassUpcard : MoveType.DrawStock;
+    const deadwood = findOptimalMelds(hand).deadwood;
+
     if (discardPile.length === 0) {
-      return {
-        type: MoveType.DrawStock,
+      return this.decide(phase, [{ type: pass, score: null, deadwoodAfter: deadwood }], {
+        type: pass,
         playerId: this.playerId,
-      };
+      });
     }
 
-    const topDiscard = discardPile[discardPile.length - 1];
+    // The engine keeps the top of the discard pile at index 0
+    const topDiscard = discardPile[0];
     const handWithDiscard = [...hand, topDiscard];
     
     // Evaluate potential improvement by drawing discard
     const currentValue = this.evaluateHand(hand);
     const discardValue = this.evaluateHand(handWithDiscard);
-    
+    const candidates: AIMoveCandidate[] = [
+      {
+        type: take,
+        cardId: topDiscard.id,
+        score: discardValue - currentValue,
+        deadwoodAfter: Math.min(...hand.map(card => findOptimalMelds(handWithDiscard.filter(c => c.id !== card.id)).deadwood)),
+      },
+      { type: pass, score: DISCARD_DRAW_MARGIN, deadwoodAfter: deadwood },
+    ];
+
     // If drawing discard significantly improves hand, do it
-    if (discardValue > currentValue + 5) {
-      return {
-        type: MoveType.DrawDiscard,
-        playerId: this.playerId,
-      };
+    if (discardValue > currentValue + DISCARD_DRAW_MARGIN) {
+      return this.decide(phase, candidates, { type: take, playerId: this.playerId });
     }
 
     // Otherwise draw from stock
-    return {
-      type: MoveType.DrawStock,
-      playerId: this.playerId,
-    };
+    return this.decide(phase, candidates, { type: pass, playerId: this.playerId });
   }
 
   /**
    * Decide what to discard, or whether to knock/gin
    */
-  private getDiscardMove(hand: Card[]): GameMove {
+  private getDiscardMove(hand: Card[], knockLimit: number): GameMove {
     const optimal = findOptimalMelds(hand);
-    
-    // Check for gin (no deadwood after discarding)
-    const ginMove = this.checkForGin(hand, optimal.melds);
-    if (ginMove) {
-      return ginMove;
-    }
 
-    // Check if we can knock (≤10 deadwood after discarding)
-    const knockMove = this.checkForKnock(hand, optimal.melds);
-    if (knockMove) {
-      return knockMove;
-    }
+    // Try discarding every card, not just unmelded ones, because sometimes
+    // discarding a melded card lets the rest form better melds
+    const options = hand.map(card => ({ card, ...findOptimalMelds(hand.filter(c => c.id !== card.id)) }));
+    const deadwoodAfter = (card: Card) => options.find(option => option.card.id === card.id)!.deadwood;
 
-    // Regular discard - choose worst card
-    const discardCard = this.chooseBestDiscard(hand, optimal.melds);
-    
-    return {
+    // A knock limit of 0 means only gin ends the hand (Straight Gin), so hold out for it
+    const ginOnly = knockLimit <= 0;
+
+    const discards = this.rankDiscards(hand, optimal.melds, ginOnly);
+    const candidates: AIMoveCandidate[] = discards.map(({ card, score }) => ({
       type: MoveType.Discard,
-      playerId: this.playerId,
-      cardId: discardCard.id,
-    };
-  }
+      cardId: card.id,
+      score: -score,
+      deadwoodAfter: deadwoodAfter(card),
+    }));
 
-  /**
-   * Check if we can gin (all cards melded after discard)
-   */
-  private checkForGin(hand: Card[], melds: Meld[]): GameMove | null {
-    // Try discarding each card in hand to see if we achieve gin
-    // We check ALL cards, not just unmelded ones, because sometimes
-    // discarding a melded card allows for better meld formation
-    for (const card of hand) {
-      const handAfterDiscard = hand.filter(c => c.id !== card.id);
-      const newMelds = findOptimalMelds(handAfterDiscard);
-      
-      if (newMelds.deadwood === 0) {
-        return {
-          type: MoveType.Gin,
-          playerId: this.playerId,
-          cardId: card.id,
-          melds: newMelds.melds,
-        };
-      }
+    // Check for gin (no deadwood after discarding)
+    const gin = options.find(option => option.deadwood === 0);
+    if (gin) {
+      return this.decide(
+        GamePhase.Discard,
+        [{ type: MoveType.Gin, cardId: gin.card.id, score: null, deadwoodAfter: 0 }, ...candidates],
+        { type: MoveType.Gin, playerId: this.playerId, cardId: gin.card.id, melds: gin.melds }
+      );
     }
 
-    return null;
-  }
-
-  /**
-   * Check if we can knock (≤10 deadwood after discard)
-   */
-  private checkForKnock(hand: Card[], melds: Meld[]): GameMove | null {
-    // Try discarding each card in hand and recalculate optimal melds
-    // We check ALL cards because sometimes discarding a melded card
-    // and reforming melds results in better deadwood totals
-    for (const card of hand) {
-      const handAfterDiscard = hand.filter(c => c.id !== card.id);
-      const optimalMelds = findOptimalMelds(handAfterDiscard);
-      
-      if (optimalMelds.deadwood <= 10) {
-        return {
-          type: MoveType.Knock,
-          playerId: this.playerId,
-          cardId: card.id,
-          melds: optimalMelds.melds,
-        };
+    // Check if we can knock (deadwood within this hand's knock limit after discarding).
+    // A gin hunter holds out for less deadwood than the rules allow.
+    if (!ginOnly) {
+      const knockAt = Math.min(knockLimit, AIPlayer.getPersonalityTraits(this.personality).maxKnockDeadwood);
+      const knock = options.find(option => option.deadwood <= knockAt);
+      if (knock) {
+        return this.decide(
+          GamePhase.Discard,
+          [{ type: MoveType.Knock, cardId: knock.card.id, score: null, deadwoodAfter: knock.deadwood }, ...candidates],
+          { type: MoveType.Knock, playerId: this.playerId, cardId: knock.card.id, melds: knock.melds }
+        );
       }
     }
 
-    return null;
+    // Regular discard - choose worst card
+    return this.decide(GamePhase.Discard, candidates, {
+      type: MoveType.Discard,
+      playerId: this.playerId,
+      cardId: discards[0].card.id,
+    });
   }
 
   /**
-   * Choose the best card to discard
+   * Rank the cards worth discarding, best discard first (lower score = better to discard)
    */
-  private chooseBestDiscard(hand: Card[], melds: Meld[]): Card {
+  private rankDiscards(hand: Card[], melds: Meld[], ginOnly: boolean): Array<{ card: Card; score: number }> {
     const meldedCardIds = new Set(
       melds.flatMap(meld => meld.cards.map(card => card.id))
     );
@@ -212,37 +238,43 @@ export class AIPlayer {
     
     if (unmeldedCards.length === 0) {
       // Shouldn't happen, but fallback to highest card
-      return hand.reduce((highest, card) => 
+      const highest = hand.reduce((highest, card) => 
         getCardValue(card) > getCardValue(highest) ? card : highest
       );
+      return [{ card: highest, score: 0 }];
     }
 
     // Score each unmelded card by potential value
     const cardScores = unmeldedCards.map(card => ({
       card,
-      score: this.evaluateDiscardValue(card, hand),
+      score: this.evaluateDiscardValue(card, hand, ginOnly),
     }));
 
     // Sort by score (lower is better for discard)
     cardScores.sort((a, b) => a.score - b.score);
     
-    return cardScores[0].card;
+    return cardScores;
   }
 
   /**
    * Evaluate how valuable keeping a card is (lower = better to discard)
    */
-  private evaluateDiscardValue(card: Card, hand: Card[]): number {
+  private evaluateDiscardValue(card: Card, hand: Card[], ginOnly: boolean): number {
     let value = 0;
 
+    // Without knocking, deadwood only costs points if the opponent gins,
+    // so meld potential matters more than shedding high cards
+    const valueWeight = ginOnly ? 0.5 : 1;
+    const potentialWeight = ginOnly ? 2 : 1;
+
     // Base penalty for card value (higher cards are worse to keep as deadwood)
-    value += getCardValue(card);
+    value += getCardValue(card) * valueWeight;
 
     // Bonus for potential in runs
-    value -= this.evaluateRunPotential(card, hand) * 3;
+    value -= this.evaluateRunPotential(card, hand) * 3 * potentialWeight;
 
     // Bonus for potential in sets
-    value -= this.evaluateSetPotential(card, hand) * 2;
+    value -= this.evaluateSetPotential(card, hand) * 2 * potentialWeight;
 
     return value;
   }
@@ -250,7 +282,7 @@ export class AIPlayer {
   /**
    * Evaluate potential for card to form runs
    */
-  private evaluateRunPotential(card: Card, hand: Card[]): number {
+  protected evaluateRunPotential(card: Card, hand: Card[]): number {
     const samesuit = hand.filter(c => c.suit === card.suit && c.id !== card.id);
     const cardRankValue = getRankValue(card.rank);
     let potential = 0;
@@ -273,7 +305,7 @@ export class AIPlayer {
   /**
    * Evaluate potential for card to form sets
    */
-  private evaluateSetPotential(card: Card, hand: Card[]): number {
+  protected evaluateSetPotential(card: Card, hand: Card[]): number {
     const sameRank = hand.filter(c => c.rank === card.rank && c.id !== card.id);
     return sameRank.length * 2; // Each matching rank card adds potential
   }
@@ -281,7 +313,7 @@ export class AIPlayer {
   /**
    * Evaluate overall hand strength
    */
-  private evaluateHand(hand: Card[]): number {
+  protected evaluateHand(hand: Card[]): number {
     const optimal = findOptimalMelds(hand);
     let score = 0;
 
@@ -371,6 +403,29 @@ export class AIPlayer {
     return potential;
   }
 
+  /**
+   * Get personality traits for knocking
+   */
+  public static getPersonalityTraits(personality: AIPersonality) {
+    switch (personality) {
+      case AIPersonality.AggressiveKnocker:
+        return {
+          maxKnockDeadwood: 10, // Knock at whatever the rules allow
+          knockMargin: 0, // Ignore the undercut risk
+        };
+      case AIPersonality.GinHunter:
+        return {
+          maxKnockDeadwood: 2, // Only knock when almost at gin
+          knockMargin: 10,
+        };
+      default:
+        return {
+          maxKnockDeadwood: 10,
+          knockMargin: 5, // Knock when the opponent likely holds this much more deadwood
+        };
+    }
+  }
+
   /**
    * Get difficulty level adjustments
    */
@@ -419,68 +474,42 @@ export class AIPlayer {
     phase: GamePhase,
     discardPile: Card[],
     stockCount: number,
-    difficulty: 'easy' | 'medium' | 'hard' = 'medium'
+    difficulty: 'easy' | 'medium' | 'hard' = 'medium',
+    knockLimit: number = DEFAULT_RULE_SET.knockLimit
   ): GameMove {
     const adjustments = AIPlayer.getDifficultyAdjustments(difficulty);
+    const bestMove = this.getMove(hand, phase, discardPile, stockCount, knockLimit);
     
     // Sometimes make suboptimal moves based on difficulty
     if (Math.random() < adjustments.makeSuboptimalMoves) {
-      return this.getSuboptimalMove(hand, phase, discardPile, stockCount);
+      const move = this.getSuboptimalMove(hand, phase, bestMove);
+      const rationale = this.lastRationale;
+      if (rationale && (move.type !== bestMove.type || move.cardId !== bestMove.cardId)) {
+        const chosen = rationale.candidates.find(c => isCandidateFor(c, move));
+        this.lastRationale = { ...rationale, chosen: chosen ?? rationale.chosen, suboptimal: true };
+      }
+      return move;
     }
     
-    return this.getMove(hand, phase, discardPile, stockCount);
+    return bestMove;
   }
 
   /**
-   * Calculate optimal layoffs for AI player
+   * Calculate optimal layoffs for AI player, searching every way to lay off its deadwood
    */
   public calculateOptimalLayoffs(
     hand: Card[],
     currentMelds: Meld[],
     opponentMelds: Meld[]
   ): Array<{ cards: Card[]; targetMeld: Meld }> {
-    console.log(`🤖 AIPlayer.calculateOptimalLayoffs: Starting calculation`);
-    console.log(`🤖 AIPlayer: Hand size: ${hand.length}, Current melds: ${currentMelds.length}, Opponent melds: ${opponentMelds.length}`);
-    
-    const layoffs: Array<{ cards: Card[]; targetMeld: Meld }> = [];
-    
-    // Get deadwood cards (cards not in current melds)
     const meldedCardIds = new Set(
       currentMelds.flatMap(meld => meld.cards.map(card => card.id))
     );
     const deadwoodCards = hand.filter(card => !meldedCardIds.has(card.id));
-    
-    console.log(`🤖 AIPlayer: Deadwood cards: ${deadwoodCards.map(c => `${c.rank}${c.suit}`).join(', ')}`);
-    console.log(`🤖 AIPlayer: Opponent melds: ${opponentMelds.map(m => `${m.type}[${m.cards.map(c => `${c.rank}${c.suit}`).join(',')}]`).join(', ')}`);
-    
-    // Try each deadwood card against each opponent meld
-    for (const card of deadwoodCards) {
-      console.log(`🤖 AIPlayer: Testing card ${card.rank}${card.suit} against all opponent melds`);
-      for (const meld of opponentMelds) {
-        console.log(`🤖 AIPlayer:   Testing against meld: ${meld.type}[${meld.cards.map(c => `${c.rank}${c.suit}`).join(',')}]`);
-        if (this.canLayOffOnMeld(card, meld)) {
-          console.log(`🤖 AIPlayer:   ✅ CAN LAYOFF ${card.rank}${card.suit} on ${meld.type}[${meld.cards.map(c => `${c.rank}${c.suit}`).join(',')}]`);
-          // Check if we already have a layoff for this meld
-          const existingLayoff = layoffs.find(lo => 
-            lo.targetMeld.cards[0].id === meld.cards[0].id
-          );
-          
-          if (existingLayoff) {
-            existingLayoff.cards.push(card);
-          } else {
-            layoffs.push({
-              cards: [card],
-              targetMeld: meld
-            });
-          }
-        } else {
-          console.log(`🤖 AIPlayer:   ❌ Cannot layoff ${card.rank}${card.suit} on ${meld.type}[${meld.cards.map(c => `${c.rank}${c.suit}`).join(',')}]`);
-        }
-      }
-    }
-    
-    console.log(`🤖 AIPlayer: Found ${layoffs.length} total layoffs`);
-    return layoffs;
+
+    const plan = findBestLayOffs(deadwoodCards, opponentMelds);
+    console.log(`🤖 AIPlayer: Best layoffs save ${plan.value} points across ${plan.layOffs.length} melds`);
+    return plan.layOffs;
   }
 
   /**
@@ -518,48 +547,10 @@ export class AIPlayer {
     return totalLayoffValue >= layoffThreshold;
   }
 
-  /**
-   * Check if a card can be laid off on a specific meld
-   */
-  private canLayOffOnMeld(card: Card, meld: Meld): boolean {
-    console.log(`🤖 AIPlayer: Testing layoff - ${card.rank}${card.suit} on ${meld.type}[${meld.cards.map(c => `${c.rank}${c.suit}`).join(',')}]`);
-    
-    if (meld.type === 'set') {
-      // For sets: card must have same rank as the set
-      const canLayoff = card.rank === meld.cards[0].rank;
-      console.log(`🤖 AIPlayer: Set layoff test - ${card.rank} === ${meld.cards[0].rank} = ${canLayoff}`);
-      return canLayoff;
-    } else {
-      // For runs: card must extend the sequence and be same suit
-      const meldSuit = meld.cards[0].suit;
-      if (card.suit !== meldSuit) {
-        console.log(`🤖 AIPlayer: Run layoff failed - different suit (${card.suit} vs ${meldSuit})`);
-        return false;
-      }
-      
-      const ranks = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
-      const meldRanks = meld.cards.map(c => ranks.indexOf(c.rank)).sort((a, b) => a - b);
-      const cardRank = ranks.indexOf(card.rank);
-      
-      // Card must extend either end of the run (not middle)
-      const canExtendLow = cardRank === meldRanks[0] - 1 && cardRank >= 0;
-      const canExtendHigh = cardRank === meldRanks[meldRanks.length - 1] + 1 && cardRank < ranks.length;
-      
-      const canLayoff = canExtendLow || canExtendHigh;
-      console.log(`🤖 AIPlayer: Run layoff test - cardRank:${cardRank}, meldRanks:[${meldRanks.join(',')}], canExtendLow:${canExtendLow}, canExtendHigh:${canExtendHigh} = ${canLayoff}`);
-      return canLayoff;
-    }
-  }
-
   /**
    * Generate intentionally suboptimal moves for easier difficulty
    */
-  private getSuboptimalMove(
-    hand: Card[],
-    phase: GamePhase,
-    discardPile: Card[],
-    stockCount: number
-  ): GameMove {
+  private getSuboptimalMove(hand: Card[], phase: GamePhase, bestMove: GameMove): GameMove {
     if (phase === GamePhase.Draw) {
       // Always draw from stock (suboptimal)
       return {
@@ -585,6 +576,6 @@ export class AIPlayer {
     }
     
     // Fall back to optimal move if suboptimal generation fails
-    return this.getMove(hand, phase, discardPile, stockCount);
+    return bestMove;
   }
 }
\ No newline at end of file
@@ -0,0 +1,199 @@
+import { Card } from '../types/game';
+import {
+  AIMoveCompletedEventData,
+  AIThinkingStartedEventData,
+  DrawFromStockEventData,
+  EventType,
+  GameEvent,
+  GameStartedEventData,
+  TimeoutAutoPlayEventData,
+} from '../types/events';
+import { EventSourcingEngine } from './event-sourcing';
+
+/**
+ * Event Logs
+ *
+ * A game's events as JSON Lines: a header line, then one stored event per line in
+ * sequence order. A finished game's log is complete and replays exactly. While a game
+ * is in play the log is redacted for the player exporting it, hiding every card they
+ * could not have seen, so it can be attached to a bug report without giving the hand away.
+ */
+
+export const EVENT_LOG_FORMAT = 'gin-rummy-event-log';
+export const EVENT_LOG_VERSION = 1;
+
+export interface EventLogHeader {
+  format: typeof EVENT_LOG_FORMAT;
+  version: number;
+  gameId: string;
+  exportedAt: string;
+  events: number;
+  redactedFor: string | null; // Player the log was redacted for, null when complete
+}
+
+export interface EventLog {
+  header: EventLogHeader;
+  events: GameEvent[];
+}
+
+type Deal = { player1Hand: Card[]; player2Hand: Card[]; stockPile?: Card[] };
+
+// Same placeholder the filtered game state uses for cards the viewer can't see
+const HIDDEN_CARD = { id: 'hidden', rank: '?', suit: '?', isHidden: true } as unknown as Card;
+
+function hideCards(cards: Card[] | undefined): Card[] | undefined {
+  return cards?.map(() => HIDDEN_CARD);
+}
+
+function redactDeal<T extends Deal>(deal: T, viewerId: string, dealtTo: Array<string | undefined>): T {
+  return {
+    ...deal,
+    player1Hand: dealtTo[0] === viewerId ? deal.player1Hand : hideCards(deal.player1Hand),
+    player2Hand: dealtTo[1] === viewerId ? deal.player2Hand : hideCards(deal.player2Hand),
+    stockPile: hideCards(deal.stockPile),
+  };
+}
+
+function redactEventData(
+  eventType: EventType,
+  eventData: any,
+  viewerId: string,
+  dealtTo: Array<string | undefined>
+): any {
+  switch (eventType) {
+    case EventType.GAME_STARTED: {
+      const data = eventData as GameStartedEventData;
+      return { ...data, initialDeal: redactDeal(data.initialDeal, viewerId, [data.player1Id, data.player2Id]) };
+    }
+
+    case EventType.START_NEW_ROUND:
+    case EventType.ROUND_STARTED:
+      return eventData.newDeal ? { ...eventData, newDeal: redactDeal(eventData.newDeal, viewerId, dealtTo) } : eventData;
+
+    case EventType.DRAW_FROM_STOCK: {
+      const data = eventData as DrawFromStockEventData;
+      return {
+        ...data,
+        cardDrawn: data.playerId === viewerId ? data.cardDrawn : HIDDEN_CARD,
+        newStockPile: hideCards(data.newStockPile),
+      };
+    }
+
+    case EventType.TIMEOUT_AUTO_PLAY: {
+      const data = eventData as TimeoutAutoPlayEventData;
+      return {
+        ...data,
+        moves: data.moves.map(move => ({
+          ...move,
+          eventData: redactEventData(move.eventType, move.eventData, viewerId, dealtTo),
+        })),
+      };
+    }
+
+    case EventType.AI_MOVE_COMPLETED: {
+      const data = eventData as AIMoveCompletedEventData;
+      return { ...data, moveData: redactEventData(data.moveType, data.moveData, viewerId, dealtTo) };
+    }
+
+    case EventType.AI_THINKING_STARTED: {
+      // The AI's thoughts talk about its own hand
+      const data = eventData as AIThinkingStartedEventData;
+      return data.playerId === viewerId ? data : { ...data, thoughts: [] };
+    }
+
+    default:
+      return eventData;
+  }
+}
+
+/**
+ * Hide every card the viewer could not have seen: the other hands and the stock in each
+ * deal, and cards the others drew from the stock. Hands shown at the end of a hand stay,
+ * as they were laid down for both players. Events must be the whole game, in order.
+ */
+export function redactEventLog(events: GameEvent[], viewerId: string): GameEvent[] {
+  if (events.length === 0) {
+    return [];
+  }
+
+  // Later deals go to whoever holds the first two seats then, so follow the game along
+  const engine = new EventSourcingEngine(events[0].gameId, []);
+  engine.replayEvents();
+
+  return events.map(event => {
+    const state = engine.applyEvent(event);
+    const dealtTo = [state.players[0]?.id, state.players[1]?.id];
+
+    return {
+      ...event,
+      eventData: redactEventData(event.eventType, event.eventData, viewerId, dealtTo),
+      // An AI move's rationale explains it from the AI's hand
+      metadata: event.metadata && event.playerId !== viewerId
+        ? { ...event.metadata, rationale: undefined }
+        : event.metadata,
+    };
+  });
+}
+
+export function createEventLogHeader(gameId: string, events: GameEvent[], redactedFor: string | null): EventLogHeader {
+  return {
+    format: EVENT_LOG_FORMAT,
+    version: EVENT_LOG_VERSION,
+    gameId,
+    exportedAt: new Date().toISOString(),
+    events: events.length,
+    redactedFor,
+  };
+}
+
+export function serializeEventLog({ header, events }: EventLog): string {
+  return [header, ...events].map(line => JSON.stringify(line)).join('\n') + '\n';
+}
+
+/**
+ * Read a log written by serializeEventLog, checking that it holds one game's events
+ * in sequence. Errors name the line at fault.
+ */
+export function parseEventLog(text: string): EventLog {
+  const lines = text.split('\n').map(line => line.trim());
+  const parsed = lines.flatMap((line, index) => {
+    if (!line) {
+      return [];
+    }
+    try {
+      return [{ lineNumber: index + 1, value: JSON.parse(line) }];
+    } catch {
+      throw new Error(`Line ${index + 1} is not valid JSON`);
+    }
+  });
+
+  const [first, ...rest] = parsed;
+  const header = first?.value as EventLogHeader | undefined;
+  if (!header || header.format !== EVENT_LOG_FORMAT) {
+    throw new Error(`Not a ${EVENT_LOG_FORMAT} file`);
+  }
+  if (header.version > EVENT_LOG_VERSION) {
+    throw new Error(`Event log version ${header.version} is newer than this build reads (${EVENT_LOG_VERSION})`);
+  }
+
+  const eventTypes = new Set<string>(Object.values(EventType));
+  const events = rest.map(({ lineNumber, value }, index) => {
+    const event = value as GameEvent;
+    if (event.gameId !== header.gameId) {
+      throw new Error(`Line ${lineNumber} belongs to game ${event.gameId}, not ${header.gameId}`);
+    }
+    if (!eventTypes.has(event.eventType)) {
+      throw new Error(`Line ${lineNumber} has unknown event type ${event.eventType}`);
+    }
+    if (event.sequenceNumber !== index + 1) {
+      throw new Error(`Line ${lineNumber} has sequence ${event.sequenceNumber}, expected ${index + 1}`);
+    }
+    return event;
+  });
+
+  if (events.length !== header.events) {
+    throw new Error(`Header lists ${header.events} events but the log holds ${events.length}`);
+  }
+
+  return { header, events };
+}
@@ -5,6 +5,16 @@ import {
   GamePhase,
   PlayerState,
   Meld,
+  RuleSet,
+  GameType,
+  Deal,
+  TimeControl,
+  PartnershipState,
+  CutthroatState,
+  AIStrategy,
+  AIPersonality,
+  AISpeed,
+  Difficulty,
 } from '../types/game';
 import {
   GameEvent,
@@ -16,12 +26,14 @@ import {
   GinEventData,
   GameStartedEventData,
   StartNewRoundEventData,
+  TimeoutAutoPlayEventData,
   createGameEvent,
 } from '../types/events';
 import {
   createDeck,
   shuffleDeck,
   sortCards,
+  getCardValue,
 } from '../utils/cards';
 import {
   calculateDeadwood,
@@ -29,8 +41,16 @@ import {
   calculateKnockScore,
   calculateScoreWithLayOffs,
   hasGin,
+  resolveRuleSet,
+  getKnockLimit,
+  isKnockAllowed,
+  isDeadHand,
 } from '../utils/scoring';
 import { isValidMove, validateMelds } from '../utils/validation';
+import { getClockTimeout } from '../utils/clock';
+import { isAwaitingPartnerTable } from '../utils/partnership';
+import { CUTTHROAT_SEATS } from '../utils/cutthroat';
+import { EventSourcingEngine } from './event-sourcing';
 
 /**
  * Event-Sourced Gin Rummy Game Engine
@@ -58,6 +78,8 @@ export class EventSourcedGinRummyGame {
       playerId: string;
       cardId?: string;
       melds?: Meld[];
+      newDeal?: Deal; // START_NEW_ROUND only - the committed deal for the next hand
+      seedCommitment?: string;
     },
     sequenceNumber: number
   ): GameEvent | { error: string } {
@@ -113,7 +135,28 @@ export class EventSourcedGinRummyGame {
   /**
    * Create initial game events for a new game
    */
-  createInitialGameEvents(player1Id: string, player2Id: string, vsAI: boolean, player1Username?: string, player2Username?: string): GameEvent[] {
+  createInitialGameEvents(
+    player1Id: string,
+    player2Id: string,
+    vsAI: boolean,
+    player1Username?: string,
+    player2Username?: string,
+    options: {
+      ruleSet?: Partial<RuleSet>;
+      gameType?: GameType;
+      timeControl?: TimeControl;
+      initialDeal?: Deal;
+      seedCommitment?: string;
+      partnership?: Pick<PartnershipState, 'parentGameId' | 'tableNumber' | 'seats'>;
+      cutthroat?: Pick<CutthroatState, 'seats'>;
+      aiStrategy?: AIStrategy;
+      aiDifficulty?: Difficulty;
+      aiPersonality?: AIPersonality;
+      aiSpeed?: AISpeed;
+    } = {}
+  ): GameEvent[] {
+    // A partnership table seats two known players, so it deals straight away
+    const isPartnershipTable = options.partnership?.tableNumber !== undefined;
 
     const events: GameEvent[] = [];
     
@@ -123,29 +166,44 @@ export class EventSourcedGinRummyGame {
       EventType.GAME_CREATED,
       {
         gameId: this.gameId,
-        gameType: 'STANDARD',
+        gameType: options.gameType ?? GameType.Standard,
         player1Id,
         player2Id,
         player1Username,
         player2Username,
         isPrivate: false,
         vsAI,
-        maxPlayers: 2,
+        maxPlayers: options.cutthroat ? CUTTHROAT_SEATS : options.partnership && !isPartnershipTable ? 4 : 2,
+        ruleSet: resolveRuleSet(options.ruleSet),
+        ...(options.timeControl ? { timeControl: options.timeControl } : {}),
+        ...(options.partnership ? { partnership: options.partnership } : {}),
+        ...(options.cutthroat ? { cutthroat: options.cutthroat } : {}),
+        ...(vsAI && options.aiStrategy ? { aiStrategy: options.aiStrategy } : {}),
+        ...(vsAI && options.aiDifficulty ? { aiDifficulty: options.aiDifficulty } : {}),
+        ...(vsAI && options.aiPersonality ? { aiPersonality: options.aiPersonality } : {}),
+        ...(vsAI && options.aiSpeed ? { aiSpeed: options.aiSpeed } : {}),
       },
       player1Id,
       1
     );
     events.push(gameCreatedEvent);
 
-    // Only start the game immediately for AI games
+    // Only start the game immediately for AI games and partnership tables
     // For PvP games, wait for second player to join
-    if (vsAI) {
-      // Deal initial cards
+    if (vsAI || isPartnershipTable) {
+      // Deal initial cards, using the caller's seeded deal when provided
       const player1Hand = this.deck.splice(0, 10);
       const player2Hand = this.deck.splice(0, 10);
       const topDiscardCard = this.deck.splice(0, 1)[0];
-
-      // Create GAME_STARTED event for AI games
+      const initialDeal = options.initialDeal ?? {
+        player1Hand,
+        player2Hand,
+        topDiscardCard,
+        stockSize: this.deck.length,
+        stockPile: [...this.deck], // Include remaining stock pile cards
+      };
+
+      // Create GAME_STARTED event for AI games and partnership tables
       const gameStartedEvent = createGameEvent(
         this.gameId,
         EventType.GAME_STARTED,
@@ -154,13 +212,8 @@ export class EventSourcedGinRummyGame {
           player1Id,
           player2Id,
           startingPlayerId: player1Id,
-          initialDeal: {
-            player1Hand,
-            player2Hand,
-            topDiscardCard,
-            stockSize: this.deck.length,
-            stockPile: [...this.deck], // Include remaining stock pile cards
-          },
+          initialDeal,
+          ...(options.seedCommitment ? { seedCommitment: options.seedCommitment } : {}),
         },
         player1Id,
         2
@@ -174,6 +227,68 @@ export class EventSourcedGinRummyGame {
     return events;
   }
 
+  /**
+   * Create the event for a player who has run out of time, if any.
+   * An empty game clock forfeits; an expired move limit auto-plays a safe turn:
+   * pass the upcard, or draw from stock and discard the highest deadwood card.
+   */
+  createTimeoutEvent(state: GameState, nowMs: number, sequenceNumber: number): GameEvent | null {
+    const timeout = getClockTimeout(state, nowMs);
+    if (!timeout) {
+      return null;
+    }
+
+    const { playerId } = timeout;
+
+    if (timeout.type === 'GAME') {
+      const winner = state.players.find(p => p.id !== playerId);
+      return createGameEvent(
+        this.gameId,
+        EventType.TIMEOUT_FORFEIT,
+        { gameId: this.gameId, playerId, winnerId: winner?.id || playerId },
+        playerId,
+        sequenceNumber
+      );
+    }
+
+    const engine = new EventSourcingEngine(this.gameId, [], state);
+    let current = engine.replayEvents();
+    const moves: TimeoutAutoPlayEventData['moves'] = [];
+
+    const play = (action: { type: EventType; playerId: string; cardId?: string }) => {
+      const result = this.validateAndCreateEvent(current, action, sequenceNumber);
+      if ('error' in result) {
+        throw new Error(`Timeout auto-play failed: ${result.error}`);
+      }
+      moves.push({ eventType: result.eventType, eventData: result.eventData });
+      current = engine.applyEvent(result);
+      return result;
+    };
+
+    if (current.phase === GamePhase.UpcardDecision) {
+      play({ type: EventType.PASS_UPCARD, playerId });
+    } else {
+      if (current.phase === GamePhase.Draw) {
+        const draw = play({ type: EventType.DRAW_FROM_STOCK, playerId });
+        // Drawing into a dead stock ends the hand instead of continuing the turn
+        if (draw.eventType === EventType.ROUND_DRAWN) {
+          return draw;
+        }
+      }
+
+      const player = current.players.find(p => p.id === playerId)!;
+      play({ type: EventType.DISCARD_CARD, playerId, cardId: this.getHighestDeadwoodCard(player.hand).id });
+    }
+
+    return createGameEvent(
+      this.gameId,
+      EventType.TIMEOUT_AUTO_PLAY,
+      { gameId: this.gameId, playerId, moves },
+      playerId,
+      sequenceNumber
+    );
+  }
+
   // Private validation methods
 
   private validateTakeUpcard(
@@ -237,8 +352,20 @@ export class EventSourcedGinRummyGame {
       return { error: 'Cannot draw from stock in current phase' };
     }
 
-    if (state.stockPileCount <= 0 || state.stockPile.length === 0) {
-      return { error: 'Stock pile is empty' };
+    // With only two cards left in the stock the hand is dead and gets redealt
+    if (isDeadHand(state.stockPileCount)) {
+      return createGameEvent(
+        this.gameId,
+        EventType.ROUND_DRAWN,
+        {
+          gameId: this.gameId,
+          playerId: action.playerId,
+          roundNumber: state.roundNumber || 1,
+          stockRemaining: state.stockPileCount,
+        },
+        action.playerId,
+        sequenceNumber
+      );
     }
 
     // Draw a card from stock pile
@@ -333,6 +460,10 @@ export class EventSourcedGinRummyGame {
     action: any,
     sequenceNumber: number
   ): GameEvent | { error: string } {
+    if (!isKnockAllowed(state.gameType)) {
+      return { error: 'Knocking is not allowed in Straight Gin - only gin ends a hand' };
+    }
+
     if (state.phase !== GamePhase.Discard) {
       return { error: 'Can only knock during discard phase' };
     }
@@ -361,9 +492,11 @@ export class EventSourcedGinRummyGame {
       return { error: `Invalid melds: ${validationResult.error}` };
     }
 
+    const rules = resolveRuleSet(state.ruleSet);
+    const knockLimit = getKnockLimit(state);
     const deadwoodValue = calculateDeadwood(handAfterDiscard, action.melds);
-    if (deadwoodValue > 10) {
-      return { error: `Cannot knock with ${deadwoodValue} deadwood (maximum 10)` };
+    if (deadwoodValue > knockLimit) {
+      return { error: `Cannot knock with ${deadwoodValue} deadwood (maximum ${knockLimit})` };
     }
 
     // Get opponent
@@ -385,7 +518,8 @@ export class EventSourcedGinRummyGame {
       layOffs.map(layOff => ({
         cards: layOff.cards,
         targetMeld: layOff.targetMeld
-      }))
+      })),
+      rules
     );
 
     // Update discard pile with the knocked card
@@ -463,7 +597,7 @@ export class EventSourcedGinRummyGame {
     const opponentMelds = findOptimalMelds(opponent.hand);
     
     // Calculate gin scores (no lay-offs allowed)
-    const ginBonus = 25;
+    const ginBonus = resolveRuleSet(state.ruleSet).ginBonus;
     const opponentDeadwood = calculateDeadwood(opponent.hand, opponentMelds.melds);
     const scores = {
       ginner: ginBonus + opponentDeadwood,
@@ -545,6 +679,20 @@ export class EventSourcedGinRummyGame {
 
   // Helper methods
 
+  private getHighestDeadwoodCard(hand: Card[]): Card {
+    const { melds } = findOptimalMelds(hand);
+    const meldedCardIds = new Set(melds.flatMap(meld => meld.cards.map(card => card.id)));
+    const deadwood = hand.filter(card => !meldedCardIds.has(card.id));
+    const candidates = deadwood.length > 0 ? deadwood : hand;
+
+    return candidates.reduce((highest, card) =>
+      getCardValue(card) > getCardValue(highest) ||
+      (getCardValue(card) === getCardValue(highest) && this.getRankValue(card.rank) > this.getRankValue(highest.rank))
+        ? card
+        : highest
+    );
+  }
+
   private getNextPlayer(state: GameState, currentPlayerId: string): PlayerState {
     const currentIndex = state.players.findIndex(p => p.id === currentPlayerId);
     const nextIndex = (currentIndex + 1) % state.players.length;
@@ -555,6 +703,10 @@ export class EventSourcedGinRummyGame {
     if (state.stockPile.length === 0) {
       throw new Error('Cannot draw from empty stock pile');
     }
+
+    if (isDeadHand(state.stockPile.length)) {
+      throw new Error('Cannot draw the last two cards of the stock pile');
+    }
     
     const newStockPile = [...state.stockPile];
     const drawnCard = newStockPile.shift()!; // Draw from top of stock pile
@@ -647,12 +799,14 @@ export class EventSourcedGinRummyGame {
       return { error: 'Cannot start new round - game is over' };
     }
 
-    // Create new deck and deal cards
-    const deck = shuffleDeck(createDeck());
-    const player1Hand = deck.splice(0, 10);
-    const player2Hand = deck.splice(0, 10);
-    const topDiscardCard = deck.splice(0, 1)[0];
-    const stockPile = deck;
+    if (isAwaitingPartnerTable(state)) {
+      return { error: 'Waiting for the other table to finish the hand' };
+    }
+
+    // The deal comes from the caller, who derives it from a seed it can commit to and reveal later
+    if (!action.newDeal) {
+      return { error: 'A new round needs a committed deal' };
+    }
 
     return createGameEvent(
       this.gameId,
@@ -661,13 +815,8 @@ export class EventSourcedGinRummyGame {
         playerId: action.playerId,
         gameId: this.gameId,
         roundNumber: (state.roundNumber || 0) + 1,
-        newDeal: {
-          player1Hand,
-          player2Hand,
-          topDiscardCard,
-          stockSize: stockPile.length,
-          stockPile,
-        },
+        newDeal: action.newDeal,
+        ...(action.seedCommitment && { seedCommitment: action.seedCommitment }),
       },
       action.playerId,
       sequenceNumber
@@ -11,6 +11,13 @@ import {
   StartNewRoundEventData,
   GameFinishedEventData,
   RoundEndedEventData,
+  RoundDrawnEventData,
+  RoundStartedEventData,
+  TimeoutAutoPlayEventData,
+  TimeoutForfeitEventData,
+  PartnershipTablesCreatedEventData,
+  PartnershipHandScoredEventData,
+  PlayerJoinedEventData,
   LayOffEventData,
   LayoffCompletedEventData,
   PlayerLeftEventData,
@@ -23,9 +30,14 @@ import {
   isKnockEvent,
   isGinEvent
 } from '../types/events';
-import { GameState, GameStatus, GamePhase, Card, PlayerState, Meld } from '../types/game';
+import { GameState, GameStatus, GamePhase, GameType, Card, PlayerState, Meld, OPEN_SEAT } from '../types/game';
+import { createHollywoodSheet, recordHollywoodHand, isHollywoodComplete, settleHollywood } from '../utils/hollywood-scoring';
 import { createDeck, shuffleDeck } from '../utils/cards';
-import { calculateDeadwood, findOptimalMelds } from '../utils/scoring';
+import { chargeTurn, getRemainingMs, isClockRunning } from '../utils/clock';
+import { getOpenSeat, getPlayerTeam } from '../utils/partnership';
+import { getCutthroatHand } from '../utils/cutthroat';
+import { calculateDeadwood, findOptimalMelds, resolveRuleSet, getHandRules } from '../utils/scoring';
+import { eventUpcasters } from './upcasting';
 
 /**
  * EventSourcingEngine - Rebuilds game state by replaying events
@@ -72,8 +84,12 @@ export class EventSourcingEngine {
     // Start with snapshot state when available, otherwise create a fresh state
     this.currentState = this.initialState ? this.cloneState(this.initialState) : this.createInitialState();
     
+    // Upcast before applying, so an event this build can't read fails the replay
+    // instead of being skipped by recovery
+    const events = this.events.map(event => eventUpcasters.upcast(event));
+
     // Apply each event in sequence
-    for (const event of this.events) {
+    for (const event of events) {
       try {
         console.log(`🔄 EventSourcing: Applying event ${event.sequenceNumber}: ${event.eventType}`);
         this.applyEvent(event);
@@ -101,15 +117,25 @@ export class EventSourcingEngine {
   }
 
   /**
-   * Apply a single event to the current state
+   * Apply a single event to the current state, upcasting it first if it was stored
+   * with an older payload version
    */
-  public applyEvent(event: GameEvent): GameState {
+  public applyEvent(storedEvent: GameEvent): GameState {
     if (!this.currentState) {
       throw new Error('Cannot apply event without initial state');
     }
 
+    const event = eventUpcasters.upcast(storedEvent);
+
     console.log(`🔄 Applying ${event.eventType} event (seq: ${event.sequenceNumber})`);
 
+    this.applyEventByType(event);
+    this.updateClock(event);
+
+    return this.currentState;
+  }
+
+  private applyEventByType(event: GameEvent): GameState {
     switch (event.eventType) {
       case EventType.GAME_CREATED:
         return this.applyGameCreated(event);
@@ -172,6 +198,9 @@ export class EventSourcingEngine {
         
       case EventType.ROUND_ENDED:
         return this.applyRoundEnded(event);
+
+      case EventType.ROUND_DRAWN:
+        return this.applyRoundDrawn(event);
         
       case EventType.PLAYER_LEFT:
         return this.applyPlayerLeft(event);
@@ -181,13 +210,34 @@ export class EventSourcingEngine {
         
       case EventType.AI_THINKING_STARTED:
         return this.applyAIThinkingStarted(event);
+
+      case EventType.AI_MOVE_COMPLETED:
+        // Records why the AI made the move just before it; the move itself changed the state
+        return this.currentState!;
         
       case EventType.LAYOFF_PHASE_STARTED:
         return this.applyLayoffPhaseStarted(event);
+
+      case EventType.TIMEOUT_AUTO_PLAY:
+        return this.applyTimeoutAutoPlay(event);
+
+      case EventType.TIMEOUT_FORFEIT:
+        return this.applyTimeoutForfeit(event);
+
+      case EventType.PARTNERSHIP_TABLES_CREATED:
+        return this.applyPartnershipTablesCreated(event);
+
+      case EventType.PARTNERSHIP_HAND_SCORED:
+        return this.applyPartnershipHandScored(event);
+
+      // Audit records of system maintenance; they don't change the game
+      case EventType.STATE_SNAPSHOT_CREATED:
+      case EventType.ERROR_RECOVERED:
+        return this.currentState!;
         
       default:
         console.warn(`⚠️ EventSourcing: Unhandled event type: ${event.eventType}`);
-        return this.currentState;
+        return this.currentState!;
     }
   }
 
@@ -238,6 +288,38 @@ export class EventSourcingEngine {
     this.currentState!.status = GameStatus.Waiting;
     this.currentState!.isPrivate = data.isPrivate;
     this.currentState!.vsAI = data.vsAI;
+    this.currentState!.ruleSet = resolveRuleSet(data.ruleSet);
+    this.currentState!.gameType = data.gameType ?? GameType.Standard;
+    if (this.currentState!.gameType === GameType.Hollywood) {
+      this.currentState!.hollywood = createHollywoodSheet();
+    }
+    if (data.timeControl) {
+      this.currentState!.timeControl = data.timeControl;
+      this.currentState!.clock = { remainingMs: {} };
+    }
+    if (data.partnership) {
+      this.currentState!.partnership = {
+        ...data.partnership,
+        tables: [],
+        teamScores: [0, 0],
+        handsScored: 0,
+      };
+    }
+    if (data.cutthroat) {
+      this.currentState!.cutthroat = { seats: [...data.cutthroat.seats] };
+    }
+    if (data.aiStrategy) {
+      this.currentState!.aiStrategy = data.aiStrategy;
+    }
+    if (data.aiDifficulty) {
+      this.currentState!.aiDifficulty = data.aiDifficulty;
+    }
+    if (data.aiPersonality) {
+      this.currentState!.aiPersonality = data.aiPersonality;
+    }
+    if (data.aiSpeed) {
+      this.currentState!.aiSpeed = data.aiSpeed;
+    }
     
     // Add player 1 with username from event data
     const player1Username = data.player1Username || '';
@@ -246,17 +328,18 @@ export class EventSourcingEngine {
     
     // Only add player 2 for AI games or if we have a real second player ID
     // For PvP games, create a placeholder until a real player joins
-    if (data.vsAI && data.player2Id === 'ai-player') {
+    // The AI is the anonymous ai-player or a bot account
+    if (data.vsAI && data.player2Id) {
       const player2Username = data.player2Username || 'AI';
       this.currentState!.players.push(this.createEmptyPlayerState(data.player2Id, player2Username));
       console.log(`🎮 EventSourcing: Created AI player ${player2Username} (${data.player2Id})`);
-    } else if (!data.vsAI && data.player2Id === 'waiting-for-player') {
+    } else if (!data.vsAI && data.player2Id === 'waiting-for-player' && !data.partnership && !data.cutthroat) {
       // PvP game - create placeholder for second player
       this.currentState!.players.push(this.createEmptyPlayerState('waiting-for-player', 'Waiting...'));
       console.log(`🎮 EventSourcing: Created waiting placeholder for PvP game`);
     } else if (!data.vsAI && data.player2Id && data.player2Id !== 'waiting-for-player') {
       // PvP game with actual second player ID (not a placeholder)
-      this.currentState!.players.push(this.createEmptyPlayerState(data.player2Id, ''));
+      this.currentState!.players.push(this.createEmptyPlayerState(data.player2Id, data.player2Username || ''));
     }
     // For PvP games without a second player, keep players array with just player1
 
@@ -269,6 +352,11 @@ export class EventSourcingEngine {
     this.currentState!.status = GameStatus.Active;
     this.currentState!.phase = GamePhase.UpcardDecision;
     this.currentState!.currentPlayerId = data.startingPlayerId;
+    this.currentState!.roundNumber = 1;
+
+    if (this.currentState!.cutthroat) {
+      this.rotateCutthroatSeats(1);
+    }
     
     // Set initial hands
     const player1 = this.currentState!.players.find(p => p.id === data.player1Id);
@@ -292,6 +380,7 @@ export class EventSourcingEngine {
     this.currentState!.discardPile = [data.initialDeal.topDiscardCard];
     this.currentState!.stockPileCount = data.initialDeal.stockSize;
     this.currentState!.stockPile = data.initialDeal.stockPile || [];
+    this.setHandRules(data.initialDeal.topDiscardCard);
 
     return this.currentState!;
   }
@@ -299,6 +388,12 @@ export class EventSourcingEngine {
   private applyPlayerJoined(event: GameEvent): GameState {
     const data = event.eventData as any; // PlayerJoinedEventData
     
+    // Games with more than two seats fill them in turn
+    const seats = this.currentState!.partnership?.seats ?? this.currentState!.cutthroat?.seats;
+    if (seats) {
+      return this.applySeatTaken(seats, data);
+    }
+
     // Find and replace the "waiting-for-player" placeholder
     const waitingPlayerIndex = this.currentState!.players.findIndex(p => p.id === 'waiting-for-player');
     
@@ -506,9 +601,10 @@ export class EventSourcingEngine {
     }
     // Don't add scores to player totals yet - wait for LAYOFF_COMPLETED
     // Store initial scores for display only
+    const multiplier = this.getScoreMultiplier();
     if (data.scores?.knocker !== undefined) {
       // Store for display but don't add to player total yet
-      (knocker as any).initialRoundScore = data.scores.knocker;
+      (knocker as any).initialRoundScore = data.scores.knocker * multiplier;
     }
     
     // Store additional display data if available
@@ -532,7 +628,7 @@ export class EventSourcingEngine {
       }
       if (data.scores?.opponent !== undefined) {
         // Store for display but don't add to player total yet
-        (opponent as any).initialRoundScore = data.scores.opponent;
+        (opponent as any).initialRoundScore = data.scores.opponent * multiplier;
       }
     }
 
@@ -540,22 +636,21 @@ export class EventSourcingEngine {
     this.currentState!.discardPile = data.discardPileAfter;
 
     // Set round scores
-    this.currentState!.roundScores = data.scores;
+    this.currentState!.roundScores = data.scores && this.applyScoreMultiplier(data.scores);
     
-    // Check if game should be over (player reached 100+ points)
+    // Check if game should be over (player reached the target score)
     const playerScores = this.currentState!.players.map(p => p.score);
     const maxScore = Math.max(...playerScores);
+    const winnerId = this.getGameOverWinner();
     
-    if (maxScore >= 100) {
+    if (winnerId) {
       console.log(`🏁 EventSourcing: Game over detected after knock! Max score: ${maxScore}`);
       // Game is over - set game over state directly (skip layoff phase)
       this.currentState!.phase = GamePhase.GameOver;
       this.currentState!.gameOver = true;
       this.currentState!.status = GameStatus.Finished;
       
-      // Determine winner (player with highest score)
-      const winnerIndex = playerScores.indexOf(maxScore);
-      this.currentState!.winner = this.currentState!.players[winnerIndex].id;
+      this.currentState!.winner = winnerId;
       
       console.log(`🏆 EventSourcing: Winner is ${this.currentState!.winner} with ${maxScore} points`);
     } else {
@@ -581,8 +676,9 @@ export class EventSourcingEngine {
     ginner.handSize = data.ginnerHand.length;
     ginner.melds = data.ginnerMelds;
     ginner.deadwood = 0;
-    console.log(`🎯 EventSourcing: GIN - Adding ${data.scores.ginner} points to ginner ${ginner.id} (was ${ginner.score})`);
-    ginner.score += data.scores.ginner;
+    const scores = this.applyScoreMultiplier(data.scores);
+    console.log(`🎯 EventSourcing: GIN - Adding ${scores.ginner} points to ginner ${ginner.id} (was ${ginner.score})`);
+    ginner.score += scores.ginner;
     console.log(`🎯 EventSourcing: GIN - Ginner ${ginner.id} new score: ${ginner.score}`);
 
     // Set opponent state
@@ -591,28 +687,31 @@ export class EventSourcingEngine {
       opponent.hand = data.opponentHand; // Expose opponent's hand for round over display
       opponent.handSize = data.opponentHand.length;
       opponent.melds = data.opponentMelds;
-      console.log(`🎯 EventSourcing: GIN - Adding ${data.scores.opponent} points to opponent ${opponent.id} (was ${opponent.score})`);
-      opponent.score += data.scores.opponent;
+      console.log(`🎯 EventSourcing: GIN - Adding ${scores.opponent} points to opponent ${opponent.id} (was ${opponent.score})`);
+      opponent.score += scores.opponent;
       console.log(`🎯 EventSourcing: GIN - Opponent ${opponent.id} new score: ${opponent.score}`);
     }
+    this.recordHandScores({
+      [ginner.id]: scores.ginner,
+      ...(opponent ? { [opponent.id]: scores.opponent } : {})
+    });
 
     // Set round scores
-    this.currentState!.roundScores = data.scores;
+    this.currentState!.roundScores = scores;
     
-    // Check if game should be over (player reached 100+ points)
+    // Check if game should be over (player reached the target score)
     const playerScores = this.currentState!.players.map(p => p.score);
     const maxScore = Math.max(...playerScores);
+    const winnerId = this.getGameOverWinner();
     
-    if (maxScore >= 100) {
+    if (winnerId) {
       console.log(`🏁 EventSourcing: Game over detected after gin! Max score: ${maxScore}`);
       // Game is over - set game over state directly (skip layoff phase)
       this.currentState!.phase = GamePhase.GameOver;
       this.currentState!.gameOver = true;
       this.currentState!.status = GameStatus.Finished;
       
-      // Determine winner (player with highest score)
-      const winnerIndex = playerScores.indexOf(maxScore);
-      this.currentState!.winner = this.currentState!.players[winnerIndex].id;
+      this.currentState!.winner = winnerId;
       
       console.log(`🏆 EventSourcing: Winner is ${this.currentState!.winner} with ${maxScore} points`);
     } else {
@@ -646,7 +745,13 @@ export class EventSourcingEngine {
     this.currentState!.lastKnocker = undefined;
     this.currentState!.lastKnockerMelds = undefined;
     this.currentState!.lastLayOffs = undefined;
+    this.currentState!.roundDrawn = false;
     
+    // In cutthroat the new dealer sits out and the player they replace comes back in
+    if (this.currentState!.cutthroat) {
+      this.rotateCutthroatSeats(data.roundNumber);
+    }
+
     // Check if newDeal exists (backward compatibility for old events)
     let newDeal = data.newDeal;
     if (!newDeal) {
@@ -695,6 +800,7 @@ export class EventSourcingEngine {
     this.currentState!.discardPile = [newDeal.topDiscardCard];
     this.currentState!.stockPileCount = newDeal.stockSize;
     this.currentState!.stockPile = newDeal.stockPile || [];
+    this.setHandRules(newDeal.topDiscardCard);
     
     // Set starting player (alternate from previous round)
     const currentPlayer = this.currentState!.players[0];
@@ -723,26 +829,27 @@ export class EventSourcingEngine {
       console.log(`🤖 EventSourcing: AI chose to skip layoffs`);
     }
     
-    // Check if game should be over (player reached 100+ points)
+    // Check if game should be over (player reached the target score)
     const playerScores = this.currentState!.players.map(p => p.score);
     const maxScore = Math.max(...playerScores);
+    const winnerId = this.getGameOverWinner();
     
-    if (maxScore >= 100) {
+    if (winnerId) {
       console.log(`🏁 EventSourcing: Game over detected! Max score: ${maxScore}`);
       // Game is over - set game over state
       this.currentState!.phase = GamePhase.GameOver;
       this.currentState!.gameOver = true;
       this.currentState!.status = GameStatus.Finished;
       
-      // Determine winner (player with highest score)
-      const winnerIndex = playerScores.indexOf(maxScore);
-      this.currentState!.winner = this.currentState!.players[winnerIndex].id;
+      this.currentState!.winner = winnerId;
       
       console.log(`🏆 EventSourcing: Winner is ${this.currentState!.winner} with ${maxScore} points`);
     } else {
       // Apply final scores from initialRoundScore to actual score totals
+      const handScores: { [playerId: string]: number } = {};
       this.currentState!.players.forEach(player => {
         const initialScore = (player as any).initialRoundScore || 0;
+        handScores[player.id] = initialScore;
         if (initialScore > 0) {
           console.log(`🎯 EventSourcing: AI_LAYOFF_DECISION - Adding ${initialScore} points to player ${player.id} (was ${player.score})`);
           player.score += initialScore;
@@ -751,6 +858,7 @@ export class EventSourcingEngine {
           (player as any).initialRoundScore = 0;
         }
       });
+      this.recordHandScores(handScores);
       
       // Round over, but game continues
       const updatedScores = this.currentState!.players.map(p => p.score);
@@ -820,36 +928,37 @@ export class EventSourcingEngine {
       const opponent = this.currentState!.players.find(p => !p.hasKnocked);
       
       if (knocker && opponent) {
-        console.log(`🎯 EventSourcing: Applying final scores - knocker: ${data.finalScores.knocker}, opponent: ${data.finalScores.opponent}`);
+        const finalScores = this.applyScoreMultiplier(data.finalScores as { knocker: number; opponent: number });
+        console.log(`🎯 EventSourcing: Applying final scores - knocker: ${finalScores.knocker}, opponent: ${finalScores.opponent}`);
         
         // Add final scores to player totals
-        knocker.score += data.finalScores.knocker;
-        opponent.score += data.finalScores.opponent;
+        knocker.score += finalScores.knocker;
+        opponent.score += finalScores.opponent;
+        this.recordHandScores({ [knocker.id]: finalScores.knocker, [opponent.id]: finalScores.opponent });
         
         // Update round scores for display
         this.currentState!.roundScores = {
-          knocker: data.finalScores.knocker,
-          opponent: data.finalScores.opponent
+          knocker: finalScores.knocker,
+          opponent: finalScores.opponent
         };
         
         console.log(`🎯 EventSourcing: Updated player totals - knocker: ${knocker.score}, opponent: ${opponent.score}`);
       }
     }
     
-    // Check if game should be over (player reached 100+ points)
+    // Check if game should be over (player reached the target score)
     const playerScores = this.currentState!.players.map(p => p.score);
     const maxScore = Math.max(...playerScores);
+    const winnerId = this.getGameOverWinner();
     
-    if (maxScore >= 100) {
+    if (winnerId) {
       console.log(`🏁 EventSourcing: Game over detected! Max score: ${maxScore}`);
       // Game is over - set game over state
       this.currentState!.phase = GamePhase.GameOver;
       this.currentState!.gameOver = true;
       this.currentState!.status = GameStatus.Finished;
       
-      // Determine winner (player with highest score)
-      const winnerIndex = playerScores.indexOf(maxScore);
-      this.currentState!.winner = this.currentState!.players[winnerIndex].id;
+      this.currentState!.winner = winnerId;
       
       console.log(`🏆 EventSourcing: Winner is ${this.currentState!.winner} with ${maxScore} points`);
     } else {
@@ -882,7 +991,7 @@ export class EventSourcingEngine {
   }
 
   private applyRoundStarted(event: GameEvent): GameState {
-    const data = event.eventData as any; // RoundStartedEventData
+    const data = event.eventData as RoundStartedEventData;
     
     console.log(`🚀 EventSourcing: Starting new round ${data.roundNumber}`);
     
@@ -898,21 +1007,16 @@ export class EventSourcingEngine {
     this.currentState!.roundNumber = data.roundNumber;
     this.currentState!.phase = GamePhase.Draw; // Start new round in draw phase
     
-    // Deal new cards if provided
+    // Deal new cards if provided - replay must use the recorded deal so it can be verified
     if (data.newDeal) {
-      const { createDeck, shuffleDeck } = require('../utils/cards');
-      const deck = shuffleDeck(createDeck());
-      
-      // Deal 10 cards to each player
-      const player1Hand = deck.splice(0, 10);
-      const player2Hand = deck.splice(0, 10);
-      const topDiscardCard = deck.splice(0, 1)[0];
+      const { player1Hand, player2Hand, topDiscardCard, stockPile } = data.newDeal;
       
       this.currentState!.players[0].hand = player1Hand;
       this.currentState!.players[1].hand = player2Hand;
       this.currentState!.discardPile = [topDiscardCard];
-      this.currentState!.stockPile = deck;
-      this.currentState!.stockPileCount = deck.length;
+      this.currentState!.stockPile = stockPile;
+      this.currentState!.stockPileCount = stockPile.length;
+      this.setHandRules(topDiscardCard);
       
       // Set first player as current
       this.currentState!.currentPlayerId = this.currentState!.players[0].id;
@@ -925,6 +1029,7 @@ export class EventSourcingEngine {
     this.currentState!.lastKnockerMelds = undefined;
     this.currentState!.lastLayOffs = [];
     this.currentState!.roundScores = undefined;
+    this.currentState!.roundDrawn = false;
     
     return this.currentState!;
   }
@@ -950,15 +1055,147 @@ export class EventSourcingEngine {
     return this.currentState!;
   }
 
+  private applyRoundDrawn(event: GameEvent): GameState {
+    const data = event.eventData as RoundDrawnEventData;
+
+    console.log(`🤝 EventSourcing: Round ${data.roundNumber} drawn with ${data.stockRemaining} cards left in stock`);
+
+    // Dead hand - nobody scores, the next START_NEW_ROUND redeals
+    this.currentState!.phase = GamePhase.RoundOver;
+    this.currentState!.roundDrawn = true;
+    this.currentState!.lastKnocker = undefined;
+    this.currentState!.lastKnockerMelds = undefined;
+    this.currentState!.lastLayOffs = [];
+    this.currentState!.roundScores = Object.fromEntries(
+      this.currentState!.players.map(p => [p.id, 0])
+    );
+
+    return this.currentState!;
+  }
+
+  private applyTimeoutAutoPlay(event: GameEvent): GameState {
+    const data = event.eventData as TimeoutAutoPlayEventData;
+
+    console.log(`⏰ EventSourcing: Auto-playing ${data.moves.length} moves for ${data.playerId} after move timeout`);
+
+    // Each move is applied exactly as if the player had made it
+    for (const move of data.moves) {
+      this.applyEventByType({ ...event, eventType: move.eventType, eventData: move.eventData });
+    }
+
+    return this.currentState!;
+  }
+
+  private applyTimeoutForfeit(event: GameEvent): GameState {
+    const data = event.eventData as TimeoutForfeitEventData;
+
+    console.log(`⏰ EventSourcing: ${data.playerId} forfeits on time, ${data.winnerId} wins`);
+
+    this.currentState!.status = GameStatus.Finished;
+    this.currentState!.phase = GamePhase.GameOver;
+    this.currentState!.winner = data.winnerId;
+    this.currentState!.gameOver = true;
+
+    return this.currentState!;
+  }
+
+  /**
+   * Seat a player joining a game with more than two seats, in the seat they chose or the first open one
+   */
+  private applySeatTaken(seats: string[], data: PlayerJoinedEventData): GameState {
+    const seat = data.seat ?? getOpenSeat(seats);
+    if (seat === null) {
+      console.warn(`⚠️ EventSourcing: No open seat for ${data.playerId}`);
+      return this.currentState!;
+    }
+
+    seats[seat] = data.playerId;
+    this.currentState!.players.push(this.createEmptyPlayerState(data.playerId, data.playerUsername));
+    console.log(`🎮 EventSourcing: ${data.playerUsername} took seat ${seat}`);
+
+    return this.currentState!;
+  }
+
+  /**
+   * Put the two players of a cutthroat hand in play and park the dealer, keeping everyone's score
+   */
+  private rotateCutthroatSeats(roundNumber: number): void {
+    const cutthroat = this.currentState!.cutthroat!;
+    const everyone = cutthroat.sittingOut
+      ? [...this.currentState!.players, cutthroat.sittingOut]
+      : this.currentState!.players;
+    const { dealerId, activePlayerIds } = getCutthroatHand(cutthroat.seats, roundNumber);
+
+    const dealer = everyone.find(p => p.id === dealerId);
+    this.currentState!.players = activePlayerIds
+      .map(id => everyone.find(p => p.id === id))
+      .filter((p): p is PlayerState => !!p);
+
+    if (dealer) {
+      dealer.hand = [];
+      dealer.handSize = 0;
+      dealer.melds = [];
+      dealer.deadwood = 0;
+      dealer.hasKnocked = false;
+      dealer.hasGin = false;
+      dealer.isReadyForNextRound = false;
+      cutthroat.sittingOut = dealer;
+    }
+
+    console.log(`🔄 EventSourcing: ${dealer?.username} deals and sits out hand ${roundNumber}`);
+  }
+
+  private applyPartnershipTablesCreated(event: GameEvent): GameState {
+    const data = event.eventData as PartnershipTablesCreatedEventData;
+
+    // The parent game has no cards of its own; play happens at the tables
+    this.currentState!.partnership!.tables = data.tables;
+    this.currentState!.status = GameStatus.Active;
+
+    return this.currentState!;
+  }
+
+  private applyPartnershipHandScored(event: GameEvent): GameState {
+    const data = event.eventData as PartnershipHandScoredEventData;
+    const partnership = this.currentState!.partnership!;
+
+    console.log(`🤝 EventSourcing: Hand ${data.handNumber} scored for teams - ${data.teamScores.join(' to ')}`);
+
+    partnership.handsScored = data.handNumber;
+    partnership.teamScores = data.teamScores;
+
+    if (data.winningTeam !== undefined) {
+      partnership.winningTeam = data.winningTeam;
+      this.currentState!.status = GameStatus.Finished;
+      this.currentState!.phase = GamePhase.GameOver;
+      this.currentState!.gameOver = true;
+      this.currentState!.winner = this.currentState!.players.find(
+        p => getPlayerTeam(partnership, p.id) === data.winningTeam
+      )?.id;
+    }
+
+    return this.currentState!;
+  }
+
   private applyPlayerLeft(event: GameEvent): GameState {
     const data = event.eventData as PlayerLeftEventData;
     
     console.log(`👋 EventSourcing: Player ${data.playerId} left game - reason: ${data.reason}`);
-    
-    // PLAYER_LEFT is purely for audit trail - game ending logic is handled elsewhere
-    // We just record the departure for analytics and debugging
+
+    // Leaving before the game starts frees the seat for the next join
+    if (this.currentState!.status === GameStatus.Waiting) {
+      const seats = this.currentState!.partnership?.seats ?? this.currentState!.cutthroat?.seats;
+      const seat = seats?.indexOf(data.playerId) ?? -1;
+      if (seats && seat !== -1) {
+        seats[seat] = OPEN_SEAT;
+      }
+      this.currentState!.players = this.currentState!.players.filter(p => p.id !== data.playerId);
+      return this.currentState!;
+    }
+
+    // Otherwise PLAYER_LEFT is purely for audit trail - game ending logic is handled elsewhere
     console.log(`📝 EventSourcing: Recorded player departure for audit trail`);
-    
+
     return this.currentState!;
   }
 
@@ -1008,6 +1245,110 @@ export class EventSourcingEngine {
     return this.currentState!;
   }
 
+  /**
+   * Score needed to win, from the rule set carried in GAME_CREATED
+   */
+  private getTargetScore(): number {
+    return resolveRuleSet(this.currentState!.ruleSet).targetScore;
+  }
+
+  /**
+   * Enter a finished hand on the Hollywood score sheet (no-op for other variants)
+   */
+  private recordHandScores(scores: { [playerId: string]: number }): void {
+    if (this.currentState!.gameType !== GameType.Hollywood) {
+      return;
+    }
+
+    let sheet = this.currentState!.hollywood ?? createHollywoodSheet();
+    for (const [playerId, points] of Object.entries(scores)) {
+      sheet = recordHollywoodHand(sheet, playerId, points, this.getTargetScore());
+    }
+    this.currentState!.hollywood = sheet;
+  }
+
+  /**
+   * Winner of the game if it is over: the first player to the target score,
+   * or for Hollywood the settlement winner once all three games are decided
+   */
+  private getGameOverWinner(): string | null {
+    const players = this.currentState!.players;
+
+    // Partnership tables never end on their own; team results decide the game
+    if (this.currentState!.partnership) {
+      return null;
+    }
+
+    if (this.currentState!.gameType === GameType.Hollywood) {
+      const sheet = this.currentState!.hollywood;
+      if (!sheet || !isHollywoodComplete(sheet)) {
+        return null;
+      }
+      const settlement = settleHollywood(sheet, players.map(p => p.id));
+      // A level settlement falls back to the higher running total
+      return settlement.winnerId ?? players.reduce((best, p) => (p.score > best.score ? p : best)).id;
+    }
+
+    const playerScores = players.map(p => p.score);
+    const maxScore = Math.max(...playerScores);
+    return maxScore >= this.getTargetScore() ? players[playerScores.indexOf(maxScore)].id : null;
+  }
+
+  /**
+   * Charge the player whose turn just ended and start the next player's clock.
+   * Uses event timestamps so replays always reproduce the same clocks.
+   */
+  private updateClock(event: GameEvent): void {
+    const state = this.currentState!;
+    if (!state.timeControl) {
+      return;
+    }
+
+    const clock = state.clock ?? (state.clock = { remainingMs: {} });
+    const eventTime = Date.parse(event.metadata?.timestamp ?? event.createdAt);
+    if (Number.isNaN(eventTime)) {
+      return;
+    }
+
+    const running = isClockRunning(state);
+
+    if (clock.turnPlayerId && clock.turnStartedAt && (!running || clock.turnPlayerId !== state.currentPlayerId)) {
+      clock.remainingMs[clock.turnPlayerId] = chargeTurn(
+        state.timeControl,
+        getRemainingMs(state, clock.turnPlayerId),
+        eventTime - Date.parse(clock.turnStartedAt)
+      );
+      clock.turnPlayerId = undefined;
+      clock.turnStartedAt = undefined;
+    }
+
+    if (running && !clock.turnStartedAt) {
+      clock.turnPlayerId = state.currentPlayerId;
+      clock.turnStartedAt = new Date(eventTime).toISOString();
+    }
+  }
+
+  /**
+   * Fix the knock limit and score multiplier for a freshly dealt hand
+   */
+  private setHandRules(upcard: Card): void {
+    this.currentState!.handRules = getHandRules(this.currentState!.gameType, this.currentState!.ruleSet, upcard);
+  }
+
+  /**
+   * Scale round scores by the current hand's multiplier (Oklahoma spades hands score double)
+   */
+  private applyScoreMultiplier<T extends Record<string, number>>(scores: T): T {
+    const multiplier = this.getScoreMultiplier();
+    return Object.fromEntries(
+      Object.entries(scores).map(([key, value]) => [key, value * multiplier])
+    ) as T;
+  }
+
+  private getScoreMultiplier(): number {
+    return this.currentState!.handRules?.scoreMultiplier ?? 1;
+  }
+
   private createEmptyPlayerState(playerId: string, username: string): PlayerState {
     return {
       id: playerId,
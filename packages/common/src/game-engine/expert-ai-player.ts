@@ -0,0 +1,159 @@
+import { Card, GameMove, MoveType, Meld, GamePhase, DEFAULT_RULE_SET, AIPersonality, AIMoveCandidate } from '../types/game';
+import { GameEvent } from '../types/events';
+import { findOptimalMelds } from '../utils/scoring';
+import { AIPlayer } from './ai-player';
+import { OpponentModel } from './opponent-model';
+
+const DANGER_WEIGHT = 1.5; // Hand-strength points given up to keep one point of danger off the pile
+const LATE_STOCK_COUNT = 8; // With this little stock left, take any knock rather than risk a dead hand
+
+interface DiscardOption {
+  card: Card;
+  rest: Card[];
+  melds: Meld[];
+  deadwood: number;
+}
+
+/**
+ * Expert AI strategy for Gin Rummy
+ * Tracks the opponent's hand from public events to avoid feeding their melds
+ * and to time knocks against their likely deadwood
+ */
+export class ExpertAIPlayer extends AIPlayer {
+  protected readonly model: OpponentModel;
+
+  constructor(playerId: string, model: OpponentModel, personality: AIPersonality = AIPersonality.Balanced) {
+    super(playerId, personality);
+    this.model = model;
+  }
+
+  /**
+   * Keep the opponent model up to date as the game is played
+   */
+  public observe(event: Pick<GameEvent, 'eventType' | 'eventData'>): void {
+    this.model.observe(event);
+  }
+
+  /**
+   * Evaluate and return the best move, including the upcard decision
+   */
+  public getMove(
+    hand: Card[],
+    phase: GamePhase,
+    discardPile: Card[],
+    stockCount: number,
+    knockLimit: number = DEFAULT_RULE_SET.knockLimit
+  ): GameMove {
+    // The engine keeps the top of the discard pile at index 0
+    const topDiscard = discardPile[0];
+
+    switch (phase) {
+      case GamePhase.UpcardDecision:
+      case GamePhase.Draw:
+        return this.getExpertDrawMove(hand, topDiscard, phase);
+
+      case GamePhase.Discard:
+        return this.getExpertDiscardMove(hand, stockCount, knockLimit);
+    }
+
+    throw new Error(`Invalid game phase for AI move: ${phase}`);
+  }
+
+  /**
+   * Take a face-up card only when it goes straight into a meld and lowers our deadwood
+   */
+  private getExpertDrawMove(hand: Card[], card: Card | undefined, phase: GamePhase): GameMove {
+    const upcard = phase === GamePhase.UpcardDecision;
+    const take = upcard ? MoveType.TakeUpcard : MoveType.DrawDiscard;
+    const pass = upcard ? MoveType.PassUpcard : MoveType.DrawStock;
+    const deadwood = findOptimalMelds(hand).deadwood;
+    // Listed first so it wins a tie with a card that would not lower our deadwood
+    const candidates: AIMoveCandidate[] = [{ type: pass, score: 0, deadwoodAfter: deadwood }];
+
+    if (card) {
+      const withCard = [...hand, card];
+      const melded = findOptimalMelds(withCard).melds.some(meld => meld.cards.some(c => c.id === card.id));
+      const bestAfterDiscard = Math.min(
+        ...hand.map(discard => findOptimalMelds(withCard.filter(c => c.id !== discard.id)).deadwood)
+      );
+      candidates.push({
+        type: take,
+        cardId: card.id,
+        score: melded ? deadwood - bestAfterDiscard : 0,
+        deadwoodAfter: bestAfterDiscard,
+      });
+
+      if (melded && bestAfterDiscard < deadwood) {
+        return this.decide(phase, candidates, { type: take, playerId: this.playerId });
+      }
+    }
+
+    return this.decide(phase, candidates, { type: pass, playerId: this.playerId });
+  }
+
+  /**
+   * Go gin when possible, knock when the opponent is unlikely to undercut,
+   * otherwise throw the card that costs least and helps the opponent least
+   */
+  private getExpertDiscardMove(hand: Card[], stockCount: number, knockLimit: number): GameMove {
+    const options: DiscardOption[] = hand.map(card => {
+      const rest = hand.filter(c => c.id !== card.id);
+      const optimal = findOptimalMelds(rest);
+      return { card, rest, melds: optimal.melds, deadwood: optimal.deadwood };
+    });
+
+    const scored = options
+      .map(option => ({
+        option,
+        score: this.evaluateHand(option.rest) - this.model.getDiscardDanger(option.card, hand) * DANGER_WEIGHT,
+      }))
+      .sort((a, b) => b.score - a.score);
+    const candidates: AIMoveCandidate[] = scored.map(({ option, score }) => ({
+      type: MoveType.Discard,
+      cardId: option.card.id,
+      score,
+      deadwoodAfter: option.deadwood,
+    }));
+
+    const gin = options.find(option => option.deadwood === 0);
+    if (gin) {
+      return this.decide(
+        GamePhase.Discard,
+        [{ type: MoveType.Gin, cardId: gin.card.id, score: null, deadwoodAfter: 0 }, ...candidates],
+        { type: MoveType.Gin, playerId: this.playerId, cardId: gin.card.id, melds: gin.melds }
+      );
+    }
+
+    // A knock limit of 0 means only gin ends the hand (Straight Gin)
+    if (knockLimit > 0) {
+      const knockAt = Math.min(knockLimit, AIPlayer.getPersonalityTraits(this.personality).maxKnockDeadwood);
+      const knock = options
+        .filter(option => option.deadwood <= knockAt)
+        .sort((a, b) => a.deadwood - b.deadwood)[0];
+      if (knock && this.shouldKnock(knock.deadwood, hand, stockCount)) {
+        return this.decide(
+          GamePhase.Discard,
+          [{ type: MoveType.Knock, cardId: knock.card.id, score: null, deadwoodAfter: knock.deadwood }, ...candidates],
+          { type: MoveType.Knock, playerId: this.playerId, cardId: knock.card.id, melds: knock.melds }
+        );
+      }
+    }
+
+    return this.decide(GamePhase.Discard, candidates, {
+      type: MoveType.Discard,
+      playerId: this.playerId,
+      cardId: scored[0].option.card.id,
+    });
+  }
+
+  /**
+   * Knock when our deadwood is below the opponent's estimated deadwood by this personality's margin
+   */
+  private shouldKnock(deadwood: number, hand: Card[], stockCount: number): boolean {
+    if (stockCount <= LATE_STOCK_COUNT) {
+      return true;
+    }
+    const { knockMargin } = AIPlayer.getPersonalityTraits(this.personality);
+    return this.model.estimateDeadwood(hand) >= deadwood + knockMargin;
+  }
+}
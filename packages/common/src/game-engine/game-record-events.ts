@@ -0,0 +1,481 @@
+import { Card, Deal, GamePhase, GameType, Meld } from '../types/game';
+import {
+  AILayoffDecisionEventData,
+  DiscardCardEventData,
+  DrawFromDiscardEventData,
+  EventType,
+  GameCreatedEventData,
+  GameEvent,
+  GameFinishedEventData,
+  GameStartedEventData,
+  GinEventData,
+  KnockEventData,
+  LayoffCompletedEventData,
+  StartNewRoundEventData,
+  TakeUpcardEventData,
+  TimeoutAutoPlayEventData,
+  createGameEvent,
+} from '../types/events';
+import { GameRecord, RecordAction, RecordHand, RecordSeat, RecordTurn, formatRecordCard } from '../utils/game-record';
+import { calculateScoreWithLayOffs, resolveRuleSet } from '../utils/scoring';
+import { createDeck, getCardValue } from '../utils/cards';
+import { EventSourcedGinRummyGame } from './event-sourced-gin-rummy';
+import { EventSourcingEngine } from './event-sourcing';
+
+const SEATS: [RecordSeat, RecordSeat] = ['P1', 'P2'];
+const WAITING_FOR_PLAYER = 'waiting-for-player';
+
+// Knock and gin name the card to discard separately from the melds
+interface EngineAction {
+  type: EventType;
+  playerId: string;
+  cardId?: string;
+  cardToDiscard?: string;
+  melds?: Meld[];
+}
+
+interface HandEnding {
+  type: 'gin' | 'knock' | 'undercut' | 'dead';
+  seat: RecordSeat;
+}
+
+function toDeal(deal: Omit<Deal, 'stockPile'> & { stockPile?: Card[] }): Deal {
+  return {
+    player1Hand: deal.player1Hand,
+    player2Hand: deal.player2Hand,
+    topDiscardCard: deal.topDiscardCard,
+    stockSize: deal.stockPile?.length ?? deal.stockSize,
+    stockPile: deal.stockPile ?? [],
+  };
+}
+
+// A deal is one whole deck: ten cards to each player, the upcard, and the rest in the stock
+function checkDeal({ number, deal }: RecordHand): void {
+  if (deal.player1Hand.length !== 10 || deal.player2Hand.length !== 10) {
+    throw new Error(`Hand ${number}: each player must be dealt ten cards`);
+  }
+  if (!deal.topDiscardCard) {
+    throw new Error(`Hand ${number}: the deal has no upcard`);
+  }
+
+  const dealt = new Set<string>();
+  for (const card of [...deal.player1Hand, ...deal.player2Hand, deal.topDiscardCard, ...deal.stockPile]) {
+    if (dealt.has(card.id)) {
+      throw new Error(`Hand ${number}: ${formatRecordCard(card)} is dealt twice`);
+    }
+    dealt.add(card.id);
+  }
+
+  const missing = createDeck().filter(card => !dealt.has(card.id));
+  if (missing.length > 0) {
+    throw new Error(`Hand ${number}: the deal is missing ${missing.map(formatRecordCard).join(' ')}`);
+  }
+  if (dealt.size !== 52) {
+    throw new Error(`Hand ${number}: the deal is not a single 52-card deck`);
+  }
+}
+
+// The engine updates hands and piles in place, so it is given copies and the events stay as they were
+function cloneEvent(event: GameEvent): GameEvent {
+  return JSON.parse(JSON.stringify(event));
+}
+
+function formatDate(isoDate: string): string {
+  return isoDate.slice(0, 10).replace(/-/g, '.');
+}
+
+function summarizeHand(hand: RecordHand, ending: HandEnding, before: number[], after: number[]): string {
+  const endings = {
+    gin: `${ending.seat} gin`,
+    knock: `${ending.seat} knock`,
+    undercut: `${ending.seat} knock, undercut`,
+    dead: 'dead hand',
+  };
+  const gains = SEATS
+    .map((seat, index) => ({ seat, points: after[index] - before[index] }))
+    .filter(({ points }) => points > 0)
+    .map(({ seat, points }) => `${seat} +${points}`);
+
+  return `Hand ${hand.number}: ${endings[ending.type]}, ${gains.join(', ') || 'no score'}. Score ${after.join('-')}`;
+}
+
+/**
+ * Write a two-player game's events as a record. Events must be the whole game, in order.
+ */
+export function gameRecordFromEvents(events: GameEvent[]): GameRecord {
+  const created = events.find(event => event.eventType === EventType.GAME_CREATED);
+  if (!created) {
+    throw new Error('The events have no GAME_CREATED event');
+  }
+  const createdData = created.eventData as GameCreatedEventData;
+  if (createdData.maxPlayers !== 2 || createdData.partnership) {
+    throw new Error('Only two-player games can be written as a record');
+  }
+
+  const engine = new EventSourcingEngine(created.gameId, []);
+  let state = engine.replayEvents();
+
+  const hands: RecordHand[] = [];
+  let hand: RecordHand | null = null;
+  let turn: RecordTurn | null = null;
+  let ending: HandEnding | null = null;
+  let scoresAtDeal = [0, 0];
+  let termination: GameRecord['header']['termination'];
+
+  const seatOf = (playerId: string): RecordSeat => {
+    const index = state.players.findIndex(player => player.id === playerId);
+    if (index === -1) {
+      throw new Error(`Player ${playerId} is not seated`);
+    }
+    return SEATS[index];
+  };
+  const scores = () => state.players.map(player => player.score);
+
+  const closeHand = () => {
+    if (hand && ending) {
+      hand.summary = summarizeHand(hand, ending, scoresAtDeal, scores());
+    }
+    turn = null;
+    ending = null;
+  };
+
+  const deal = (number: number, newDeal: Deal) => {
+    closeHand();
+    hand = { number, deal: toDeal(newDeal), turns: [] };
+    hands.push(hand);
+    scoresAtDeal = scores();
+  };
+
+  // A turn runs from the player's first action to the one that passes play on
+  const play = (playerId: string, action: RecordAction, endsTurn: boolean) => {
+    if (!hand) {
+      throw new Error(`${action.type} before the first deal`);
+    }
+    if (!turn) {
+      turn = { seat: seatOf(playerId), actions: [] };
+      hand.turns.push(turn);
+    }
+    turn.actions.push(action);
+    if (endsTurn) {
+      turn = null;
+    }
+  };
+
+  const record = (eventType: EventType, data: any, playerId: string | undefined) => {
+    switch (eventType) {
+      case EventType.GAME_STARTED:
+        deal(1, (data as GameStartedEventData).initialDeal);
+        break;
+
+      case EventType.START_NEW_ROUND:
+      case EventType.ROUND_STARTED:
+        if (data.newDeal) {
+          deal((data as StartNewRoundEventData).roundNumber, data.newDeal);
+        }
+        break;
+
+      case EventType.PASS_UPCARD:
+        play(data.playerId, { type: 'pass' }, true);
+        break;
+
+      case EventType.TAKE_UPCARD:
+        play(data.playerId, { type: 'take', card: (data as TakeUpcardEventData).cardTaken }, false);
+        break;
+
+      case EventType.DRAW_FROM_DISCARD:
+        play(data.playerId, { type: 'take', card: (data as DrawFromDiscardEventData).cardDrawn }, false);
+        break;
+
+      case EventType.DRAW_FROM_STOCK:
+        play(data.playerId, { type: 'draw-stock' }, false);
+        break;
+
+      case EventType.ROUND_DRAWN:
+        // The draw that found the stock exhausted
+        play(data.playerId, { type: 'draw-stock' }, true);
+        ending = { type: 'dead', seat: seatOf(data.playerId) };
+        break;
+
+      case EventType.DISCARD_CARD:
+        play(data.playerId, { type: 'discard', card: (data as DiscardCardEventData).cardDiscarded }, true);
+        break;
+
+      case EventType.KNOCK: {
+        const knock = data as KnockEventData;
+        play(knock.playerId, { type: 'knock', card: knock.cardDiscarded, melds: knock.knockerMelds }, true);
+        ending = { type: knock.roundResult === 'UNDERCUT' ? 'undercut' : 'knock', seat: seatOf(knock.playerId) };
+        break;
+      }
+
+      case EventType.GIN: {
+        // The event keeps the hand after the discard, so the discard is what the ginner no longer holds
+        const gin = data as GinEventData;
+        const kept = new Set(gin.ginnerHand.map(card => card.id));
+        const discarded = state.players.find(player => player.id === gin.playerId)?.hand.find(card => !kept.has(card.id));
+        if (!discarded) {
+          throw new Error(`Cannot tell which card ${gin.playerId} discarded to go gin`);
+        }
+        play(gin.playerId, { type: 'gin', card: discarded, melds: gin.ginnerMelds }, true);
+        ending = { type: 'gin', seat: seatOf(gin.playerId) };
+        break;
+      }
+
+      case EventType.LAYOFF_COMPLETED:
+      case EventType.AI_LAYOFF_DECISION: {
+        const layoffs = eventType === EventType.LAYOFF_COMPLETED
+          ? (data as LayoffCompletedEventData).layoffs
+          : (data as AILayoffDecisionEventData).selectedLayoffs;
+        if (hand && layoffs?.length) {
+          hand.layoffs = layoffs.map(({ cards, targetMeld }) => ({ cards, targetMeld }));
+        }
+        break;
+      }
+
+      case EventType.TIMEOUT_AUTO_PLAY:
+        // Recorded as the moves the player would have made; the clock itself is not part of a record
+        for (const move of (data as TimeoutAutoPlayEventData).moves) {
+          record(move.eventType, move.eventData, playerId);
+        }
+        break;
+
+      case EventType.GAME_FINISHED: {
+        const endReason = (data as GameFinishedEventData).endReason;
+        if (endReason === 'QUIT' || endReason === 'TIME_LIMIT') {
+          termination = endReason;
+        }
+        break;
+      }
+
+      case EventType.TIMEOUT_FORFEIT:
+        termination = 'TIME_LIMIT';
+        break;
+    }
+  };
+
+  for (const event of events) {
+    record(event.eventType, event.eventData, event.playerId);
+    state = engine.addEvent(cloneEvent(event));
+  }
+  closeHand();
+
+  if (state.players.length !== 2 || state.players.some(player => player.id === WAITING_FOR_PLAYER)) {
+    throw new Error('The game never had two players');
+  }
+
+  const winnerIndex = state.players.findIndex(player => player.id === state.winner);
+  return {
+    header: {
+      gameId: created.gameId,
+      date: formatDate(created.createdAt),
+      players: [
+        { id: state.players[0].id, name: state.players[0].username },
+        { id: state.players[1].id, name: state.players[1].username },
+      ],
+      vsAI: createdData.vsAI,
+      gameType: state.gameType ?? GameType.Standard,
+      ruleSet: resolveRuleSet(state.ruleSet),
+      result: state.gameOver && winnerIndex !== -1 ? SEATS[winnerIndex] : '*',
+      ...(termination ? { termination } : {}),
+    },
+    hands,
+  };
+}
+
+/**
+ * Play a record back through the engine, returning the events it produces. Every move is
+ * validated as if it were made at the table, so a record that does not replay to its own
+ * result is rejected. Errors name the hand and move at fault.
+ */
+export function gameRecordToEvents(record: GameRecord): GameEvent[] {
+  const { header } = record;
+  const [player1, player2] = header.players;
+  const gameId = header.gameId;
+  const firstHand = record.hands[0];
+  if (!firstHand) {
+    throw new Error('The record has no hands');
+  }
+  record.hands.forEach(checkDeal);
+
+  const game = new EventSourcedGinRummyGame(gameId);
+  const events = game.createInitialGameEvents(
+    player1.id,
+    header.vsAI ? player2.id : WAITING_FOR_PLAYER,
+    header.vsAI,
+    player1.name,
+    player2.name,
+    { ruleSet: header.ruleSet, gameType: header.gameType, initialDeal: firstHand.deal }
+  ).map(cloneEvent);
+  const engine = new EventSourcingEngine(gameId, events.map(cloneEvent));
+  let state = engine.replayEvents();
+
+  const append = (event: GameEvent) => {
+    events.push(cloneEvent(event));
+    state = engine.addEvent(cloneEvent(event));
+  };
+  const nextSequence = () => events.length + 1;
+
+  // Games against people deal once the second player joins, as the ready route does
+  if (!header.vsAI) {
+    append(createGameEvent(gameId, EventType.PLAYER_JOINED, {
+      gameId,
+      playerId: player2.id,
+      playerUsername: player2.name,
+    }, player2.id, nextSequence()));
+    append(createGameEvent(gameId, EventType.GAME_STARTED, {
+      gameId,
+      startingPlayerId: player1.id,
+      player1Id: player1.id,
+      player2Id: player2.id,
+      initialDeal: firstHand.deal,
+    }, player1.id, nextSequence()));
+  }
+
+  for (const hand of record.hands) {
+    try {
+      if (hand !== firstHand) {
+        startHand(hand);
+      }
+      hand.turns.forEach(turn => turn.actions.forEach(action => playAction(turn, action)));
+      if (state.phase === GamePhase.Layoff) {
+        completeLayoffs(hand);
+      }
+    } catch (error) {
+      throw new Error(`Hand ${hand.number}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  endGame();
+  return events;
+
+  function startHand(hand: RecordHand) {
+    if (state.gameOver) {
+      throw new Error('the game was already over');
+    }
+    if (state.phase !== GamePhase.RoundOver) {
+      throw new Error('the previous hand did not finish');
+    }
+    append(expectEvent(game.validateAndCreateEvent(
+      state,
+      { type: EventType.START_NEW_ROUND, playerId: state.currentPlayerId, newDeal: hand.deal },
+      nextSequence()
+    )));
+  }
+
+  function playAction(turn: RecordTurn, action: RecordAction) {
+    const playerId = header.players[SEATS.indexOf(turn.seat)].id;
+    const move = `${turn.seat} ${action.type}${'card' in action ? ` ${formatRecordCard(action.card)}` : ''}`;
+    if (state.currentPlayerId !== playerId) {
+      throw new Error(`${move} is out of turn`);
+    }
+
+    if (action.type === 'take') {
+      const topDiscard = state.discardPile[0];
+      if (topDiscard?.id !== action.card.id) {
+        throw new Error(`${move} does not match the top discard ${topDiscard ? formatRecordCard(topDiscard) : '(none)'}`);
+      }
+    }
+
+    const engineAction: EngineAction = { playerId, type: EventType.PASS_UPCARD };
+    switch (action.type) {
+      case 'pass':
+        break;
+      case 'take':
+        engineAction.type = state.phase === GamePhase.UpcardDecision ? EventType.TAKE_UPCARD : EventType.DRAW_FROM_DISCARD;
+        break;
+      case 'draw-stock':
+        engineAction.type = EventType.DRAW_FROM_STOCK;
+        break;
+      case 'discard':
+        engineAction.type = EventType.DISCARD_CARD;
+        engineAction.cardId = action.card.id;
+        break;
+      case 'knock':
+      case 'gin':
+        engineAction.type = action.type === 'knock' ? EventType.KNOCK : EventType.GIN;
+        engineAction.cardToDiscard = action.card.id;
+        engineAction.melds = action.melds;
+        break;
+    }
+
+    const result = game.validateAndCreateEvent(state, engineAction, nextSequence());
+    if ('error' in result) {
+      throw new Error(`${move}: ${result.error}`);
+    }
+    append(result);
+  }
+
+  // Lay off as the layoff route does: a LAY_OFF per meld played on, then the hand's final score
+  function completeLayoffs(hand: RecordHand) {
+    const knocker = state.players.find(player => player.hasKnocked);
+    const defender = state.players.find(player => !player.hasKnocked && !player.hasGin)!;
+    const layoffs = knocker ? hand.layoffs ?? [] : [];
+
+    for (const { cards, targetMeld } of layoffs) {
+      const targetIds = targetMeld.cards.map(card => card.id).sort().join();
+      if (!knocker!.melds.some(meld => meld.cards.map(card => card.id).sort().join() === targetIds)) {
+        throw new Error(`layoff onto a meld ${knocker!.username} did not lay down`);
+      }
+      const missing = cards.find(card => !defender.hand.some(held => held.id === card.id));
+      if (missing) {
+        throw new Error(`layoff of ${formatRecordCard(missing)}, which ${defender.username} does not hold`);
+      }
+    }
+
+    const scores = knocker
+      ? calculateScoreWithLayOffs(knocker.hand, knocker.melds, defender.hand, defender.melds, layoffs, resolveRuleSet(state.ruleSet))
+      : null;
+
+    for (const { cards, targetMeld } of layoffs) {
+      append(createGameEvent(gameId, EventType.LAY_OFF, {
+        playerId: defender.id,
+        cardsLayedOff: cards,
+        targetMeld,
+        deadwoodReduction: cards.reduce((total, card) => total + getCardValue(card), 0),
+      }, defender.id, nextSequence()));
+    }
+    append(createGameEvent(gameId, EventType.LAYOFF_COMPLETED, {
+      gameId,
+      playerId: defender.id,
+      layoffs,
+      scoreAdjustment: scores?.layOffValue ?? 0,
+      finalScores: scores ? { knocker: scores.knockerScore, opponent: scores.opponentScore } : { knocker: 0, opponent: 0 },
+    }, defender.id, nextSequence()));
+  }
+
+  // A game that ended off the board is closed the way the leave route and the clock close it
+  function endGame() {
+    const winnerIndex = SEATS.indexOf(header.result as RecordSeat);
+    if (!state.gameOver && winnerIndex !== -1 && header.termination) {
+      const winner = state.players[winnerIndex];
+      const loser = state.players[1 - winnerIndex];
+      append(header.termination === 'TIME_LIMIT'
+        ? createGameEvent(gameId, EventType.TIMEOUT_FORFEIT, {
+            gameId,
+            playerId: loser.id,
+            winnerId: winner.id,
+          }, loser.id, nextSequence())
+        : createGameEvent(gameId, EventType.GAME_FINISHED, {
+            gameId,
+            winnerId: winner.id,
+            winnerScore: winner.score,
+            loserId: loser.id,
+            loserScore: loser.score,
+            endReason: 'QUIT',
+            duration: 0,
+          }, loser.id, nextSequence()));
+    }
+
+    const playedWinner = state.players.findIndex(player => player.id === state.winner);
+    const played = state.gameOver && playedWinner !== -1 ? SEATS[playedWinner] : '*';
+    if (played !== header.result) {
+      throw new Error(`The record gives the result as ${header.result} but the hands play out to ${played}`);
+    }
+  }
+}
+
+function expectEvent(result: GameEvent | { error: string }): GameEvent {
+  if ('error' in result) {
+    throw new Error(result.error);
+  }
+  return result;
+}
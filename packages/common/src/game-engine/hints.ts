@@ -0,0 +1,45 @@
+import { Card, GamePhase, GameState, MoveHint, MoveHints, DEFAULT_RULE_SET } from '../types/game';
+import { findOptimalMelds } from '../utils/scoring';
+import { AIPlayer } from './ai-player';
+
+const HINT_PHASES = [GamePhase.UpcardDecision, GamePhase.Draw, GamePhase.Discard];
+
+/**
+ * Why a player may not have a hint right now, or null if they may.
+ * Hints are for games against the AI only, so they can never shield a rated game.
+ */
+export function getHintRefusal(state: GameState, playerId: string): string | null {
+  if (!state.vsAI) {
+    return 'Hints are only available in games against the AI';
+  }
+  if (state.gameOver || state.currentPlayerId !== playerId || !HINT_PHASES.includes(state.phase)) {
+    return 'Hints are only available when it is your turn to draw or discard';
+  }
+  return null;
+}
+
+/**
+ * Rank the moves open to a player the way the AI would weigh them.
+ * A draw's deadwood is the best the hand can reach after the discard that follows it.
+ */
+export function getMoveHints(
+  playerId: string,
+  hand: Card[],
+  phase: GamePhase,
+  discardPile: Card[],
+  stockCount: number,
+  knockLimit: number = DEFAULT_RULE_SET.knockLimit
+): MoveHints {
+  const evaluator = new AIPlayer(playerId);
+  evaluator.getMove(hand, phase, discardPile, stockCount, knockLimit);
+
+  const deadwood = findOptimalMelds(hand).deadwood;
+  const hints: MoveHint[] = (evaluator.getLastRationale()?.candidates ?? []).map(candidate => ({
+    type: candidate.type,
+    ...(candidate.cardId && { cardId: candidate.cardId }),
+    deadwoodDelta: candidate.deadwoodAfter - deadwood,
+  }));
+
+  const drawing = phase !== GamePhase.Discard;
+  return { deadwood, draw: drawing ? hints : [], discard: drawing ? [] : hints };
+}
@@ -1,3 +1,10 @@
 // Old game engine moved to legacy - use event-sourced version instead
 // export { GinRummyGame } from './gin-rummy';
-export { AIPlayer } from './ai-player';
\ No newline at end of file
+export { AIPlayer } from './ai-player';
+export { ExpertAIPlayer } from './expert-ai-player';
+export { MasterAIPlayer, DEFAULT_SEARCH_BUDGET } from './master-ai-player';
+export { OpponentModel } from './opponent-model';
+export { getHintRefusal, getMoveHints } from './hints';
+export { getThinkTime, scaleForSpeed } from './pacing';
+export { EventUpcasterRegistry, eventUpcasters } from './upcasting';
+export type { Upcaster } from './upcasting';
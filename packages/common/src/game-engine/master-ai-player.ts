@@ -0,0 +1,327 @@
+import { Card, GameMove, MoveType, GamePhase, DEFAULT_RULE_SET, AIPersonality, AIMoveCandidate } from '../types/game';
+import { findCardGroups, getCardValue, shuffleDeck } from '../utils/cards';
+import { DEAD_HAND_STOCK_SIZE, findOptimalMelds } from '../utils/scoring';
+import { AIPlayer } from './ai-player';
+import { ExpertAIPlayer } from './expert-ai-player';
+import { OpponentModel } from './opponent-model';
+
+const HAND_SIZE = 10;
+const DISCARD_CANDIDATES = 4; // Only the most promising discards are searched
+const MAX_ROLLOUT_TURNS = 60;
+
+/**
+ * Limits on how long the master AI searches before committing to a move.
+ * Whichever runs out first ends the search.
+ */
+export interface SearchBudget {
+  maxIterations: number;
+  maxMillis: number;
+}
+
+export const DEFAULT_SEARCH_BUDGET: SearchBudget = {
+  maxIterations: 400,
+  maxMillis: 1000,
+};
+
+export interface SearchStats {
+  iterations: number;
+  elapsedMs: number;
+  candidates: Array<{ move: GameMove; visits: number; averagePoints: number }>;
+}
+
+interface Simulation {
+  hands: [Card[], Card[]]; // Ours, then the sampled opponent hand
+  stock: Card[];
+  discardPile: Card[]; // Top card last
+  turn: 0 | 1;
+}
+
+/**
+ * Smallest deadwood for a hand. Same meld search as findOptimalMelds without building
+ * meld objects, so rollouts can call it thousands of times.
+ */
+function rolloutDeadwood(hand: Card[]): number {
+  const groups = findCardGroups(hand);
+  const total = hand.reduce((sum, card) => sum + getCardValue(card), 0);
+  let best = total;
+
+  const search = (index: number, used: Set<string>, melded: number) => {
+    best = Math.min(best, total - melded);
+    for (let i = index; i < groups.length; i++) {
+      if (groups[i].some(card => used.has(card.id))) continue;
+      const next = new Set(used);
+      groups[i].forEach(card => next.add(card.id));
+      search(i + 1, next, melded + groups[i].reduce((sum, card) => sum + getCardValue(card), 0));
+    }
+  };
+  search(0, new Set(), 0);
+
+  return best;
+}
+
+/**
+ * Card whose discard leaves the least deadwood, keeping low cards on ties
+ */
+function bestRolloutDiscard(hand: Card[]): { card: Card; deadwood: number } {
+  let best = { card: hand[0], deadwood: Infinity };
+  for (const card of hand) {
+    const deadwood = rolloutDeadwood(hand.filter(c => c.id !== card.id));
+    if (deadwood < best.deadwood || (deadwood === best.deadwood && getCardValue(card) > getCardValue(best.card))) {
+      best = { card, deadwood };
+    }
+  }
+  return best;
+}
+
+/**
+ * Master AI strategy for Gin Rummy
+ * Samples opponent hands and stock orders consistent with the opponent model,
+ * plays each candidate move out to the end of the hand, and picks the best average
+ */
+export class MasterAIPlayer extends ExpertAIPlayer {
+  private readonly budget: SearchBudget;
+  private readonly random: () => number;
+  private lastSearch: SearchStats | null = null;
+
+  constructor(
+    playerId: string,
+    model: OpponentModel,
+    budget: Partial<SearchBudget> = {},
+    random: () => number = Math.random,
+    personality: AIPersonality = AIPersonality.Balanced
+  ) {
+    super(playerId, model, personality);
+    this.budget = { ...DEFAULT_SEARCH_BUDGET, ...budget };
+    this.random = random;
+  }
+
+  /**
+   * Statistics from the most recent search, or null if the last move needed none
+   */
+  public getSearchStats(): SearchStats | null {
+    return this.lastSearch;
+  }
+
+  /**
+   * Search the candidate moves for this phase, going gin outright when possible
+   */
+  public getMove(
+    hand: Card[],
+    phase: GamePhase,
+    discardPile: Card[],
+    stockCount: number,
+    knockLimit: number = DEFAULT_RULE_SET.knockLimit
+  ): GameMove {
+    this.lastSearch = null;
+    const candidates = this.getCandidates(hand, phase, discardPile, knockLimit);
+
+    if (candidates.length === 1) {
+      return this.decide(phase, [this.toCandidate(candidates[0], null, hand, discardPile)], candidates[0]);
+    }
+
+    const move = this.search(candidates, hand, discardPile, stockCount, knockLimit);
+    // A move the budget ran out before trying has no score worth reporting
+    const searched = this.lastSearch!.candidates.filter(c => c.visits > 0);
+    return this.decide(phase, searched.map(c => this.toCandidate(c.move, c.averagePoints, hand, discardPile)), move);
+  }
+
+  /**
+   * Describe a searched move for the rationale, scored by its average rollout points
+   */
+  private toCandidate(move: GameMove, score: number | null, hand: Card[], discardPile: Card[]): AIMoveCandidate {
+    switch (move.type) {
+      case MoveType.TakeUpcard:
+      case MoveType.DrawDiscard:
+        return { type: move.type, cardId: discardPile[0].id, score, deadwoodAfter: bestRolloutDiscard([...hand, discardPile[0]]).deadwood };
+      case MoveType.PassUpcard:
+      case MoveType.DrawStock:
+        return { type: move.type, score, deadwoodAfter: rolloutDeadwood(hand) };
+      default:
+        return { type: move.type, cardId: move.cardId, score, deadwoodAfter: rolloutDeadwood(hand.filter(c => c.id !== move.cardId)) };
+    }
+  }
+
+  /**
+   * Moves worth searching in this phase
+   */
+  private getCandidates(hand: Card[], phase: GamePhase, discardPile: Card[], knockLimit: number): GameMove[] {
+    const move = (type: MoveType, extra: Partial<GameMove> = {}): GameMove => ({ type, playerId: this.playerId, ...extra });
+
+    switch (phase) {
+      case GamePhase.UpcardDecision:
+        return discardPile.length > 0 ? [move(MoveType.TakeUpcard), move(MoveType.PassUpcard)] : [move(MoveType.PassUpcard)];
+
+      case GamePhase.Draw:
+        return discardPile.length > 0 ? [move(MoveType.DrawDiscard), move(MoveType.DrawStock)] : [move(MoveType.DrawStock)];
+
+      case GamePhase.Discard: {
+        const options = hand
+          .map(card => ({ card, deadwood: rolloutDeadwood(hand.filter(c => c.id !== card.id)) }))
+          .sort((a, b) => a.deadwood - b.deadwood || getCardValue(b.card) - getCardValue(a.card));
+
+        if (options[0].deadwood === 0) {
+          const melds = findOptimalMelds(hand.filter(c => c.id !== options[0].card.id)).melds;
+          return [move(MoveType.Gin, { cardId: options[0].card.id, melds })];
+        }
+
+        const candidates = options.slice(0, DISCARD_CANDIDATES).map(option => move(MoveType.Discard, { cardId: option.card.id }));
+        const knockAt = Math.min(knockLimit, AIPlayer.getPersonalityTraits(this.personality).maxKnockDeadwood);
+        if (knockLimit > 0 && options[0].deadwood <= knockAt) {
+          const melds = findOptimalMelds(hand.filter(c => c.id !== options[0].card.id)).melds;
+          candidates.unshift(move(MoveType.Knock, { cardId: options[0].card.id, melds }));
+        }
+        return candidates;
+      }
+    }
+
+    throw new Error(`Invalid game phase for AI move: ${phase}`);
+  }
+
+  /**
+   * Round-robin rollouts over the candidates until the budget runs out
+   */
+  private search(candidates: GameMove[], hand: Card[], discardPile: Card[], stockCount: number, knockLimit: number): GameMove {
+    const startedAt = Date.now();
+    const totals = candidates.map(() => ({ visits: 0, points: 0 }));
+    let iterations = 0;
+
+    while (iterations < this.budget.maxIterations && Date.now() - startedAt < this.budget.maxMillis) {
+      const index = iterations % candidates.length;
+      const simulation = this.sampleSimulation(hand, discardPile, stockCount);
+      totals[index].points += this.playCandidate(simulation, candidates[index], knockLimit);
+      totals[index].visits++;
+      iterations++;
+    }
+
+    const averages = totals.map(total => (total.visits > 0 ? total.points / total.visits : -Infinity));
+    const bestIndex = averages.indexOf(Math.max(...averages));
+
+    this.lastSearch = {
+      iterations,
+      elapsedMs: Date.now() - startedAt,
+      candidates: candidates.map((move, i) => ({ move, visits: totals[i].visits, averagePoints: averages[i] })),
+    };
+
+    return candidates[bestIndex];
+  }
+
+  /**
+   * Deal the unseen cards into an opponent hand and a stock consistent with what we have seen
+   */
+  private sampleSimulation(hand: Card[], discardPile: Card[], stockCount: number): Simulation {
+    const known = this.model.getKnownCards();
+    const unseen = shuffleDeck(this.model.getUnseenCards(hand), this.random);
+    const opponentHand = [...known, ...unseen.splice(0, Math.max(0, HAND_SIZE - known.length))];
+
+    return {
+      hands: [[...hand], opponentHand],
+      stock: unseen.slice(0, stockCount),
+      discardPile: [...discardPile].reverse(),
+      turn: 0,
+    };
+  }
+
+  /**
+   * Apply one of our candidate moves and play the rest of the hand out.
+   * Returns our points minus the opponent's.
+   */
+  private playCandidate(simulation: Simulation, move: GameMove, knockLimit: number): number {
+    const [ours] = simulation.hands;
+
+    switch (move.type) {
+      case MoveType.TakeUpcard:
+      case MoveType.DrawDiscard:
+        ours.push(simulation.discardPile.pop()!);
+        return this.finishTurn(simulation, knockLimit) ?? this.playOut(simulation, knockLimit);
+
+      case MoveType.DrawStock:
+        if (simulation.stock.length <= DEAD_HAND_STOCK_SIZE) {
+          return 0;
+        }
+        ours.push(simulation.stock.pop()!);
+        return this.finishTurn(simulation, knockLimit) ?? this.playOut(simulation, knockLimit);
+
+      case MoveType.PassUpcard:
+        simulation.turn = 1;
+        return this.playOut(simulation, knockLimit);
+
+      case MoveType.Knock:
+      case MoveType.Gin: {
+        simulation.hands[0] = ours.filter(card => card.id !== move.cardId);
+        return this.scoreHand(simulation, 0);
+      }
+
+      default: {
+        const card = ours.find(c => c.id === move.cardId)!;
+        simulation.hands[0] = ours.filter(c => c.id !== move.cardId);
+        simulation.discardPile.push(card);
+        simulation.turn = 1;
+        return this.playOut(simulation, knockLimit);
+      }
+    }
+  }
+
+  /**
+   * Both players draw and discard greedily until someone knocks or the stock runs dry
+   */
+  private playOut(simulation: Simulation, knockLimit: number): number {
+    for (let turn = 0; turn < MAX_ROLLOUT_TURNS; turn++) {
+      const hand = simulation.hands[simulation.turn];
+      const topDiscard = simulation.discardPile[simulation.discardPile.length - 1];
+
+      const takeDiscard = topDiscard !== undefined &&
+        bestRolloutDiscard([...hand, topDiscard]).deadwood < rolloutDeadwood(hand);
+
+      if (takeDiscard) {
+        hand.push(simulation.discardPile.pop()!);
+      } else if (simulation.stock.length > DEAD_HAND_STOCK_SIZE) {
+        hand.push(simulation.stock.pop()!);
+      } else {
+        return 0; // Dead hand
+      }
+
+      const result = this.finishTurn(simulation, knockLimit);
+      if (result !== null) {
+        return result;
+      }
+    }
+    return 0;
+  }
+
+  /**
+   * Discard from an eleven-card hand, ending the hand if the player can gin or knock.
+   * Returns the hand's result, or null when play continues.
+   */
+  private finishTurn(simulation: Simulation, knockLimit: number): number | null {
+    const player = simulation.turn;
+    const hand = simulation.hands[player];
+    const { card, deadwood } = bestRolloutDiscard(hand);
+
+    simulation.hands[player] = hand.filter(c => c.id !== card.id);
+    simulation.discardPile.push(card);
+
+    if (deadwood === 0 || (knockLimit > 0 && deadwood <= knockLimit)) {
+      return this.scoreHand(simulation, player);
+    }
+
+    simulation.turn = player === 0 ? 1 : 0;
+    return null;
+  }
+
+  /**
+   * Points for a hand ended by one player, from our side of the table
+   */
+  private scoreHand(simulation: Simulation, knocker: 0 | 1): number {
+    const knockerDeadwood = rolloutDeadwood(simulation.hands[knocker]);
+    const defenderDeadwood = rolloutDeadwood(simulation.hands[knocker === 0 ? 1 : 0]);
+    const sign = knocker === 0 ? 1 : -1;
+
+    if (knockerDeadwood === 0) {
+      return sign * (defenderDeadwood + DEFAULT_RULE_SET.ginBonus);
+    }
+    if (knockerDeadwood < defenderDeadwood) {
+      return sign * (defenderDeadwood - knockerDeadwood);
+    }
+    return -sign * (knockerDeadwood - defenderDeadwood + DEFAULT_RULE_SET.undercutBonus);
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  Card,
+  GameAnalysis,
+  GameState,
+  MoveAnnotation,
+  MoveFlag,
+  MoveQuality,
+  MoveType,
+  PlayerAnalysis,
+} from '../types/game';
+import {
+  DiscardCardEventData,
+  DrawFromDiscardEventData,
+  EventType,
+  GameEvent,
+  GinEventData,
+  KnockEventData,
+  TakeUpcardEventData,
+} from '../types/events';
+import { findOptimalMelds, getKnockLimit } from '../utils/scoring';
+import { ExpertAIPlayer } from './expert-ai-player';
+import { OpponentModel } from './opponent-model';
+
+const BLUNDER_DEADWOOD = 10; // Leaving this much more deadwood than the suggested move is a blunder
+
+// Share of a decision's credit towards the accuracy score
+const QUALITY_CREDIT: Record<MoveQuality, number> = {
+  [MoveQuality.Best]: 1,
+  [MoveQuality.Good]: 1,
+  [MoveQuality.Inaccuracy]: 0.5,
+  [MoveQuality.Blunder]: 0,
+};
+
+type AnalyzedEvent = Pick<GameEvent, 'eventType' | 'eventData' | 'sequenceNumber'>;
+type PriorEvent = Pick<GameEvent, 'eventType' | 'eventData'>;
+
+/**
+ * The move a decision event records, or null if the event is not a player's decision.
+ * Gin events carry the hand after the discard, so the discard is found from the hand before it.
+ */
+export function getPlayedMove(event: PriorEvent, handBefore: Card[]): MoveAnnotation['played'] | null {
+  switch (event.eventType) {
+    case EventType.TAKE_UPCARD:
+      return { type: MoveType.TakeUpcard, cardId: (event.eventData as TakeUpcardEventData).cardTaken.id };
+    case EventType.PASS_UPCARD:
+      return { type: MoveType.PassUpcard };
+    case EventType.DRAW_FROM_STOCK:
+      return { type: MoveType.DrawStock };
+    case EventType.DRAW_FROM_DISCARD:
+      return { type: MoveType.DrawDiscard, cardId: (event.eventData as DrawFromDiscardEventData).cardDrawn.id };
+    case EventType.DISCARD_CARD:
+      return { type: MoveType.Discard, cardId: (event.eventData as DiscardCardEventData).cardDiscarded.id };
+    case EventType.KNOCK:
+      return { type: MoveType.Knock, cardId: (event.eventData as KnockEventData).cardDiscarded.id };
+    case EventType.GIN: {
+      const kept = new Set((event.eventData as GinEventData).ginnerHand.map(card => card.id));
+      return { type: MoveType.Gin, cardId: handBefore.find(card => !kept.has(card.id))?.id };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Compare one decision with what the expert AI would have played from the same position.
+ * The state is the full, unfiltered state just before the event, so hindsight flags can
+ * look at the opponent's real hand.
+ */
+export function analyzeDecision(
+  state: GameState,
+  event: AnalyzedEvent,
+  priorEvents: PriorEvent[]
+): MoveAnnotation | null {
+  const playerId = (event.eventData as { playerId?: string }).playerId;
+  const player = state.players.find(p => p.id === playerId);
+  const opponent = state.players.find(p => p.id !== playerId);
+  if (!player || !opponent) {
+    return null;
+  }
+
+  const played = getPlayedMove(event, player.hand);
+  if (!played) {
+    return null;
+  }
+
+  const evaluator = new ExpertAIPlayer(player.id, OpponentModel.fromEvents(priorEvents, opponent.id));
+  evaluator.getMove(player.hand, state.phase, state.discardPile, state.stockPileCount, getKnockLimit(state));
+  const rationale = evaluator.getLastRationale()!;
+  const suggested = { type: rationale.chosen.type, ...(rationale.chosen.cardId && { cardId: rationale.chosen.cardId }) };
+
+  const annotation: MoveAnnotation = {
+    sequenceNumber: event.sequenceNumber,
+    playerId: player.id,
+    roundNumber: state.roundNumber ?? 1,
+    phase: state.phase,
+    played,
+    suggested,
+    deadwoodLoss: 0,
+    quality: MoveQuality.Best,
+    flags: [],
+  };
+
+  // Draws are matched on type alone; the card drawn from the pile is always its top card
+  const isDraw = [MoveType.TakeUpcard, MoveType.DrawDiscard].includes(played.type);
+  if (played.type === suggested.type && (isDraw || played.cardId === suggested.cardId)) {
+    return annotation;
+  }
+
+  // Knocking or going gin discards like any other card when the AI did not consider it
+  const playedCandidate =
+    rationale.candidates.find(c => c.type === played.type && (isDraw || c.cardId === played.cardId)) ??
+    rationale.candidates.find(c => c.type === MoveType.Discard && c.cardId === played.cardId);
+  annotation.deadwoodLoss = Math.max(0, (playedCandidate?.deadwoodAfter ?? 0) - rationale.chosen.deadwoodAfter);
+
+  if (rationale.candidates.some(c => c.type === MoveType.Gin) && played.type !== MoveType.Gin) {
+    annotation.flags.push(MoveFlag.MissedGin);
+  }
+  if (played.type === MoveType.Discard && meldsWith(opponent.hand, (event.eventData as DiscardCardEventData).cardDiscarded)) {
+    annotation.flags.push(MoveFlag.FedOpponentMeld);
+  }
+  if (played.type === MoveType.Knock && (event.eventData as KnockEventData).roundResult === 'UNDERCUT') {
+    annotation.flags.push(MoveFlag.Undercut);
+  }
+
+  if (annotation.flags.length > 0 || annotation.deadwoodLoss >= BLUNDER_DEADWOOD) {
+    annotation.quality = MoveQuality.Blunder;
+  } else if (annotation.deadwoodLoss > 0) {
+    annotation.quality = MoveQuality.Inaccuracy;
+  } else {
+    annotation.quality = MoveQuality.Good;
+  }
+
+  return annotation;
+}
+
+/**
+ * Accuracy and error counts for each player with analyzed moves
+ */
+export function summarizeAnalysis(gameId: string, moves: MoveAnnotation[]): GameAnalysis {
+  const playerIds = [...new Set(moves.map(move => move.playerId))];
+
+  const players: PlayerAnalysis[] = playerIds.map(playerId => {
+    const own = moves.filter(move => move.playerId === playerId);
+    const credit = own.reduce((sum, move) => sum + QUALITY_CREDIT[move.quality], 0);
+
+    return {
+      playerId,
+      accuracy: Math.round((credit / own.length) * 100),
+      decisions: own.length,
+      inaccuracies: own.filter(move => move.quality === MoveQuality.Inaccuracy).length,
+      blunders: own.filter(move => move.quality === MoveQuality.Blunder).length,
+    };
+  });
+
+  return { gameId, players, moves };
+}
+
+function meldsWith(hand: Card[], card: Card): boolean {
+  return findOptimalMelds([...hand, card]).melds.some(meld => meld.cards.some(c => c.id === card.id));
+}
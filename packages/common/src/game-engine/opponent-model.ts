@@ -0,0 +1,222 @@
+import { Card } from '../types/game';
+import {
+  DiscardCardEventData,
+  DrawFromDiscardEventData,
+  EventType,
+  GameEvent,
+  GameStartedEventData,
+  StartNewRoundEventData,
+  TakeUpcardEventData,
+  TimeoutAutoPlayEventData,
+} from '../types/events';
+import { createDeck, getCardValue, getRankValue } from '../utils/cards';
+
+type PublicEvent = Pick<GameEvent, 'eventType' | 'eventData'>;
+
+const HAND_SIZE = 10;
+
+/**
+ * Belief model of an opponent's hand built only from public events in the current round:
+ * cards they picked up from the discard pile, cards they passed on or threw away,
+ * and every card that has been shown face up and is therefore out of play.
+ */
+export class OpponentModel {
+  private readonly opponentId: string;
+  private readonly held = new Map<string, Card>(); // Picked up from the discard pile and not thrown back
+  private readonly discarded: Card[] = [];
+  private readonly passed: Card[] = []; // Top discards they chose not to take
+  private readonly seen = new Map<string, Card>(); // Every card that has been face up this round
+  private topDiscard: Card | null = null;
+  private turns = 0;
+
+  constructor(opponentId: string) {
+    this.opponentId = opponentId;
+  }
+
+  /**
+   * Build a model from a game's event stream, keeping only the round in progress
+   */
+  static fromEvents(events: PublicEvent[], opponentId: string): OpponentModel {
+    let roundStart = 0;
+    events.forEach((event, index) => {
+      if (event.eventType === EventType.GAME_STARTED || event.eventType === EventType.START_NEW_ROUND) {
+        roundStart = index;
+      }
+    });
+
+    const model = new OpponentModel(opponentId);
+    for (const event of events.slice(roundStart)) {
+      model.observe(event);
+    }
+    return model;
+  }
+
+  /**
+   * Update the model with one public event
+   */
+  observe(event: PublicEvent): void {
+    const data = event.eventData as any;
+    const byOpponent = data?.playerId === this.opponentId;
+
+    switch (event.eventType) {
+      case EventType.GAME_STARTED:
+      case EventType.START_NEW_ROUND: {
+        const deal = (data as GameStartedEventData).initialDeal ?? (data as StartNewRoundEventData).newDeal;
+        this.reset();
+        if (deal?.topDiscardCard) {
+          this.showCard(deal.topDiscardCard);
+        }
+        break;
+      }
+
+      case EventType.TAKE_UPCARD:
+      case EventType.DRAW_FROM_DISCARD: {
+        const taken = (data as TakeUpcardEventData).cardTaken ?? (data as DrawFromDiscardEventData).cardDrawn;
+        if (byOpponent && taken) {
+          this.held.set(taken.id, taken);
+          this.turns++;
+        }
+        const pileAfter: Card[] = data.discardPileAfter ?? [];
+        this.topDiscard = pileAfter[0] ?? null;
+        break;
+      }
+
+      case EventType.PASS_UPCARD:
+        if (byOpponent && this.topDiscard) {
+          this.passed.push(this.topDiscard);
+        }
+        break;
+
+      case EventType.DRAW_FROM_STOCK:
+        if (byOpponent) {
+          if (this.topDiscard) {
+            this.passed.push(this.topDiscard);
+          }
+          this.turns++;
+        }
+        break;
+
+      case EventType.DISCARD_CARD: {
+        const card = (data as DiscardCardEventData).cardDiscarded;
+        if (byOpponent) {
+          this.held.delete(card.id);
+          this.discarded.push(card);
+        }
+        this.showCard(card);
+        break;
+      }
+
+      case EventType.TIMEOUT_AUTO_PLAY:
+        // Auto-played moves are public exactly as if the player had made them
+        for (const move of (data as TimeoutAutoPlayEventData).moves) {
+          this.observe({ eventType: move.eventType, eventData: move.eventData });
+        }
+        break;
+    }
+  }
+
+  /**
+   * Cards we know are in the opponent's hand
+   */
+  getKnownCards(): Card[] {
+    return Array.from(this.held.values());
+  }
+
+  /**
+   * Cards the opponent has shown they do not want
+   */
+  getRejectedCards(): Card[] {
+    return [...this.discarded, ...this.passed];
+  }
+
+  /**
+   * Number of draws the opponent has made this round
+   */
+  getTurnCount(): number {
+    return this.turns;
+  }
+
+  /**
+   * Whether a card is out of play: shown face up and not taken back by the opponent
+   */
+  isDead(card: Card): boolean {
+    return this.seen.has(card.id) && !this.held.has(card.id);
+  }
+
+  /**
+   * Cards that could still be in the opponent's hand or the stock
+   */
+  getUnseenCards(ownHand: Card[]): Card[] {
+    const ownIds = new Set(ownHand.map(card => card.id));
+    return createDeck().filter(card => !ownIds.has(card.id) && !this.seen.has(card.id) && !this.held.has(card.id));
+  }
+
+  /**
+   * How much discarding a card is likely to help the opponent. Zero means the card is
+   * safe: nothing it could meld with is still in play.
+   */
+  getDiscardDanger(card: Card, ownHand: Card[]): number {
+    const unseen = this.getUnseenCards(ownHand).filter(c => c.id !== card.id);
+    const known = this.getKnownCards();
+    const rejected = this.getRejectedCards();
+    let danger = 0;
+
+    // Sets: a held card of the same rank is a pair waiting for a third
+    const heldSameRank = known.filter(c => c.rank === card.rank).length;
+    const unseenSameRank = unseen.filter(c => c.rank === card.rank).length;
+    if (heldSameRank + unseenSameRank >= 2) {
+      danger += heldSameRank * 6 + unseenSameRank;
+      danger -= rejected.filter(c => c.rank === card.rank).length * 3;
+    }
+
+    // Runs: held neighbours in the suit are what the opponent is building around
+    const rank = getRankValue(card.rank);
+    for (const offset of [-2, -1, 1, 2]) {
+      const neighbourRank = rank + offset;
+      const isNeighbour = (c: Card) => c.suit === card.suit && getRankValue(c.rank) === neighbourRank;
+      const adjacent = Math.abs(offset) === 1;
+
+      if (known.some(isNeighbour)) {
+        danger += adjacent ? 6 : 3;
+      } else if (unseen.some(isNeighbour)) {
+        danger += adjacent ? 1 : 0.5;
+      }
+      if (adjacent && rejected.some(isNeighbour)) {
+        danger -= 2;
+      }
+    }
+
+    return Math.max(0, danger);
+  }
+
+  /**
+   * Rough estimate of the opponent's deadwood. Cards they took from the discard pile
+   * are assumed melded, and the rest of their hand tidies up as the round goes on.
+   */
+  estimateDeadwood(ownHand: Card[]): number {
+    const unseen = this.getUnseenCards(ownHand);
+    if (unseen.length === 0) {
+      return 0;
+    }
+
+    const averageValue = unseen.reduce((sum, card) => sum + getCardValue(card), 0) / unseen.length;
+    const unknownSlots = Math.max(0, HAND_SIZE - this.held.size);
+    const unmeldedShare = Math.max(0.25, 0.9 - this.turns * 0.06);
+
+    return Math.round(unknownSlots * averageValue * unmeldedShare);
+  }
+
+  private reset(): void {
+    this.held.clear();
+    this.discarded.length = 0;
+    this.passed.length = 0;
+    this.seen.clear();
+    this.topDiscard = null;
+    this.turns = 0;
+  }
+
+  private showCard(card: Card): void {
+    this.seen.set(card.id, card);
+    this.topDiscard = card;
+  }
+}
@@ -0,0 +1,66 @@
+import { AIRationale, AISpeed, GamePhase, MoveType } from '../types/game';
+
+// Think time before any weighing, by the kind of decision
+const BASE_THINK_MS: Partial<Record<GamePhase, number>> = {
+  [GamePhase.UpcardDecision]: 1200,
+  [GamePhase.Draw]: 900,
+  [GamePhase.Discard]: 1400,
+};
+const DEFAULT_THINK_MS = 1200;
+
+const CLOSE_DEADWOOD = 3; // Alternatives within this much deadwood of the chosen move are worth a second look
+const CLOSE_CANDIDATE_MS = 450;
+const MAX_CLOSE_CANDIDATES = 4;
+const FINISH_MS = 1200; // Laying the hand down deserves a moment
+const LATE_ROUND_STOCK = 10;
+const LATE_ROUND_MS = 600;
+const JITTER = 0.25; // Up to this share of the think time either way
+
+const SPEED_FACTOR: Record<AISpeed, number> = {
+  [AISpeed.Instant]: 0,
+  [AISpeed.Normal]: 1,
+  [AISpeed.Slow]: 1.8,
+};
+
+/**
+ * Scale a delay for the game's AI speed; instant games never wait
+ */
+export function scaleForSpeed(ms: number, speed: AISpeed = AISpeed.Normal): number {
+  return Math.round(ms * SPEED_FACTOR[speed]);
+}
+
+/**
+ * How long the AI should appear to think before a move. Close calls, knocking or
+ * going gin and a running-out stock all take longer, with some jitter so no two
+ * turns feel the same.
+ */
+export function getThinkTime(
+  rationale: AIRationale | null,
+  stockCount: number,
+  speed: AISpeed = AISpeed.Normal,
+  random: () => number = Math.random
+): number {
+  let ms = DEFAULT_THINK_MS;
+
+  if (rationale) {
+    ms = BASE_THINK_MS[rationale.phase] ?? DEFAULT_THINK_MS;
+
+    const { chosen, candidates } = rationale;
+    // The chosen move is itself among the candidates
+    const closeCandidates = candidates.filter(candidate =>
+      Math.abs(candidate.deadwoodAfter - chosen.deadwoodAfter) <= CLOSE_DEADWOOD
+    ).length - 1;
+    ms += Math.min(Math.max(closeCandidates, 0), MAX_CLOSE_CANDIDATES) * CLOSE_CANDIDATE_MS;
+
+    if (chosen.type === MoveType.Knock || chosen.type === MoveType.Gin) {
+      ms += FINISH_MS;
+    }
+  }
+
+  if (stockCount <= LATE_ROUND_STOCK) {
+    ms += LATE_ROUND_MS;
+  }
+
+  ms *= 1 + (random() * 2 - 1) * JITTER;
+  return scaleForSpeed(ms, speed);
+}
@@ -0,0 +1,343 @@
+import { Deal, GameMove, GamePhase, GameState, Meld, MoveType, RuleSet } from '../types/game';
+import { EventType, GameEvent, GinEventData, KnockEventData, createGameEvent } from '../types/events';
+import { createSeededRandom, dealRound } from '../utils/cards';
+import { getKnockLimit } from '../utils/scoring';
+import { EventSourcedGinRummyGame } from './event-sourced-gin-rummy';
+import { EventSourcingEngine } from './event-sourcing';
+import { Strategy, StrategyFactory } from './strategy';
+
+const SEAT_IDS: [string, string] = ['self-play', 'ai-player']; // Seated like a game against the anonymous AI
+const MAX_EVENTS_PER_GAME = 5000; // A game still going after this many events is abandoned
+const Z_95 = 1.96;
+
+// Knock and gin name the card to discard separately from the melds
+interface EngineAction {
+  type: EventType;
+  playerId: string;
+  cardId?: string;
+  cardToDiscard?: string;
+  melds?: Meld[];
+}
+
+export interface SelfPlayEntrant {
+  name: string;
+  factory: StrategyFactory;
+}
+
+export interface SelfPlayOptions {
+  games: number;
+  seed?: string;
+  ruleSet?: Partial<RuleSet>;
+  onGameComplete?: (result: SelfPlayGameResult, gameIndex: number) => void;
+}
+
+/**
+ * Outcome of one game. Pairs are indexed by entrant, not by seat.
+ */
+export interface SelfPlayGameResult {
+  winner: 0 | 1 | null; // Null if the game was abandoned
+  scores: [number, number];
+  hands: number;
+  drawnHands: number;
+  gins: [number, number];
+  knocks: [number, number]; // Knocks that were not undercut
+  undercuts: [number, number]; // Knocks by this entrant that were undercut
+}
+
+export interface Interval {
+  value: number;
+  low: number;
+  high: number;
+}
+
+export interface SelfPlayEntrantStats {
+  name: string;
+  wins: number;
+  winRate: Interval; // Wilson score interval
+  averagePoints: Interval; // Final game score
+  averageMargin: Interval; // Final game score minus the opponent's
+  ginRate: number; // Share of all hands this entrant won by gin
+  knockRate: number; // Share of all hands this entrant won by knocking
+  undercutRate: number; // Share of this entrant's knocks that were undercut
+}
+
+export interface SelfPlayReport {
+  games: number;
+  abandonedGames: number;
+  hands: number;
+  drawnHands: number;
+  elapsedMs: number;
+  entrants: [SelfPlayEntrantStats, SelfPlayEntrantStats];
+}
+
+/**
+ * Play one game between two strategies through the real game engine.
+ * The same seed always deals the same cards, so swapping seats on a seed
+ * replays the deals from the other side of the table.
+ */
+export function playSelfPlayGame(
+  entrants: [SelfPlayEntrant, SelfPlayEntrant],
+  options: {
+    gameId: string;
+    seed: string;
+    swapSeats?: boolean;
+    ruleSet?: Partial<RuleSet>;
+    onEvent?: (event: GameEvent) => void; // Sees every event the game produces, in order
+  }
+): SelfPlayGameResult {
+  const seatEntrant: [0 | 1, 0 | 1] = options.swapSeats ? [1, 0] : [0, 1];
+  const strategies = new Map<string, Strategy>(
+    SEAT_IDS.map((playerId, seat) => [
+      playerId,
+      entrants[seatEntrant[seat]].factory(
+        playerId,
+        SEAT_IDS[1 - seat],
+        createSeededRandom(`${options.seed}:${options.gameId}:${playerId}`)
+      ),
+    ])
+  );
+  const entrantOf = (playerId: string) => seatEntrant[SEAT_IDS.indexOf(playerId)];
+  const dealFor = (roundNumber: number) => dealRound(createSeededRandom(`${options.seed}:${roundNumber}`));
+
+  const result: SelfPlayGameResult = {
+    winner: null,
+    scores: [0, 0],
+    hands: 0,
+    drawnHands: 0,
+    gins: [0, 0],
+    knocks: [0, 0],
+    undercuts: [0, 0],
+  };
+
+  const game = new EventSourcedGinRummyGame(options.gameId);
+  const initialEvents = game.createInitialGameEvents(SEAT_IDS[0], SEAT_IDS[1], true, undefined, undefined, {
+    ruleSet: options.ruleSet,
+    initialDeal: dealFor(1),
+  });
+  const engine = new EventSourcingEngine(options.gameId, initialEvents);
+  let state = engine.replayEvents();
+  initialEvents.forEach(event => {
+    strategies.forEach(strategy => strategy.observe?.(event));
+    options.onEvent?.(event);
+  });
+
+  let lastKnock: KnockEventData | null = null;
+  let sequence = initialEvents.length;
+
+  while (!state.gameOver && sequence < MAX_EVENTS_PER_GAME) {
+    const event = nextEvent(game, state, strategies, lastKnock, dealFor, ++sequence);
+
+    switch (event.eventType) {
+      case EventType.KNOCK: {
+        lastKnock = event.eventData as KnockEventData;
+        const knocker = entrantOf(lastKnock.playerId);
+        if (lastKnock.roundResult === 'UNDERCUT') {
+          result.undercuts[knocker]++;
+        } else {
+          result.knocks[knocker]++;
+        }
+        result.hands++;
+        break;
+      }
+      case EventType.GIN:
+        result.gins[entrantOf((event.eventData as GinEventData).playerId)]++;
+        result.hands++;
+        break;
+      case EventType.ROUND_DRAWN:
+        result.drawnHands++;
+        result.hands++;
+        break;
+      case EventType.START_NEW_ROUND:
+        lastKnock = null;
+        break;
+    }
+
+    state = engine.addEvent(event);
+    strategies.forEach(strategy => strategy.observe?.(event));
+    options.onEvent?.(event);
+  }
+
+  state.players.forEach(player => {
+    result.scores[entrantOf(player.id)] = player.score;
+  });
+  if (state.gameOver && state.winner) {
+    result.winner = entrantOf(state.winner);
+  }
+
+  return result;
+}
+
+/**
+ * Play a series of games between two strategies and summarise the results.
+ * Games are played in pairs on the same deals with the seats swapped,
+ * so luck of the deal cancels out between the entrants.
+ */
+export function runSelfPlay(entrants: [SelfPlayEntrant, SelfPlayEntrant], options: SelfPlayOptions): SelfPlayReport {
+  const startedAt = Date.now();
+  const seed = options.seed ?? 'self-play';
+  const results: SelfPlayGameResult[] = [];
+
+  for (let i = 0; i < options.games; i++) {
+    const result = playSelfPlayGame(entrants, {
+      gameId: `self-play-${i + 1}`,
+      seed: `${seed}:${Math.floor(i / 2)}`,
+      swapSeats: i % 2 === 1,
+      ruleSet: options.ruleSet,
+    });
+    results.push(result);
+    options.onGameComplete?.(result, i);
+  }
+
+  return summarise(entrants, results, Date.now() - startedAt);
+}
+
+/**
+ * Play one event's worth of the game: a move by the player to act,
+ * or the bookkeeping that ends a hand and deals the next
+ */
+function nextEvent(
+  game: EventSourcedGinRummyGame,
+  state: GameState,
+  strategies: Map<string, Strategy>,
+  lastKnock: KnockEventData | null,
+  dealFor: (roundNumber: number) => Deal,
+  sequence: number
+): GameEvent {
+  const gameId = state.id;
+  const playerId = state.currentPlayerId;
+
+  if (state.phase === GamePhase.Layoff) {
+    // Lay off what the engine found when scoring the knock, as the layoff screen would
+    const defender = state.players.find(p => !p.hasKnocked && !p.hasGin)!;
+    return createGameEvent(gameId, EventType.LAYOFF_COMPLETED, {
+      gameId,
+      playerId: defender.id,
+      layoffs: lastKnock?.layOffs.map(({ cards, targetMeld }) => ({ cards, targetMeld })) ?? [],
+      scoreAdjustment: 0,
+      finalScores: lastKnock?.scores ?? { knocker: 0, opponent: 0 },
+    }, defender.id, sequence);
+  }
+
+  if (state.phase === GamePhase.RoundOver) {
+    const newDeal = dealFor((state.roundNumber || 0) + 1);
+    return expectEvent(game.validateAndCreateEvent(state, { type: EventType.START_NEW_ROUND, playerId, newDeal }, sequence));
+  }
+
+  const player = state.players.find(p => p.id === playerId)!;
+  const move = strategies.get(playerId)!.getMove(
+    player.hand,
+    state.phase,
+    state.discardPile,
+    state.stockPileCount,
+    getKnockLimit(state)
+  );
+  return expectEvent(game.validateAndCreateEvent(state, toAction(move), sequence));
+}
+
+/**
+ * Convert a strategy's move into the action the engine validates
+ */
+function toAction(move: GameMove): EngineAction {
+  const base = { playerId: move.playerId };
+
+  switch (move.type) {
+    case MoveType.TakeUpcard:
+      return { ...base, type: EventType.TAKE_UPCARD };
+    case MoveType.PassUpcard:
+      return { ...base, type: EventType.PASS_UPCARD };
+    case MoveType.DrawStock:
+      return { ...base, type: EventType.DRAW_FROM_STOCK };
+    case MoveType.DrawDiscard:
+      return { ...base, type: EventType.DRAW_FROM_DISCARD };
+    case MoveType.Discard:
+      return { ...base, type: EventType.DISCARD_CARD, cardId: move.cardId };
+    case MoveType.Knock:
+      return { ...base, type: EventType.KNOCK, melds: move.melds, cardToDiscard: move.cardId };
+    case MoveType.Gin:
+      return { ...base, type: EventType.GIN, melds: move.melds, cardToDiscard: move.cardId };
+    default:
+      throw new Error(`Strategy made an unsupported move: ${move.type}`);
+  }
+}
+
+function expectEvent(result: GameEvent | { error: string }): GameEvent {
+  if ('error' in result) {
+    throw new Error(`Strategy made an illegal move: ${result.error}`);
+  }
+  return result;
+}
+
+function summarise(
+  entrants: [SelfPlayEntrant, SelfPlayEntrant],
+  results: SelfPlayGameResult[],
+  elapsedMs: number
+): SelfPlayReport {
+  const hands = results.reduce((sum, r) => sum + r.hands, 0);
+  const finished = results.filter(r => r.winner !== null);
+
+  const stats = ([0, 1] as const).map(index => {
+    const other = index === 0 ? 1 : 0;
+    const wins = finished.filter(r => r.winner === index).length;
+    const knocks = results.reduce((sum, r) => sum + r.knocks[index] + r.undercuts[index], 0);
+    const undercuts = results.reduce((sum, r) => sum + r.undercuts[index], 0);
+
+    return {
+      name: entrants[index].name,
+      wins,
+      winRate: wilsonInterval(wins, finished.length),
+      averagePoints: meanInterval(finished.map(r => r.scores[index])),
+      averageMargin: meanInterval(finished.map(r => r.scores[index] - r.scores[other])),
+      ginRate: ratio(results.reduce((sum, r) => sum + r.gins[index], 0), hands),
+      knockRate: ratio(results.reduce((sum, r) => sum + r.knocks[index], 0), hands),
+      undercutRate: ratio(undercuts, knocks),
+    };
+  }) as [SelfPlayEntrantStats, SelfPlayEntrantStats];
+
+  return {
+    games: results.length,
+    abandonedGames: results.length - finished.length,
+    hands,
+    drawnHands: results.reduce((sum, r) => sum + r.drawnHands, 0),
+    elapsedMs,
+    entrants: stats,
+  };
+}
+
+function ratio(count: number, total: number): number {
+  return total > 0 ? count / total : 0;
+}
+
+/**
+ * 95% Wilson score interval for a proportion, which stays sensible near 0% and 100%
+ */
+export function wilsonInterval(successes: number, trials: number): Interval {
+  if (trials === 0) {
+    return { value: 0, low: 0, high: 0 };
+  }
+
+  const p = successes / trials;
+  const z2 = Z_95 * Z_95;
+  const centre = (p + z2 / (2 * trials)) / (1 + z2 / trials);
+  const spread = (Z_95 * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials))) / (1 + z2 / trials);
+
+  return { value: p, low: Math.max(0, centre - spread), high: Math.min(1, centre + spread) };
+}
+
+/**
+ * Mean with a 95% normal-approximation confidence interval
+ */
+export function meanInterval(values: number[]): Interval {
+  if (values.length === 0) {
+    return { value: 0, low: 0, high: 0 };
+  }
+
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  if (values.length === 1) {
+    return { value: mean, low: mean, high: mean };
+  }
+
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1);
+  const halfWidth = Z_95 * Math.sqrt(variance / values.length);
+
+  return { value: mean, low: mean - halfWidth, high: mean + halfWidth };
+}
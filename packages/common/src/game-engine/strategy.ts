@@ -0,0 +1,32 @@
+import { Card, GameMove, GamePhase } from '../types/game';
+import { GameEvent } from '../types/events';
+
+/**
+ * A way of choosing moves for one seat at the table.
+ * AIPlayer and its subclasses are strategies, and the self-play runner
+ * plays any two strategies against each other.
+ */
+export interface Strategy {
+  /**
+   * Choose a move in the upcard, draw or discard phase.
+   * The top of the discard pile is at index 0.
+   */
+  getMove(
+    hand: Card[],
+    phase: GamePhase,
+    discardPile: Card[],
+    stockCount: number,
+    knockLimit?: number
+  ): GameMove;
+
+  /**
+   * See each event as it happens, for strategies that track the opponent
+   */
+  observe?(event: Pick<GameEvent, 'eventType' | 'eventData'>): void;
+}
+
+/**
+ * Builds a fresh strategy for one seat of one game.
+ * The random source is seeded by the runner so games can be replayed.
+ */
+export type StrategyFactory = (playerId: string, opponentId: string, random: () => number) => Strategy;
@@ -0,0 +1,92 @@
+import { EVENT_VERSIONS, EventType, GameEvent } from '../types/events';
+
+/**
+ * Converts an event payload from one version to the next
+ */
+export type Upcaster = (eventData: any, event: GameEvent) => any;
+
+/**
+ * Event Upcasting
+ *
+ * Stored events keep the payload shape they were written with, so when a payload
+ * changes we register an upcaster from the old version instead of rewriting history.
+ * Upcasters are keyed by (eventType, eventVersion) and chain: a version 1 event is
+ * taken to 2, then 3, until it reaches the current version for its type.
+ */
+export class EventUpcasterRegistry {
+  private upcasters = new Map<EventType, Map<number, Upcaster>>();
+
+  constructor(private currentVersions: Partial<Record<EventType, number>> = EVENT_VERSIONS) {}
+
+  /**
+   * Register the upcaster that takes eventType payloads from fromVersion to fromVersion + 1
+   */
+  register(eventType: EventType, fromVersion: number, upcaster: Upcaster): this {
+    const byVersion = this.upcasters.get(eventType) ?? new Map<number, Upcaster>();
+    if (byVersion.has(fromVersion)) {
+      throw new Error(`An upcaster for ${eventType} v${fromVersion} is already registered`);
+    }
+
+    byVersion.set(fromVersion, upcaster);
+    this.upcasters.set(eventType, byVersion);
+    return this;
+  }
+
+  getCurrentVersion(eventType: EventType): number {
+    return this.currentVersions[eventType] ?? 1;
+  }
+
+  /**
+   * Whether an event at this version can be brought up to date
+   */
+  canUpcast(eventType: EventType, version: number): boolean {
+    const currentVersion = this.getCurrentVersion(eventType);
+    if (version > currentVersion) {
+      return false;
+    }
+
+    for (let v = version; v < currentVersion; v++) {
+      if (!this.upcasters.get(eventType)?.has(v)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Bring an event up to the current version for its type. Events already current are
+   * returned as is; events from a newer version than this code knows are refused
+   * rather than applied in a shape the engine doesn't understand.
+   */
+  upcast(event: GameEvent): GameEvent {
+    const currentVersion = this.getCurrentVersion(event.eventType);
+    let version = event.eventVersion ?? 1;
+
+    if (version > currentVersion) {
+      throw new Error(
+        `Event ${event.sequenceNumber} (${event.eventType}) is version ${version}, but this build only understands up to version ${currentVersion}`
+      );
+    }
+    if (version === currentVersion) {
+      return event;
+    }
+
+    let eventData = event.eventData;
+    while (version < currentVersion) {
+      const upcaster = this.upcasters.get(event.eventType)?.get(version);
+      if (!upcaster) {
+        throw new Error(`No upcaster for ${event.eventType} v${version}`);
+      }
+      eventData = upcaster(eventData, event);
+      version++;
+    }
+
+    return { ...event, eventData, eventVersion: version };
+  }
+}
+
+/**
+ * The upcasters the engine replays with. Every version below a type's entry in
+ * EVENT_VERSIONS needs one, e.g. `.register(EventType.KNOCK, 1, data => ({ ...data, ... }))`.
+ */
+export const eventUpcasters = new EventUpcasterRegistry();
@@ -7,7 +7,15 @@ export * from './types/socket';
 // Utilities
 export * from './utils/cards';
 export * from './utils/scoring';
+export * from './utils/hollywood-scoring';
+export * from './utils/clock';
+export * from './utils/match';
+export * from './utils/partnership';
+export * from './utils/cutthroat';
+export * from './utils/layoffs';
+export * from './utils/state-serialization';
 export * from './utils/validation';
+export * from './utils/game-record';
 
 // Game Engine
 export * from './game-engine/index';
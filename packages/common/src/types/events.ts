@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { Card, Meld } from './game.js';
+import { Card, Deal, Meld, RuleSet, GameType, HollywoodScoreSheet, HollywoodSettlement, TimeControl, PartnershipState, PartnershipTable, CutthroatState, AIStrategy, Difficulty, AIPersonality, AISpeed, AIRationale } from './game.js';
 
 // Event Types for Event Sourcing
 export enum EventType {
@@ -23,6 +23,7 @@ export enum EventType {
   // Round management  
   START_NEW_ROUND = 'START_NEW_ROUND',
   ROUND_ENDED = 'ROUND_ENDED',
+  ROUND_DRAWN = 'ROUND_DRAWN',
   LAYOFF_PHASE_STARTED = 'LAYOFF_PHASE_STARTED',
   AI_LAYOFF_DECISION = 'AI_LAYOFF_DECISION',
   LAYOFF_COMPLETED = 'LAYOFF_COMPLETED',
@@ -33,6 +34,14 @@ export enum EventType {
   GAME_FINISHED = 'GAME_FINISHED',
   GAME_CANCELLED = 'GAME_CANCELLED',
   
+  // Clock
+  TIMEOUT_AUTO_PLAY = 'TIMEOUT_AUTO_PLAY',
+  TIMEOUT_FORFEIT = 'TIMEOUT_FORFEIT',
+  
+  // Partnership
+  PARTNERSHIP_TABLES_CREATED = 'PARTNERSHIP_TABLES_CREATED',
+  PARTNERSHIP_HAND_SCORED = 'PARTNERSHIP_HAND_SCORED',
+  
   // AI actions
   AI_THINKING_STARTED = 'AI_THINKING_STARTED',
   AI_MOVE_COMPLETED = 'AI_MOVE_COMPLETED',
@@ -55,6 +64,7 @@ export interface BaseGameEvent {
     userAgent?: string;
     ipAddress?: string;
     sessionId?: string;
+    rationale?: AIRationale; // On AI_MOVE_COMPLETED, why the AI played the move
   };
   processed: boolean;
   processedAt?: string;
@@ -65,12 +75,20 @@ export interface BaseGameEvent {
 
 export interface GameCreatedEventData {
   gameId: string;
-  gameType: 'STANDARD' | 'HOLLYWOOD' | 'OKLAHOMA';
+  gameType: GameType;
   player1Id: string;
   player2Id?: string;
   isPrivate: boolean;
   vsAI: boolean;
   maxPlayers: number;
+  ruleSet?: RuleSet; // Absent on games created before configurable rules
+  timeControl?: TimeControl;
+  partnership?: Pick<PartnershipState, 'parentGameId' | 'tableNumber' | 'seats'>;
+  cutthroat?: Pick<CutthroatState, 'seats'>;
+  aiStrategy?: AIStrategy; // Absent on AI games created before selectable strategies
+  aiDifficulty?: Difficulty;
+  aiPersonality?: AIPersonality;
+  aiSpeed?: AISpeed;
 }
 
 export interface GameStartedEventData {
@@ -85,12 +103,14 @@ export interface GameStartedEventData {
     stockSize: number;
     stockPile: Card[];
   };
+  seedCommitment?: string; // SHA-256 of the shuffle seed, revealed when the round ends
 }
 
 export interface PlayerJoinedEventData {
   gameId: string;
   playerId: string;
   playerUsername: string;
+  seat?: number; // Partnership games only
 }
 
 export interface PlayerLeftEventData {
@@ -163,6 +183,7 @@ export interface GinEventData {
     ginner: number;
     opponent: number;
   };
+  seed?: string; // See RoundEndedEventData.seed
 }
 
 export interface LayOffEventData {
@@ -183,6 +204,7 @@ export interface StartNewRoundEventData {
     stockSize: number;
     stockPile?: Card[]; // Optional for backward compatibility
   };
+  seedCommitment?: string; // See GameStartedEventData.seedCommitment
 }
 
 export interface GameFinishedEventData {
@@ -193,6 +215,8 @@ export interface GameFinishedEventData {
   loserScore: number;
   endReason: 'KNOCK' | 'GIN' | 'UNDERCUT' | 'QUIT' | 'TIME_LIMIT';
   duration: number;
+  hollywoodSettlement?: HollywoodSettlement; // Hollywood games only
+  seed?: string; // A game that ends mid-hand reveals that hand's seed
 }
 
 export interface GameCancelledEventData {
@@ -241,6 +265,43 @@ export interface RoundEndedEventData {
     knocker: number;
     opponent: number;
   };
+  hollywood?: HollywoodScoreSheet; // Hollywood games only - sheet after this hand
+  seed?: string; // Reveals the seed committed to when the hand was dealt
+}
+
+export interface RoundDrawnEventData {
+  gameId: string;
+  playerId: string; // Player whose draw found the stock exhausted
+  roundNumber: number;
+  stockRemaining: number;
+  seed?: string; // Dead hands reveal their seed too
+}
+
+export interface TimeoutAutoPlayEventData {
+  gameId: string;
+  playerId: string; // Player whose move time ran out
+  moves: Array<{ eventType: EventType; eventData: GameEventData }>; // Applied in order as if the player made them
+}
+
+export interface TimeoutForfeitEventData {
+  gameId: string;
+  playerId: string; // Player whose game clock ran out
+  winnerId: string;
+  seed?: string; // See GameFinishedEventData.seed
+}
+
+export interface PartnershipTablesCreatedEventData {
+  gameId: string;
+  tables: PartnershipTable[];
+}
+
+export interface PartnershipHandScoredEventData {
+  gameId: string;
+  handNumber: number;
+  tableScores: Array<{ tableNumber: number; scores: { [playerId: string]: number } }>; // Running totals at each table
+  teamScores: [number, number];
+  winningTeam?: number; // Set when this hand decided the game
+  forfeitReason?: 'QUIT' | 'TIME_LIMIT'; // Set when a player forfeited at their table instead
 }
 
 export interface LayoffPhaseStartedEventData {
@@ -257,6 +318,7 @@ export interface AILayoffDecisionEventData {
   decision: 'LAYOFF' | 'SKIP';
   selectedLayoffs: Array<{ cards: Card[]; targetMeld: Meld }>;
   totalValueLaidOff: number;
+  seed?: string; // The AI's layoffs end the hand, so they reveal its seed
 }
 
 export interface LayoffCompletedEventData {
@@ -285,6 +347,7 @@ export interface RoundStartedEventData {
     stockSize: number;
     stockPile: Card[];
   };
+  seedCommitment?: string; // See GameStartedEventData.seedCommitment
 }
 
 // Union type for all event data
@@ -303,6 +366,11 @@ export type GameEventData =
   | LayOffEventData
   | StartNewRoundEventData
   | RoundEndedEventData
+  | RoundDrawnEventData
+  | TimeoutAutoPlayEventData
+  | TimeoutForfeitEventData
+  | PartnershipTablesCreatedEventData
+  | PartnershipHandScoredEventData
   | LayoffPhaseStartedEventData
   | AILayoffDecisionEventData
   | LayoffCompletedEventData
@@ -428,6 +496,8 @@ export interface GinAction extends BaseGameAction {
 
 export interface StartNewRoundAction extends BaseGameAction {
   type: EventType.START_NEW_ROUND;
+  newDeal: Deal; // Dealt from a committed seed by the caller
+  seedCommitment?: string;
 }
 
 export interface AILayoffDecisionAction extends BaseGameAction {
@@ -459,6 +529,15 @@ export const GameActionSchema = z.discriminatedUnion('type', [
   StartNewRoundSchema,
 ]);
 
+// The payload version new events are written with. Bump an event type here when its
+// payload changes shape, and register an upcaster from the old version in
+// game-engine/upcasting so stored games still replay.
+export const EVENT_VERSIONS: Partial<Record<EventType, number>> = {};
+
+export function getCurrentEventVersion(eventType: EventType): number {
+  return EVENT_VERSIONS[eventType] ?? 1;
+}
+
 // Helper functions for event creation
 export function createGameEvent<T extends GameEventData>(
   gameId: string,
@@ -474,7 +553,7 @@ export function createGameEvent<T extends GameEventData>(
     playerId,
     eventType,
     sequenceNumber,
-    eventVersion: 1,
+    eventVersion: getCurrentEventVersion(eventType),
     eventData,
     metadata: {
       timestamp: new Date().toISOString(),
@@ -41,6 +41,24 @@ export enum Difficulty {
   Hard = 'hard',
 }
 
+export enum AIPersonality {
+  Balanced = 'balanced',
+  AggressiveKnocker = 'aggressive_knocker', // Knocks as soon as it can
+  GinHunter = 'gin_hunter', // Holds out for gin
+}
+
+export enum AISpeed {
+  Instant = 'instant', // No think time, for automated games
+  Normal = 'normal',
+  Slow = 'slow',
+}
+
+export enum AIStrategy {
+  Standard = 'standard',
+  Expert = 'expert', // Tracks the opponent's hand from public events
+  Master = 'master', // Searches sampled deals within a time budget
+}
+
 export enum GamePhase {
   Waiting = 'waiting', // Game created but waiting for players
   UpcardDecision = 'upcard_decision',
@@ -51,6 +69,13 @@ export enum GamePhase {
   GameOver = 'game_over',
 }
 
+export enum GameType {
+  Standard = 'STANDARD',
+  Hollywood = 'HOLLYWOOD',
+  Oklahoma = 'OKLAHOMA',
+  Straight = 'STRAIGHT', // Gin only - knocking is not allowed
+}
+
 export enum MoveType {
   TakeUpcard = 'take_upcard',
   PassUpcard = 'pass_upcard',
@@ -62,11 +87,125 @@ export enum MoveType {
   StartNewRound = 'START_NEW_ROUND',
 }
 
+/**
+ * Scoring and knocking rules for a game.
+ * Carried in GAME_CREATED so replays always score with the rules the game was created with.
+ */
+export interface RuleSet {
+  targetScore: number; // Points needed to win the game
+  ginBonus: number;
+  undercutBonus: number;
+  knockLimit: number; // Maximum deadwood allowed when knocking
+}
+
+export const DEFAULT_RULE_SET: RuleSet = {
+  targetScore: 100,
+  ginBonus: 25,
+  undercutBonus: 25,
+  knockLimit: 10,
+};
+
+export const RuleSetSchema = z.object({
+  targetScore: z.number().int().min(10).max(1000).optional().default(DEFAULT_RULE_SET.targetScore),
+  ginBonus: z.number().int().min(0).max(100).optional().default(DEFAULT_RULE_SET.ginBonus),
+  undercutBonus: z.number().int().min(0).max(100).optional().default(DEFAULT_RULE_SET.undercutBonus),
+  knockLimit: z.number().int().min(0).max(10).optional().default(DEFAULT_RULE_SET.knockLimit),
+});
+
+export enum ClockMode {
+  Fischer = 'FISCHER', // Increment added to the bank after every turn
+  Delay = 'DELAY', // Bank only starts running after a fixed delay each turn
+}
+
+/**
+ * Time controls chosen at game creation and carried in GAME_CREATED.
+ * Running out of bank forfeits the game; running out of move time auto-plays the turn.
+ */
+export interface TimeControl {
+  mode: ClockMode;
+  initialSeconds: number; // Each player's bank for the whole game
+  incrementSeconds: number; // Fischer increment or per-turn delay, depending on mode
+  moveSeconds?: number; // Optional limit on a single turn
+}
+
+export const TimeControlSchema = z.object({
+  mode: z.nativeEnum(ClockMode).optional().default(ClockMode.Fischer),
+  initialSeconds: z.number().int().min(30).max(7200).optional().default(600),
+  incrementSeconds: z.number().int().min(0).max(60).optional().default(5),
+  moveSeconds: z.number().int().min(5).max(600).optional(),
+});
+
+export interface GameClock {
+  remainingMs: { [playerId: string]: number }; // Players missing here still have their full bank
+  turnPlayerId?: string;
+  turnStartedAt?: string; // Unset while the clock is paused between hands
+}
+
+/**
+ * Rules fixed for a single hand when it is dealt.
+ * Oklahoma derives both from the first upcard; Straight Gin uses a knock limit of 0
+ * since only gin ends a hand; other variants use the rule set as-is.
+ */
+export interface HandRules {
+  knockLimit: number;
+  scoreMultiplier: number; // Applied to every score awarded for the hand
+}
+
+/**
+ * One of the three concurrent games in a Hollywood score sheet
+ */
+export interface HollywoodGame {
+  scores: { [playerId: string]: number };
+  boxes: { [playerId: string]: number }; // Hands won in this game
+  winnerId?: string; // Set once a player reaches the target score
+}
+
+export interface HollywoodScoreSheet {
+  games: HollywoodGame[];
+}
+
+export interface HollywoodGameSettlement {
+  winnerId: string;
+  loserId: string;
+  winnerTotal: number; // Points + game bonus + box bonuses, doubled for a shutout
+  loserTotal: number;
+  isShutout: boolean;
+  net: number; // winnerTotal - loserTotal
+}
+
+export interface HollywoodSettlement {
+  games: HollywoodGameSettlement[];
+  winnerId: string | null; // Player with the larger net total across all games
+  loserId: string | null;
+  net: number;
+}
+
 export interface Meld {
   type: 'run' | 'set';
   cards: Card[];
 }
 
+export interface LayOff {
+  cards: Card[];
+  targetMeld: Meld;
+}
+
+export interface LayOffPlan {
+  layOffs: LayOff[];
+  value: number; // Deadwood points laid off
+}
+
+/**
+ * Cards dealt at the start of a hand
+ */
+export interface Deal {
+  player1Hand: Card[];
+  player2Hand: Card[];
+  topDiscardCard: Card;
+  stockSize: number;
+  stockPile: Card[];
+}
+
 export interface GameMove {
   type: MoveType;
   playerId: string;
@@ -75,6 +214,103 @@ export interface GameMove {
   gameId?: string; // Optional for API calls
 }
 
+/**
+ * One move the AI weighed. Higher scores are better; a null score means
+ * the move was taken by rule (going gin, knocking) rather than compared.
+ */
+export interface AIMoveCandidate {
+  type: MoveType;
+  cardId?: string;
+  score: number | null;
+  deadwoodAfter: number; // For a draw, after the best discard that could follow it
+}
+
+/**
+ * Why the AI made a move: every candidate it weighed, best first
+ */
+export interface AIRationale {
+  phase: GamePhase;
+  chosen: AIMoveCandidate;
+  candidates: AIMoveCandidate[];
+  suboptimal?: boolean; // A deliberate mistake made at an easier difficulty
+}
+
+/**
+ * The AI's reasoning in a game. Full rationales are only sent once the game is over.
+ */
+export interface AIThoughtsResponse {
+  thoughts: string[]; // The latest AI move, described without giving away the hand
+  sequenceNumber: number | null;
+  gameOver: boolean;
+  rationales?: Array<{ sequenceNumber: number; moveType: string; rationale: AIRationale }>;
+}
+
+/**
+ * A move suggested by the hint button
+ */
+export interface MoveHint {
+  type: MoveType;
+  cardId?: string; // The card drawn or discarded, when the move names one
+  deadwoodDelta: number; // Change to the player's deadwood; negative is an improvement
+}
+
+/**
+ * Suggestions for the player's current turn, best first.
+ * Only one list is filled, depending on whether the player is drawing or discarding.
+ */
+export interface MoveHints {
+  deadwood: number;
+  draw: MoveHint[];
+  discard: MoveHint[]; // Includes knock and gin when the hand allows them
+}
+
+export interface HintResponse {
+  hints: MoveHints;
+  hintsUsed: number; // Across the whole game; a game with any hints is not rated
+}
+
+export enum MoveQuality {
+  Best = 'best', // The move the AI would have played
+  Good = 'good', // A different move that leaves no more deadwood
+  Inaccuracy = 'inaccuracy',
+  Blunder = 'blunder',
+}
+
+export enum MoveFlag {
+  MissedGin = 'missed_gin',
+  FedOpponentMeld = 'fed_opponent_meld', // Discarded a card that melds with the opponent's hand
+  Undercut = 'undercut', // Knocked and was undercut
+}
+
+/**
+ * One decision from a finished game, compared with the AI's evaluation of the same position
+ */
+export interface MoveAnnotation {
+  sequenceNumber: number;
+  playerId: string;
+  roundNumber: number;
+  phase: GamePhase;
+  played: { type: MoveType; cardId?: string };
+  suggested: { type: MoveType; cardId?: string };
+  deadwoodLoss: number; // Deadwood left beyond what the suggested move would leave
+  quality: MoveQuality;
+  flags: MoveFlag[];
+}
+
+export interface PlayerAnalysis {
+  playerId: string;
+  accuracy: number; // 0-100
+  decisions: number;
+  inaccuracies: number;
+  blunders: number;
+}
+
+export interface GameAnalysis {
+  gameId: string;
+  players: PlayerAnalysis[];
+  moves: MoveAnnotation[];
+}
+
 export interface PlayerState {
   id: string;
   username: string;
@@ -90,6 +326,40 @@ export interface PlayerState {
   isReadyForNextRound?: boolean; // Whether player is ready to continue to next round
 }
 
+export const OPEN_SEAT = 'waiting-for-player';
+
+export interface PartnershipTable {
+  tableNumber: number;
+  gameId: string;
+  playerIds: [string, string]; // Seats 2n and 2n + 1
+}
+
+/**
+ * Partnership (2v2) play. Seats 0 and 2 are one team, seats 1 and 3 the other.
+ * Every hand is played at two head-to-head tables, seat 0 v 1 and seat 2 v 3,
+ * each its own game stream. A team's score is the combined points its partners
+ * have won at their tables, taken once both tables have finished the hand.
+ */
+export interface PartnershipState {
+  parentGameId: string; // The game that seats the four players and records team results
+  tableNumber?: number; // Set on table games only
+  seats: string[]; // Player IDs by seat, OPEN_SEAT while unfilled
+  tables: PartnershipTable[];
+  teamScores: [number, number];
+  handsScored: number;
+  winningTeam?: number;
+}
+
+/**
+ * Three-player cutthroat play. Each hand the dealer sits out while the other two
+ * play it head to head, and the deal passes one seat to the left every hand.
+ * Scores stay with each player across the rotation.
+ */
+export interface CutthroatState {
+  seats: string[]; // Player IDs by seat, OPEN_SEAT while unfilled
+  sittingOut?: PlayerState; // The dealer for the current hand, parked outside players
+}
+
 export interface GameState {
   id: string;
   status: GameStatus;
@@ -106,6 +376,18 @@ export interface GameState {
   gameOver: boolean;
   roundScores?: { [playerId: string]: number };
   roundNumber?: number; // Current round number (starts at 1)
+  ruleSet?: RuleSet; // Missing on games created before rule sets existed
+  gameType?: GameType;
+  handRules?: HandRules; // Set when each hand is dealt
+  hollywood?: HollywoodScoreSheet; // Only present for Hollywood games
+  timeControl?: TimeControl; // Untimed games have none
+  partnership?: PartnershipState; // Set on partnership games and their tables
+  cutthroat?: CutthroatState; // Set on three-player games
+  aiStrategy?: AIStrategy; // AI games only, standard when absent
+  aiDifficulty?: Difficulty; // AI games only, medium when absent
+  aiPersonality?: AIPersonality; // AI games only, balanced when absent
+  aiSpeed?: AISpeed; // AI games only, normal when absent
+  clock?: GameClock;
   turnId?: number; // Increments exactly once at end of turn for deduplication
   
   // Simple processing flags (replaces complex turnState system)
@@ -116,18 +398,35 @@ export interface GameState {
   lastKnocker?: string;
   lastKnockerMelds?: Meld[];
   lastLayOffs?: Array<{ cards: Card[]; targetMeld: Meld }>;
+  roundDrawn?: boolean; // Hand ended with two cards left in stock and no score
 }
 
 export interface CreateGameRequest {
   vsAI?: boolean;
   isPrivate?: boolean;
   maxPlayers?: number;
+  ruleSet?: Partial<RuleSet>;
+  gameType?: GameType;
+  timeControl?: Partial<TimeControl>;
+  aiStrategy?: AIStrategy;
+  aiDifficulty?: Difficulty;
+  aiPersonality?: AIPersonality;
+  aiSpeed?: AISpeed;
+  botId?: string; // AI games only: play a bot account, which sets the strategy, difficulty and personality
 }
 
 export const CreateGameSchema = z.object({
   vsAI: z.boolean().optional().default(false),
   isPrivate: z.boolean().optional().default(false),
-  maxPlayers: z.number().min(2).max(2).optional().default(2),
+  maxPlayers: z.union([z.literal(2), z.literal(3), z.literal(4)]).optional().default(2), // 3 for cutthroat, 4 for a partnership game
+  ruleSet: RuleSetSchema.optional(),
+  gameType: z.nativeEnum(GameType).optional().default(GameType.Standard),
+  timeControl: TimeControlSchema.optional(),
+  aiStrategy: z.nativeEnum(AIStrategy).optional(),
+  aiDifficulty: z.nativeEnum(Difficulty).optional(),
+  aiPersonality: z.nativeEnum(AIPersonality).optional(),
+  aiSpeed: z.nativeEnum(AISpeed).optional(),
+  botId: z.string().optional(),
 });
 
 export interface GameListItem {
@@ -149,4 +448,37 @@ export interface GameResult {
   knockType: 'gin' | 'knock' | 'undercut';
   duration: number;
   createdAt: string;
-}
\ No newline at end of file
+}
+export enum MatchStatus {
+  InProgress = 'IN_PROGRESS',
+  Finished = 'FINISHED',
+  Cancelled = 'CANCELLED',
+}
+
+/**
+ * A best-of-N series between the same two players. Each game keeps its own
+ * event stream; the match only links them and is rated once when decided.
+ */
+export interface MatchStandings {
+  matchId: string;
+  bestOf: number;
+  winsNeeded: number;
+  status: MatchStatus;
+  players: Array<{ id: string; username: string; wins: number }>;
+  winnerId?: string;
+  currentGameId?: string; // Game in progress or waiting to start
+  games: Array<{
+    gameId: string;
+    gameNumber: number;
+    status: GameStatus;
+    winnerId?: string;
+  }>;
+}
+
+export const CreateMatchSchema = CreateGameSchema.extend({
+  maxPlayers: z.literal(2).optional().default(2), // Matches are head-to-head only
+  bestOf: z.number().int().min(1).max(9).refine(n => n % 2 === 1, 'Match length must be odd').optional().default(3),
+  player2Id: z.string().optional(),
+});
+
+export type CreateMatchRequest = CreateGameRequest & { bestOf?: number; player2Id?: string };
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { AIPersonality, AIStrategy, Difficulty } from './game';
 
 export interface User {
   id: string;
@@ -9,12 +10,31 @@ export interface User {
   gamesWon: number;
   createdAt: string;
   updatedAt: string;
+  isBot?: boolean;
 }
 
 export interface UserProfile extends User {
   winRate: number;
   recentGames: GameHistory[];
   eloHistory: EloPoint[];
+  bot?: BotSettings; // Bots only
+}
+
+/**
+ * How a bot account always plays
+ */
+export interface BotSettings {
+  strategy: AIStrategy;
+  difficulty: Difficulty;
+  personality: AIPersonality;
+}
+
+export interface BotUser extends BotSettings {
+  id: string;
+  username: string;
+  elo: number;
+  gamesPlayed: number;
+  gamesWon: number;
 }
 
 export interface GameHistory {
@@ -1,4 +1,4 @@
-import { Card, Suit, Rank } from '../types/game';
+import { Card, Suit, Rank, Deal } from '../types/game';
 
 /**
  * Generate a standard 52-card deck
@@ -21,18 +21,70 @@ export function createDeck(): Card[] {
   return deck;
 }
 
+/**
+ * Create a deterministic random number generator from a string seed.
+ * The seed is hashed with xmur3 into the 128-bit state of an sfc32 generator.
+ */
+export function createSeededRandom(seed: string): () => number {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  const nextHash = () => {
+    h = Math.imul(h ^ (h >>> 16), 2246822507);
+    h = Math.imul(h ^ (h >>> 13), 3266489909);
+    return (h ^= h >>> 16) >>> 0;
+  };
+
+  let a = nextHash();
+  let b = nextHash();
+  let c = nextHash();
+  let d = nextHash();
+
+  return () => {
+    a >>>= 0; b >>>= 0; c >>>= 0; d >>>= 0;
+    let t = (a + b) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    d = (d + 1) | 0;
+    t = (t + d) | 0;
+    c = (c + t) | 0;
+    return (t >>> 0) / 4294967296;
+  };
+}
+
 /**
  * Shuffle array using Fisher-Yates algorithm
  */
-export function shuffleDeck(deck: Card[]): Card[] {
+export function shuffleDeck(deck: Card[], random: () => number = Math.random): Card[] {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 }
 
+/**
+ * Shuffle a fresh deck and deal ten cards each, the upcard and the stock
+ */
+export function dealRound(random: () => number = Math.random): Deal {
+  const deck = shuffleDeck(createDeck(), random);
+  const player1Hand = deck.splice(0, 10);
+  const player2Hand = deck.splice(0, 10);
+  const topDiscardCard = deck.splice(0, 1)[0];
+
+  return {
+    player1Hand,
+    player2Hand,
+    topDiscardCard,
+    stockSize: deck.length,
+    stockPile: deck,
+  };
+}
+
 /**
  * Get the point value of a card for deadwood calculation
  */
@@ -0,0 +1,65 @@
+import { ClockMode, GamePhase, GameState, GameStatus, TimeControl } from '../types/game';
+
+export type ClockTimeoutType = 'MOVE' | 'GAME';
+
+const RUNNING_PHASES = [GamePhase.UpcardDecision, GamePhase.Draw, GamePhase.Discard];
+
+/**
+ * Check if the current player's clock is running (paused between hands and after the game)
+ */
+export function isClockRunning(state: Pick<GameState, 'status' | 'phase' | 'gameOver'>): boolean {
+  return state.status === GameStatus.Active && !state.gameOver && RUNNING_PHASES.includes(state.phase);
+}
+
+/**
+ * Get a player's remaining bank, not counting the turn in progress
+ */
+export function getRemainingMs(state: Pick<GameState, 'timeControl' | 'clock'>, playerId: string): number {
+  return state.clock?.remainingMs[playerId] ?? (state.timeControl?.initialSeconds ?? 0) * 1000;
+}
+
+/**
+ * Take the time used on a turn out of the bank. In delay mode the first
+ * incrementSeconds of each turn are free.
+ */
+export function spendTurnTime(timeControl: TimeControl, remainingMs: number, elapsedMs: number): number {
+  if (timeControl.mode === ClockMode.Delay) {
+    return remainingMs - Math.max(0, elapsedMs - timeControl.incrementSeconds * 1000);
+  }
+  return remainingMs - elapsedMs;
+}
+
+/**
+ * Bank left after a completed turn, including the Fischer increment
+ */
+export function chargeTurn(timeControl: TimeControl, remainingMs: number, elapsedMs: number): number {
+  const remaining = spendTurnTime(timeControl, remainingMs, elapsedMs);
+  if (timeControl.mode === ClockMode.Fischer && remaining > 0) {
+    return remaining + timeControl.incrementSeconds * 1000;
+  }
+  return remaining;
+}
+
+/**
+ * Work out whether the player on turn has run out of time.
+ * An empty bank takes precedence over an expired move limit.
+ */
+export function getClockTimeout(state: GameState, nowMs: number): { playerId: string; type: ClockTimeoutType } | null {
+  const { timeControl, clock } = state;
+  if (!timeControl || !clock?.turnPlayerId || !clock.turnStartedAt || !isClockRunning(state)) {
+    return null;
+  }
+
+  const playerId = clock.turnPlayerId;
+  const elapsedMs = nowMs - Date.parse(clock.turnStartedAt);
+
+  if (spendTurnTime(timeControl, getRemainingMs(state, playerId), elapsedMs) <= 0) {
+    return { playerId, type: 'GAME' };
+  }
+
+  if (timeControl.moveSeconds && elapsedMs >= timeControl.moveSeconds * 1000) {
+    return { playerId, type: 'MOVE' };
+  }
+
+  return null;
+}
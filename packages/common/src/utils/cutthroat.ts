@@ -0,0 +1,26 @@
+export const CUTTHROAT_SEATS = 3;
+
+/**
+ * Seat that deals, and so sits out, a hand. Seat 2 deals the first hand so the
+ * creator in seat 0 plays it, then the deal passes one seat to the left.
+ */
+export function getCutthroatDealerSeat(roundNumber: number): number {
+  return (roundNumber + 1) % CUTTHROAT_SEATS;
+}
+
+/**
+ * Who sits out a hand and who plays it. The player left of the dealer goes first.
+ */
+export function getCutthroatHand(
+  seats: string[],
+  roundNumber: number
+): { dealerId: string; activePlayerIds: [string, string] } {
+  const dealerSeat = getCutthroatDealerSeat(roundNumber);
+  return {
+    dealerId: seats[dealerSeat],
+    activePlayerIds: [
+      seats[(dealerSeat + 1) % CUTTHROAT_SEATS],
+      seats[(dealerSeat + 2) % CUTTHROAT_SEATS],
+    ],
+  };
+}
@@ -0,0 +1,303 @@
+import { Card, Deal, GameType, Meld, Rank, RuleSet, Suit } from '../types/game';
+import { resolveRuleSet } from './scoring';
+import { isValidRun } from './cards';
+
+/**
+ * Game Records
+ *
+ * A compact, human-readable notation for a whole game of gin, in the spirit of chess
+ * PGN. Tag pairs name the players, rules and result; each hand follows with its deal
+ * and one numbered line per two turns, then a summary in braces:
+ *
+ *   [P1 "Alice"]
+ *   [Result "P1"]
+ *
+ *   Hand 1
+ *   Deal P1: A♠ 2♠ 3♠ 7♥ 7♦ 7♣ 9♥ J♣ Q♦ K♠
+ *   Deal P2: ...
+ *   Upcard: 9♠
+ *   Stock: ...
+ *   1. P1 pass; P2 take 9♠, discard K♦
+ *   2. P1 draw-stock, knock 9♥ [A♠ 2♠ 3♠] [7♥ 7♦ 7♣]
+ *   Layoffs: 4♠ > [A♠ 2♠ 3♠]
+ *   {Hand 1: P1 knock, P1 +14. Score 14-0}
+ *
+ * A record holds every card, so it is only written for finished games.
+ */
+
+export type RecordSeat = 'P1' | 'P2';
+
+export type RecordAction =
+  | { type: 'pass' }
+  | { type: 'take'; card: Card } // The upcard, or the top discard in the draw phase
+  | { type: 'draw-stock' }
+  | { type: 'discard'; card: Card }
+  | { type: 'knock'; card: Card; melds: Meld[] }
+  | { type: 'gin'; card: Card; melds: Meld[] };
+
+export interface RecordTurn {
+  seat: RecordSeat;
+  actions: RecordAction[];
+}
+
+export interface RecordHand {
+  number: number;
+  deal: Deal;
+  turns: RecordTurn[];
+  layoffs?: Array<{ cards: Card[]; targetMeld: Meld }>; // The defender's, after a knock
+  summary?: string;
+}
+
+export interface GameRecordHeader {
+  gameId: string;
+  date: string; // YYYY.MM.DD
+  players: [{ id: string; name: string }, { id: string; name: string }];
+  vsAI: boolean;
+  gameType: GameType;
+  ruleSet: RuleSet;
+  result: RecordSeat | '*'; // The winner, or * while undecided
+  termination?: 'QUIT' | 'TIME_LIMIT'; // Set when the game ended off the board
+}
+
+export interface GameRecord {
+  header: GameRecordHeader;
+  hands: RecordHand[];
+}
+
+const SUIT_SYMBOLS: Record<Suit, string> = {
+  [Suit.Spades]: '♠',
+  [Suit.Hearts]: '♥',
+  [Suit.Diamonds]: '♦',
+  [Suit.Clubs]: '♣',
+};
+
+// Letters are accepted too, for records typed by hand
+const SUITS_BY_SYMBOL: Record<string, Suit> = {
+  '♠': Suit.Spades, 's': Suit.Spades,
+  '♥': Suit.Hearts, 'h': Suit.Hearts,
+  '♦': Suit.Diamonds, 'd': Suit.Diamonds,
+  '♣': Suit.Clubs, 'c': Suit.Clubs,
+};
+
+const RULE_KEYS: Array<[keyof RuleSet, string]> = [
+  ['targetScore', 'target'],
+  ['ginBonus', 'gin'],
+  ['undercutBonus', 'undercut'],
+  ['knockLimit', 'knock'],
+];
+
+export function formatRecordCard(card: Card): string {
+  return `${card.rank}${SUIT_SYMBOLS[card.suit]}`;
+}
+
+export function parseRecordCard(text: string): Card {
+  const match = /^(10|[2-9AJQK])([♠♥♦♣shdc])$/i.exec(text.trim());
+  if (!match) {
+    throw new Error(`"${text}" is not a card`);
+  }
+  const rank = match[1].toUpperCase() as Rank;
+  const suit = SUITS_BY_SYMBOL[match[2].toLowerCase()];
+  return { suit, rank, id: `${suit}_${rank}` };
+}
+
+function formatCards(cards: Card[]): string {
+  return cards.map(formatRecordCard).join(' ');
+}
+
+function parseCards(text: string): Card[] {
+  return text.trim() ? text.trim().split(/\s+/).map(parseRecordCard) : [];
+}
+
+function formatMeld(meld: Meld): string {
+  return `[${formatCards(meld.cards)}]`;
+}
+
+function parseMelds(text: string): Meld[] {
+  return Array.from(text.matchAll(/\[([^\]]*)\]/g), ([, cards]) => {
+    const meldCards = parseCards(cards);
+    return { type: isValidRun(meldCards) ? 'run' : 'set', cards: meldCards };
+  });
+}
+
+function formatAction(action: RecordAction): string {
+  switch (action.type) {
+    case 'pass':
+    case 'draw-stock':
+      return action.type;
+    case 'take':
+    case 'discard':
+      return `${action.type} ${formatRecordCard(action.card)}`;
+    case 'knock':
+    case 'gin':
+      return [action.type, formatRecordCard(action.card), ...action.melds.map(formatMeld)].join(' ');
+  }
+}
+
+function parseAction(text: string): RecordAction {
+  const [verb, ...rest] = text.trim().split(/\s+/);
+  const argument = rest.join(' ');
+
+  switch (verb) {
+    case 'pass':
+    case 'draw-stock':
+      return { type: verb };
+    case 'take':
+    case 'discard':
+      return { type: verb, card: parseRecordCard(argument) };
+    case 'knock':
+    case 'gin': {
+      const card = argument.split(/\s+/)[0] ?? '';
+      return { type: verb, card: parseRecordCard(card), melds: parseMelds(argument.slice(card.length)) };
+    }
+    default:
+      throw new Error(`Unknown action "${verb}"`);
+  }
+}
+
+function formatTurn(turn: RecordTurn): string {
+  return `${turn.seat} ${turn.actions.map(formatAction).join(', ')}`;
+}
+
+function parseTurn(text: string): RecordTurn {
+  const match = /^(P1|P2)\s+(.+)$/.exec(text.trim());
+  if (!match) {
+    throw new Error(`"${text.trim()}" does not start with P1 or P2`);
+  }
+  return { seat: match[1] as RecordSeat, actions: match[2].split(',').map(parseAction) };
+}
+
+function formatTag(name: string, value: string): string {
+  return `[${name} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`;
+}
+
+/**
+ * Write a record in game record notation
+ */
+export function serializeGameRecord({ header, hands }: GameRecord): string {
+  const tags = [
+    formatTag('Game', header.gameId),
+    formatTag('Date', header.date),
+    formatTag('P1', header.players[0].name),
+    formatTag('P1Id', header.players[0].id),
+    formatTag('P2', header.players[1].name),
+    formatTag('P2Id', header.players[1].id),
+    formatTag('VsAI', header.vsAI ? 'yes' : 'no'),
+    formatTag('Type', header.gameType),
+    formatTag('Rules', RULE_KEYS.map(([key, name]) => `${name}=${header.ruleSet[key]}`).join(' ')),
+    formatTag('Result', header.result),
+    ...(header.termination ? [formatTag('Termination', header.termination)] : []),
+  ];
+
+  const body = hands.map(hand => {
+    const lines = [
+      `Hand ${hand.number}`,
+      `Deal P1: ${formatCards(hand.deal.player1Hand)}`,
+      `Deal P2: ${formatCards(hand.deal.player2Hand)}`,
+      `Upcard: ${formatRecordCard(hand.deal.topDiscardCard)}`,
+      `Stock: ${formatCards(hand.deal.stockPile)}`.trimEnd(),
+    ];
+
+    for (let i = 0; i < hand.turns.length; i += 2) {
+      lines.push(`${i / 2 + 1}. ${hand.turns.slice(i, i + 2).map(formatTurn).join('; ')}`);
+    }
+    if (hand.layoffs?.length) {
+      lines.push(`Layoffs: ${hand.layoffs.map(l => `${formatCards(l.cards)} > ${formatMeld(l.targetMeld)}`).join(', ')}`);
+    }
+    if (hand.summary) {
+      lines.push(`{${hand.summary}}`);
+    }
+    return lines.join('\n');
+  });
+
+  return [tags.join('\n'), ...body].join('\n\n') + '\n';
+}
+
+/**
+ * Read a record written in game record notation. Errors name the line at fault.
+ */
+export function parseGameRecord(text: string): GameRecord {
+  const tags = new Map<string, string>();
+  const hands: RecordHand[] = [];
+  let hand: RecordHand | null = null;
+
+  const currentHand = (): RecordHand => {
+    if (!hand) {
+      throw new Error('expected "Hand 1" first');
+    }
+    return hand;
+  };
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    try {
+      let match: RegExpExecArray | null;
+      if (!line) {
+        return;
+      } else if ((match = /^\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]$/.exec(line))) {
+        tags.set(match[1], match[2].replace(/\\(.)/g, '$1'));
+      } else if ((match = /^Hand\s+(\d+)$/.exec(line))) {
+        hand = {
+          number: Number(match[1]),
+          deal: { player1Hand: [], player2Hand: [], topDiscardCard: undefined as unknown as Card, stockSize: 0, stockPile: [] },
+          turns: [],
+        };
+        hands.push(hand);
+      } else if ((match = /^Deal (P1|P2):(.*)$/.exec(line))) {
+        currentHand().deal[match[1] === 'P1' ? 'player1Hand' : 'player2Hand'] = parseCards(match[2]);
+      } else if ((match = /^Upcard:(.*)$/.exec(line))) {
+        currentHand().deal.topDiscardCard = parseRecordCard(match[1]);
+      } else if ((match = /^Stock:(.*)$/.exec(line))) {
+        currentHand().deal.stockPile = parseCards(match[1]);
+        currentHand().deal.stockSize = currentHand().deal.stockPile.length;
+      } else if ((match = /^\d+\.\s+(.*)$/.exec(line))) {
+        currentHand().turns.push(...match[1].split(';').map(parseTurn));
+      } else if ((match = /^Layoffs:(.*)$/.exec(line))) {
+        currentHand().layoffs = match[1].split(',').map(layoff => {
+          const [cards, meld] = layoff.split('>');
+          const [targetMeld] = parseMelds(meld ?? '');
+          if (!targetMeld) {
+            throw new Error(`layoff "${layoff.trim()}" names no meld`);
+          }
+          return { cards: parseCards(cards), targetMeld };
+        });
+      } else if ((match = /^\{(.*)\}$/.exec(line))) {
+        currentHand().summary = match[1];
+      } else {
+        throw new Error(`cannot read "${line}"`);
+      }
+    } catch (error) {
+      throw new Error(`Line ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+
+  const tag = (name: string): string => {
+    const value = tags.get(name);
+    if (value === undefined) {
+      throw new Error(`Missing [${name}] tag`);
+    }
+    return value;
+  };
+
+  const rules = Object.fromEntries(tag('Rules').split(/\s+/).map(rule => rule.split('=')));
+  const result = tag('Result');
+  const termination = tags.get('Termination');
+
+  return {
+    header: {
+      gameId: tag('Game'),
+      date: tags.get('Date') ?? '',
+      players: [
+        { id: tag('P1Id'), name: tag('P1') },
+        { id: tag('P2Id'), name: tag('P2') },
+      ],
+      vsAI: tags.get('VsAI') === 'yes',
+      gameType: (tags.get('Type') as GameType) ?? GameType.Standard,
+      ruleSet: resolveRuleSet(Object.fromEntries(
+        RULE_KEYS.filter(([, name]) => rules[name] !== undefined).map(([key, name]) => [key, Number(rules[name])])
+      )),
+      result: result === 'P1' || result === 'P2' ? result : '*',
+      ...(termination === 'QUIT' || termination === 'TIME_LIMIT' ? { termination } : {}),
+    },
+    hands,
+  };
+}
@@ -0,0 +1,133 @@
+import {
+  HollywoodGame,
+  HollywoodGameSettlement,
+  HollywoodScoreSheet,
+  HollywoodSettlement,
+  DEFAULT_RULE_SET,
+} from '../types/game';
+
+export const HOLLYWOOD_GAME_COUNT = 3;
+
+export const HOLLYWOOD_BONUSES = {
+  GAME: 100, // Awarded to the winner of each game
+  BOX: 25, // Per hand won within a game (line bonus)
+};
+
+/**
+ * Create an empty Hollywood score sheet with three games
+ */
+export function createHollywoodSheet(): HollywoodScoreSheet {
+  return {
+    games: Array.from({ length: HOLLYWOOD_GAME_COUNT }, () => ({ scores: {}, boxes: {} })),
+  };
+}
+
+/**
+ * Record a won hand on the score sheet.
+ * A player's first win is entered in game 1, their second in games 1 and 2,
+ * and every later win in all three games. Finished games take no more points.
+ */
+export function recordHollywoodHand(
+  sheet: HollywoodScoreSheet,
+  winnerId: string,
+  points: number,
+  targetScore: number = DEFAULT_RULE_SET.targetScore
+): HollywoodScoreSheet {
+  if (points <= 0) {
+    return sheet;
+  }
+
+  const games = sheet.games.map(game => ({
+    ...game,
+    scores: { ...game.scores },
+    boxes: { ...game.boxes },
+  }));
+
+  for (let index = 0; index < games.length; index++) {
+    const game = games[index];
+    if (game.winnerId) {
+      continue;
+    }
+
+    // A player only enters the next game once they have scored in the previous one,
+    // unless that game is already over
+    const previous = sheet.games[index - 1];
+    if (previous && !previous.winnerId && !previous.boxes[winnerId]) {
+      break;
+    }
+
+    game.scores[winnerId] = (game.scores[winnerId] || 0) + points;
+    game.boxes[winnerId] = (game.boxes[winnerId] || 0) + 1;
+
+    if (game.scores[winnerId] >= targetScore) {
+      game.winnerId = winnerId;
+    }
+  }
+
+  return { games };
+}
+
+/**
+ * Check if all three games on the sheet have a winner
+ */
+export function isHollywoodComplete(sheet: HollywoodScoreSheet): boolean {
+  return sheet.games.every(game => !!game.winnerId);
+}
+
+/**
+ * Settle a single finished game: game bonus, box bonuses and shutout doubling
+ */
+export function settleHollywoodGame(game: HollywoodGame, playerIds: string[]): HollywoodGameSettlement | null {
+  if (!game.winnerId) {
+    return null;
+  }
+
+  const winnerId = game.winnerId;
+  const loserId = playerIds.find(id => id !== winnerId) || '';
+  const loserPoints = game.scores[loserId] || 0;
+  const isShutout = loserPoints === 0;
+
+  let winnerTotal = (game.scores[winnerId] || 0)
+    + HOLLYWOOD_BONUSES.GAME
+    + (game.boxes[winnerId] || 0) * HOLLYWOOD_BONUSES.BOX;
+  const loserTotal = loserPoints + (game.boxes[loserId] || 0) * HOLLYWOOD_BONUSES.BOX;
+
+  if (isShutout) {
+    winnerTotal *= 2;
+  }
+
+  return {
+    winnerId,
+    loserId,
+    winnerTotal,
+    loserTotal,
+    isShutout,
+    net: winnerTotal - loserTotal,
+  };
+}
+
+/**
+ * Settle every finished game and net the results between the two players
+ */
+export function settleHollywood(sheet: HollywoodScoreSheet, playerIds: string[]): HollywoodSettlement {
+  const games = sheet.games
+    .map(game => settleHollywoodGame(game, playerIds))
+    .filter((settlement): settlement is HollywoodGameSettlement => settlement !== null);
+
+  const [player1, player2] = playerIds;
+  const player1Net = games.reduce(
+    (total, game) => total + (game.winnerId === player1 ? game.net : -game.net),
+    0
+  );
+
+  if (player1Net === 0) {
+    return { games, winnerId: null, loserId: null, net: 0 };
+  }
+
+  return {
+    games,
+    winnerId: player1Net > 0 ? player1 : player2,
+    loserId: player1Net > 0 ? player2 : player1,
+    net: Math.abs(player1Net),
+  };
+}
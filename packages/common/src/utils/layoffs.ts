@@ -0,0 +1,72 @@
+import { Card, LayOff, LayOffPlan, Meld } from '../types/game';
+import { getCardValue, getRankValue, isValidRun, isValidSet } from './cards';
+
+/**
+ * Check if a card can be laid off on a meld, which may already have cards laid off on it
+ */
+export function canLayOff(card: Card, meld: Meld): boolean {
+  return isValidExtension(meld, [card]);
+}
+
+/**
+ * Find the lay-offs worth the most deadwood points, trying every assignment of
+ * deadwood cards to the knocker's melds. Unlike laying off one card at a time, this
+ * finds chains that extend a run twice and picks between melds competing for a card.
+ */
+export function findBestLayOffs(deadwood: Card[], knockerMelds: Meld[]): LayOffPlan {
+  // Only melds of the card's rank or suit can ever take it, which keeps the search small
+  const targets = deadwood.map(card =>
+    knockerMelds
+      .map((meld, index) => ({ meld, index }))
+      .filter(({ meld }) => couldJoin(card, meld))
+      .map(({ index }) => index)
+  );
+
+  const assigned: Card[][] = knockerMelds.map(() => []);
+  let best: Card[][] = knockerMelds.map(() => []);
+  let bestValue = 0;
+
+  const search = (cardIndex: number, value: number): void => {
+    if (cardIndex === deadwood.length) {
+      const valid = knockerMelds.every((meld, index) =>
+        assigned[index].length === 0 || isValidExtension(meld, assigned[index])
+      );
+      if (valid && value > bestValue) {
+        bestValue = value;
+        best = assigned.map(cards => [...cards]);
+      }
+      return;
+    }
+
+    const card = deadwood[cardIndex];
+    for (const meldIndex of targets[cardIndex]) {
+      assigned[meldIndex].push(card);
+      search(cardIndex + 1, value + getCardValue(card));
+      assigned[meldIndex].pop();
+    }
+    search(cardIndex + 1, value);
+  };
+
+  search(0, 0);
+
+  const layOffs: LayOff[] = knockerMelds
+    .map((meld, index) => ({ cards: sortByRank(best[index]), targetMeld: meld }))
+    .filter(layOff => layOff.cards.length > 0);
+
+  return { layOffs, value: bestValue };
+}
+
+function couldJoin(card: Card, meld: Meld): boolean {
+  return meld.type === 'set'
+    ? card.rank === meld.cards[0].rank
+    : card.suit === meld.cards[0].suit && !meld.cards.some(c => c.rank === card.rank);
+}
+
+function isValidExtension(meld: Meld, cards: Card[]): boolean {
+  const extended = [...meld.cards, ...cards];
+  return meld.type === 'set' ? isValidSet(extended) : isValidRun(extended);
+}
+
+function sortByRank(cards: Card[]): Card[] {
+  return [...cards].sort((a, b) => getRankValue(a.rank) - getRankValue(b.rank));
+}
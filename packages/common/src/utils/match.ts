@@ -0,0 +1,34 @@
+/**
+ * Game wins needed to take a best-of-N match
+ */
+export function getMatchWinsNeeded(bestOf: number): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+/**
+ * Count game wins per player, ignoring games without a winner
+ */
+export function tallyMatchWins(playerIds: string[], gameWinners: Array<string | null | undefined>): Record<string, number> {
+  const wins: Record<string, number> = Object.fromEntries(playerIds.map(id => [id, 0]));
+  for (const winnerId of gameWinners) {
+    if (winnerId && winnerId in wins) {
+      wins[winnerId]++;
+    }
+  }
+  return wins;
+}
+
+/**
+ * The player who has clinched the match, if anyone has
+ */
+export function getMatchWinner(bestOf: number, wins: Record<string, number>): string | null {
+  const winsNeeded = getMatchWinsNeeded(bestOf);
+  return Object.keys(wins).find(playerId => wins[playerId] >= winsNeeded) ?? null;
+}
+
+/**
+ * Players take turns going first across the games of a match
+ */
+export function getMatchGameOrder<T>(players: [T, T], gameNumber: number): [T, T] {
+  return gameNumber % 2 === 1 ? players : [players[1], players[0]];
+}
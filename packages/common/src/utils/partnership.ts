@@ -0,0 +1,74 @@
+import { GamePhase, GameState, OPEN_SEAT, PartnershipState } from '../types/game';
+
+export const PARTNERSHIP_SEATS = 4;
+
+/**
+ * Team for a seat: seats 0 and 2 are team 0, seats 1 and 3 are team 1
+ */
+export function getSeatTeam(seat: number): number {
+  return seat % 2;
+}
+
+/**
+ * Seats that play each other at a table: table 0 is seats 0 v 1, table 1 is seats 2 v 3
+ */
+export function getTableSeats(tableNumber: number): [number, number] {
+  return [tableNumber * 2, tableNumber * 2 + 1];
+}
+
+/**
+ * Team a player is on, or null if they are not seated
+ */
+export function getPlayerTeam(partnership: Pick<PartnershipState, 'seats'>, playerId: string): number | null {
+  const seat = partnership.seats.indexOf(playerId);
+  return seat === -1 ? null : getSeatTeam(seat);
+}
+
+/**
+ * First open seat, or null when the table is full
+ */
+export function getOpenSeat(seats: string[]): number | null {
+  const seat = seats.indexOf(OPEN_SEAT);
+  return seat === -1 ? null : seat;
+}
+
+/**
+ * Combine each table's running totals into team scores
+ */
+export function combineTableScores(
+  seats: string[],
+  tableScores: Array<{ [playerId: string]: number }>
+): [number, number] {
+  const teamScores: [number, number] = [0, 0];
+  for (const scores of tableScores) {
+    for (const [playerId, score] of Object.entries(scores)) {
+      const seat = seats.indexOf(playerId);
+      if (seat !== -1) {
+        teamScores[getSeatTeam(seat)] += score;
+      }
+    }
+  }
+  return teamScores;
+}
+
+/**
+ * Team that has won, if any. Both teams over the target play on while level.
+ */
+export function getWinningTeam(teamScores: [number, number], targetScore: number): number | null {
+  const [team0, team1] = teamScores;
+  if (Math.max(team0, team1) < targetScore || team0 === team1) {
+    return null;
+  }
+  return team0 > team1 ? 0 : 1;
+}
+
+/**
+ * A table that has finished a hand waits for the other table before dealing the next one
+ */
+export function isAwaitingPartnerTable(state: Pick<GameState, 'partnership' | 'phase' | 'roundNumber'>): boolean {
+  const partnership = state.partnership;
+  if (!partnership || partnership.tableNumber === undefined) {
+    return false;
+  }
+  return state.phase === GamePhase.RoundOver && partnership.handsScored < (state.roundNumber || 1);
+}
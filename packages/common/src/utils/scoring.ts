@@ -1,6 +1,69 @@
-import { Card, Meld } from '../types/game';
+import { Card, Meld, RuleSet, DEFAULT_RULE_SET, GameType, HandRules, GameState, Suit } from '../types/game';
 import { getCardValue, findCardGroups } from './cards';
 
+/**
+ * Resolve a game's rule set, falling back to standard rules for anything missing
+ */
+export function resolveRuleSet(ruleSet?: Partial<RuleSet> | null): RuleSet {
+  return {
+    targetScore: ruleSet?.targetScore ?? DEFAULT_RULE_SET.targetScore,
+    ginBonus: ruleSet?.ginBonus ?? DEFAULT_RULE_SET.ginBonus,
+    undercutBonus: ruleSet?.undercutBonus ?? DEFAULT_RULE_SET.undercutBonus,
+    knockLimit: ruleSet?.knockLimit ?? DEFAULT_RULE_SET.knockLimit,
+  };
+}
+
+/**
+ * Determine the rules for a hand from the game variant and its first upcard.
+ * In Oklahoma the upcard's value caps the knock limit and a spade upcard doubles the hand.
+ */
+export function getHandRules(
+  gameType: GameType | undefined,
+  ruleSet: Partial<RuleSet> | null | undefined,
+  upcard?: Card
+): HandRules {
+  const rules = resolveRuleSet(ruleSet);
+
+  if (gameType === GameType.Straight) {
+    return { knockLimit: 0, scoreMultiplier: 1 };
+  }
+
+  if (gameType !== GameType.Oklahoma || !upcard) {
+    return { knockLimit: rules.knockLimit, scoreMultiplier: 1 };
+  }
+
+  return {
+    knockLimit: Math.min(rules.knockLimit, getCardValue(upcard)),
+    scoreMultiplier: upcard.suit === Suit.Spades ? 2 : 1,
+  };
+}
+
+/**
+ * Check if the game variant allows knocking (Straight Gin hands end only by gin)
+ */
+export function isKnockAllowed(gameType?: GameType): boolean {
+  return gameType !== GameType.Straight;
+}
+
+/**
+ * Cards that must stay in the stock; a draw that would dip into them ends the hand as a draw
+ */
+export const DEAD_HAND_STOCK_SIZE = 2;
+
+/**
+ * Check if the stock is down to its last two cards, leaving the hand dead
+ */
+export function isDeadHand(stockPileCount: number): boolean {
+  return stockPileCount <= DEAD_HAND_STOCK_SIZE;
+}
+
+/**
+ * Get the knock limit for the hand currently being played
+ */
+export function getKnockLimit(state: Pick<GameState, 'ruleSet' | 'handRules'>): number {
+  return state.handRules?.knockLimit ?? resolveRuleSet(state.ruleSet).knockLimit;
+}
+
 /**
  * Calculate deadwood value for a hand
  */
@@ -121,11 +184,11 @@ export function findOptimalMelds(hand: Card[]): { melds: Meld[]; deadwood: numbe
 }
 
 /**
- * Check if a player can knock (deadwood <= 10)
+ * Check if a player can knock (deadwood within the knock limit, 10 by default)
  */
-export function canKnock(hand: Card[], melds: Meld[] = []): boolean {
+export function canKnock(hand: Card[], melds: Meld[] = [], knockLimit: number = DEFAULT_RULE_SET.knockLimit): boolean {
   const deadwood = calculateDeadwood(hand, melds);
-  return deadwood <= 10;
+  return deadwood <= knockLimit;
 }
 
 /**
@@ -143,7 +206,8 @@ export function calculateKnockScore(
   knockerHand: Card[],
   knockerMelds: Meld[],
   opponentHand: Card[],
-  opponentMelds: Meld[]
+  opponentMelds: Meld[],
+  rules: RuleSet = DEFAULT_RULE_SET
 ): {
   knockerScore: number;
   opponentScore: number;
@@ -162,11 +226,11 @@ export function calculateKnockScore(
   let opponentScore = 0;
   
   if (isGin) {
-    // Gin: Knocker gets opponent deadwood + 25 bonus
-    knockerScore = opponentDeadwood + 25;
+    // Gin: Knocker gets opponent deadwood + gin bonus
+    knockerScore = opponentDeadwood + rules.ginBonus;
   } else if (isUndercut) {
-    // Undercut: Opponent gets deadwood difference + 25 bonus
-    opponentScore = knockerDeadwood - opponentDeadwood + 25;
+    // Undercut: Opponent gets deadwood difference + undercut bonus
+    opponentScore = knockerDeadwood - opponentDeadwood + rules.undercutBonus;
   } else {
     // Normal knock: Knocker gets deadwood difference
     knockerScore = opponentDeadwood - knockerDeadwood;
@@ -190,7 +254,8 @@ export function calculateScoreWithLayOffs(
   knockerMelds: Meld[],
   opponentHand: Card[],
   opponentMelds: Meld[],
-  layOffs: Array<{ cards: Card[]; targetMeld: Meld }>
+  layOffs: Array<{ cards: Card[]; targetMeld: Meld }>,
+  rules: RuleSet = DEFAULT_RULE_SET
 ): {
   knockerScore: number;
   opponentScore: number;
@@ -218,11 +283,11 @@ export function calculateScoreWithLayOffs(
   let opponentScore = 0;
   
   if (isGin) {
-    // Gin: Knocker gets opponent deadwood + 25 bonus (lay-offs don't affect gin bonus)
-    knockerScore = opponentDeadwoodAfter + 25;
+    // Gin: Knocker gets opponent deadwood + gin bonus (lay-offs don't affect gin bonus)
+    knockerScore = opponentDeadwoodAfter + rules.ginBonus;
   } else if (isUndercut) {
-    // Undercut: Opponent gets deadwood difference + 25 bonus
-    opponentScore = (knockerDeadwood - opponentDeadwoodAfter) + 25;
+    // Undercut: Opponent gets deadwood difference + undercut bonus
+    opponentScore = (knockerDeadwood - opponentDeadwoodAfter) + rules.undercutBonus;
   } else {
     // Normal knock: Knocker gets deadwood difference
     knockerScore = opponentDeadwoodAfter - knockerDeadwood;
@@ -259,16 +324,19 @@ export function calculateEloChange(
 }
 
 /**
- * Check if a game should end (player reaches 100 points)
+ * Check if a game should end (player reaches the target score, 100 by default)
  */
-export function shouldGameEnd(scores: number[]): boolean {
-  return scores.some(score => score >= 100);
+export function shouldGameEnd(scores: number[], targetScore: number = DEFAULT_RULE_SET.targetScore): boolean {
+  return scores.some(score => score >= targetScore);
 }
 
 /**
  * Get the winner of a game based on scores
  */
-export function getGameWinner(playerScores: { [playerId: string]: number }): string | null {
+export function getGameWinner(
+  playerScores: { [playerId: string]: number },
+  targetScore: number = DEFAULT_RULE_SET.targetScore
+): string | null {
   const entries = Object.entries(playerScores);
   if (entries.length !== 2) return null;
   
@@ -276,7 +344,7 @@ export function getGameWinner(playerScores: { [playerId: string]: number }): str
   const [id1, score1] = player1;
   const [id2, score2] = player2;
   
-  if (score1 >= 100 || score2 >= 100) {
+  if (score1 >= targetScore || score2 >= targetScore) {
     return score1 > score2 ? id1 : id2;
   }
   
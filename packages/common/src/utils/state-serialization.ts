@@ -0,0 +1,32 @@
+import { GameState } from '../types/game';
+
+/**
+ * Serialize a game state the same way every time, so equal states hash equally.
+ * Object keys are sorted and undefined values dropped, which makes a state read
+ * back from a JSON column (where key order is not kept) serialize identically to
+ * the state that was written.
+ */
+export function serializeState(state: GameState): string {
+  return canonicalJson(state);
+}
+
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (typeof record.toJSON === 'function') {
+    return canonicalJson((record.toJSON as () => unknown)());
+  }
+
+  const entries = Object.keys(record)
+    .filter(key => record[key] !== undefined && typeof record[key] !== 'function')
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${canonicalJson(record[key])}`);
+  return `{${entries.join(',')}}`;
+}
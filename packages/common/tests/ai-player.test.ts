@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { AIPlayer } from '../src/game-engine/ai-player';
-import { GamePhase, MoveType } from '../src/types/game';
+import { AIPersonality, GamePhase, MoveType } from '../src/types/game';
 import { AI_SCENARIOS, SAMPLE_CARDS, TEST_HANDS } from './fixtures/hands';
 
 describe('AIPlayer', () => {
@@ -47,7 +47,7 @@ describe('AIPlayer', () => {
       expect(() => {
         aiPlayer.getMove(
           TEST_HANDS.POTENTIAL_MELDS_HAND,
-          GamePhase.UpcardDecision, // Invalid phase for getMove
+          GamePhase.RoundOver, // Invalid phase for getMove
           [SAMPLE_CARDS.KC],
           25
         );
@@ -58,7 +58,7 @@ describe('AIPlayer', () => {
   describe('Draw Decision Logic', () => {
     it('should take upcard when it significantly improves hand', () => {
       const { hand, upcard, shouldTake } = AI_SCENARIOS.TAKE_UPCARD_SCENARIO;
-      const discardPile = [SAMPLE_CARDS.KC, upcard];
+      const discardPile = [upcard, SAMPLE_CARDS.KC]; // Top of the pile first
       
       const move = aiPlayer.getMove(
         hand,
@@ -76,7 +76,7 @@ describe('AIPlayer', () => {
 
     it('should pass upcard when it does not improve hand', () => {
       const { hand, upcard, shouldTake } = AI_SCENARIOS.PASS_UPCARD_SCENARIO;
-      const discardPile = [SAMPLE_CARDS.KC, upcard];
+      const discardPile = [upcard, SAMPLE_CARDS.KC]; // Top of the pile first
       
       const move = aiPlayer.getMove(
         hand,
@@ -92,6 +92,15 @@ describe('AIPlayer', () => {
       }
     });
 
+    it('should only consider the top of the discard pile, which is at index 0', () => {
+      const { hand, upcard } = AI_SCENARIOS.TAKE_UPCARD_SCENARIO;
+
+      // The card it wants is buried under a king, so it cannot be drawn
+      const move = aiPlayer.getMove(hand, GamePhase.Draw, [SAMPLE_CARDS.KC, upcard], 25);
+
+      expect(move.type).toBe(MoveType.DrawStock);
+    });
+
     it('should draw from stock when discard pile is empty', () => {
       const move = aiPlayer.getMove(
         TEST_HANDS.POTENTIAL_MELDS_HAND,
@@ -216,6 +225,14 @@ describe('AIPlayer', () => {
       expect(move.type).toBe(MoveType.Discard);
       expect(move.cardId).toBeDefined();
     });
+
+    it('should hold a knockable hand when playing for gin', () => {
+      const { hand } = AI_SCENARIOS.KNOCK_SCENARIO;
+      const ginHunter = new AIPlayer('ai-player', AIPersonality.GinHunter);
+
+      expect(aiPlayer.getMove(hand, GamePhase.Discard, [SAMPLE_CARDS.TwoD], 25).type).toBe(MoveType.Knock);
+      expect(ginHunter.getMove(hand, GamePhase.Discard, [SAMPLE_CARDS.TwoD], 25).type).toBe(MoveType.Discard);
+    });
   });
 
   describe('Difficulty Levels', () => {
@@ -312,6 +329,25 @@ describe('AIPlayer', () => {
       expect(thoughtText).not.toContain('deadwood');
       expect(thoughtText).not.toContain('optimal');
     });
+
+    it('should record the candidates behind each move', () => {
+      const { hand, discardCard } = AI_SCENARIOS.GIN_SCENARIO;
+
+      const move = aiPlayer.getMove(hand, GamePhase.Discard, [SAMPLE_CARDS.QH], 25);
+      const rationale = aiPlayer.getLastRationale()!;
+
+      expect(rationale.phase).toBe(GamePhase.Discard);
+      expect(rationale.chosen).toMatchObject({ type: move.type, cardId: discardCard.id, score: null, deadwoodAfter: 0 });
+      expect(rationale.candidates[0]).toEqual(rationale.chosen);
+      expect(rationale.candidates.some(candidate => candidate.type === MoveType.Discard)).toBe(true);
+
+      aiPlayer.getMove(TEST_HANDS.POTENTIAL_MELDS_HAND, GamePhase.Draw, [SAMPLE_CARDS.KC], 25);
+      const drawRationale = aiPlayer.getLastRationale()!;
+      expect(drawRationale.candidates.map(candidate => candidate.type).sort())
+        .toEqual([MoveType.DrawDiscard, MoveType.DrawStock].sort());
+      expect(drawRationale.candidates.find(candidate => candidate.type === MoveType.DrawDiscard)!.cardId)
+        .toBe(SAMPLE_CARDS.KC.id);
+    });
   });
 
   describe('Edge Cases', () => {
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { EventSourcedGinRummyGame } from '../src/game-engine/event-sourced-gin-rummy';
+import { EventSourcingEngine } from '../src/game-engine/event-sourcing';
+import { EventType, GameEvent, createGameEvent } from '../src/types/events';
+import { OPEN_SEAT } from '../src/types/game';
+import { createSeededRandom, dealRound } from '../src/utils/cards';
+import { getCutthroatHand } from '../src/utils/cutthroat';
+
+const SEATS = ['alice', 'bob', 'carol'];
+
+function startCutthroatGame() {
+  const game = new EventSourcedGinRummyGame('cutthroat');
+  const events: GameEvent[] = game.createInitialGameEvents('alice', OPEN_SEAT, false, 'Alice', undefined, {
+    cutthroat: { seats: ['alice', OPEN_SEAT, OPEN_SEAT] },
+  });
+
+  events.push(
+    createGameEvent('cutthroat', EventType.PLAYER_JOINED, { gameId: 'cutthroat', playerId: 'bob', playerUsername: 'Bob', seat: 1 }, 'bob', 2),
+    createGameEvent('cutthroat', EventType.PLAYER_JOINED, { gameId: 'cutthroat', playerId: 'carol', playerUsername: 'Carol', seat: 2 }, 'carol', 3),
+    createGameEvent('cutthroat', EventType.GAME_STARTED, {
+      gameId: 'cutthroat',
+      player1Id: 'alice',
+      player2Id: 'bob',
+      startingPlayerId: 'alice',
+      initialDeal: dealRound(createSeededRandom('hand-1')),
+    }, 'carol', 4)
+  );
+
+  return new EventSourcingEngine('cutthroat', events);
+}
+
+describe('Cutthroat Gin', () => {
+  it('should pass the deal to the left each hand', () => {
+    expect(getCutthroatHand(SEATS, 1)).toEqual({ dealerId: 'carol', activePlayerIds: ['alice', 'bob'] });
+    expect(getCutthroatHand(SEATS, 2)).toEqual({ dealerId: 'alice', activePlayerIds: ['bob', 'carol'] });
+    expect(getCutthroatHand(SEATS, 3)).toEqual({ dealerId: 'bob', activePlayerIds: ['carol', 'alice'] });
+  });
+
+  it('should sit the dealer out and bring them back with their score', () => {
+    const engine = startCutthroatGame();
+    const state = engine.replayEvents();
+
+    expect(state.players.map(p => p.id)).toEqual(['alice', 'bob']);
+    expect(state.cutthroat?.sittingOut?.id).toBe('carol');
+
+    // Alice wins the first hand
+    state.players[0].score = 30;
+
+    const next = engine.addEvent(createGameEvent('cutthroat', EventType.START_NEW_ROUND, {
+      playerId: 'bob',
+      gameId: 'cutthroat',
+      roundNumber: 2,
+      newDeal: dealRound(createSeededRandom('hand-2')),
+    }, 'bob', 5));
+
+    expect(next.players.map(p => p.id)).toEqual(['bob', 'carol']);
+    expect(next.currentPlayerId).toBe('bob');
+    expect(next.players[1].hand).toHaveLength(10);
+    expect(next.cutthroat?.sittingOut?.id).toBe('alice');
+    expect(next.cutthroat?.sittingOut?.score).toBe(30);
+    expect(next.cutthroat?.sittingOut?.hand).toHaveLength(0);
+  });
+
+  it('should reopen the seat of a player who leaves before the deal', () => {
+    const game = new EventSourcedGinRummyGame('cutthroat');
+    const events: GameEvent[] = game.createInitialGameEvents('alice', OPEN_SEAT, false, 'Alice', undefined, {
+      cutthroat: { seats: ['alice', OPEN_SEAT, OPEN_SEAT] },
+    });
+
+    events.push(
+      createGameEvent('cutthroat', EventType.PLAYER_JOINED, { gameId: 'cutthroat', playerId: 'bob', playerUsername: 'Bob', seat: 1 }, 'bob', 2),
+      createGameEvent('cutthroat', EventType.PLAYER_LEFT, { gameId: 'cutthroat', playerId: 'bob', reason: 'QUIT' }, 'bob', 3),
+      createGameEvent('cutthroat', EventType.PLAYER_JOINED, { gameId: 'cutthroat', playerId: 'carol', playerUsername: 'Carol', seat: 1 }, 'carol', 4)
+    );
+
+    const state = new EventSourcingEngine('cutthroat', events).replayEvents();
+    expect(state.cutthroat?.seats).toEqual(['alice', 'carol', OPEN_SEAT]);
+    expect(state.players.map(p => p.id)).toEqual(['alice', 'carol']);
+  });
+});
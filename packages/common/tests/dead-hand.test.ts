@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { EventSourcedGinRummyGame } from '../src/game-engine/event-sourced-gin-rummy';
+import { EventSourcingEngine } from '../src/game-engine/event-sourcing';
+import { EventType, GameEvent } from '../src/types/events';
+import { GamePhase, GameState } from '../src/types/game';
+import { SAMPLE_CARDS } from './fixtures/hands';
+import { GAME_STATES } from './fixtures/game-states';
+
+function createStockState(stock: GameState['stockPile']): GameState {
+  return {
+    ...GAME_STATES.LOW_STOCK_GAME,
+    stockPile: stock,
+    stockPileCount: stock.length,
+  };
+}
+
+const DRAW_ACTION = {
+  type: EventType.DRAW_FROM_STOCK,
+  playerId: 'player1',
+};
+
+describe('Dead Hand', () => {
+  const game = new EventSourcedGinRummyGame('dead-hand-game');
+
+  it('should draw normally with three cards left in the stock', () => {
+    const state = createStockState([SAMPLE_CARDS.AS, SAMPLE_CARDS.TwoS, SAMPLE_CARDS.ThreeH]);
+    const result = game.validateAndCreateEvent(state, DRAW_ACTION, 10) as GameEvent;
+
+    expect(result.eventType).toBe(EventType.DRAW_FROM_STOCK);
+  });
+
+  it('should end the hand as a draw with two cards left in the stock', () => {
+    const state = createStockState([SAMPLE_CARDS.AS, SAMPLE_CARDS.TwoS]);
+    const result = game.validateAndCreateEvent(state, DRAW_ACTION, 10) as GameEvent;
+
+    expect(result.eventType).toBe(EventType.ROUND_DRAWN);
+    expect(result.eventData).toMatchObject({ playerId: 'player1', stockRemaining: 2 });
+  });
+
+  it('should replay a drawn hand without scoring', () => {
+    const events = game.createInitialGameEvents('player1', 'ai-player', true, 'Alice', 'AI');
+    const engine = new EventSourcingEngine('dead-hand-game', events);
+    engine.replayEvents();
+
+    const drawn = game.validateAndCreateEvent(
+      { ...engine.getCurrentState()!, phase: GamePhase.Draw, stockPileCount: 2 },
+      { ...DRAW_ACTION, playerId: engine.getCurrentState()!.currentPlayerId },
+      events.length + 1
+    ) as GameEvent;
+    const state = engine.applyEvent(drawn);
+
+    expect(state.phase).toBe(GamePhase.RoundOver);
+    expect(state.roundDrawn).toBe(true);
+    expect(state.players.map(p => p.score)).toEqual([0, 0]);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { EventSourcedGinRummyGame } from '../src/game-engine/event-sourced-gin-rummy';
+import { createEventLogHeader, parseEventLog, redactEventLog, serializeEventLog } from '../src/game-engine/event-log';
+import { EventType, GameStartedEventData } from '../src/types/events';
+
+function createGameEvents() {
+  return new EventSourcedGinRummyGame('log-game')
+    .createInitialGameEvents('player1', 'ai-player', true, 'Alice', 'AI');
+}
+
+describe('Event Logs', () => {
+  it('should hide the cards the viewer has not seen', () => {
+    const events = createGameEvents();
+    const redacted = redactEventLog(events, 'player1');
+
+    const original = events.find(event => event.eventType === EventType.GAME_STARTED)!.eventData as GameStartedEventData;
+    const { initialDeal } = redacted.find(event => event.eventType === EventType.GAME_STARTED)!.eventData as GameStartedEventData;
+
+    expect(initialDeal.player1Hand).toEqual(original.initialDeal.player1Hand);
+    expect(initialDeal.player2Hand.every(card => card.id === 'hidden')).toBe(true);
+    expect(initialDeal.stockPile.every(card => card.id === 'hidden')).toBe(true);
+    expect(initialDeal.topDiscardCard).toEqual(original.initialDeal.topDiscardCard);
+  });
+
+  it('should read back the log it writes and reject a broken one', () => {
+    const events = createGameEvents();
+    const text = serializeEventLog({ header: createEventLogHeader('log-game', events, null), events });
+
+    expect(parseEventLog(text).events).toEqual(JSON.parse(JSON.stringify(events)));
+
+    const lines = text.trim().split('\n');
+    expect(() => parseEventLog([lines[0], ...lines.slice(2)].join('\n'))).toThrow('expected 1');
+    expect(() => parseEventLog(lines.slice(1).join('\n'))).toThrow('Not a gin-rummy-event-log file');
+  });
+});
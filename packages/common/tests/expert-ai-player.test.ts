@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { ExpertAIPlayer } from '../src/game-engine/expert-ai-player';
+import { OpponentModel } from '../src/game-engine/opponent-model';
+import { EventType, GameEvent, createGameEvent } from '../src/types/events';
+import { Card, GamePhase, MoveType } from '../src/types/game';
+import { createDeck } from '../src/utils/cards';
+
+const DECK = createDeck();
+const card = (id: string): Card => DECK.find(c => c.id === id)!;
+
+// Nine melded cards: a club run, a set of fours and a diamond run
+const MELDED = ['clubs_A', 'clubs_2', 'clubs_3', 'diamonds_4', 'spades_4', 'hearts_4', 'diamonds_J', 'diamonds_Q', 'diamonds_K'].map(card);
+
+/**
+ * Events for a round where the opponent took the upcard and then threw the king of clubs
+ */
+function roundEvents(upcard: Card): GameEvent[] {
+  let sequence = 1;
+  const event = (eventType: EventType, eventData: any, playerId?: string) =>
+    createGameEvent('game', eventType, eventData, playerId, sequence++);
+
+  return [
+    event(EventType.GAME_STARTED, {
+      gameId: 'game',
+      player1Id: 'human',
+      player2Id: 'ai-player',
+      startingPlayerId: 'human',
+      initialDeal: { player1Hand: [], player2Hand: [], topDiscardCard: upcard, stockSize: 31, stockPile: [] },
+    }),
+    event(EventType.TAKE_UPCARD, { playerId: 'human', cardTaken: upcard, discardPileAfter: [] }, 'human'),
+    event(EventType.DISCARD_CARD, {
+      playerId: 'human',
+      cardDiscarded: card('clubs_K'),
+      discardPileAfter: [card('clubs_K')],
+      nextPlayerId: 'ai-player',
+    }, 'human'),
+  ];
+}
+
+describe('ExpertAIPlayer', () => {
+  it('should track the cards the opponent picks up and throws away', () => {
+    const model = OpponentModel.fromEvents(roundEvents(card('hearts_7')), 'human');
+    const hand = MELDED;
+
+    expect(model.getKnownCards()).toEqual([card('hearts_7')]);
+    expect(model.getRejectedCards()).toEqual([card('clubs_K')]);
+    expect(model.isDead(card('clubs_K'))).toBe(true);
+    expect(model.isDead(card('hearts_7'))).toBe(false);
+
+    // Next to the seven they kept is far more dangerous than the same rank in another suit
+    expect(model.getDiscardDanger(card('hearts_8'), hand)).toBeGreaterThan(model.getDiscardDanger(card('spades_8'), hand));
+  });
+
+  it('should avoid discarding into a meld the opponent is building', () => {
+    const model = OpponentModel.fromEvents(roundEvents(card('hearts_7')), 'human');
+    const ai = new ExpertAIPlayer('ai-player', model);
+    const hand = [...MELDED, card('hearts_8'), card('spades_8')];
+
+    // Gin only, so the eights are thrown rather than knocked with
+    const move = ai.getMove(hand, GamePhase.Discard, [card('clubs_K')], 30, 0);
+
+    expect(move.type).toBe(MoveType.Discard);
+    expect(move.cardId).toBe('spades_8');
+  });
+
+  it('should hold off knocking when the opponent has likely tidied up their hand', () => {
+    const hand = [...MELDED, card('hearts_9'), card('spades_9')];
+    const early = new ExpertAIPlayer('ai-player', OpponentModel.fromEvents(roundEvents(card('hearts_7')), 'human'));
+    expect(early.getMove(hand, GamePhase.Discard, [card('clubs_K')], 30).type).toBe(MoveType.Knock);
+
+    // Many turns later, with three discards picked up, a nine-point knock risks an undercut
+    const late = new OpponentModel('human');
+    roundEvents(card('hearts_7')).forEach(event => late.observe(event));
+    for (const id of ['spades_5', 'spades_6']) {
+      late.observe({ eventType: EventType.DRAW_FROM_DISCARD, eventData: { playerId: 'human', cardDrawn: card(id), discardPileAfter: [] } });
+    }
+    for (let turn = 0; turn < 12; turn++) {
+      late.observe({ eventType: EventType.DRAW_FROM_STOCK, eventData: { playerId: 'human', cardDrawn: DECK[turn], stockSizeAfter: 20 } });
+    }
+
+    const lateMove = new ExpertAIPlayer('ai-player', late).getMove(hand, GamePhase.Discard, [card('clubs_K')], 12);
+    expect(lateMove.type).toBe(MoveType.Discard);
+
+    // With the stock nearly gone it takes the knock anyway
+    expect(new ExpertAIPlayer('ai-player', late).getMove(hand, GamePhase.Discard, [card('clubs_K')], 6).type).toBe(MoveType.Knock);
+  });
+});
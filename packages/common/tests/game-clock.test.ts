@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { EventSourcedGinRummyGame } from '../src/game-engine/event-sourced-gin-rummy';
+import { EventSourcingEngine } from '../src/game-engine/event-sourcing';
+import { EventType, GameEvent, TimeoutAutoPlayEventData } from '../src/types/events';
+import { ClockMode, GamePhase, TimeControl } from '../src/types/game';
+import { chargeTurn, getClockTimeout } from '../src/utils/clock';
+
+const START = Date.parse('2026-10-19T12:00:00.000Z');
+
+const at = (event: GameEvent, ms: number): GameEvent => ({
+  ...event,
+  metadata: { ...event.metadata, timestamp: new Date(ms).toISOString() },
+});
+
+function startTimedGame(timeControl: TimeControl) {
+  const game = new EventSourcedGinRummyGame('timed-game');
+  const events = game
+    .createInitialGameEvents('player1', 'ai-player', true, 'Alice', 'AI', { timeControl })
+    .map(event => at(event, START));
+  const engine = new EventSourcingEngine('timed-game', events);
+  return { game, engine, events, state: engine.replayEvents() };
+}
+
+describe('Game Clock', () => {
+  const fischer: TimeControl = { mode: ClockMode.Fischer, initialSeconds: 60, incrementSeconds: 5, moveSeconds: 30 };
+
+  it('should add the Fischer increment and give delay mode its free seconds', () => {
+    expect(chargeTurn(fischer, 60_000, 10_000)).toBe(55_000);
+    expect(chargeTurn({ ...fischer, mode: ClockMode.Delay }, 60_000, 3_000)).toBe(60_000);
+    expect(chargeTurn({ ...fischer, mode: ClockMode.Delay }, 60_000, 10_000)).toBe(55_000);
+  });
+
+  it('should start the clock for the player on turn', () => {
+    const { state } = startTimedGame(fischer);
+
+    expect(state.clock?.turnPlayerId).toBe(state.currentPlayerId);
+    expect(getClockTimeout(state, START + 29_000)).toBeNull();
+    expect(getClockTimeout(state, START + 30_000)).toEqual({ playerId: state.currentPlayerId, type: 'MOVE' });
+    expect(getClockTimeout(state, START + 60_000)).toEqual({ playerId: state.currentPlayerId, type: 'GAME' });
+  });
+
+  it('should auto-play an expired move and charge the clock', () => {
+    const { game, engine, events, state } = startTimedGame(fischer);
+    const playerId = state.currentPlayerId;
+
+    const timeout = game.createTimeoutEvent(state, START + 30_000, events.length + 1)!;
+    expect(timeout.eventType).toBe(EventType.TIMEOUT_AUTO_PLAY);
+    expect((timeout.eventData as TimeoutAutoPlayEventData).moves.map(move => move.eventType))
+      .toEqual([EventType.PASS_UPCARD]);
+
+    const newState = engine.addEvent(at(timeout, START + 30_000));
+    expect(newState.currentPlayerId).not.toBe(playerId);
+    expect(newState.clock?.remainingMs[playerId]).toBe(35_000);
+  });
+
+  it('should forfeit the game when the bank runs out', () => {
+    const { game, engine, events, state } = startTimedGame({ ...fischer, moveSeconds: undefined });
+    const playerId = state.currentPlayerId;
+
+    const timeout = game.createTimeoutEvent(state, START + 60_000, events.length + 1)!;
+    expect(timeout.eventType).toBe(EventType.TIMEOUT_FORFEIT);
+
+    const newState = engine.addEvent(at(timeout, START + 60_000));
+    expect(newState.gameOver).toBe(true);
+    expect(newState.phase).toBe(GamePhase.GameOver);
+    expect(newState.winner).not.toBe(playerId);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { AIPlayer } from '../src/game-engine/ai-player';
+import { EventSourcingEngine } from '../src/game-engine/event-sourcing';
+import { gameRecordFromEvents, gameRecordToEvents } from '../src/game-engine/game-record-events';
+import { playSelfPlayGame } from '../src/game-engine/self-play';
+import { GameEvent } from '../src/types/events';
+import { formatRecordCard, parseGameRecord, parseRecordCard, serializeGameRecord } from '../src/utils/game-record';
+
+function playGame(): GameEvent[] {
+  const events: GameEvent[] = [];
+  const standard = { name: 'standard', factory: (playerId: string) => new AIPlayer(playerId) };
+  playSelfPlayGame([standard, standard], {
+    gameId: 'record-game',
+    seed: 'game-record-test',
+    ruleSet: { targetScore: 50 },
+    onEvent: event => events.push(JSON.parse(JSON.stringify(event))),
+  });
+  return events;
+}
+
+// The engine updates the hands it is given, so replay a copy
+function replay(events: GameEvent[]) {
+  return new EventSourcingEngine('record-game', JSON.parse(JSON.stringify(events))).replayEvents();
+}
+
+describe('Game Records', () => {
+  it('should write a game as text and read it back unchanged', () => {
+    const record = gameRecordFromEvents(playGame());
+    const text = serializeGameRecord(record);
+
+    expect(record.header.result).not.toBe('*');
+    expect(text).toContain('Hand 1\nDeal P1: ');
+    expect(text).toMatch(/^1\. P1 (pass|take)/m);
+    expect(parseGameRecord(text)).toEqual(JSON.parse(JSON.stringify(record)));
+  });
+
+  it('should replay a record to the same game', () => {
+    const events = playGame();
+    const original = replay(events);
+
+    const replayedEvents = gameRecordToEvents(parseGameRecord(serializeGameRecord(gameRecordFromEvents(events))));
+    const replayed = replay(replayedEvents);
+
+    expect(replayed.winner).toBe(original.winner);
+    expect(replayed.players.map(player => player.score)).toEqual(original.players.map(player => player.score));
+    expect(gameRecordFromEvents(replayedEvents).hands).toEqual(gameRecordFromEvents(events).hands);
+  });
+
+  it('should reject a record whose moves do not follow the deal', () => {
+    const record = gameRecordFromEvents(playGame());
+    record.hands[0].turns[0].actions = [{ type: 'take', card: parseRecordCard('Kc') }];
+    if (record.hands[0].deal.topDiscardCard.id === 'clubs_K') {
+      record.hands[0].turns[0].actions = [{ type: 'take', card: parseRecordCard('Qc') }];
+    }
+
+    expect(() => gameRecordToEvents(record)).toThrow(/^Hand 1: P1 take .* does not match the top discard/);
+    expect(() => parseGameRecord('[Game "x"]\n1. P1 pass')).toThrow('Line 2: expected "Hand 1" first');
+  });
+
+  it('should reject a record whose deal is not one whole deck', () => {
+    const text = serializeGameRecord(gameRecordFromEvents(playGame()));
+    const deal = parseGameRecord(text).hands[0].deal;
+    const forged = text
+      .replace(/^Deal P2: .*$/m, `Deal P2: ${deal.player1Hand.map(formatRecordCard).join(' ')}`)
+      .replace(/^Stock: .*$/m, `Stock: ${formatRecordCard(deal.topDiscardCard)}`);
+
+    expect(() => gameRecordToEvents(parseGameRecord(forged))).toThrow(/^Hand 1: .* is dealt twice/);
+
+    const record = parseGameRecord(text);
+    record.hands[0].deal.stockPile = record.hands[0].deal.stockPile.slice(1);
+    expect(() => gameRecordToEvents(record)).toThrow(/^Hand 1: the deal is missing /);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { getHintRefusal, getMoveHints } from '../src/game-engine/hints';
+import { GamePhase, MoveType } from '../src/types/game';
+import { AI_SCENARIOS, SAMPLE_CARDS, TEST_HANDS } from './fixtures/hands';
+import { GAME_STATES } from './fixtures/game-states';
+
+describe('Move hints', () => {
+  it('should rank draws by the deadwood they lead to', () => {
+    const hints = getMoveHints('player', TEST_HANDS.POTENTIAL_MELDS_HAND, GamePhase.Draw, [SAMPLE_CARDS.KC], 25);
+
+    expect(hints.discard).toEqual([]);
+    expect(hints.draw.map(hint => hint.type).sort()).toEqual([MoveType.DrawDiscard, MoveType.DrawStock].sort());
+    expect(hints.draw.find(hint => hint.type === MoveType.DrawStock)!.deadwoodDelta).toBe(0);
+    expect(hints.draw.find(hint => hint.type === MoveType.DrawDiscard)!.cardId).toBe(SAMPLE_CARDS.KC.id);
+  });
+
+  it('should put gin first when the hand has it', () => {
+    const { hand, discardCard } = AI_SCENARIOS.GIN_SCENARIO;
+    const hints = getMoveHints('player', hand, GamePhase.Discard, [SAMPLE_CARDS.QH], 25);
+
+    expect(hints.draw).toEqual([]);
+    expect(hints.discard[0]).toEqual({ type: MoveType.Gin, cardId: discardCard.id, deadwoodDelta: -hints.deadwood });
+    expect(hints.discard.slice(1).every(hint => hint.type === MoveType.Discard)).toBe(true);
+  });
+
+  it('should refuse hints in a game between players', () => {
+    const pvp = { ...GAME_STATES.DRAW_PHASE_GAME, vsAI: false };
+
+    expect(getHintRefusal(pvp, 'player1')).toBe('Hints are only available in games against the AI');
+  });
+
+  it('should allow hints on your own turn against the AI', () => {
+    const pve = { ...GAME_STATES.DRAW_PHASE_GAME, vsAI: true };
+
+    expect(getHintRefusal(pve, 'player1')).toBeNull();
+    expect(getHintRefusal(pve, 'player2')).toContain('your turn');
+    expect(getHintRefusal({ ...pve, gameOver: true }, 'player1')).toContain('your turn');
+  });
+});
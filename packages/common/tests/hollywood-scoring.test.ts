@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createHollywoodSheet,
+  recordHollywoodHand,
+  isHollywoodComplete,
+  settleHollywood,
+  HOLLYWOOD_BONUSES,
+} from '../src/utils/hollywood-scoring';
+import { HollywoodScoreSheet } from '../src/types/game';
+
+function playHands(hands: Array<[string, number]>, targetScore = 100): HollywoodScoreSheet {
+  return hands.reduce(
+    (sheet, [playerId, points]) => recordHollywoodHand(sheet, playerId, points, targetScore),
+    createHollywoodSheet()
+  );
+}
+
+describe('Hollywood Scoring', () => {
+  describe('Recording Hands', () => {
+    it('should enter each successive win into one more game', () => {
+      const sheet = playHands([['alice', 10], ['alice', 20], ['alice', 30]]);
+
+      expect(sheet.games.map(game => game.scores.alice || 0)).toEqual([60, 50, 30]);
+      expect(sheet.games.map(game => game.boxes.alice || 0)).toEqual([3, 2, 1]);
+    });
+
+    it('should track each player independently', () => {
+      const sheet = playHands([['alice', 10], ['bob', 15], ['bob', 5]]);
+
+      expect(sheet.games[0].scores).toEqual({ alice: 10, bob: 20 });
+      expect(sheet.games[1].scores).toEqual({ bob: 5 });
+      expect(sheet.games[2].scores).toEqual({});
+    });
+
+    it('should ignore hands with no points', () => {
+      const sheet = createHollywoodSheet();
+      expect(recordHollywoodHand(sheet, 'alice', 0)).toBe(sheet);
+    });
+
+    it('should close a game at the target score and skip it afterwards', () => {
+      const sheet = playHands([['alice', 60], ['alice', 60], ['bob', 25]]);
+
+      expect(sheet.games[0].winnerId).toBe('alice');
+      expect(sheet.games[0].scores.bob).toBeUndefined();
+      // Bob never scored in the finished first game, so his first win opens the second
+      expect(sheet.games[1].scores.bob).toBe(25);
+      expect(isHollywoodComplete(sheet)).toBe(false);
+    });
+  });
+
+  describe('Settlement', () => {
+    it('should double a shutout game', () => {
+      const sheet = playHands([['alice', 50], ['alice', 50], ['alice', 50], ['alice', 50]], 100);
+      const settlement = settleHollywood(sheet, ['alice', 'bob']);
+
+      const firstGame = settlement.games[0];
+      expect(firstGame.isShutout).toBe(true);
+      expect(firstGame.winnerTotal).toBe((100 + HOLLYWOOD_BONUSES.GAME + 2 * HOLLYWOOD_BONUSES.BOX) * 2);
+      expect(settlement.winnerId).toBe('alice');
+    });
+
+    it('should net all three games once complete', () => {
+      const sheet = playHands([
+        ['alice', 40], ['bob', 30], ['alice', 40], ['bob', 30],
+        ['alice', 40], ['bob', 80], ['bob', 80],
+      ], 100);
+
+      expect(isHollywoodComplete(sheet)).toBe(true);
+
+      const settlement = settleHollywood(sheet, ['alice', 'bob']);
+
+      // Alice takes game 1 by 185; Bob takes games 2 and 3 by 130 and 245
+      expect(settlement.games.map(game => [game.winnerId, game.net])).toEqual([
+        ['alice', 185],
+        ['bob', 130],
+        ['bob', 245],
+      ]);
+      expect(settlement.winnerId).toBe('bob');
+      expect(settlement.net).toBe(190);
+    });
+  });
+});
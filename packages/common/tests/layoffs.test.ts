@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { canLayOff, findBestLayOffs } from '../src/utils/layoffs';
+import { Meld } from '../src/types/game';
+import { SAMPLE_CARDS, TEST_MELDS } from './fixtures/hands';
+
+describe('Lay-off solver', () => {
+  it('should extend a run with cards that only fit after another lay-off', () => {
+    const plan = findBestLayOffs(
+      [SAMPLE_CARDS.TenS, SAMPLE_CARDS.NineS, SAMPLE_CARDS.EightS, SAMPLE_CARDS.KC],
+      [TEST_MELDS.MID_RUN]
+    );
+
+    expect(canLayOff(SAMPLE_CARDS.NineS, TEST_MELDS.MID_RUN)).toBe(false);
+    expect(plan.value).toBe(27);
+    expect(plan.layOffs).toEqual([
+      { cards: [SAMPLE_CARDS.EightS, SAMPLE_CARDS.NineS, SAMPLE_CARDS.TenS], targetMeld: TEST_MELDS.MID_RUN },
+    ]);
+  });
+
+  it('should give a card to the meld that lets more cards follow', () => {
+    const diamondRun: Meld = { type: 'run', cards: [SAMPLE_CARDS.FourD, SAMPLE_CARDS.FiveD, SAMPLE_CARDS.SixD] };
+    const plan = findBestLayOffs([SAMPLE_CARDS.SevenD, SAMPLE_CARDS.EightD], [TEST_MELDS.MID_SET, diamondRun]);
+
+    expect(canLayOff(SAMPLE_CARDS.SevenD, TEST_MELDS.MID_SET)).toBe(true);
+    expect(plan.value).toBe(15);
+    expect(plan.layOffs).toEqual([
+      { cards: [SAMPLE_CARDS.SevenD, SAMPLE_CARDS.EightD], targetMeld: diamondRun },
+    ]);
+  });
+
+  it('should lay nothing off when no meld can take a card', () => {
+    const plan = findBestLayOffs(
+      [SAMPLE_CARDS.NineH, SAMPLE_CARDS.FourS, SAMPLE_CARDS.NineS],
+      [TEST_MELDS.FOUR_SET, TEST_MELDS.HIGH_RUN]
+    );
+
+    expect(plan).toEqual({ layOffs: [], value: 0 });
+  });
+});
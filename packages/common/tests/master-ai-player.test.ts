@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { MasterAIPlayer } from '../src/game-engine/master-ai-player';
+import { OpponentModel } from '../src/game-engine/opponent-model';
+import { Card, GamePhase, MoveType } from '../src/types/game';
+import { createDeck, createSeededRandom } from '../src/utils/cards';
+
+const DECK = createDeck();
+const card = (id: string): Card => DECK.find(c => c.id === id)!;
+
+// A club run and a set of fours, plus two hearts waiting on the nine
+const HAND = ['clubs_A', 'clubs_2', 'clubs_3', 'diamonds_4', 'spades_4', 'hearts_4', 'hearts_7', 'hearts_8', 'spades_K', 'diamonds_Q'].map(card);
+
+function master(maxIterations: number): MasterAIPlayer {
+  return new MasterAIPlayer('ai-player', new OpponentModel('human'), { maxIterations, maxMillis: 60_000 }, createSeededRandom('master-test'));
+}
+
+describe('MasterAIPlayer', () => {
+  it('should stop searching when the iteration budget is spent', () => {
+    const ai = master(40);
+    const hand = [...HAND, card('clubs_K')];
+    const move = ai.getMove(hand, GamePhase.Discard, [card('spades_9')], 25);
+
+    expect(ai.getSearchStats()?.iterations).toBe(40);
+    expect(move.type).toBe(MoveType.Discard);
+    expect(hand.map(c => c.id)).toContain(move.cardId);
+  });
+
+  it('should take a discard that completes a run', () => {
+    const ai = master(200);
+    const move = ai.getMove(HAND, GamePhase.Draw, [card('hearts_9')], 25);
+
+    expect(move.type).toBe(MoveType.DrawDiscard);
+  });
+
+  it('should go gin without searching', () => {
+    const ai = master(200);
+    const hand = [...HAND.slice(0, 8), card('hearts_9'), card('hearts_10'), card('spades_K')];
+    const move = ai.getMove(hand, GamePhase.Discard, [], 25);
+
+    expect(move.type).toBe(MoveType.Gin);
+    expect(move.cardId).toBe('spades_K');
+    expect(ai.getSearchStats()).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { getMatchGameOrder, getMatchWinner, getMatchWinsNeeded, tallyMatchWins } from '../src/utils/match';
+
+describe('Match Series', () => {
+  it('should need a majority of games to win', () => {
+    expect(getMatchWinsNeeded(1)).toBe(1);
+    expect(getMatchWinsNeeded(3)).toBe(2);
+    expect(getMatchWinsNeeded(5)).toBe(3);
+  });
+
+  it('should only name a winner once the match is clinched', () => {
+    const winners = ['alice', 'bob', 'alice', null];
+    const wins = tallyMatchWins(['alice', 'bob'], winners);
+
+    expect(wins).toEqual({ alice: 2, bob: 1 });
+    expect(getMatchWinner(5, wins)).toBeNull();
+    expect(getMatchWinner(3, wins)).toBe('alice');
+  });
+
+  it('should alternate who goes first', () => {
+    expect(getMatchGameOrder(['alice', 'bob'], 1)).toEqual(['alice', 'bob']);
+    expect(getMatchGameOrder(['alice', 'bob'], 2)).toEqual(['bob', 'alice']);
+    expect(getMatchGameOrder(['alice', 'bob'], 3)).toEqual(['alice', 'bob']);
+  });
+});
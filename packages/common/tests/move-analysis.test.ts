@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeDecision, summarizeAnalysis } from '../src/game-engine/move-analysis';
+import { EventType } from '../src/types/events';
+import { GameState, MoveFlag, MoveQuality, MoveType } from '../src/types/game';
+import { AI_SCENARIOS, SAMPLE_CARDS } from './fixtures/hands';
+import { GAME_STATES } from './fixtures/game-states';
+
+// Player 1 holds a gin hand with the king of clubs to spare
+function createGinState(): GameState {
+  const base = GAME_STATES.DISCARD_PHASE_GAME;
+  return {
+    ...base,
+    players: [
+      { ...base.players[0], hand: AI_SCENARIOS.GIN_SCENARIO.hand },
+      { ...base.players[1], hand: [SAMPLE_CARDS.AS, SAMPLE_CARDS.TwoS] },
+    ],
+  };
+}
+
+function discardEvent(cardId: keyof typeof SAMPLE_CARDS, sequenceNumber = 10) {
+  return {
+    eventType: EventType.DISCARD_CARD,
+    sequenceNumber,
+    eventData: {
+      playerId: 'player1',
+      cardDiscarded: SAMPLE_CARDS[cardId],
+      discardPileAfter: [],
+      nextPlayerId: 'player2',
+    },
+  };
+}
+
+describe('Move analysis', () => {
+  it('should flag a discard that passes up gin as a blunder', () => {
+    const annotation = analyzeDecision(createGinState(), discardEvent('KC'), [])!;
+
+    expect(annotation.played).toEqual({ type: MoveType.Discard, cardId: SAMPLE_CARDS.KC.id });
+    expect(annotation.suggested).toEqual({ type: MoveType.Gin, cardId: SAMPLE_CARDS.KC.id });
+    expect(annotation.flags).toEqual([MoveFlag.MissedGin]);
+    expect(annotation.quality).toBe(MoveQuality.Blunder);
+  });
+
+  it('should score accuracy per player from move quality', () => {
+    const blunder = analyzeDecision(createGinState(), discardEvent('KC', 10), [])!;
+    const best = { ...blunder, sequenceNumber: 12, quality: MoveQuality.Best, flags: [] };
+    const inaccuracy = { ...blunder, sequenceNumber: 14, quality: MoveQuality.Inaccuracy, flags: [] };
+
+    const analysis = summarizeAnalysis('game-1', [blunder, best, inaccuracy]);
+
+    expect(analysis.players).toEqual([
+      { playerId: 'player1', accuracy: 50, decisions: 3, inaccuracies: 1, blunders: 1 },
+    ]);
+  });
+});
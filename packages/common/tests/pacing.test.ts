@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { getThinkTime } from '../src/game-engine/pacing';
+import { AIRationale, AISpeed, GamePhase, MoveType } from '../src/types/game';
+
+const noJitter = () => 0.5;
+
+function discardRationale(deadwoods: number[]): AIRationale {
+  const candidates = deadwoods.map((deadwoodAfter, index) => ({
+    type: MoveType.Discard,
+    cardId: `card-${index}`,
+    score: -index,
+    deadwoodAfter,
+  }));
+  return { phase: GamePhase.Discard, chosen: candidates[0], candidates };
+}
+
+describe('AI pacing', () => {
+  it('should think longer over close calls than clear-cut moves', () => {
+    const clearCut = getThinkTime(discardRationale([5, 15, 20, 25]), 25, AISpeed.Normal, noJitter);
+    const closeCall = getThinkTime(discardRationale([5, 6, 7, 8]), 25, AISpeed.Normal, noJitter);
+
+    expect(closeCall).toBeGreaterThan(clearCut);
+    expect(getThinkTime(discardRationale([5, 6, 7, 8]), 25, AISpeed.Slow, noJitter)).toBeGreaterThan(closeCall);
+  });
+
+  it('should not wait at all at instant speed', () => {
+    expect(getThinkTime(discardRationale([5, 6, 7, 8]), 3, AISpeed.Instant, () => 1)).toBe(0);
+    expect(getThinkTime(null, 25, AISpeed.Instant)).toBe(0);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { EventSourcedGinRummyGame } from '../src/game-engine/event-sourced-gin-rummy';
+import { EventSourcingEngine } from '../src/game-engine/event-sourcing';
+import { EventType, GameEvent, createGameEvent } from '../src/types/events';
+import { GamePhase, GameStatus, OPEN_SEAT } from '../src/types/game';
+import { combineTableScores, getWinningTeam, isAwaitingPartnerTable } from '../src/utils/partnership';
+
+const SEATS = ['north', 'east', 'south', 'west'];
+
+describe('Partnership Gin', () => {
+  it('should combine both tables into team scores', () => {
+    // Table 0 is north v east, table 1 is south v west
+    const teamScores = combineTableScores(SEATS, [
+      { north: 40, east: 12 },
+      { south: 25, west: 60 },
+    ]);
+
+    expect(teamScores).toEqual([65, 72]);
+    expect(getWinningTeam(teamScores, 100)).toBeNull();
+    expect(getWinningTeam([104, 72], 100)).toBe(0);
+    expect(getWinningTeam([110, 110], 100)).toBeNull();
+  });
+
+  it('should fill seats in a partnership game as players join', () => {
+    const game = new EventSourcedGinRummyGame('parent');
+    const events: GameEvent[] = game.createInitialGameEvents('north', OPEN_SEAT, false, 'North', undefined, {
+      partnership: { parentGameId: 'parent', seats: ['north', OPEN_SEAT, OPEN_SEAT, OPEN_SEAT] },
+    });
+
+    events.push(createGameEvent('parent', EventType.PLAYER_JOINED, {
+      gameId: 'parent', playerId: 'west', playerUsername: 'West', seat: 3,
+    }, 'west', 2));
+
+    const state = new EventSourcingEngine('parent', events).replayEvents();
+    expect(state.partnership?.seats).toEqual(['north', OPEN_SEAT, OPEN_SEAT, 'west']);
+    expect(state.players.map(p => p.id)).toEqual(['north', 'west']);
+    expect(state.status).toBe(GameStatus.Waiting);
+  });
+
+  it('should free the seat of a player who leaves before the tables are dealt', () => {
+    const game = new EventSourcedGinRummyGame('parent');
+    const events: GameEvent[] = game.createInitialGameEvents('north', OPEN_SEAT, false, 'North', undefined, {
+      partnership: { parentGameId: 'parent', seats: ['north', OPEN_SEAT, OPEN_SEAT, OPEN_SEAT] },
+    });
+
+    events.push(createGameEvent('parent', EventType.PLAYER_JOINED, {
+      gameId: 'parent', playerId: 'east', playerUsername: 'East', seat: 1,
+    }, 'east', 2));
+    events.push(createGameEvent('parent', EventType.PLAYER_LEFT, {
+      gameId: 'parent', playerId: 'north', reason: 'QUIT',
+    }, 'north', 3));
+
+    const state = new EventSourcingEngine('parent', events).replayEvents();
+    expect(state.partnership?.seats).toEqual([OPEN_SEAT, 'east', OPEN_SEAT, OPEN_SEAT]);
+    expect(state.players.map(p => p.id)).toEqual(['east']);
+    expect(state.status).toBe(GameStatus.Waiting);
+  });
+
+  it('should keep a table going until the team hand is scored', () => {
+    const game = new EventSourcedGinRummyGame('table-0');
+    const events = game.createInitialGameEvents('north', 'east', false, 'North', 'East', {
+      ruleSet: { targetScore: 50 },
+      partnership: { parentGameId: 'parent', tableNumber: 0, seats: SEATS },
+    });
+    const engine = new EventSourcingEngine('table-0', events);
+    const state = engine.replayEvents();
+
+    expect(state.status).toBe(GameStatus.Active);
+
+    // Finishing a hand leaves the table waiting on the other one
+    state.phase = GamePhase.RoundOver;
+    expect(isAwaitingPartnerTable(state)).toBe(true);
+
+    const scored = engine.addEvent(createGameEvent('table-0', EventType.PARTNERSHIP_HAND_SCORED, {
+      gameId: 'table-0',
+      handNumber: 1,
+      tableScores: [{ tableNumber: 0, scores: { north: 30, east: 0 } }, { tableNumber: 1, scores: { south: 25, west: 0 } }],
+      teamScores: [55, 0],
+      winningTeam: 0,
+    }, undefined, events.length + 1));
+
+    expect(scored.partnership?.teamScores).toEqual([55, 0]);
+    expect(scored.gameOver).toBe(true);
+    expect(scored.winner).toBe('north');
+  });
+});
@@ -0,0 +1,164 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateScoreWithLayOffs,
+  getGameWinner,
+  getHandRules,
+  resolveRuleSet,
+  shouldGameEnd,
+} from '../src/utils/scoring';
+import { EventSourcedGinRummyGame } from '../src/game-engine/event-sourced-gin-rummy';
+import { EventSourcingEngine } from '../src/game-engine/event-sourcing';
+import { AIPlayer } from '../src/game-engine/ai-player';
+import { EventType, GameStartedEventData } from '../src/types/events';
+import { DEFAULT_RULE_SET, GamePhase, GameState, GameType, MoveType, RuleSetSchema } from '../src/types/game';
+import { SAMPLE_CARDS, TEST_HANDS, TEST_MELDS } from './fixtures/hands';
+import { GAME_STATES } from './fixtures/game-states';
+
+// Player 1 holds KNOCK_HAND plus the king of clubs; discarding the king leaves 10 deadwood
+function createKnockState(ruleSet?: GameState['ruleSet']): GameState {
+  const base = GAME_STATES.DISCARD_PHASE_GAME;
+  return {
+    ...base,
+    ruleSet,
+    players: [
+      { ...base.players[0], hand: [...TEST_HANDS.KNOCK_HAND, SAMPLE_CARDS.KC] },
+      { ...base.players[1], hand: TEST_HANDS.HIGH_DEADWOOD_HAND },
+    ],
+  };
+}
+
+const KNOCK_MELDS = [
+  { type: 'run' as const, cards: [SAMPLE_CARDS.ThreeH, SAMPLE_CARDS.FourH, SAMPLE_CARDS.FiveH] },
+  { type: 'set' as const, cards: [SAMPLE_CARDS.NineS, SAMPLE_CARDS.NineC, SAMPLE_CARDS.NineD] },
+];
+
+const KNOCK_ACTION = {
+  type: EventType.KNOCK,
+  playerId: 'player1',
+  cardToDiscard: SAMPLE_CARDS.KC.id,
+  melds: KNOCK_MELDS,
+};
+
+describe('Rule Sets', () => {
+  describe('Resolution', () => {
+    it('should fall back to defaults for missing fields', () => {
+      expect(resolveRuleSet()).toEqual(DEFAULT_RULE_SET);
+      expect(resolveRuleSet({ targetScore: 250 })).toEqual({ ...DEFAULT_RULE_SET, targetScore: 250 });
+    });
+
+    it('should reject a knock limit above 10', () => {
+      expect(RuleSetSchema.safeParse({ knockLimit: 11 }).success).toBe(false);
+      expect(RuleSetSchema.parse({})).toEqual(DEFAULT_RULE_SET);
+    });
+  });
+
+  describe('Scoring', () => {
+    it('should apply a custom gin bonus', () => {
+      const scores = calculateScoreWithLayOffs(
+        [...TEST_MELDS.LOW_RUN.cards, ...TEST_MELDS.FACE_SET.cards],
+        [TEST_MELDS.LOW_RUN, TEST_MELDS.FACE_SET],
+        [SAMPLE_CARDS.KS],
+        [],
+        [],
+        { ...DEFAULT_RULE_SET, ginBonus: 50 }
+      );
+
+      expect(scores.isGin).toBe(true);
+      expect(scores.knockerScore).toBe(60);
+    });
+
+    it('should apply a custom undercut bonus', () => {
+      const scores = calculateScoreWithLayOffs(
+        [SAMPLE_CARDS.FiveH],
+        [],
+        [SAMPLE_CARDS.TwoS],
+        [],
+        [],
+        { ...DEFAULT_RULE_SET, undercutBonus: 10 }
+      );
+
+      expect(scores.isUndercut).toBe(true);
+      expect(scores.opponentScore).toBe(13);
+    });
+
+    it('should end the game at a custom target score', () => {
+      expect(shouldGameEnd([120, 40])).toBe(true);
+      expect(shouldGameEnd([120, 40], 150)).toBe(false);
+      expect(getGameWinner({ alice: 120, bob: 40 }, 150)).toBeNull();
+      expect(getGameWinner({ alice: 155, bob: 40 }, 150)).toBe('alice');
+    });
+  });
+
+  describe('Knock Limit', () => {
+    const game = new EventSourcedGinRummyGame('test-game-3');
+
+    it('should allow knocking with 10 deadwood under default rules', () => {
+      const result = game.validateAndCreateEvent(createKnockState(), KNOCK_ACTION, 10);
+      expect('error' in result).toBe(false);
+    });
+
+    it('should reject knocking above a custom knock limit', () => {
+      const result = game.validateAndCreateEvent(
+        createKnockState({ ...DEFAULT_RULE_SET, knockLimit: 5 }),
+        KNOCK_ACTION,
+        10
+      );
+
+      expect('error' in result && result.error).toContain('maximum 5');
+    });
+  });
+
+  describe('Oklahoma', () => {
+    it('should cap the knock limit at the upcard value', () => {
+      expect(getHandRules(GameType.Oklahoma, null, SAMPLE_CARDS.SevenH)).toEqual({ knockLimit: 7, scoreMultiplier: 1 });
+      expect(getHandRules(GameType.Oklahoma, null, SAMPLE_CARDS.AS).knockLimit).toBe(1);
+      expect(getHandRules(GameType.Oklahoma, null, SAMPLE_CARDS.KH).knockLimit).toBe(10);
+    });
+
+    it('should double scores for a spades upcard', () => {
+      expect(getHandRules(GameType.Oklahoma, null, SAMPLE_CARDS.KS).scoreMultiplier).toBe(2);
+      expect(getHandRules(GameType.Standard, null, SAMPLE_CARDS.TwoS)).toEqual({ knockLimit: 10, scoreMultiplier: 1 });
+    });
+
+    it('should derive hand rules from the dealt upcard on replay', () => {
+      const game = new EventSourcedGinRummyGame('oklahoma-game');
+      const events = game.createInitialGameEvents('player1', 'ai-player', true, 'Alice', 'AI', {
+        gameType: GameType.Oklahoma,
+      });
+      const started = events.find(e => e.eventType === EventType.GAME_STARTED)!;
+      const upcard = (started.eventData as GameStartedEventData).initialDeal.topDiscardCard;
+
+      const state = new EventSourcingEngine('oklahoma-game', events).replayEvents();
+
+      expect(state.gameType).toBe(GameType.Oklahoma);
+      expect(state.handRules).toEqual(getHandRules(GameType.Oklahoma, null, upcard));
+    });
+
+    it('should reject knocking above the hand knock limit', () => {
+      const game = new EventSourcedGinRummyGame('test-game-3');
+      const state = { ...createKnockState(), handRules: { knockLimit: 4, scoreMultiplier: 1 } };
+      const result = game.validateAndCreateEvent(state, KNOCK_ACTION, 10);
+
+      expect('error' in result && result.error).toContain('maximum 4');
+    });
+  });
+
+  describe('Straight Gin', () => {
+    it('should reject knocking even within the standard limit', () => {
+      const game = new EventSourcedGinRummyGame('test-game-3');
+      const state = { ...createKnockState(), gameType: GameType.Straight };
+      const result = game.validateAndCreateEvent(state, KNOCK_ACTION, 10);
+
+      expect('error' in result && result.error).toContain('Straight Gin');
+    });
+
+    it('should have the AI discard instead of knocking', () => {
+      const ai = new AIPlayer('player1');
+      const hand = [...TEST_HANDS.KNOCK_HAND, SAMPLE_CARDS.KC];
+      const knockLimit = getHandRules(GameType.Straight, null).knockLimit;
+
+      expect(ai.getMove(hand, GamePhase.Discard, [], 20).type).toBe(MoveType.Knock);
+      expect(ai.getMove(hand, GamePhase.Discard, [], 20, knockLimit).type).toBe(MoveType.Discard);
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { createSeededRandom, dealRound } from '../src/utils/cards';
+import { EventSourcedGinRummyGame } from '../src/game-engine/event-sourced-gin-rummy';
+import { EventSourcingEngine } from '../src/game-engine/event-sourcing';
+import { EventType, GameEvent, GameStartedEventData, StartNewRoundEventData } from '../src/types/events';
+import { GamePhase } from '../src/types/game';
+
+const cardIds = (deal: ReturnType<typeof dealRound>) => [
+  ...deal.player1Hand,
+  ...deal.player2Hand,
+  deal.topDiscardCard,
+  ...deal.stockPile,
+].map(card => card.id);
+
+describe('Seeded Deals', () => {
+  it('should deal the same cards from the same seed', () => {
+    const first = dealRound(createSeededRandom('game-1:1'));
+    const second = dealRound(createSeededRandom('game-1:1'));
+
+    expect(cardIds(second)).toEqual(cardIds(first));
+  });
+
+  it('should deal different cards from different seeds', () => {
+    const first = dealRound(createSeededRandom('game-1:1'));
+    const second = dealRound(createSeededRandom('game-1:2'));
+
+    expect(cardIds(second)).not.toEqual(cardIds(first));
+  });
+
+  it('should deal the whole deck exactly once', () => {
+    const deal = dealRound(createSeededRandom('game-1:1'));
+
+    expect(deal.player1Hand).toHaveLength(10);
+    expect(deal.player2Hand).toHaveLength(10);
+    expect(deal.stockSize).toBe(31);
+    expect(new Set(cardIds(deal)).size).toBe(52);
+  });
+
+  it('should start the game with a provided deal and commitment', () => {
+    const initialDeal = dealRound(createSeededRandom('seeded-game:1'));
+    const game = new EventSourcedGinRummyGame('seeded-game');
+    const events = game.createInitialGameEvents('player1', 'ai-player', true, 'Alice', 'AI', {
+      initialDeal,
+      seedCommitment: 'commitment',
+    });
+
+    const started = events.find(e => e.eventType === EventType.GAME_STARTED)!;
+    expect((started.eventData as GameStartedEventData).seedCommitment).toBe('commitment');
+
+    const state = new EventSourcingEngine('seeded-game', events).replayEvents();
+    expect(state.players[0].hand.map(card => card.id)).toEqual(initialDeal.player1Hand.map(card => card.id));
+    expect(state.roundNumber).toBe(1);
+  });
+
+  it('should start a new round with the committed deal it is given', () => {
+    const game = new EventSourcedGinRummyGame('seeded-game');
+    const events = game.createInitialGameEvents('player1', 'ai-player', true, 'Alice', 'AI', {
+      initialDeal: dealRound(createSeededRandom('seeded-game:1')),
+    });
+    const state = new EventSourcingEngine('seeded-game', events).replayEvents();
+    const roundOver = { ...state, phase: GamePhase.RoundOver };
+    const newDeal = dealRound(createSeededRandom('seeded-game:2'));
+
+    const event = game.validateAndCreateEvent(
+      roundOver,
+      { type: EventType.START_NEW_ROUND, playerId: roundOver.currentPlayerId, newDeal, seedCommitment: 'commitment' },
+      10
+    );
+
+    expect('error' in event).toBe(false);
+    expect((event as GameEvent<StartNewRoundEventData>).eventData).toMatchObject({ roundNumber: 2, newDeal, seedCommitment: 'commitment' });
+  });
+
+  it('should refuse to start a new round without a deal', () => {
+    const game = new EventSourcedGinRummyGame('seeded-game');
+    const events = game.createInitialGameEvents('player1', 'ai-player', true, 'Alice', 'AI', {
+      initialDeal: dealRound(createSeededRandom('seeded-game:1')),
+    });
+    const state = new EventSourcingEngine('seeded-game', events).replayEvents();
+
+    const result = game.validateAndCreateEvent(
+      { ...state, phase: GamePhase.RoundOver },
+      { type: EventType.START_NEW_ROUND, playerId: state.currentPlayerId },
+      10
+    );
+
+    expect(result).toEqual({ error: 'A new round needs a committed deal' });
+  });
+});
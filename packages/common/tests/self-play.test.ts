@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { AIPlayer } from '../src/game-engine/ai-player';
+import { ExpertAIPlayer } from '../src/game-engine/expert-ai-player';
+import { OpponentModel } from '../src/game-engine/opponent-model';
+import { SelfPlayEntrant, runSelfPlay, wilsonInterval } from '../src/game-engine/self-play';
+
+const STANDARD: SelfPlayEntrant = { name: 'standard', factory: playerId => new AIPlayer(playerId) };
+const EXPERT: SelfPlayEntrant = {
+  name: 'expert',
+  factory: (playerId, opponentId) => new ExpertAIPlayer(playerId, new OpponentModel(opponentId)),
+};
+
+describe('Self-play', () => {
+  it('should play complete games through the engine and repeat them from a seed', () => {
+    const first = runSelfPlay([EXPERT, STANDARD], { games: 4, seed: 'self-play-test', ruleSet: { targetScore: 50 } });
+    const second = runSelfPlay([EXPERT, STANDARD], { games: 4, seed: 'self-play-test', ruleSet: { targetScore: 50 } });
+
+    expect(first.abandonedGames).toBe(0);
+    expect(first.entrants[0].wins + first.entrants[1].wins).toBe(4);
+    expect(first.entrants[0].averagePoints.value).toBeGreaterThan(0);
+    expect({ ...second, elapsedMs: 0 }).toEqual({ ...first, elapsedMs: 0 });
+  });
+
+  it('should give a win rate interval that narrows with more games', () => {
+    const small = wilsonInterval(6, 10);
+    const large = wilsonInterval(600, 1000);
+
+    expect(small.value).toBe(0.6);
+    expect(small.low).toBeLessThan(0.6);
+    expect(small.high).toBeGreaterThan(0.6);
+    expect(large.high - large.low).toBeLessThan(small.high - small.low);
+    expect(wilsonInterval(10, 10).high).toBe(1);
+  });
+});
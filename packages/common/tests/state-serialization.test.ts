@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { serializeState } from '../src/utils/state-serialization';
+import { GameState } from '../src/types/game';
+
+describe('State serialization', () => {
+  it('should serialize equal states identically whatever their key order', () => {
+    const state = {
+      id: 'game-1',
+      players: [{ id: 'p1', score: 10, hand: [{ id: 'qh', suit: 'hearts', rank: 'Q' }] }],
+      winner: undefined,
+      clock: { remainingMs: { p2: 1000, p1: 2000 } },
+    } as unknown as GameState;
+    const roundTripped = {
+      clock: { remainingMs: { p1: 2000, p2: 1000 } },
+      players: [{ hand: [{ rank: 'Q', suit: 'hearts', id: 'qh' }], score: 10, id: 'p1' }],
+      id: 'game-1',
+    } as unknown as GameState;
+
+    expect(serializeState(roundTripped)).toBe(serializeState(state));
+    expect(JSON.parse(serializeState(state))).toEqual(JSON.parse(JSON.stringify(state)));
+  });
+});
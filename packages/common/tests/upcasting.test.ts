@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { EventUpcasterRegistry } from '../src/game-engine/upcasting';
+import { EventType, createGameEvent } from '../src/types/events';
+
+function storedKnock(eventVersion: number) {
+  return {
+    ...createGameEvent('game-1', EventType.KNOCK, { playerId: 'p1', deadwood: 7 } as any, 'p1', 12),
+    eventVersion,
+  };
+}
+
+describe('Event upcasting', () => {
+  it('should chain upcasters from the stored version to the current one', () => {
+    const registry = new EventUpcasterRegistry({ [EventType.KNOCK]: 3 })
+      .register(EventType.KNOCK, 1, ({ deadwood, ...data }) => ({ ...data, deadwoodValue: deadwood }))
+      .register(EventType.KNOCK, 2, data => ({ ...data, knockerMelds: [] }));
+
+    const upcast = registry.upcast(storedKnock(1));
+
+    expect(upcast.eventVersion).toBe(3);
+    expect(upcast.eventData).toEqual({ playerId: 'p1', deadwoodValue: 7, knockerMelds: [] });
+    expect(registry.upcast(storedKnock(3)).eventData).toEqual({ playerId: 'p1', deadwood: 7 });
+  });
+
+  it('should refuse events it cannot bring up to date', () => {
+    const registry = new EventUpcasterRegistry({ [EventType.KNOCK]: 3 })
+      .register(EventType.KNOCK, 2, data => data);
+
+    expect(registry.canUpcast(EventType.KNOCK, 1)).toBe(false);
+    expect(registry.canUpcast(EventType.KNOCK, 2)).toBe(true);
+    expect(() => registry.upcast(storedKnock(1))).toThrow('No upcaster for KNOCK v1');
+    expect(() => registry.upcast(storedKnock(4))).toThrow('only understands up to version 3');
+    expect(() => registry.register(EventType.KNOCK, 2, data => data)).toThrow('already registered');
+  });
+});
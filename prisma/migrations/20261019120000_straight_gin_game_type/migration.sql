@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "GameType" ADD VALUE 'STRAIGHT';
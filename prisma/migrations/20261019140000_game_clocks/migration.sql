@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "ClockMode" AS ENUM ('FISCHER', 'DELAY');
+
+-- AlterEnum
+ALTER TYPE "EventType" ADD VALUE 'TIMEOUT_AUTO_PLAY';
+ALTER TYPE "EventType" ADD VALUE 'TIMEOUT_FORFEIT';
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "clock_mode" "ClockMode";
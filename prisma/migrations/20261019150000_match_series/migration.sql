@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "MatchStatus" AS ENUM ('IN_PROGRESS', 'FINISHED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "matches" (
+    "id" TEXT NOT NULL,
+    "status" "MatchStatus" NOT NULL DEFAULT 'IN_PROGRESS',
+    "best_of" INTEGER NOT NULL,
+    "player1_id" TEXT NOT NULL,
+    "player2_id" TEXT,
+    "winner_id" TEXT,
+    "vs_ai" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "finished_at" TIMESTAMP(3),
+
+    CONSTRAINT "matches_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "match_id" TEXT,
+ADD COLUMN "match_game_number" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "matches_player1_id_idx" ON "matches"("player1_id");
+
+-- CreateIndex
+CREATE INDEX "matches_player2_id_idx" ON "matches"("player2_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "games_match_id_match_game_number_key" ON "games"("match_id", "match_game_number");
+
+-- AddForeignKey
+ALTER TABLE "games" ADD CONSTRAINT "games_match_id_fkey" FOREIGN KEY ("match_id") REFERENCES "matches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_player1_id_fkey" FOREIGN KEY ("player1_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_player2_id_fkey" FOREIGN KEY ("player2_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "matches" ADD CONSTRAINT "matches_winner_id_fkey" FOREIGN KEY ("winner_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
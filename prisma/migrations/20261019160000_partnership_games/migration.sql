@@ -0,0 +1,13 @@
+-- AlterEnum
+ALTER TYPE "EventType" ADD VALUE 'PARTNERSHIP_TABLES_CREATED';
+ALTER TYPE "EventType" ADD VALUE 'PARTNERSHIP_HAND_SCORED';
+
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "parent_game_id" TEXT,
+ADD COLUMN "table_number" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "games_parent_game_id_table_number_key" ON "games"("parent_game_id", "table_number");
+
+-- AddForeignKey
+ALTER TABLE "games" ADD CONSTRAINT "games_parent_game_id_fkey" FOREIGN KEY ("parent_game_id") REFERENCES "games"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "ai_difficulty" TEXT;
+
+-- Earlier AI games all played at the default
+UPDATE "games" SET "ai_difficulty" = 'medium' WHERE "vs_ai" = true;
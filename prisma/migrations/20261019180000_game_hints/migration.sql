@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "games" ADD COLUMN "hints_used" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "is_bot" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "bot_strategy" TEXT,
+ADD COLUMN "bot_difficulty" TEXT,
+ADD COLUMN "bot_personality" TEXT;
+
+-- Seed the bot roster. The password is not a bcrypt hash, so no login can match it;
+-- starting ratings are spread out so the bots are useful benchmarks from day one.
+INSERT INTO "users" ("id", "email", "username", "password", "elo", "is_bot", "bot_strategy", "bot_difficulty", "bot_personality", "created_at", "updated_at")
+VALUES
+    ('bot-novice-nora', 'novice-nora@bots.gin-rummy.local', 'NoviceNora', '!', 900, true, 'standard', 'easy', 'balanced', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+    ('bot-steady-eddie', 'steady-eddie@bots.gin-rummy.local', 'SteadyEddie', '!', 1100, true, 'standard', 'medium', 'balanced', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+    ('bot-knocker-kate', 'knocker-kate@bots.gin-rummy.local', 'KnockerKate', '!', 1300, true, 'expert', 'medium', 'aggressive_knocker', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+    ('bot-shark-sam', 'shark-sam@bots.gin-rummy.local', 'SharkSam', '!', 1500, true, 'expert', 'hard', 'balanced', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP),
+    ('bot-grandmaster-gus', 'grandmaster-gus@bots.gin-rummy.local', 'GrandmasterGus', '!', 1700, true, 'master', 'hard', 'gin_hunter', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP)
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,3 @@
+-- Snapshots are a cache over game_events. Hashes written before the canonical state
+-- serializer can't be verified, so drop them and let replays capture fresh ones.
+DELETE FROM "game_snapshots";
@@ -0,0 +1,60 @@
+-- CreateTable
+CREATE TABLE "projection_positions" (
+    "projection" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "sequence_number" INTEGER NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "projection_positions_pkey" PRIMARY KEY ("projection","game_id")
+);
+
+-- CreateTable
+CREATE TABLE "lobby_games" (
+    "game_id" TEXT NOT NULL,
+    "status" "GameStatus" NOT NULL,
+    "game_type" "GameType" NOT NULL,
+    "player_ids" TEXT[],
+    "max_players" INTEGER NOT NULL,
+    "is_private" BOOLEAN NOT NULL,
+    "vs_ai" BOOLEAN NOT NULL,
+    "parent_game_id" TEXT,
+    "current_player_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "last_event_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "lobby_games_pkey" PRIMARY KEY ("game_id")
+);
+
+-- CreateTable
+CREATE TABLE "player_results" (
+    "user_id" TEXT NOT NULL,
+    "game_id" TEXT NOT NULL,
+    "opponent_id" TEXT,
+    "won" BOOLEAN NOT NULL,
+    "end_reason" TEXT NOT NULL,
+    "points_for" INTEGER NOT NULL,
+    "points_against" INTEGER NOT NULL,
+    "duration_ms" INTEGER NOT NULL,
+    "vs_ai" BOOLEAN NOT NULL,
+    "ai_difficulty" TEXT,
+    "finished_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "player_results_pkey" PRIMARY KEY ("user_id","game_id")
+);
+
+-- CreateTable
+CREATE TABLE "head_to_head" (
+    "player_id" TEXT NOT NULL,
+    "opponent_id" TEXT NOT NULL,
+    "wins" INTEGER NOT NULL DEFAULT 0,
+    "losses" INTEGER NOT NULL DEFAULT 0,
+    "last_played_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "head_to_head_pkey" PRIMARY KEY ("player_id","opponent_id")
+);
+
+-- CreateIndex
+CREATE INDEX "lobby_games_status_vs_ai_idx" ON "lobby_games"("status", "vs_ai");
+
+-- CreateIndex
+CREATE INDEX "player_results_user_id_finished_at_idx" ON "player_results"("user_id", "finished_at");
@@ -0,0 +1,145 @@
+import { AIPersonality, AIStrategy } from '../packages/common/src/types/game';
+import { AIPlayer } from '../packages/common/src/game-engine/ai-player';
+import { ExpertAIPlayer } from '../packages/common/src/game-engine/expert-ai-player';
+import { DEFAULT_SEARCH_BUDGET, MasterAIPlayer } from '../packages/common/src/game-engine/master-ai-player';
+import { OpponentModel } from '../packages/common/src/game-engine/opponent-model';
+import { Interval, SelfPlayEntrant, SelfPlayReport, runSelfPlay } from '../packages/common/src/game-engine/self-play';
+
+/**
+ * Headless AI Tournament
+ *
+ * Plays two AI strategies against each other through the real game engine, with no
+ * database or server, and reports how they compare.
+ *
+ * Usage:
+ *   pnpm ai:tournament --a expert --b standard --games 1000
+ *   pnpm ai:tournament --a master:gin_hunter --b expert --games 200 --search-iterations 100
+ *
+ * Entrants are a strategy (standard, expert, master) with an optional personality
+ * (balanced, aggressive_knocker, gin_hunter) after a colon.
+ */
+
+interface TournamentArgs {
+  a: string;
+  b: string;
+  games: number;
+  seed: string;
+  target?: number;
+  searchIterations: number;
+}
+
+function parseArgs(argv: string[]): TournamentArgs {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i += 2) {
+    if (!argv[i].startsWith('--') || argv[i + 1] === undefined) {
+      throw new Error(`Expected --name value pairs, got "${argv[i]}"`);
+    }
+    args[argv[i].slice(2)] = argv[i + 1];
+  }
+
+  return {
+    a: args.a ?? AIStrategy.Expert,
+    b: args.b ?? AIStrategy.Standard,
+    games: parseInt(args.games ?? '100', 10),
+    seed: args.seed ?? `tournament-${Date.now()}`,
+    target: args.target ? parseInt(args.target, 10) : undefined,
+    searchIterations: parseInt(args['search-iterations'] ?? String(DEFAULT_SEARCH_BUDGET.maxIterations), 10),
+  };
+}
+
+function createEntrant(spec: string, searchIterations: number): SelfPlayEntrant {
+  const [strategy, personality = AIPersonality.Balanced] = spec.split(':');
+
+  if (!Object.values(AIStrategy).includes(strategy as AIStrategy)) {
+    throw new Error(`Unknown strategy "${strategy}" (expected ${Object.values(AIStrategy).join(', ')})`);
+  }
+  if (!Object.values(AIPersonality).includes(personality as AIPersonality)) {
+    throw new Error(`Unknown personality "${personality}" (expected ${Object.values(AIPersonality).join(', ')})`);
+  }
+
+  const traits = personality as AIPersonality;
+  return {
+    name: spec,
+    factory: (playerId, opponentId, random) => {
+      switch (strategy) {
+        case AIStrategy.Expert:
+          return new ExpertAIPlayer(playerId, new OpponentModel(opponentId), traits);
+        case AIStrategy.Master:
+          // Search by rollouts rather than time so runs are repeatable
+          return new MasterAIPlayer(playerId, new OpponentModel(opponentId), {
+            maxIterations: searchIterations,
+            maxMillis: Number.MAX_SAFE_INTEGER,
+          }, random, traits);
+        default:
+          return new AIPlayer(playerId, traits);
+      }
+    },
+  };
+}
+
+function formatInterval(interval: Interval, asPercent: boolean): string {
+  const format = (value: number) => (asPercent ? `${(value * 100).toFixed(1)}%` : value.toFixed(1));
+  return `${format(interval.value)} [${format(interval.low)}, ${format(interval.high)}]`;
+}
+
+function printReport(report: SelfPlayReport, seed: string): void {
+  const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  console.log(`\n🏁 ${report.games} games, ${report.hands} hands in ${(report.elapsedMs / 1000).toFixed(1)}s (seed ${seed})`);
+  if (report.abandonedGames > 0) {
+    console.log(`⚠️ ${report.abandonedGames} games were abandoned and left out of win and points figures`);
+  }
+  console.log(`🤝 Dead hands: ${percent(report.hands > 0 ? report.drawnHands / report.hands : 0)}\n`);
+
+  console.table(Object.fromEntries(report.entrants.map(entrant => [entrant.name, {
+    wins: entrant.wins,
+    'win rate (95% CI)': formatInterval(entrant.winRate, true),
+    'avg points (95% CI)': formatInterval(entrant.averagePoints, false),
+    'avg margin (95% CI)': formatInterval(entrant.averageMargin, false),
+    'gin rate': percent(entrant.ginRate),
+    'knock rate': percent(entrant.knockRate),
+    'undercut rate': percent(entrant.undercutRate),
+  }])));
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const entrants: [SelfPlayEntrant, SelfPlayEntrant] = [
+    createEntrant(args.a, args.searchIterations),
+    createEntrant(args.b, args.searchIterations),
+  ];
+
+  console.log(`🎮 ${entrants[0].name} vs ${entrants[1].name} over ${args.games} games`);
+
+  // The engine and AI log every move; keep the output to progress and the report
+  const { log, warn } = console;
+  const progressEvery = Math.max(1, Math.floor(args.games / 20));
+  console.log = () => {};
+  console.warn = () => {};
+
+  let report: SelfPlayReport;
+  try {
+    report = runSelfPlay(entrants, {
+      games: args.games,
+      seed: args.seed,
+      ruleSet: args.target ? { targetScore: args.target } : undefined,
+      onGameComplete: (_result, index) => {
+        if ((index + 1) % progressEvery === 0) {
+          process.stdout.write(`\r⏳ ${index + 1}/${args.games} games`);
+        }
+      },
+    });
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+
+  printReport(report, args.seed);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error('❌ Tournament failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+}
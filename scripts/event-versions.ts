@@ -0,0 +1,108 @@
+import { PrismaClient } from '@prisma/client';
+import { EventType } from '../packages/common/src/types/events';
+import { eventUpcasters } from '../packages/common/src/game-engine/upcasting';
+
+/**
+ * Event Version Report
+ *
+ * Shows which payload versions are stored for each event type, how many games hold
+ * them, and whether this build can replay them: current, upcast from an older
+ * version, or unreplayable because an upcaster is missing or the version is newer
+ * than the code. Exits non-zero when any stored event is unreplayable, so it can
+ * gate a deploy after an event payload changes.
+ *
+ * Usage:
+ *   pnpm events:versions
+ *   pnpm events:versions --type KNOCK --games
+ */
+
+const prisma = new PrismaClient();
+
+interface VersionRow {
+  eventType: string;
+  eventVersion: number;
+  events: number;
+  games: number;
+}
+
+type VersionStatus = 'current' | 'upcast' | 'unreplayable';
+
+function parseArgs(argv: string[]): { type?: string; listGames: boolean } {
+  const typeIndex = argv.indexOf('--type');
+  return {
+    type: typeIndex >= 0 ? argv[typeIndex + 1] : undefined,
+    listGames: argv.includes('--games'),
+  };
+}
+
+function getStatus(row: VersionRow): VersionStatus {
+  const eventType = row.eventType as EventType;
+  if (row.eventVersion === eventUpcasters.getCurrentVersion(eventType)) {
+    return 'current';
+  }
+  return eventUpcasters.canUpcast(eventType, row.eventVersion) ? 'upcast' : 'unreplayable';
+}
+
+async function reportEventVersions(): Promise<boolean> {
+  const args = parseArgs(process.argv.slice(2));
+
+  const rows = await prisma.$queryRaw<VersionRow[]>`
+    SELECT event_type::text AS "eventType", event_version AS "eventVersion",
+           COUNT(*)::int AS events, COUNT(DISTINCT game_id)::int AS games
+    FROM game_events
+    GROUP BY event_type, event_version
+    ORDER BY event_type, event_version
+  `;
+  const selected = args.type ? rows.filter(row => row.eventType === args.type) : rows;
+
+  if (selected.length === 0) {
+    console.log(args.type ? `No ${args.type} events stored` : 'No events stored');
+    return true;
+  }
+
+  console.table(selected.map(row => ({
+    type: row.eventType,
+    version: row.eventVersion,
+    current: eventUpcasters.getCurrentVersion(row.eventType as EventType),
+    events: row.events,
+    games: row.games,
+    status: getStatus(row),
+  })));
+
+  const stale = selected.filter(row => getStatus(row) !== 'current');
+  if (args.listGames) {
+    for (const row of stale) {
+      const games = await prisma.gameEvent.findMany({
+        where: { eventType: row.eventType as any, eventVersion: row.eventVersion },
+        distinct: ['gameId'],
+        select: { gameId: true },
+      });
+      console.log(`\n${row.eventType} v${row.eventVersion} (${getStatus(row)}):`);
+      games.forEach(game => console.log(`  ${game.gameId}`));
+    }
+  }
+
+  const unreplayable = stale.filter(row => getStatus(row) === 'unreplayable');
+  if (unreplayable.length > 0) {
+    const games = unreplayable.reduce((sum, row) => sum + row.games, 0);
+    console.log(`\n❌ ${unreplayable.length} event type versions in up to ${games} games cannot be replayed by this build`);
+    return false;
+  }
+
+  console.log(`\n✅ Every stored event can be replayed${stale.length > 0 ? ` (${stale.length} type versions are upcast)` : ''}`);
+  return true;
+}
+
+if (require.main === module) {
+  reportEventVersions()
+    .then(replayable => process.exit(replayable ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Event version report failed:', error);
+      process.exit(1);
+    })
+    .finally(() => {
+      prisma.$disconnect();
+    });
+}
+
+export { reportEventVersions };
@@ -0,0 +1,153 @@
+import { readFileSync } from 'fs';
+import { prisma } from '../src/utils/database';
+import { EventStore } from '../src/services/eventStore';
+import { ReplayService } from '../src/services/replay';
+import { EventSourcingEngine } from '../packages/common/src/game-engine/event-sourcing';
+import { parseEventLog } from '../packages/common/src/game-engine/event-log';
+import { EventType, GameCreatedEventData } from '../packages/common/src/types/events';
+import { GameState, GameType, OPEN_SEAT } from '../packages/common/src/types/game';
+
+/**
+ * Import Event Log
+ *
+ * Loads a log downloaded from GET /api/games/[gameId]/events?format=jsonl into this
+ * database, so a game from a bug report can be replayed and stepped through locally.
+ * Players missing here are created as placeholder accounts that cannot log in. Tables
+ * and match games come in on their own, without their partnership or match. The
+ * imported stream is checked with ReplayService.validateEventStream; exits non-zero
+ * if it fails or the game is already here.
+ *
+ * Usage:
+ *   pnpm events:import game-<id>.jsonl
+ */
+
+async function ensurePlayer(id: string, username: string | undefined): Promise<void> {
+  if (await prisma.user.findUnique({ where: { id } })) {
+    return;
+  }
+
+  const taken = username ? await prisma.user.findUnique({ where: { username } }) : null;
+  await prisma.user.create({
+    data: {
+      id,
+      username: username && !taken ? username : `imported-${id}`,
+      email: `${id}@imported.invalid`,
+      password: '!', // Not a bcrypt hash, so no password matches
+    },
+  });
+}
+
+function getSeatedIds(state: GameState): string[] {
+  const seats = (state.partnership?.tableNumber === undefined && (state.partnership?.seats ?? state.cutthroat?.seats))
+    || state.players.map(player => player.id);
+  return seats.filter(id => id !== OPEN_SEAT);
+}
+
+async function importEventLog(file: string): Promise<boolean> {
+  const { header, events } = parseEventLog(readFileSync(file, 'utf8'));
+  const gameId = header.gameId;
+
+  if (await prisma.game.findUnique({ where: { id: gameId } })) {
+    console.error(`❌ Game ${gameId} is already in this database`);
+    return false;
+  }
+
+  const created = events.find(event => event.eventType === EventType.GAME_CREATED)?.eventData as GameCreatedEventData | undefined;
+  if (!created) {
+    console.error(`❌ The log for game ${gameId} has no GAME_CREATED event`);
+    return false;
+  }
+
+  const state = new EventSourcingEngine(gameId, events).replayEvents();
+  const playerIds = getSeatedIds(state);
+  for (const id of playerIds) {
+    await ensurePlayer(id, state.players.find(player => player.id === id)?.username);
+  }
+
+  const lastEvent = events[events.length - 1];
+  await prisma.$transaction(async (tx) => {
+    await tx.game.create({
+      data: {
+        id: gameId,
+        status: state.gameOver ? 'FINISHED' : state.status,
+        gameType: created.gameType ?? GameType.Standard,
+        clockMode: created.timeControl?.mode ?? null,
+        player1Id: created.player1Id,
+        player2Id: created.maxPlayers === 2 ? playerIds.find(id => id !== created.player1Id) ?? null : null,
+        currentPlayerId: state.gameOver ? null : state.currentPlayerId || null,
+        winnerId: state.winner ?? null,
+        player1Score: state.players[0]?.score ?? 0,
+        player2Score: state.players[1]?.score ?? 0,
+        isPrivate: created.isPrivate,
+        vsAI: created.vsAI,
+        aiDifficulty: created.vsAI ? created.aiDifficulty ?? null : null,
+        maxPlayers: created.maxPlayers,
+        eventCount: events.length,
+        streamVersion: lastEvent.sequenceNumber,
+        lastEventAt: new Date(lastEvent.createdAt),
+        createdAt: new Date(events[0].createdAt),
+        finishedAt: state.gameOver ? new Date(lastEvent.createdAt) : null,
+      },
+    });
+
+    if (created.maxPlayers > 2) {
+      for (const [seat, userId] of playerIds.entries()) {
+        await tx.gameParticipant.create({ data: { gameId, userId, seat } });
+      }
+    }
+
+    for (const event of events) {
+      await tx.gameEvent.create({
+        data: {
+          id: event.id,
+          gameId,
+          playerId: event.playerId && playerIds.includes(event.playerId) ? event.playerId : null,
+          eventType: event.eventType,
+          sequenceNumber: event.sequenceNumber,
+          eventVersion: event.eventVersion,
+          eventData: event.eventData as any,
+          metadata: event.metadata as any,
+          processed: true,
+          processedAt: new Date(event.createdAt),
+          createdAt: new Date(event.createdAt),
+        },
+      });
+    }
+  }, {
+    timeout: 30000,
+  });
+  await EventStore.updateProjections(gameId);
+
+  console.log(`📥 Imported ${events.length} events for game ${gameId} (${playerIds.length} players)`);
+  if (header.redactedFor) {
+    console.log(`⚠️  The log was redacted for player ${header.redactedFor}: hidden cards will not replay as dealt`);
+  }
+
+  if (!(await ReplayService.validateEventStream(gameId))) {
+    console.error(`❌ Game ${gameId} was imported but its event stream is invalid`);
+    return false;
+  }
+
+  console.log(`✅ Game ${gameId} is ready to replay`);
+  return true;
+}
+
+if (require.main === module) {
+  const file = process.argv[2];
+  if (!file) {
+    console.error('Usage: pnpm events:import <game-log.jsonl>');
+    process.exit(1);
+  }
+
+  importEventLog(file)
+    .then(imported => process.exit(imported ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Event log import failed:', error);
+      process.exit(1);
+    })
+    .finally(() => {
+      prisma.$disconnect();
+    });
+}
+
+export { importEventLog };
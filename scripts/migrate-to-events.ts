@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { EventType, createGameEvent } from '../packages/common/src/types/events';
+import { GameType } from '../packages/common/src/types/game';
 import { eventLogger } from '../lib/event-logger';
 
 /**
@@ -127,7 +128,7 @@ async function migrateGame(game: any): Promise<{
       EventType.GAME_CREATED,
       {
         gameId: game.id,
-        gameType: 'STANDARD',
+        gameType: GameType.Standard,
         player1Id: game.player1Id,
         player2Id: game.player2Id,
         isPrivate: game.isPrivate,
@@ -0,0 +1,47 @@
+import { prisma } from '../src/utils/database';
+import { rebuildProjections } from '../src/services/projections';
+
+/**
+ * Rebuild Projections
+ *
+ * Drops the lobby, player result and head-to-head read tables and replays every
+ * game's events into them. Run it after changing how a projection folds events, or
+ * to repair the tables after a failed update. Exits non-zero when any game could
+ * not be replayed.
+ *
+ * Usage:
+ *   pnpm projections:rebuild
+ *   pnpm projections:rebuild --verbose
+ */
+
+async function runRebuild(): Promise<boolean> {
+  const verbose = process.argv.includes('--verbose');
+  const startedAt = Date.now();
+
+  const totals = await rebuildProjections((gameId, events, error) => {
+    if (error) {
+      console.error(`❌ ${gameId}:`, error instanceof Error ? error.message : error);
+    } else if (verbose) {
+      console.log(`  ${gameId}: ${events} events`);
+    }
+  });
+
+  const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+  console.log(`\n${totals.failed > 0 ? '❌' : '✅'} Replayed ${totals.events} events from ${totals.games} games in ${seconds}s` +
+    (totals.failed > 0 ? `, ${totals.failed} games failed` : ''));
+  return totals.failed === 0;
+}
+
+if (require.main === module) {
+  runRebuild()
+    .then(succeeded => process.exit(succeeded ? 0 : 1))
+    .catch(error => {
+      console.error('❌ Projection rebuild failed:', error);
+      process.exit(1);
+    })
+    .finally(() => {
+      prisma.$disconnect();
+    });
+}
+
+export { runRebuild };
@@ -1,7 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, Meld } from '../../../packages/common/src/types/game';
 import { Card as CardComponent } from '../ui/Card';
 import { getCardValue } from '../../../packages/common/src/utils/cards';
+import { canLayOff, findBestLayOffs } from '../../../packages/common/src/utils/layoffs';
 
 interface LayoffInterfaceProps {
   opponentHand: Card[];
@@ -40,6 +41,11 @@ export const LayoffInterface: React.FC<LayoffInterfaceProps> = ({
   const selectedCardIds = new Set(selectedLayOffs.flatMap(layOff => layOff.cards.map(card => card.id)));
   const availableDeadwood = deadwoodCards.filter(card => !selectedCardIds.has(card.id));
 
+  const bestPlan = useMemo(
+    () => findBestLayOffs(deadwoodCards, knockerMelds),
+    [opponentHand, opponentMelds, knockerMelds]
+  );
+
   useEffect(() => {
     // Animation sequence
     const timer1 = setTimeout(() => setAnimationPhase('ready'), 1000);
@@ -107,39 +113,28 @@ export const LayoffInterface: React.FC<LayoffInterfaceProps> = ({
     return knockerMelds.find(meld => meld.cards[0].id === meldId) || null;
   };
 
+  // Cards already laid off extend the meld, so a run can be extended one card at a time
   const canLayOffOnMeld = (card: Card, meld: Meld | null): boolean => {
     if (!meld) return false;
-    
-    if (meld.type === 'set') {
-      // For sets: card must have same rank as the set
-      return card.rank === meld.cards[0].rank;
-    } else {
-      // For runs: card must extend the sequence and be same suit
-      const meldSuit = meld.cards[0].suit;
-      if (card.suit !== meldSuit) return false;
-      
-      const ranks = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
-      const meldRanks = meld.cards.map(c => ranks.indexOf(c.rank)).sort((a, b) => a - b);
-      const cardRank = ranks.indexOf(card.rank);
-      
-      // Card must extend either end of the run (not middle)
-      const canExtendLow = cardRank === meldRanks[0] - 1 && cardRank >= 0;
-      const canExtendHigh = cardRank === meldRanks[meldRanks.length - 1] + 1 && cardRank < ranks.length;
-      
-      return canExtendLow || canExtendHigh;
-    }
+
+    const layOff = selectedLayOffs.find(lo => lo.targetMeld.cards[0].id === meld.cards[0].id);
+    return canLayOff(card, { ...meld, cards: [...meld.cards, ...(layOff?.cards || [])] });
   };
 
   const handleRemoveFromLayOff = (card: Card, targetMeld: Meld) => {
     setSelectedLayOffs(prev => 
       prev.map(layOff => 
         layOff.targetMeld.cards[0].id === targetMeld.cards[0].id
-          ? { ...layOff, cards: layOff.cards.filter(c => c.id !== card.id) }
+          ? { ...layOff, cards: keepConnected(layOff.targetMeld, layOff.cards.filter(c => c.id !== card.id)) }
           : layOff
       ).filter(layOff => layOff.cards.length > 0)
     );
   };
 
+  const handleSuggestLayOffs = () => {
+    setSelectedLayOffs(bestPlan.layOffs);
+  };
+
   const handleApplyLayOffs = () => {
     setAnimationPhase('applying');
     setTimeout(() => onLayOffComplete(selectedLayOffs), 1000);
@@ -166,6 +161,15 @@ export const LayoffInterface: React.FC<LayoffInterfaceProps> = ({
             Laying off {totalLayOffValue} points worth of cards
           </div>
         )}
+        {bestPlan.value > totalLayOffValue && (
+          <button
+            onClick={handleSuggestLayOffs}
+            disabled={animationPhase === 'applying'}
+            className="mt-2 text-sm text-blue-600 hover:text-blue-800 underline"
+          >
+            Use best lay-off (-{bestPlan.value} pts)
+          </button>
+        )}
       </div>
 
       {/* Available Deadwood Cards */}
@@ -313,4 +317,20 @@ export const LayoffInterface: React.FC<LayoffInterfaceProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+// Taking a card out of the middle of a run extension strands the cards beyond it
+function keepConnected(meld: Meld, cards: Card[]): Card[] {
+  const kept: Card[] = [];
+  let remaining = cards;
+  let added = true;
+  while (added) {
+    const next = remaining.find(card => canLayOff(card, { ...meld, cards: [...meld.cards, ...kept] }));
+    added = next !== undefined;
+    if (next) {
+      kept.push(next);
+      remaining = remaining.filter(card => card.id !== next.id);
+    }
+  }
+  return kept;
+}
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Card, Meld, GameState } from '../../../packages/common/src/types/game';
-import { calculateScoreWithLayOffs, calculateDeadwood } from '../../../packages/common/src/utils/scoring';
+import { calculateScoreWithLayOffs, calculateDeadwood, resolveRuleSet } from '../../../packages/common/src/utils/scoring';
 import { getCardValue } from '../../../packages/common/src/utils/cards';
+import { findBestLayOffs } from '../../../packages/common/src/utils/layoffs';
 import { PlayerHandDisplay } from './PlayerHandDisplay';
 import { LayoffInterface } from './LayoffInterface';
 import { ScoreCalculator } from './ScoreCalculator';
@@ -62,7 +63,8 @@ export const RoundResultsModal: React.FC<RoundResultsModalProps> = ({
     knockerMelds,
     opponent.hand,
     opponent.melds,
-    appliedLayOffs
+    appliedLayOffs,
+    resolveRuleSet(gameState.ruleSet)
   );
 
   // If the game state has final round scores (from layoff completion), use those instead
@@ -233,6 +235,40 @@ export const RoundResultsModal: React.FC<RoundResultsModalProps> = ({
 
   if (!isOpen) return null;
 
+  // Dead hand - nothing to reveal or score, just redeal
+  if (gameState.roundDrawn) {
+    return (
+      <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
+        <div className="bg-white rounded-xl max-w-md w-full p-6 text-center">
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">
+            🤝 Hand Drawn
+          </h2>
+          <p className="text-gray-600 mb-6">
+            Only two cards were left in the stock. No points are scored and the hand will be redealt.
+          </p>
+
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            {gameState.players.map(player => (
+              <div key={player.id} className="bg-gray-50 rounded-lg p-3">
+                <div className="text-sm text-gray-600">
+                  {player.id === currentPlayerId ? 'You' : player.username}
+                </div>
+                <div className="text-xl font-bold text-gray-800">{player.score}</div>
+              </div>
+            ))}
+          </div>
+
+          <button
+            onClick={handleContinue}
+            className="w-full py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Redeal
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-75 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-xl max-w-5xl max-h-[95vh] w-full overflow-y-auto">
@@ -285,6 +321,9 @@ export const RoundResultsModal: React.FC<RoundResultsModalProps> = ({
               scoreData={scoreData}
               showBreakdown={showScoreBreakdown}
               phase={phase}
+              ruleSet={resolveRuleSet(gameState.ruleSet)}
+              hollywood={gameState.hollywood}
+              playerNames={{ [knocker.id]: knocker.username, [opponent.id]: opponent.username }}
             />
           </div>
 
@@ -397,56 +436,11 @@ function calculateAvailableLayoffs(
   opponentMelds: Meld[], 
   knockerMelds: Meld[]
 ): Array<{ cards: Card[]; targetMeld: Meld }> {
-  const layoffs: Array<{ cards: Card[]; targetMeld: Meld }> = [];
-  
   // Get deadwood cards (cards not in opponent's melds)
   const meldedCardIds = new Set(
     opponentMelds.flatMap(meld => meld.cards.map(card => card.id))
   );
   const deadwoodCards = opponentHand.filter(card => !meldedCardIds.has(card.id));
-  
-  // Try each deadwood card against each knocker meld
-  for (const card of deadwoodCards) {
-    for (const meld of knockerMelds) {
-      if (canLayOffOnMeld(card, meld)) {
-        // Check if we already have a layoff for this meld
-        const existingLayoff = layoffs.find(lo => 
-          lo.targetMeld.cards[0].id === meld.cards[0].id
-        );
-        
-        if (existingLayoff) {
-          existingLayoff.cards.push(card);
-        } else {
-          layoffs.push({
-            cards: [card],
-            targetMeld: meld
-          });
-        }
-      }
-    }
-  }
-  
-  return layoffs;
-}
 
-// Helper function to check if a card can be laid off on a specific meld
-function canLayOffOnMeld(card: Card, meld: Meld): boolean {
-  if (meld.type === 'set') {
-    // For sets: card must have same rank as the set
-    return card.rank === meld.cards[0].rank;
-  } else {
-    // For runs: card must extend the sequence and be same suit
-    const meldSuit = meld.cards[0].suit;
-    if (card.suit !== meldSuit) return false;
-    
-    const ranks = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
-    const meldRanks = meld.cards.map(c => ranks.indexOf(c.rank)).sort((a, b) => a - b);
-    const cardRank = ranks.indexOf(card.rank);
-    
-    // Card must extend either end of the run (not middle)
-    const canExtendLow = cardRank === meldRanks[0] - 1 && cardRank >= 0;
-    const canExtendHigh = cardRank === meldRanks[meldRanks.length - 1] + 1 && cardRank < ranks.length;
-    
-    return canExtendLow || canExtendHigh;
-  }
-}
\ No newline at end of file
+  return findBestLayOffs(deadwoodCards, knockerMelds).layOffs;
+}
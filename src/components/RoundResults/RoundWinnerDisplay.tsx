@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { GameState } from '../../../packages/common/src/types/game';
+import { resolveRuleSet, shouldGameEnd } from '../../../packages/common/src/utils/scoring';
+import { isHollywoodComplete } from '../../../packages/common/src/utils/hollywood-scoring';
 
 interface ScoreData {
   knockerScore: number;
@@ -43,9 +45,11 @@ export const RoundWinnerDisplay: React.FC<RoundWinnerDisplayProps> = ({
 
   const winnerName = winner === 'knocker' ? knockerName : winner === 'opponent' ? opponentName : null;
 
-  // Check if game has ended (player reached winning score, typically 100)
+  // Check if game has ended (player reached the target score, or all Hollywood games decided)
   const gameHasEnded = gameState.gameOver || gameState.status === 'FINISHED' || 
-    gameState.players.some(player => player.score >= 100);
+    (gameState.hollywood
+      ? isHollywoodComplete(gameState.hollywood)
+      : shouldGameEnd(gameState.players.map(player => player.score), resolveRuleSet(gameState.ruleSet).targetScore));
 
   // Debug logging for game end detection
   console.log('🏁 Game End Check:', {
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { RuleSet, DEFAULT_RULE_SET, HollywoodScoreSheet } from '../../../packages/common/src/types/game';
 
 interface ScoreData {
   knockerScore: number;
@@ -15,12 +16,18 @@ interface ScoreCalculatorProps {
   scoreData: ScoreData;
   showBreakdown: boolean;
   phase: string;
+  ruleSet?: RuleSet;
+  hollywood?: HollywoodScoreSheet; // Hollywood games show all three running games
+  playerNames?: { [playerId: string]: string };
 }
 
 export const ScoreCalculator: React.FC<ScoreCalculatorProps> = ({
   scoreData,
   showBreakdown,
   phase,
+  ruleSet = DEFAULT_RULE_SET,
+  hollywood,
+  playerNames = {},
 }) => {
   const [animationStep, setAnimationStep] = useState(0);
   const [hasAnimated, setHasAnimated] = useState(false);
@@ -114,9 +121,9 @@ export const ScoreCalculator: React.FC<ScoreCalculatorProps> = ({
         <div className="border-t pt-4 space-y-2">
           <div className="text-center text-sm text-gray-600 mb-3">
             {scoreData.isGin ? (
-              <div className="text-yellow-600 font-bold">🎯 GIN BONUS: +25 points!</div>
+              <div className="text-yellow-600 font-bold">🎯 GIN BONUS: +{ruleSet.ginBonus} points!</div>
             ) : scoreData.isUndercut ? (
-              <div className="text-red-600 font-bold">⚡ UNDERCUT BONUS: +25 points!</div>
+              <div className="text-red-600 font-bold">⚡ UNDERCUT BONUS: +{ruleSet.undercutBonus} points!</div>
             ) : (
               <div>Difference: {scoreData.opponentDeadwoodAfter} - {scoreData.knockerDeadwood}</div>
             )}
@@ -153,6 +160,38 @@ export const ScoreCalculator: React.FC<ScoreCalculatorProps> = ({
           </div>
         </div>
       )}
+
+      {/* Hollywood Score Sheet */}
+      {hollywood && animationStep >= 6 && (
+        <div className="border-t pt-4">
+          <h4 className="text-lg font-semibold text-center text-gray-800 mb-3">Hollywood Score Sheet</h4>
+          <div className="grid grid-cols-3 gap-3">
+            {hollywood.games.map((game, index) => (
+              <div
+                key={index}
+                className={`rounded p-3 text-sm ${game.winnerId ? 'bg-green-50 border border-green-200' : 'bg-white border border-gray-200'}`}
+              >
+                <div className="font-medium text-center mb-2">
+                  Game {index + 1}{game.winnerId && ' ✓'}
+                </div>
+                {Object.entries(playerNames).map(([playerId, name]) => (
+                  <div
+                    key={playerId}
+                    className={`flex justify-between ${game.winnerId === playerId ? 'font-bold text-green-700' : 'text-gray-700'}`}
+                  >
+                    <span className="truncate mr-2">{name}</span>
+                    <span>
+                      {game.scores[playerId] || 0}
+                      <span className="text-gray-400 ml-1">({game.boxes[playerId] || 0})</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-center text-gray-500 mt-2">Boxes (hands won) shown in brackets</div>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
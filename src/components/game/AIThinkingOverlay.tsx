@@ -2,12 +2,58 @@
 
 import { useGameStore } from '../../store/game';
 import { useEffect, useState } from 'react';
+import { AIMoveCandidate, AIThoughtsResponse, MoveType } from '@gin-rummy/common';
+import { gamesAPI } from '../../services/api';
+
+const MOVE_LABELS: Record<string, string> = {
+  [MoveType.TakeUpcard]: 'Take upcard',
+  [MoveType.PassUpcard]: 'Pass upcard',
+  [MoveType.DrawStock]: 'Draw from stock',
+  [MoveType.DrawDiscard]: 'Draw from discard',
+  [MoveType.Discard]: 'Discard',
+  [MoveType.Knock]: 'Knock',
+  [MoveType.Gin]: 'Gin',
+};
+
+function describeCandidate(candidate: AIMoveCandidate): string {
+  // Card ids are suit_rank
+  const [suit, rank] = candidate.cardId?.split('_') ?? [];
+  const label = MOVE_LABELS[candidate.type] ?? candidate.type;
+  return rank ? `${label} ${rank} of ${suit}` : label;
+}
 
 export default function AIThinkingOverlay() {
-  const { isAIThinking, aiThoughts } = useGameStore();
+  const { isAIThinking, aiThoughts, currentGameId, gameState } = useGameStore();
   const [currentThoughtIndex, setCurrentThoughtIndex] = useState(0);
   const [displayedText, setDisplayedText] = useState('');
   const [isTyping, setIsTyping] = useState(false);
+  const [reasoning, setReasoning] = useState<AIThoughtsResponse | null>(null);
+  const [showReasoning, setShowReasoning] = useState(false);
+
+  const vsAI = gameState?.vsAI ?? false;
+  const gameOver = gameState?.gameOver ?? false;
+
+  // Once the AI has moved, fetch its explanation; at the end of the game this includes every rationale
+  useEffect(() => {
+    if (!vsAI || !currentGameId || isAIThinking) {
+      return;
+    }
+
+    let cancelled = false;
+    gamesAPI.getAIThoughts(currentGameId)
+      .then(response => {
+        if (!cancelled) {
+          setReasoning(response.data);
+        }
+      })
+      .catch(error => {
+        console.warn('Failed to load AI reasoning:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [vsAI, currentGameId, isAIThinking, gameState?.currentPlayerId, gameOver]);
 
   useEffect(() => {
     if (!isAIThinking || aiThoughts.length === 0) {
@@ -56,6 +102,58 @@ export default function AIThinkingOverlay() {
   }, [isAIThinking, aiThoughts, currentThoughtIndex]);
 
   if (!isAIThinking) {
+    if (gameOver && reasoning?.rationales && reasoning.rationales.length > 0) {
+      return (
+        <div className="absolute top-2 right-2 z-50">
+          <div className="bg-white bg-opacity-95 backdrop-blur-sm rounded-lg shadow-lg p-3 max-w-sm border border-gray-200">
+            <button
+              onClick={() => setShowReasoning(!showReasoning)}
+              className="text-xs font-medium text-blue-600 hover:text-blue-800"
+            >
+              {showReasoning ? 'Hide AI reasoning' : 'Reveal AI reasoning'}
+            </button>
+
+            {showReasoning && (
+              <div className="mt-2 max-h-80 overflow-y-auto space-y-2">
+                {reasoning.rationales.map(({ sequenceNumber, rationale }) => (
+                  <div key={sequenceNumber} className="border-t border-gray-100 pt-2 text-xs">
+                    <div className="font-medium text-gray-800">
+                      {describeCandidate(rationale.chosen)}
+                      {rationale.suboptimal && <span className="ml-1 text-orange-600">(deliberate mistake)</span>}
+                    </div>
+                    <ul className="mt-1 space-y-0.5 text-gray-600">
+                      {rationale.candidates.map(candidate => (
+                        <li key={`${candidate.type}-${candidate.cardId ?? ''}`} className="flex justify-between gap-2">
+                          <span>{describeCandidate(candidate)}</span>
+                          <span className="text-gray-500">
+                            {candidate.score === null ? 'by rule' : `score ${Math.round(candidate.score * 10) / 10}`}
+                            {' · '}deadwood {candidate.deadwoodAfter}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      );
+    }
+
+    if (!gameOver && reasoning && reasoning.thoughts.length > 0) {
+      return (
+        <div className="absolute top-2 right-2 z-50 pointer-events-none">
+          <div className="bg-white bg-opacity-95 backdrop-blur-sm rounded-lg shadow-lg p-3 max-w-xs border border-gray-200">
+            <span className="text-xs font-medium text-gray-700">AI's last move</span>
+            <div className="mt-1 text-xs text-gray-800">
+              {reasoning.thoughts[reasoning.thoughts.length - 1]}
+            </div>
+          </div>
+        </div>
+      );
+    }
+
     return null;
   }
 
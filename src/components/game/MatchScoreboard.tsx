@@ -0,0 +1,60 @@
+'use client';
+
+import { MatchStandings, MatchStatus } from '@gin-rummy/common';
+
+interface MatchScoreboardProps {
+  match: MatchStandings;
+  currentGameId?: string;
+  highlightPlayerId?: string;
+}
+
+export default function MatchScoreboard({ match, currentGameId, highlightPlayerId }: MatchScoreboardProps) {
+  const winner = match.players.find(player => player.id === match.winnerId);
+  const statusLabel = match.status === MatchStatus.Finished
+    ? `${winner?.username || 'Unknown'} won the match`
+    : match.status === MatchStatus.Cancelled
+      ? 'Match cancelled'
+      : `First to ${match.winsNeeded} wins`;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-800">Best of {match.bestOf}</h3>
+        <span className="text-sm text-gray-600">{statusLabel}</span>
+      </div>
+
+      <div className="flex items-center justify-center space-x-6 mb-3">
+        {match.players.map((player, index) => (
+          <div key={player.id} className="flex items-center space-x-2">
+            {index > 0 && <span className="text-gray-400 mr-4">–</span>}
+            <span className={`font-medium ${player.id === highlightPlayerId ? 'text-primary-700' : 'text-gray-700'}`}>
+              {player.username}
+            </span>
+            <span className="text-2xl font-bold text-gray-900">{player.wins}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex justify-center space-x-2">
+        {match.games.map(game => {
+          const gameWinner = match.players.find(player => player.id === game.winnerId);
+          return (
+            <div
+              key={game.gameId}
+              title={gameWinner ? `Game ${game.gameNumber}: ${gameWinner.username}` : `Game ${game.gameNumber}`}
+              className={`w-8 h-8 rounded-full flex items-center justify-center text-xs font-bold ${
+                game.gameId === currentGameId
+                  ? 'bg-primary-100 text-primary-700 ring-2 ring-primary-400'
+                  : gameWinner
+                    ? gameWinner.id === highlightPlayerId ? 'bg-green-500 text-white' : 'bg-red-500 text-white'
+                    : 'bg-gray-200 text-gray-600'
+              }`}
+            >
+              {game.gameNumber}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
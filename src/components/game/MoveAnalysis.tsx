@@ -0,0 +1,134 @@
+'use client';
+
+import { useState } from 'react';
+import { GameAnalysis, MoveAnnotation, MoveFlag, MoveQuality, MoveType } from '@gin-rummy/common';
+import { gamesAPI } from '../../services/api';
+import { formatCardId } from '../../utils/helpers';
+
+interface MoveAnalysisProps {
+  gameId: string;
+  players: Array<{ id: string; username: string }>;
+  highlightPlayerId?: string;
+}
+
+const QUALITY_STYLES: Record<MoveQuality, string> = {
+  [MoveQuality.Best]: 'bg-green-100 text-green-800',
+  [MoveQuality.Good]: 'bg-blue-100 text-blue-800',
+  [MoveQuality.Inaccuracy]: 'bg-yellow-100 text-yellow-800',
+  [MoveQuality.Blunder]: 'bg-red-100 text-red-800',
+};
+
+const FLAG_LABELS: Record<MoveFlag, string> = {
+  [MoveFlag.MissedGin]: 'Missed gin',
+  [MoveFlag.FedOpponentMeld]: "Fed the opponent's meld",
+  [MoveFlag.Undercut]: 'Knocked into an undercut',
+};
+
+function describeMove(move: MoveAnnotation['played']): string {
+  const card = move.cardId ? ` ${formatCardId(move.cardId)}` : '';
+  switch (move.type) {
+    case MoveType.TakeUpcard:
+      return `Take upcard${card}`;
+    case MoveType.PassUpcard:
+      return 'Pass upcard';
+    case MoveType.DrawStock:
+      return 'Draw from stock';
+    case MoveType.DrawDiscard:
+      return `Draw${card} from discard`;
+    case MoveType.Knock:
+      return `Knock, discarding${card}`;
+    case MoveType.Gin:
+      return `Gin, discarding${card}`;
+    default:
+      return `Discard${card}`;
+  }
+}
+
+export default function MoveAnalysis({ gameId, players, highlightPlayerId }: MoveAnalysisProps) {
+  const [analysis, setAnalysis] = useState<GameAnalysis | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAllMoves, setShowAllMoves] = useState(false);
+
+  const usernameOf = (playerId: string) => players.find(player => player.id === playerId)?.username || 'Player';
+
+  const loadAnalysis = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await gamesAPI.getAnalysis(gameId);
+      setAnalysis(response.data.analysis);
+    } catch (err: any) {
+      setError(err.response?.data?.error || 'Failed to analyze game');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  if (!analysis) {
+    return (
+      <div className="text-center">
+        <button onClick={loadAnalysis} disabled={isLoading} className="btn btn-secondary btn-sm">
+          {isLoading ? 'Analyzing...' : '🔍 Analyze my moves'}
+        </button>
+        {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      </div>
+    );
+  }
+
+  // Best and good moves are only listed on request; mistakes are the point of the timeline
+  const shownMoves = showAllMoves
+    ? analysis.moves
+    : analysis.moves.filter(move => move.quality === MoveQuality.Inaccuracy || move.quality === MoveQuality.Blunder);
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 text-left">
+      <div className="flex flex-wrap gap-4 mb-3">
+        {analysis.players.map(player => (
+          <div key={player.playerId} className="text-sm">
+            <span className={`font-medium ${player.playerId === highlightPlayerId ? 'text-primary-700' : 'text-gray-800'}`}>
+              {usernameOf(player.playerId)}
+            </span>
+            <span className="ml-2 text-2xl font-bold text-gray-900">{player.accuracy}%</span>
+            <span className="ml-2 text-gray-600">
+              {player.inaccuracies} inaccuracies, {player.blunders} blunders in {player.decisions} decisions
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="font-medium text-gray-800">Timeline</h4>
+        <button onClick={() => setShowAllMoves(!showAllMoves)} className="text-xs text-blue-600 hover:text-blue-800">
+          {showAllMoves ? 'Mistakes only' : 'Show every move'}
+        </button>
+      </div>
+
+      {shownMoves.length === 0 ? (
+        <p className="text-sm text-gray-600">No inaccuracies or blunders. Well played!</p>
+      ) : (
+        <ol className="max-h-80 overflow-y-auto space-y-1 text-sm">
+          {shownMoves.map(move => (
+            <li key={move.sequenceNumber} className="flex items-start gap-2">
+              <span className="w-16 shrink-0 text-xs text-gray-500">Round {move.roundNumber}</span>
+              <span className={`shrink-0 rounded px-1.5 text-xs font-medium ${QUALITY_STYLES[move.quality]}`}>
+                {move.quality}
+              </span>
+              <span className="text-gray-700">
+                {usernameOf(move.playerId)}: {describeMove(move.played)}
+                {move.quality !== MoveQuality.Best && (
+                  <span className="text-gray-500"> (AI: {describeMove(move.suggested)}
+                    {move.deadwoodLoss > 0 && `, ${move.deadwoodLoss} less deadwood`})
+                  </span>
+                )}
+                {move.flags.map(flag => (
+                  <span key={flag} className="ml-1 text-xs font-medium text-red-700">{FLAG_LABELS[flag]}</span>
+                ))}
+              </span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
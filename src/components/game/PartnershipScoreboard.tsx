@@ -0,0 +1,54 @@
+'use client';
+
+import { OPEN_SEAT, PartnershipState, getPlayerTeam, getSeatTeam } from '@gin-rummy/common';
+
+interface PartnershipScoreboardProps {
+  partnership: PartnershipState;
+  playerNames?: { [playerId: string]: string };
+  highlightPlayerId?: string;
+  targetScore?: number;
+}
+
+export default function PartnershipScoreboard({ partnership, playerNames = {}, highlightPlayerId, targetScore }: PartnershipScoreboardProps) {
+  const myTeam = highlightPlayerId ? getPlayerTeam(partnership, highlightPlayerId) : null;
+  const statusLabel = partnership.winningTeam !== undefined
+    ? partnership.winningTeam === myTeam ? 'Your team won' : `Team ${partnership.winningTeam + 1} won`
+    : partnership.tables.length > 0
+      ? `Hand ${partnership.handsScored + 1}${targetScore ? ` · first team to ${targetScore}` : ''}`
+      : `${partnership.seats.filter(id => id !== OPEN_SEAT).length} of ${partnership.seats.length} seats filled`;
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-semibold text-gray-800">2v2 Partnership</h3>
+        <span className="text-sm text-gray-600">{statusLabel}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {[0, 1].map(team => (
+          <div
+            key={team}
+            className={`rounded-lg p-3 ${team === myTeam ? 'bg-primary-50 ring-1 ring-primary-300' : 'bg-white'}`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-gray-700">
+                Team {team + 1}{team === myTeam ? ' (you)' : ''}
+              </span>
+              <span className="text-2xl font-bold text-gray-900">{partnership.teamScores[team]}</span>
+            </div>
+            <ul className="space-y-1">
+              {partnership.seats.map((playerId, seat) => getSeatTeam(seat) === team && (
+                <li key={seat} className="text-sm text-gray-600 flex justify-between">
+                  <span className={playerId === highlightPlayerId ? 'font-semibold text-primary-700' : ''}>
+                    {playerId === OPEN_SEAT ? 'Open seat' : playerNames[playerId] || 'Player'}
+                  </span>
+                  <span className="text-xs text-gray-400">Table {Math.floor(seat / 2) + 1}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -2,10 +2,12 @@
 import React from 'react';
 import { useRouter } from 'next/navigation';
 import { useGameStore } from '../../store/game';
-import { gamesAPI } from '../../services/api';
+import { gamesAPI, matchesAPI } from '../../services/api';
 import { useSocket } from '../../services/socket';
 import { FriendInvitation } from '../FriendInvitation';
-import { GameState } from '@gin-rummy/common';
+import { GameState, MatchStandings, OPEN_SEAT, resolveRuleSet } from '@gin-rummy/common';
+import MatchScoreboard from './MatchScoreboard';
+import PartnershipScoreboard from './PartnershipScoreboard';
 
 interface WaitingRoomProps {
   gameId: string;
@@ -27,6 +29,31 @@ const WaitingRoom: React.FC<WaitingRoomProps> = ({
   const router = useRouter();
   const socket = useSocket();
   const [isMarkingReady, setIsMarkingReady] = React.useState(false);
+  const [match, setMatch] = React.useState<MatchStandings | null>(null);
+
+  // Games that are part of a match show the series score while players ready up
+  React.useEffect(() => {
+    if (!gameId) return;
+
+    let cancelled = false;
+    gamesAPI.getGame(gameId)
+      .then(response => {
+        const matchId = response.data.game?.matchId;
+        return matchId ? matchesAPI.getMatch(matchId) : null;
+      })
+      .then(response => {
+        if (!cancelled && response) {
+          setMatch(response.data.match);
+        }
+      })
+      .catch(error => {
+        console.warn('Failed to load match standings:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId]);
 
   const currentGameState = gameState || null;
   const players = currentGameState?.players || [];
@@ -37,6 +64,8 @@ const WaitingRoom: React.FC<WaitingRoomProps> = ({
   const opponentReadyStatus = opponent?.isReady || false;
   const bothPlayersReady = hasSecondPlayer && myReadyStatus && opponentReadyStatus;
   const otherPlayer = players.find(p => p.id !== user?.id && p.id !== 'waiting-for-player');
+  const partnership = currentGameState?.partnership;
+  const cutthroat = currentGameState?.cutthroat;
 
   const handleMarkReady = async () => {
     if (!gameId || !user || myReadyStatus || isMarkingReady) {
@@ -78,6 +107,87 @@ const WaitingRoom: React.FC<WaitingRoomProps> = ({
     }
   };
 
+  // Partnership games have no ready step; the tables are dealt when the last seat fills
+  if (partnership) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-100 to-green-200 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-lg p-6 max-w-3xl w-full">
+          <div className="text-center mb-8">
+            <div className="text-6xl mb-4">🤝</div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">Waiting for Players</h2>
+            <p className="text-gray-600">
+              Seats 1 and 3 are partners against seats 2 and 4. Both tables are dealt once all four seats are filled.
+            </p>
+          </div>
+
+          <div className="mb-8">
+            <PartnershipScoreboard
+              partnership={partnership}
+              playerNames={Object.fromEntries(players.map(p => [p.id, p.username]))}
+              highlightPlayerId={user?.id}
+              targetScore={resolveRuleSet(currentGameState?.ruleSet).targetScore}
+            />
+          </div>
+
+          <div className="text-center pt-4 border-t">
+            <div className="mb-4">
+              <FriendInvitation gameId={gameId!} />
+            </div>
+            <button
+              onClick={() => router.push('/lobby')}
+              className="btn btn-secondary"
+            >
+              Back to Lobby
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (cutthroat) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-100 to-green-200 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-lg p-6 max-w-3xl w-full">
+          <div className="text-center mb-8">
+            <div className="text-6xl mb-4">🔺</div>
+            <h2 className="text-2xl font-bold text-gray-800 mb-2">Cutthroat - Waiting for Players</h2>
+            <p className="text-gray-600">
+              The dealer sits out each hand while the other two play. Cards are dealt once all three seats are filled.
+            </p>
+          </div>
+
+          <div className="grid md:grid-cols-3 gap-4 mb-8">
+            {cutthroat.seats.map((playerId, seat) => (
+              <div key={seat} className="bg-gray-50 rounded-lg p-4 text-center">
+                <h3 className="font-semibold text-lg">
+                  {playerId === OPEN_SEAT
+                    ? 'Open seat'
+                    : players.find(p => p.id === playerId)?.username || 'Player'}
+                </h3>
+                <p className="text-sm text-gray-600">
+                  Seat {seat + 1}{playerId === user?.id ? ' (you)' : ''}
+                </p>
+              </div>
+            ))}
+          </div>
+
+          <div className="text-center pt-4 border-t">
+            <div className="mb-4">
+              <FriendInvitation gameId={gameId!} />
+            </div>
+            <button
+              onClick={() => router.push('/lobby')}
+              className="btn btn-secondary"
+            >
+              Back to Lobby
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-100 to-green-200 flex items-center justify-center p-4">
       <div className="bg-white rounded-xl shadow-lg p-6 max-w-3xl w-full">
@@ -94,6 +204,12 @@ const WaitingRoom: React.FC<WaitingRoomProps> = ({
           </p>
         </div>
 
+        {match && (
+          <div className="mb-8">
+            <MatchScoreboard match={match} currentGameId={gameId} highlightPlayerId={user?.id} />
+          </div>
+        )}
+
         {/* Players Status */}
         <div className="grid md:grid-cols-2 gap-6 mb-8">
           {/* Current Player (You) */}
@@ -11,7 +11,8 @@ import Confetti from '../ui/Confetti';
 import FlyingAnimal from '../ui/FlyingAnimal';
 import { useMeldSwitching } from '../../hooks/useMeldSwitching';
 import AIThinkingOverlay from '../game/AIThinkingOverlay';
-import { MoveType, GamePhase, Card, Meld, GameState } from '@gin-rummy/common';
+import MoveAnalysis from '../game/MoveAnalysis';
+import { MoveType, GamePhase, GameType, Card, Meld, GameState, MoveHint, MoveHints, getKnockLimit, isKnockAllowed, getPlayerTeam, isAwaitingPartnerTable } from '@gin-rummy/common';
 import { RoundResultsModal } from '../RoundResults/RoundResultsModal';
 import { gamesAPI } from '../../services/api';
 import WaitingRoom from '../game/WaitingRoom';
@@ -50,6 +51,9 @@ export default function Game() {
   const [showRoundResults, setShowRoundResults] = useState(false);
   const [roundResultsDismissed, setRoundResultsDismissed] = useState(false);
   const [lastCurrentPlayerId, setLastCurrentPlayerId] = useState<string | null>(null);
+  const [hints, setHints] = useState<MoveHints | null>(null);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [isLoadingHint, setIsLoadingHint] = useState(false);
   const [roundResultsData, setRoundResultsData] = useState<{
     knockerPlayerId: string;
     knockerMelds: Meld[];
@@ -73,7 +77,7 @@ export default function Game() {
 
 
   // Meld switching functionality
-  const meldSwitching = useMeldSwitching(getMyPlayer()?.hand || []);
+  const meldSwitching = useMeldSwitching(getMyPlayer()?.hand || [], gameState ? getKnockLimit(gameState) : undefined);
 
   // Initialize melds when hand changes
   useEffect(() => {
@@ -114,6 +118,34 @@ export default function Game() {
     };
   }, [gameId, user]);
 
+  // Hints already used in this game, e.g. before a refresh
+  useEffect(() => {
+    if (!gameId || !user) return;
+
+    gamesAPI.getGame(String(gameId))
+      .then(response => setHintsUsed(response.data.game?.hintsUsed ?? 0))
+      .catch(error => {
+        console.warn('Failed to load hint count:', error);
+      });
+  }, [gameId, user]);
+
+  // A hint only applies to the turn it was asked for
+  useEffect(() => {
+    setHints(null);
+  }, [gameState?.phase, gameState?.currentPlayerId]);
+
+  // A partnership game is played at its tables; send each player to theirs once dealt
+  useEffect(() => {
+    const partnership = gameState?.partnership;
+    if (!partnership || partnership.tableNumber !== undefined || !user) {
+      return;
+    }
+    const myTable = partnership.tables.find(table => table.playerIds.includes(user.id));
+    if (myTable) {
+      router.replace(`/game/${myTable.gameId}`);
+    }
+  }, [gameState?.partnership, user]);
+
   // Game loading is now handled in the main useEffect above
   // This useEffect is removed to prevent duplicate loading and race conditions
 
@@ -320,6 +352,21 @@ export default function Game() {
   };
 
 
+  const handleHint = async () => {
+    if (!gameId) return;
+
+    setIsLoadingHint(true);
+    try {
+      const response = await gamesAPI.getHint(gameId);
+      setHints(response.data.hints);
+      setHintsUsed(response.data.hintsUsed);
+    } catch (error: any) {
+      setGameError(error.response?.data?.error || 'Failed to get a hint');
+    } finally {
+      setIsLoadingHint(false);
+    }
+  };
+
   const handleDrawStock = () => {
     if (!gameId || !user) return;
     const myPlayer = getMyPlayer();
@@ -449,7 +496,8 @@ export default function Game() {
 
 
   // Show waiting screen for PvP games (either waiting for second player OR waiting for ready status)
-  if (waitingState || (gameState && gameState.status === 'WAITING' && gameState.players && gameState.players.length >= 1)) {
+  const isPartnershipParent = !!gameState?.partnership && gameState.partnership.tableNumber === undefined;
+  if (waitingState || isPartnershipParent || (gameState && gameState.status === 'WAITING' && gameState.players && gameState.players.length >= 1)) {
     return (
       <WaitingRoom
         gameId={gameId!}
@@ -473,9 +521,65 @@ export default function Game() {
     );
   }
 
+  // In cutthroat the dealer sits the hand out and waits for the next deal
+  const sittingOut = gameState.cutthroat?.sittingOut;
+  if (sittingOut && sittingOut.id === user?.id && !gameState.gameOver) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-green-100 to-green-200 flex items-center justify-center p-4">
+        <div className="bg-white rounded-xl shadow-lg p-6 max-w-xl w-full text-center">
+          <div className="text-6xl mb-4">🔺</div>
+          <h2 className="text-2xl font-bold text-gray-800 mb-2">You're dealing this hand</h2>
+          <p className="text-gray-600 mb-6">
+            {(gameState.players || []).map(p => p.username).join(' and ')} are playing hand {gameState.roundNumber || 1}.
+            You're back in when the deal moves on.
+          </p>
+          <div className="bg-gray-50 rounded-lg p-4 mb-6 space-y-1">
+            {[...(gameState.players || []), sittingOut].map(p => (
+              <div key={p.id} className="flex justify-between text-sm">
+                <span className={p.id === user?.id ? 'font-semibold' : ''}>{p.id === user?.id ? 'You' : p.username}</span>
+                <span className="font-medium">{p.score}</span>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => router.push('/lobby')}
+            className="btn btn-secondary"
+          >
+            Back to Lobby
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   const myPlayer = getMyPlayer();
   const opponent = getOpponent();
   const isMyTurn = gameState.currentPlayerId === myPlayer?.id;
+  const knockLimit = getKnockLimit(gameState);
+  const canKnockThisGame = isKnockAllowed(gameState.gameType);
+  const canAskForHint = isMyTurn && !gameState.gameOver &&
+    [GamePhase.UpcardDecision, GamePhase.Draw, GamePhase.Discard].includes(gameState.phase as GamePhase);
+
+  const describeHint = (hint: MoveHint): string => {
+    const card = [...(myPlayer?.hand || []), ...(gameState.discardPile || [])].find(c => c.id === hint.cardId);
+    const cardName = card ? `${card.rank} of ${card.suit}` : '';
+    switch (hint.type) {
+      case MoveType.TakeUpcard:
+        return `Take the upcard (${cardName})`;
+      case MoveType.PassUpcard:
+        return 'Pass on the upcard';
+      case MoveType.DrawDiscard:
+        return `Draw the ${cardName} from the discard pile`;
+      case MoveType.DrawStock:
+        return 'Draw from the stock';
+      case MoveType.Knock:
+        return `Knock, discarding the ${cardName}`;
+      case MoveType.Gin:
+        return `Go gin, discarding the ${cardName}`;
+      default:
+        return `Discard the ${cardName}`;
+    }
+  };
 
   // Helper function to get user-friendly phase text
   const getPhaseDisplayText = (phase: string): string => {
@@ -590,6 +694,19 @@ export default function Game() {
                   </span>
                 )}
               </div>
+              {gameState.partnership && (() => {
+                const myTeam = getPlayerTeam(gameState.partnership, user?.id || '') ?? 0;
+                return (
+                  <div className="text-sm font-medium text-primary-700">
+                    Team Score: Your team {gameState.partnership.teamScores[myTeam]} - {gameState.partnership.teamScores[1 - myTeam]} Opponents
+                  </div>
+                );
+              })()}
+              {sittingOut && (
+                <div className="text-sm text-gray-600">
+                  Sitting out: {sittingOut.username} ({sittingOut.score})
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -690,6 +807,13 @@ export default function Game() {
                       </div>
                     )}
                   </div>
+                  <div className="mb-6">
+                    <MoveAnalysis
+                      gameId={String(gameId)}
+                      players={(gameState.players || []).map(player => ({ id: player.id, username: player.username }))}
+                      highlightPlayerId={user?.id}
+                    />
+                  </div>
                   <button
                     onClick={() => router.push('/lobby')}
                     className="btn btn-primary bg-purple-600 hover:bg-purple-700 text-white px-8 py-3 text-lg font-semibold rounded-lg shadow-lg"
@@ -720,6 +844,11 @@ export default function Game() {
                     Opponent's cards are now revealed with meld indicators. 
                     Blue rings = Runs, Green rings = Sets
                   </p>
+                  {isAwaitingPartnerTable(gameState as GameState) && (
+                    <p className="text-sm text-primary-700 mb-4">
+                      Waiting for the other table to finish this hand before the next deal.
+                    </p>
+                  )}
                   <button
                     onClick={handleStartNewRound}
                     className="btn btn-primary"
@@ -827,6 +956,16 @@ export default function Game() {
                   )}
                 </div>
                 <div className="flex space-x-2">
+                  {gameState.vsAI && (
+                    <button
+                      onClick={handleHint}
+                      disabled={!canAskForHint || isLoadingHint}
+                      className="btn btn-secondary btn-sm disabled:btn-disabled"
+                      title="Hints are counted, and a game with hints is not rated"
+                    >
+                      💡 Hint{hintsUsed > 0 && ` (${hintsUsed} used)`}
+                    </button>
+                  )}
                   <button
                     onClick={handleDiscard}
                     disabled={!isMyTurn || gameState.phase !== 'discard' || selectedCards.length !== 1}
@@ -850,7 +989,7 @@ export default function Game() {
                   })()}
                   {(() => {
                     const deadwoodAfterDiscard = selectedCards.length === 1 ? getDeadwoodAfterDiscard(selectedCards[0]) : (myPlayer?.deadwood || 0);
-                    const canKnock = deadwoodAfterDiscard <= 10 && deadwoodAfterDiscard > 0 && isMyTurn && gameState.phase === GamePhase.Discard;
+                    const canKnock = deadwoodAfterDiscard <= knockLimit && deadwoodAfterDiscard > 0 && isMyTurn && gameState.phase === GamePhase.Discard;
                     
                     return canKnock && (
                       <button
@@ -867,24 +1006,55 @@ export default function Game() {
                       const currentDeadwood = meldSwitching.currentState?.deadwood ?? myPlayer?.deadwood ?? 0;
                       return (
                         <>
-                          Score: {myPlayer?.score || 0} | Deadwood: <span className={`font-medium ${currentDeadwood <= 10 ? 'text-green-600' : 'text-red-600'}`}>{currentDeadwood}</span>
+                          Score: {myPlayer?.score || 0} | Deadwood: <span className={`font-medium ${currentDeadwood <= knockLimit ? 'text-green-600' : 'text-red-600'}`}>{currentDeadwood}</span>
+                          {canKnockThisGame ? (
+                            <>{' '}| Knock limit: <span className="font-medium">{knockLimit}</span></>
+                          ) : (
+                            <>{' '}| <span className="font-medium">Gin only</span></>
+                          )}
+                          {gameState.gameType === GameType.Oklahoma && (gameState.handRules?.scoreMultiplier ?? 1) > 1 && (
+                            <span className="ml-1 text-purple-600 font-medium">♠ Double points</span>
+                          )}
                         </>
                       );
                     })()}
                     {selectedCards.length === 1 && (
                       <span className="ml-2">
-                        → After discard: <span className={`font-medium ${getDeadwoodAfterDiscard(selectedCards[0]) <= 10 ? 'text-green-600' : 'text-red-600'}`}>
+                        → After discard: <span className={`font-medium ${getDeadwoodAfterDiscard(selectedCards[0]) <= knockLimit ? 'text-green-600' : 'text-red-600'}`}>
                           {getDeadwoodAfterDiscard(selectedCards[0])}
                         </span>
                       </span>
                     )}
-                    {selectedCards.length === 0 && (meldSwitching.currentState?.deadwood ?? myPlayer?.deadwood ?? 0) <= 10 && (
+                    {canKnockThisGame && selectedCards.length === 0 && (meldSwitching.currentState?.deadwood ?? myPlayer?.deadwood ?? 0) <= knockLimit && (
                       <span className="text-green-600 ml-1">✓ Can knock!</span>
                     )}
                   </div>
                 </div>
               </div>
-              <div 
+              {hints && (
+                <div className="mb-3 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="font-medium text-yellow-800">💡 Suggestions (best first)</span>
+                    <button onClick={() => setHints(null)} className="text-xs text-yellow-700 hover:text-yellow-900">
+                      Hide
+                    </button>
+                  </div>
+                  <ol className="list-decimal list-inside space-y-0.5 text-gray-700">
+                    {[...hints.draw, ...hints.discard].slice(0, 3).map(hint => (
+                      <li key={`${hint.type}-${hint.cardId ?? ''}`}>
+                        {describeHint(hint)}
+                        <span className={`ml-2 text-xs ${hint.deadwoodDelta < 0 ? 'text-green-600' : 'text-gray-500'}`}>
+                          deadwood {hint.deadwoodDelta > 0 ? '+' : ''}{hint.deadwoodDelta}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                  {!gameState.vsAI && (
+                    <p className="mt-1 text-xs text-gray-500">This game will not count toward your rating.</p>
+                  )}
+                </div>
+              )}
+              <div
                 className="flex flex-wrap gap-1"
                 onDragOver={(e) => e.preventDefault()}
                 onDrop={(e) => {
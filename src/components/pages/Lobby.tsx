@@ -3,13 +3,71 @@ import { useRouter, useSearchParams } from 'next/navigation';
 import crypto from 'crypto';
 import { useLobbyStore } from '../../store/lobby';
 import { useAuthGuard } from '../../hooks/useAuthGuard';
-import { gamesAPI } from '../../services/api';
+import { gamesAPI, matchesAPI, usersAPI } from '../../services/api';
 import { FriendManager } from '../FriendManager';
 import { FriendChat } from '../chat/FriendChat';
 import { FriendsService, Friend } from '../../services/friends';
 import { ChatService } from '../../services/chat';
 import { formatRelativeTime } from '../../utils/helpers';
-import { GameStatus } from '@gin-rummy/common';
+import { AIPersonality, AISpeed, AIStrategy, BotUser, ClockMode, Difficulty, GameStatus, GameType, TimeControl } from '@gin-rummy/common';
+
+const GAME_VARIANTS: Array<{ type: GameType; label: string; description: string }> = [
+  { type: GameType.Standard, label: 'Standard', description: 'Knock with 10 or less deadwood' },
+  { type: GameType.Oklahoma, label: 'Oklahoma', description: 'The first upcard sets the knock limit; spades hands score double' },
+  { type: GameType.Hollywood, label: 'Hollywood', description: 'Each hand counts toward three overlapping games, settled together' },
+  { type: GameType.Straight, label: 'Straight Gin', description: 'No knocking - hands end only by gin' },
+];
+
+const MATCH_LENGTHS = [1, 3, 5, 7];
+
+const TABLE_SIZES: Array<{ seats: 2 | 3 | 4; label: string; description: string }> = [
+  { seats: 2, label: 'Head to head', description: 'One opponent' },
+  { seats: 3, label: 'Cutthroat', description: 'Three players; the dealer sits out each hand' },
+  { seats: 4, label: '2v2 Partnership', description: 'Two tables of two; partners combine their scores' },
+];
+
+const AI_STRATEGIES: Array<{ strategy: AIStrategy; label: string; description: string }> = [
+  { strategy: AIStrategy.Standard, label: 'Standard', description: 'Plays its own hand' },
+  { strategy: AIStrategy.Expert, label: 'Expert', description: 'Tracks the cards you pick up and throw away' },
+  { strategy: AIStrategy.Master, label: 'Master', description: 'Plays out hundreds of possible deals before every move' },
+];
+
+const AI_DIFFICULTIES: Array<{ difficulty: Difficulty; label: string }> = [
+  { difficulty: Difficulty.Easy, label: 'Easy' },
+  { difficulty: Difficulty.Medium, label: 'Medium' },
+  { difficulty: Difficulty.Hard, label: 'Hard' },
+];
+
+const AI_PERSONALITIES: Array<{ personality: AIPersonality; label: string; description: string }> = [
+  { personality: AIPersonality.Balanced, label: 'Balanced', description: 'Knocks when it is likely ahead' },
+  { personality: AIPersonality.AggressiveKnocker, label: 'Knocker', description: 'Knocks as soon as it can' },
+  { personality: AIPersonality.GinHunter, label: 'Gin hunter', description: 'Holds out for gin' },
+];
+
+const AI_SPEEDS: Array<{ speed: AISpeed; label: string }> = [
+  { speed: AISpeed.Instant, label: 'Instant' },
+  { speed: AISpeed.Normal, label: 'Normal' },
+  { speed: AISpeed.Slow, label: 'Slow' },
+];
+
+const TIME_CONTROLS: Array<{ label: string; description: string; timeControl?: TimeControl }> = [
+  { label: 'Untimed', description: 'No clock' },
+  {
+    label: '5 + 3',
+    description: '5 minutes each, 3 seconds added per move, 30 seconds per move',
+    timeControl: { mode: ClockMode.Fischer, initialSeconds: 300, incrementSeconds: 3, moveSeconds: 30 },
+  },
+  {
+    label: '10 + 5',
+    description: '10 minutes each, 5 seconds added per move',
+    timeControl: { mode: ClockMode.Fischer, initialSeconds: 600, incrementSeconds: 5 },
+  },
+  {
+    label: '10 d5',
+    description: '10 minutes each, the first 5 seconds of every move are free',
+    timeControl: { mode: ClockMode.Delay, initialSeconds: 600, incrementSeconds: 5 },
+  },
+];
 
 export default function Lobby() {
   const router = useRouter();
@@ -27,6 +85,16 @@ export default function Lobby() {
     getFilteredGames 
   } = useLobbyStore();
   const [creating, setCreating] = useState(false);
+  const [gameType, setGameType] = useState<GameType>(GameType.Standard);
+  const [timeControlIndex, setTimeControlIndex] = useState(0);
+  const [bestOf, setBestOf] = useState(1);
+  const [tableSize, setTableSize] = useState<2 | 3 | 4>(2);
+  const [aiStrategy, setAIStrategy] = useState<AIStrategy>(AIStrategy.Standard);
+  const [aiDifficulty, setAIDifficulty] = useState<Difficulty>(Difficulty.Medium);
+  const [aiPersonality, setAIPersonality] = useState<AIPersonality>(AIPersonality.Balanced);
+  const [aiSpeed, setAISpeed] = useState<AISpeed>(AISpeed.Normal);
+  const [bots, setBots] = useState<BotUser[]>([]);
+  const [botId, setBotId] = useState<string | null>(null);
   const [joining, setJoining] = useState<string | null>(null);
   const [resigning, setResigning] = useState<string | null>(null);
   const [showResignModal, setShowResignModal] = useState(false);
@@ -41,6 +109,7 @@ export default function Lobby() {
     loadMyGames();
     loadFriends();
     loadUnreadCount();
+    loadBots();
     
     // Check if we should open chat from notification
     const chatUserId = searchParams?.get('chat');
@@ -75,6 +144,16 @@ export default function Lobby() {
     }
   };
 
+  const loadBots = async () => {
+    try {
+      const response = await usersAPI.getBots();
+      setBots(response.data.bots || []);
+    } catch (error) {
+      console.error('Failed to load bots:', error);
+      setBots([]);
+    }
+  };
+
   const loadGames = async () => {
     setLoading(true);
     try {
@@ -113,11 +192,19 @@ export default function Lobby() {
     setCreating(true);
     try {
       console.log(`[NAV DEBUG] Creating ${vsAI ? 'AI' : 'PvP'} game...`);
-      const response = await gamesAPI.createGame({ 
+      // Cutthroat and partnerships are for people only, so AI games are always head to head
+      const maxPlayers = vsAI ? 2 : tableSize;
+      const options = {
         vsAI, 
         isPrivate: false,
-        maxPlayers: 2 
-      });
+        maxPlayers,
+        gameType,
+        timeControl: TIME_CONTROLS[timeControlIndex].timeControl,
+        ...(vsAI ? { aiStrategy, aiDifficulty, aiPersonality, aiSpeed, ...(botId ? { botId } : {}) } : {})
+      };
+      const response = bestOf > 1 && maxPlayers === 2
+        ? await matchesAPI.createMatch({ ...options, bestOf })
+        : await gamesAPI.createGame(options);
       
       const gameId = response.data.gameId;
       console.log(`[NAV DEBUG] Game created with ID: ${gameId}`);
@@ -218,6 +305,82 @@ export default function Lobby() {
       <div className="grid lg:grid-cols-3 gap-8">
         {/* Left Column - Games */}
         <div className="lg:col-span-2 space-y-8">
+          {/* Variant selection */}
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">Variant:</span>
+            {GAME_VARIANTS.map(variant => (
+              <button
+                key={variant.type}
+                onClick={() => setGameType(variant.type)}
+                title={variant.description}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  gameType === variant.type
+                    ? 'bg-primary-100 text-primary-700'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {variant.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Time control selection */}
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">Clock:</span>
+            {TIME_CONTROLS.map((option, index) => (
+              <button
+                key={option.label}
+                onClick={() => setTimeControlIndex(index)}
+                title={option.description}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  timeControlIndex === index
+                    ? 'bg-primary-100 text-primary-700'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Table size selection */}
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">Players:</span>
+            {TABLE_SIZES.map(option => (
+              <button
+                key={option.seats}
+                onClick={() => setTableSize(option.seats)}
+                title={option.description}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  tableSize === option.seats
+                    ? 'bg-primary-100 text-primary-700'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {/* Match length selection */}
+          <div className="flex items-center space-x-2">
+            <span className="text-sm text-gray-600">Match:</span>
+            {MATCH_LENGTHS.map(length => (
+              <button
+                key={length}
+                onClick={() => setBestOf(length)}
+                title={length === 1 ? 'A single game, rated on its own' : `First to ${Math.floor(length / 2) + 1} games, rated once as a match`}
+                className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                  bestOf === length
+                    ? 'bg-primary-100 text-primary-700'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {length === 1 ? 'Single game' : `Best of ${length}`}
+              </button>
+            ))}
+          </div>
+
           {/* Create Game Section */}
           <div className="grid md:grid-cols-2 gap-6">
             <div className="card">
@@ -249,6 +412,106 @@ export default function Lobby() {
                 <p className="text-gray-600 mb-4">
                   Practice against our intelligent AI opponent. Perfect for learning and improving your skills.
                 </p>
+                {bots.length > 0 && (
+                  <div className="flex items-center flex-wrap gap-2 mb-4">
+                    <span className="text-sm text-gray-600">Bot:</span>
+                    <button
+                      onClick={() => setBotId(null)}
+                      title="Unrated games against an AI you configure"
+                      className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                        botId === null
+                          ? 'bg-primary-100 text-primary-700'
+                          : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      Custom
+                    </button>
+                    {bots.map(bot => (
+                      <button
+                        key={bot.id}
+                        onClick={() => setBotId(bot.id)}
+                        title={`Rated games against a fixed ${bot.difficulty} ${bot.strategy} AI`}
+                        className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                          botId === bot.id
+                            ? 'bg-primary-100 text-primary-700'
+                            : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        {bot.username} ({bot.elo})
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {botId === null && (
+                  <>
+                  <div className="flex items-center space-x-2 mb-4">
+                    <span className="text-sm text-gray-600">Opponent:</span>
+                    {AI_STRATEGIES.map(option => (
+                      <button
+                        key={option.strategy}
+                        onClick={() => setAIStrategy(option.strategy)}
+                        title={option.description}
+                        className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                          aiStrategy === option.strategy
+                            ? 'bg-primary-100 text-primary-700'
+                            : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex items-center space-x-2 mb-4">
+                    <span className="text-sm text-gray-600">Difficulty:</span>
+                    {AI_DIFFICULTIES.map(option => (
+                      <button
+                        key={option.difficulty}
+                        onClick={() => setAIDifficulty(option.difficulty)}
+                        className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                          aiDifficulty === option.difficulty
+                            ? 'bg-primary-100 text-primary-700'
+                            : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="flex items-center space-x-2 mb-4">
+                    <span className="text-sm text-gray-600">Style:</span>
+                    {AI_PERSONALITIES.map(option => (
+                      <button
+                        key={option.personality}
+                        onClick={() => setAIPersonality(option.personality)}
+                        title={option.description}
+                        className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                          aiPersonality === option.personality
+                            ? 'bg-primary-100 text-primary-700'
+                            : 'text-gray-500 hover:text-gray-700'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                  </>
+                )}
+                <div className="flex items-center space-x-2 mb-4">
+                  <span className="text-sm text-gray-600">Speed:</span>
+                  {AI_SPEEDS.map(option => (
+                    <button
+                      key={option.speed}
+                      onClick={() => setAISpeed(option.speed)}
+                      className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                        aiSpeed === option.speed
+                          ? 'bg-primary-100 text-primary-700'
+                          : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
                 <button
                   onClick={() => createGame(true)}
                   disabled={creating}
@@ -363,7 +626,9 @@ export default function Lobby() {
                             game.vsAI ? 'bg-blue-400' : 'bg-green-400'
                           }`} />
                           <span className="font-medium">
-                            {game.vsAI ? 'vs AI' : 'PvP'}
+                            {game.vsAI
+                              ? 'vs AI'
+                              : TABLE_SIZES.find(option => option.seats === game.maxPlayers && option.seats > 2)?.label || 'PvP'}
                           </span>
                           {gameView === 'my-games' && (
                             <span className={`text-xs px-2 py-1 rounded-full ${
@@ -1,8 +1,9 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, ChangeEvent } from 'react';
 import { useParams } from 'next/navigation';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar, PieChart, Pie, Cell } from 'recharts';
-import { usersAPI } from '../../services/api';
-import { UserProfile } from '@gin-rummy/common';
+import { gamesAPI, matchesAPI, usersAPI } from '../../services/api';
+import { MatchStandings, UserProfile } from '@gin-rummy/common';
+import MatchScoreboard from '../game/MatchScoreboard';
 import { formatRelativeTime, getEloColor, getEloRank } from '../../utils/helpers';
 import { useAuthStore } from '../../store/auth';
 
@@ -28,6 +29,30 @@ interface UserStats {
     wins: number;
     winRate: number;
   };
+  pve: {
+    gamesPlayed: number;
+    gamesWon: number;
+    winRate: number;
+    byDifficulty: { [difficulty: string]: { wins: number; losses: number } };
+  };
+  headToHead: {
+    opponentId: string;
+    username: string;
+    isBot: boolean;
+    wins: number;
+    losses: number;
+    lastPlayedAt: string;
+  }[];
+}
+
+// What POST /api/games/records found when it played an uploaded record back
+interface CheckedRecord {
+  gameId: string;
+  date: string;
+  players: { id: string; name: string; score: number }[];
+  result: 'P1' | 'P2' | '*';
+  termination: 'QUIT' | 'TIME_LIMIT' | null;
+  hands: number;
 }
 
 export default function Profile() {
@@ -36,8 +61,11 @@ export default function Profile() {
   const { user: currentUser } = useAuthStore();
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [stats, setStats] = useState<UserStats | null>(null);
+  const [matches, setMatches] = useState<MatchStandings[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [checkedRecord, setCheckedRecord] = useState<CheckedRecord | null>(null);
+  const [recordError, setRecordError] = useState<string | null>(null);
   
   const isOwnProfile = currentUser?.username === username;
 
@@ -54,6 +82,14 @@ export default function Profile() {
       // Load profile with history
       const profileResponse = await usersAPI.getProfile(username, { includeHistory: true, historyLimit: 20 });
       setProfile(profileResponse.data);
+
+      try {
+        const matchesResponse = await matchesAPI.listMatches({ userId: profileResponse.data.id, limit: 5 });
+        setMatches(matchesResponse.data.matches);
+      } catch (matchesErr) {
+        console.warn('Failed to load matches:', matchesErr);
+        setMatches([]);
+      }
       
       // Load detailed stats if it's the current user's profile
       const isOwn = currentUser?.username === username;
@@ -73,6 +109,38 @@ export default function Profile() {
     }
   };
 
+  const downloadRecord = async (gameId: string) => {
+    setRecordError(null);
+    try {
+      const response = await gamesAPI.downloadRecord(gameId);
+      const url = URL.createObjectURL(new Blob([response.data], { type: 'text/plain' }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `game-${gameId}.txt`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setRecordError(err.response?.data?.error || 'Failed to download the game record');
+    }
+  };
+
+  const checkRecordFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Lets the same file be chosen again
+    if (!file) {
+      return;
+    }
+
+    setCheckedRecord(null);
+    setRecordError(null);
+    try {
+      const response = await gamesAPI.checkRecord(await file.text());
+      setCheckedRecord(response.data.record);
+    } catch (err: any) {
+      setRecordError(err.response?.data?.error || 'Failed to check the game record');
+    }
+  };
+
   if (loading) {
     return (
       <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -134,6 +202,11 @@ export default function Profile() {
                       You
                     </span>
                   )}
+                  {profile.isBot && (
+                    <span className="px-2 py-1 bg-gray-100 text-gray-700 text-sm font-medium rounded-full">
+                      🤖 Bot
+                    </span>
+                  )}
                 </div>
                 <div className="flex items-center space-x-6 mt-3">
                   <div className={`text-2xl font-bold ${getEloColor(profile.elo)}`}>
@@ -151,6 +224,12 @@ export default function Profile() {
                     Joined {new Date(profile.createdAt).toLocaleDateString()}
                   </div>
                 </div>
+                {profile.bot && (
+                  <p className="mt-2 text-sm text-gray-600">
+                    Always plays the {profile.bot.strategy} strategy on {profile.bot.difficulty} with
+                    a {profile.bot.personality.replace('_', ' ')} style, so its rating is a steady benchmark.
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -191,7 +270,7 @@ export default function Profile() {
 
       {/* Performance Metrics (Enhanced Stats for Own Profile) */}
       {stats && isOwnProfile && (
-        <div className="grid lg:grid-cols-3 gap-6 mb-8">
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           {/* Win/Loss Breakdown */}
           <div className="card">
             <div className="card-body">
@@ -285,6 +364,59 @@ export default function Profile() {
               </div>
             </div>
           </div>
+
+          {/* Games against the AI */}
+          <div className="card">
+            <div className="card-body">
+              <h3 className="text-lg font-semibold mb-4 flex items-center">
+                <div className="w-2 h-2 bg-orange-500 rounded-full mr-2"></div>
+                Vs AI
+              </h3>
+              <div className="space-y-3">
+                {Object.entries(stats.pve.byDifficulty).map(([difficulty, record]) => (
+                  <div key={difficulty} className="flex justify-between items-center">
+                    <span className="text-gray-600 capitalize">{difficulty}</span>
+                    <span className="font-semibold">
+                      {record.wins}W / {record.losses}L
+                    </span>
+                  </div>
+                ))}
+                <div className="pt-2 border-t">
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">Win Rate</span>
+                    <span className="font-semibold">
+                      {stats.pve.gamesPlayed > 0 ? `${stats.pve.winRate.toFixed(1)}%` : '—'}
+                    </span>
+                  </div>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Head-to-head records */}
+      {stats && isOwnProfile && stats.headToHead.length > 0 && (
+        <div className="card mb-8">
+          <div className="card-body">
+            <h2 className="text-xl font-semibold mb-4 flex items-center">
+              <div className="w-2 h-2 bg-teal-500 rounded-full mr-2"></div>
+              Head to Head
+            </h2>
+            <div className="space-y-3">
+              {stats.headToHead.map(record => (
+                <div key={record.opponentId} className="flex justify-between items-center">
+                  <span className="text-gray-600">
+                    {record.username}{record.isBot && ' (bot)'}
+                  </span>
+                  <span className="text-sm text-gray-500">
+                    <span className="font-semibold text-gray-900 mr-3">{record.wins}W / {record.losses}L</span>
+                    {formatRelativeTime(record.lastPlayedAt)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
         </div>
       )}
 
@@ -394,6 +526,23 @@ export default function Profile() {
         </div>
       </div>
 
+      {/* Matches */}
+      {matches.length > 0 && (
+        <div className="card mb-8">
+          <div className="card-body">
+            <h2 className="text-xl font-semibold mb-6 flex items-center">
+              <div className="w-2 h-2 bg-yellow-500 rounded-full mr-2"></div>
+              Matches
+            </h2>
+            <div className="space-y-4">
+              {matches.map(match => (
+                <MatchScoreboard key={match.matchId} match={match} currentGameId={match.currentGameId} highlightPlayerId={profile.id} />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Recent Games */}
       <div className="card">
         <div className="card-body">
@@ -405,7 +554,32 @@ export default function Profile() {
                 {profile.recentGames.length}
               </span>
             )}
+            {isOwnProfile && (
+              <label className="ml-auto text-sm font-normal text-purple-600 hover:text-purple-800 cursor-pointer">
+                Check a game record
+                <input type="file" accept=".txt,text/plain" className="hidden" onChange={checkRecordFile} />
+              </label>
+            )}
           </h2>
+          {recordError && (
+            <div className="mb-4 p-3 rounded-lg bg-red-50 text-sm text-red-700">{recordError}</div>
+          )}
+          {checkedRecord && (
+            <div className="mb-4 p-3 rounded-lg bg-purple-50 text-sm text-gray-700">
+              <div className="font-semibold text-gray-900">
+                {checkedRecord.players.map(player => `${player.name || player.id} (${player.score})`).join(' vs ')}
+              </div>
+              <div>
+                {checkedRecord.date} • {checkedRecord.hands} {checkedRecord.hands === 1 ? 'hand' : 'hands'} •{' '}
+                {checkedRecord.result === '*'
+                  ? 'unfinished'
+                  : `${checkedRecord.players[checkedRecord.result === 'P1' ? 0 : 1].name} won`}
+                {checkedRecord.termination === 'QUIT' && ' by resignation'}
+                {checkedRecord.termination === 'TIME_LIMIT' && ' on time'}
+                {' '}• replays move for move
+              </div>
+            </div>
+          )}
           {profile.recentGames.length > 0 ? (
             <div className="space-y-4">
               {profile.recentGames.map((game, index) => (
@@ -438,6 +612,14 @@ export default function Profile() {
                       <div className="text-sm text-gray-500">
                         {formatRelativeTime(game.createdAt)}
                       </div>
+                      {isOwnProfile && (
+                        <button
+                          onClick={() => downloadRecord(game.id)}
+                          className="text-xs text-purple-600 hover:text-purple-800"
+                        >
+                          Download record
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -1,5 +1,5 @@
 import { useState, useCallback, useMemo } from 'react';
-import { Card, Meld } from '@gin-rummy/common';
+import { Card, Meld, DEFAULT_RULE_SET } from '@gin-rummy/common';
 import { 
   findAllMeldCombinations, 
   findCardMeldOptions, 
@@ -13,7 +13,7 @@ interface MeldSwitchingState {
   switchableCards: Set<string>; // Card IDs that can switch melds
 }
 
-export function useMeldSwitching(hand: Card[]) {
+export function useMeldSwitching(hand: Card[], knockLimit: number = DEFAULT_RULE_SET.knockLimit) {
   const [meldState, setMeldState] = useState<MeldSwitchingState | null>(null);
   
   // Initialize or update meld state when hand changes
@@ -143,10 +143,10 @@ export function useMeldSwitching(hand: Card[]) {
     return {
       melds: meldState.currentMelds,
       deadwood: meldState.deadwood,
-      canKnock: meldState.deadwood <= 10,
+      canKnock: meldState.deadwood <= knockLimit,
       hasGin: meldState.deadwood === 0
     };
-  }, [meldState]);
+  }, [meldState, knockLimit]);
 
   return {
     currentState,
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { useAuthStore } from '../store/auth';
+import type { AIPersonality, AISpeed, AIStrategy, Difficulty, RuleSet, GameType, TimeControl, CreateMatchRequest } from '@gin-rummy/common';
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || (
   typeof window !== 'undefined' 
@@ -101,7 +102,7 @@ export const authAPI = {
 };
 
 export const gamesAPI = {
-  createGame: (data: { vsAI?: boolean; isPrivate?: boolean; maxPlayers?: number }) =>
+  createGame: (data: { vsAI?: boolean; isPrivate?: boolean; maxPlayers?: number; ruleSet?: Partial<RuleSet>; gameType?: GameType; timeControl?: Partial<TimeControl>; aiStrategy?: AIStrategy; aiDifficulty?: Difficulty; aiPersonality?: AIPersonality; aiSpeed?: AISpeed; botId?: string }) =>
     api.post('/games', data), // Uses event-sourced endpoint
   
   listGames: (params?: { status?: string; limit?: number; offset?: number }) =>
@@ -145,6 +146,37 @@ export const gamesAPI = {
   
   getReplay: (gameId: string) =>
     api.get(`/games/${gameId}/replay`),
+
+  // Latest AI move explained; every move's full rationale once the game is over
+  getAIThoughts: (gameId: string) =>
+    api.get(`/games/${gameId}/ai-thoughts`),
+
+  // Counted against the game; a game with hints is not rated
+  getHint: (gameId: string) =>
+    api.post(`/games/${gameId}/hint`),
+
+  // Finished games only
+  getAnalysis: (gameId: string) =>
+    api.get(`/games/${gameId}/analysis`),
+
+  // Finished two-player games only, as game record text
+  downloadRecord: (gameId: string) =>
+    api.get<string>(`/games/${gameId}/record`, { responseType: 'text' }),
+
+  // Replays the record without storing it
+  checkRecord: (record: string) =>
+    api.post('/games/records', { record }),
+};
+
+export const matchesAPI = {
+  createMatch: (data: CreateMatchRequest) =>
+    api.post('/matches', data),
+
+  listMatches: (params?: { userId?: string; limit?: number }) =>
+    api.get('/matches', { params }),
+
+  getMatch: (matchId: string) =>
+    api.get(`/matches/${matchId}`),
 };
 
 export const usersAPI = {
@@ -154,8 +186,11 @@ export const usersAPI = {
   updateProfile: (data: { username?: string }) =>
     api.patch('/users/profile', data),
   
-  getLeaderboard: (params?: { limit?: number; offset?: number }) =>
+  getLeaderboard: (params?: { limit?: number; offset?: number; includeBots?: boolean }) =>
     api.get('/users/leaderboard', { params }),
+
+  getBots: () =>
+    api.get('/users/bots'),
   
   getStats: () =>
     api.get('/users/stats'),
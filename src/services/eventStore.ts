@@ -1,6 +1,8 @@
 import { Prisma, PrismaClient } from '@prisma/client';
 import { createHash, randomUUID } from 'crypto';
-import { GameState } from '@gin-rummy/common';
+import { GameState, serializeState } from '@gin-rummy/common';
+import { ErrorRecoveredEventData, EventType, GameEvent, getCurrentEventVersion } from '../../packages/common/src/types/events';
+import { catchUpProjections } from './projections';
 
 const prisma = new PrismaClient();
 
@@ -30,12 +32,36 @@ export interface GameEventData {
   playerId: string | null;
   eventType: string;
   sequenceNumber: number;
+  eventVersion: number;
   eventData: any;
   metadata?: any;
   requestId: string | null;
   createdAt: Date;
 }
 
+export interface StoredSnapshot {
+  id: string;
+  sequenceNumber: number;
+  state: GameState;
+  stateHash: string;
+  createdAt: Date;
+  createdBy: string | null;
+}
+
+/**
+ * Hash a game state for snapshot verification, over its canonical serialization
+ */
+export function hashState(state: GameState): string {
+  return createHash('sha256').update(serializeState(state)).digest('hex');
+}
+
+/**
+ * Check a snapshot's state still matches the hash it was saved with
+ */
+export function isSnapshotIntact(snapshot: Pick<StoredSnapshot, 'state' | 'stateHash'>): boolean {
+  return hashState(snapshot.state) === snapshot.stateHash;
+}
+
 /**
  * Generate a hash for advisory locks (convert string to bigint)
  * Uses MD5 hash and takes first 64 bits as PostgreSQL bigint
@@ -74,6 +100,7 @@ export class EventStore {
    * @param eventType - Type of event
    * @param eventData - Event payload
    * @param userId - User making the action (optional)
+   * @param metadata - Extra metadata stored alongside the timestamp and requestId (optional)
    * @returns EventAppendResult with success/error details
    */
   static async appendEvent(
@@ -82,7 +109,8 @@ export class EventStore {
     expectedVersion: number,
     eventType: string,
     eventData: any,
-    userId?: string
+    userId?: string,
+    metadata: Record<string, unknown> = {}
   ): Promise<EventAppendResult> {
     console.log(`📝 EventStore: Appending event ${eventType} for game ${gameId}`, {
       requestId,
@@ -91,7 +119,7 @@ export class EventStore {
     });
 
     try {
-      return await prisma.$transaction(async (tx) => {
+      const result = await prisma.$transaction(async (tx): Promise<EventAppendResult> => {
         // 1. IDEMPOTENCY CHECK - if requestId exists, return existing event
         if (requestId) {
           const existingEvent = await tx.gameEvent.findUnique({
@@ -146,10 +174,11 @@ export class EventStore {
         console.log(`✅ EventStore: Creating event with sequence ${newSequence}`);
 
         const serializedEventData = eventData as unknown as Prisma.InputJsonValue;
-        const eventMetadata: Prisma.InputJsonValue = {
+        const eventMetadata = {
+          ...metadata,
           timestamp: new Date().toISOString(),
           requestId,
-        };
+        } as Prisma.InputJsonValue;
 
         const event = await tx.gameEvent.create({
           data: {
@@ -157,6 +186,7 @@ export class EventStore {
             playerId: userId || null,
             eventType: eventType as any, // Cast to EventType enum
             sequenceNumber: newSequence,
+            eventVersion: getCurrentEventVersion(eventType as EventType),
             eventData: serializedEventData,
             metadata: eventMetadata,
             requestId,
@@ -186,6 +216,13 @@ export class EventStore {
         isolationLevel: 'Serializable' // Highest isolation for consistency
       });
 
+      // 6. PROJECT - read models follow the stream once the event is committed
+      if (result.success) {
+        await EventStore.updateProjections(gameId);
+      }
+
+      return result;
+
     } catch (error: any) {
       console.error(`💥 EventStore: Failed to append event:`, error);
       
@@ -214,6 +251,75 @@ export class EventStore {
     }
   }
 
+  /**
+   * Create a game row with its seated participants and opening events in one transaction,
+   * then bring its projections up to date and snapshot the starting position.
+   * Participants are given seats in the order listed.
+   */
+  static async createGameWithEvents(
+    game: Omit<Prisma.GameUncheckedCreateInput, 'eventCount' | 'streamVersion' | 'lastEventAt'>,
+    participantIds: string[],
+    events: GameEvent[]
+  ): Promise<void> {
+    const gameId = game.id!;
+
+    await prisma.$transaction(async (tx) => {
+      await tx.game.create({
+        data: {
+          ...game,
+          eventCount: events.length,
+          streamVersion: events.length,
+          lastEventAt: new Date(),
+        },
+      });
+
+      for (const [seat, userId] of participantIds.entries()) {
+        await tx.gameParticipant.create({
+          data: { gameId, userId, seat },
+        });
+      }
+
+      for (const event of events) {
+        await tx.gameEvent.create({
+          data: {
+            id: event.id,
+            gameId,
+            playerId: event.playerId,
+            eventType: event.eventType,
+            sequenceNumber: event.sequenceNumber,
+            eventVersion: event.eventVersion,
+            eventData: event.eventData as unknown as Prisma.InputJsonValue,
+            metadata: event.metadata as unknown as Prisma.InputJsonValue,
+            processed: true,
+            processedAt: new Date(),
+            createdAt: new Date(event.createdAt),
+          },
+        });
+      }
+    });
+    await this.updateProjections(gameId);
+
+    // Imported lazily: the snapshot service replays through this store
+    const { maybeCaptureSnapshot } = await import('./snapshot');
+    await maybeCaptureSnapshot(gameId, events.length, {
+      eventType: events[events.length - 1]?.eventType,
+      force: true,
+    });
+  }
+
+  /**
+   * Bring the game's projections up to date with its events. Events written without
+   * appendEvent (game creation) call this once committed. A failure is only logged:
+   * the events are safe and the next append catches the projections up.
+   */
+  static async updateProjections(gameId: string): Promise<void> {
+    try {
+      await catchUpProjections(gameId);
+    } catch (error) {
+      console.error(`💥 EventStore: Failed to update projections for game ${gameId}:`, error);
+    }
+  }
+
   /**
    * Get events since a specific version (for incremental updates)
    */
@@ -236,6 +342,7 @@ export class EventStore {
       playerId: event.playerId,
       eventType: event.eventType,
       sequenceNumber: event.sequenceNumber,
+      eventVersion: event.eventVersion,
       eventData: event.eventData,
       metadata: event.metadata,
       requestId: event.requestId,
@@ -277,6 +384,7 @@ export class EventStore {
       playerId: event.playerId,
       eventType: event.eventType,
       sequenceNumber: event.sequenceNumber,
+      eventVersion: event.eventVersion,
       eventData: event.eventData,
       metadata: event.metadata,
       requestId: event.requestId,
@@ -287,24 +395,62 @@ export class EventStore {
   /**
    * Get the latest snapshot for a game (future: for performance optimization)
    */
-  static async getLatestSnapshot(gameId: string) {
+  static async getLatestSnapshot(gameId: string): Promise<StoredSnapshot | null> {
     const snapshot = await prisma.gameSnapshot.findFirst({
       where: { gameId },
       orderBy: { sequenceNumber: 'desc' }
     });
 
-    if (!snapshot) {
-      return null;
-    }
+    return snapshot ? toStoredSnapshot(snapshot) : null;
+  }
 
-    return {
-      id: snapshot.id,
-      sequenceNumber: snapshot.sequenceNumber,
-      state: snapshot.gameState as unknown as GameState,
-      stateHash: snapshot.stateHash,
-      createdAt: snapshot.createdAt,
-      createdBy: snapshot.createdBy
+  /**
+   * Get every snapshot kept for a game, oldest first
+   */
+  static async getSnapshots(gameId: string): Promise<StoredSnapshot[]> {
+    const snapshots = await prisma.gameSnapshot.findMany({
+      where: { gameId },
+      orderBy: { sequenceNumber: 'asc' }
+    });
+
+    return snapshots.map(toStoredSnapshot);
+  }
+
+  /**
+   * Delete a snapshot that can't be trusted and record why with an ERROR_RECOVERED
+   * event, so replays go back to the event stream
+   */
+  static async invalidateSnapshot(
+    gameId: string,
+    snapshot: Pick<StoredSnapshot, 'id' | 'sequenceNumber'>,
+    errorType: string,
+    errorMessage: string
+  ): Promise<void> {
+    console.warn(`📸 EventStore: Invalidating snapshot at version ${snapshot.sequenceNumber} for game ${gameId}: ${errorMessage}`);
+
+    await prisma.gameSnapshot.deleteMany({ where: { id: snapshot.id } });
+
+    const eventData: ErrorRecoveredEventData = {
+      gameId,
+      errorType,
+      errorMessage,
+      recoveryAction: 'SNAPSHOT_INVALIDATED_FULL_REPLAY',
+      sequenceNumberBefore: snapshot.sequenceNumber,
+      sequenceNumberAfter: 0, // Replay now starts from the first event
     };
+
+    // Keyed by the snapshot id so two readers catching the same snapshot record it once.
+    // Another writer landing first only costs us the audit record; the snapshot is already gone.
+    const result = await this.appendEvent(
+      gameId,
+      snapshot.id,
+      await this.getCurrentVersion(gameId),
+      EventType.ERROR_RECOVERED,
+      eventData
+    );
+    if (!result.success) {
+      console.warn(`📸 EventStore: Could not record ERROR_RECOVERED for game ${gameId}:`, result.error);
+    }
   }
 
   /**
@@ -312,8 +458,7 @@ export class EventStore {
    */
   static async saveSnapshot(gameId: string, version: number, state: GameState) {
     try {
-      const stateJson = JSON.stringify(state);
-      const stateHash = createHash('sha256').update(stateJson).digest('hex');
+      const stateHash = hashState(state);
       const serializedState = state as unknown as Prisma.InputJsonValue;
 
       await prisma.gameSnapshot.upsert({
@@ -361,3 +506,14 @@ export class EventStore {
     }
   }
 }
+
+function toStoredSnapshot(snapshot: any): StoredSnapshot {
+  return {
+    id: snapshot.id,
+    sequenceNumber: snapshot.sequenceNumber,
+    state: snapshot.gameState as unknown as GameState,
+    stateHash: snapshot.stateHash,
+    createdAt: snapshot.createdAt,
+    createdBy: snapshot.createdBy
+  };
+}
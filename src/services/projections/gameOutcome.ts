@@ -0,0 +1,84 @@
+import { EventType, GameEvent, GameFinishedEventData, PartnershipHandScoredEventData } from '../../../packages/common/src/types/events';
+import { GameState } from '../../../packages/common/src/types/game';
+import { getPlayerTeam } from '../../../packages/common/src/utils/partnership';
+import type { ProjectionContext } from './index';
+
+// A partnership forfeited without saying how ends in a FORFEIT
+export type EndReason = GameFinishedEventData['endReason'] | 'FORFEIT';
+
+export interface GameOutcome {
+  endReason: EndReason;
+  finishedAt: Date;
+  durationMs: number;
+  players: Array<{ id: string; won: boolean; score: number; opponentScore: number }>;
+}
+
+/**
+ * How a game ended, if this is the event that ended it. A game is over once the engine
+ * says so; a GAME_FINISHED event may follow later, or be the only sign (forfeits).
+ */
+export function getGameOutcome(event: GameEvent, { created, before, after }: ProjectionContext): GameOutcome | null {
+  if (before.gameOver || !after.gameOver || !after.winner) {
+    return null;
+  }
+
+  // Partnership tables are scored through their partnership game
+  if (after.partnership?.tableNumber !== undefined) {
+    return null;
+  }
+
+  const finishedAt = new Date(event.createdAt);
+  const partnership = after.partnership;
+  const winningTeam = partnership ? getPlayerTeam(partnership, after.winner) : null;
+
+  return {
+    endReason: getEndReason(event, before, after),
+    finishedAt,
+    durationMs: Math.max(0, finishedAt.getTime() - new Date(created.createdAt).getTime()),
+    players: after.players.map(player => {
+      // Partners share their team's score, which only the partnership game keeps
+      if (partnership) {
+        const team = getPlayerTeam(partnership, player.id) ?? 0;
+        return {
+          id: player.id,
+          won: team === winningTeam,
+          score: partnership.teamScores[team],
+          opponentScore: partnership.teamScores[1 - team],
+        };
+      }
+
+      const opponents = after.players.filter(other => other.id !== player.id);
+      return {
+        id: player.id,
+        won: player.id === after.winner,
+        score: player.score,
+        opponentScore: Math.max(0, ...opponents.map(other => other.score)),
+      };
+    }),
+  };
+}
+
+function getEndReason(event: GameEvent, before: GameState, after: GameState): EndReason {
+  if (event.eventType === EventType.GAME_FINISHED) {
+    return (event.eventData as GameFinishedEventData).endReason;
+  }
+  if (event.eventType === EventType.TIMEOUT_FORFEIT) {
+    return 'TIME_LIMIT';
+  }
+  if (event.eventType === EventType.PARTNERSHIP_HAND_SCORED) {
+    const data = event.eventData as PartnershipHandScoredEventData;
+    // A forfeit scores no hand at either table
+    if (data.tableScores.length === 0) {
+      return data.forfeitReason ?? 'FORFEIT';
+    }
+  }
+  if (event.eventType === EventType.GIN || after.players.some(player => player.hasGin)) {
+    return 'GIN';
+  }
+
+  // The knocker was undercut if the hand earned them nothing
+  const knockerId = after.lastKnocker ?? before.players.find(player => player.hasKnocked)?.id;
+  const knockerBefore = before.players.find(player => player.id === knockerId);
+  const knockerAfter = after.players.find(player => player.id === knockerId);
+  return knockerBefore && knockerAfter && knockerAfter.score <= knockerBefore.score ? 'UNDERCUT' : 'KNOCK';
+}
@@ -0,0 +1,39 @@
+import type { Projection } from './index';
+import { getGameOutcome } from './gameOutcome';
+
+/**
+ * Wins and losses for every pair of players who have met head to head, one row
+ * from each player's side
+ */
+export const headToHeadProjection: Projection = {
+  name: 'head_to_head',
+
+  async apply(event, context) {
+    const outcome = getGameOutcome(event, context);
+    if (!outcome || outcome.players.length !== 2) {
+      return;
+    }
+
+    for (const [player, opponent] of [outcome.players, [...outcome.players].reverse()]) {
+      await context.tx.headToHead.upsert({
+        where: { playerId_opponentId: { playerId: player.id, opponentId: opponent.id } },
+        update: {
+          wins: { increment: player.won ? 1 : 0 },
+          losses: { increment: player.won ? 0 : 1 },
+          lastPlayedAt: outcome.finishedAt,
+        },
+        create: {
+          playerId: player.id,
+          opponentId: opponent.id,
+          wins: player.won ? 1 : 0,
+          losses: player.won ? 0 : 1,
+          lastPlayedAt: outcome.finishedAt,
+        },
+      });
+    }
+  },
+
+  async reset(tx) {
+    await tx.headToHead.deleteMany({});
+  },
+};
@@ -0,0 +1,139 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../utils/database';
+import { EventSourcingEngine } from '../../../packages/common/src/game-engine/event-sourcing';
+import { EventType, GameCreatedEventData, GameEvent } from '../../../packages/common/src/types/events';
+import { GameState } from '../../../packages/common/src/types/game';
+import { ReplayService } from '../replay';
+import { lobbyGamesProjection } from './lobbyGames';
+import { playerResultsProjection } from './playerResults';
+import { headToHeadProjection } from './headToHead';
+
+/**
+ * Projections - Read models kept up to date from the event stream
+ *
+ * Each projection folds a game's events into its own read table. EventStore runs
+ * them after every append. A projection's position per game records the last event
+ * it applied and moves in the same transaction as its rows, so every event is
+ * applied exactly once however many appends race to catch up.
+ * Because read tables hold nothing the events don't, rebuildProjections can drop
+ * them and replay every game from its first event.
+ */
+
+export interface ProjectionContext {
+  tx: Prisma.TransactionClient;
+  created: GameEvent<GameCreatedEventData>;
+  before: GameState; // State before the event
+  after: GameState; // State after the event
+}
+
+export interface Projection {
+  name: string;
+  apply(event: GameEvent, context: ProjectionContext): Promise<void>;
+  reset(tx: Prisma.TransactionClient): Promise<void>;
+}
+
+const PROJECTIONS: Projection[] = [lobbyGamesProjection, playerResultsProjection, headToHeadProjection];
+
+// The earliest event any projection still needs; events up to there never change
+function getStartingPosition(positions: Array<{ projection: string; sequenceNumber: number }>): number {
+  return Math.min(...PROJECTIONS.map(projection =>
+    positions.find(position => position.projection === projection.name)?.sequenceNumber ?? 0
+  ));
+}
+
+function cloneState(state: GameState): GameState {
+  return JSON.parse(JSON.stringify(state));
+}
+
+/**
+ * Apply a game's events that its projections haven't seen yet. Returns how many
+ * events were read.
+ */
+export async function catchUpProjections(gameId: string): Promise<number> {
+  // Rebuilding the starting state can invalidate a bad snapshot, which appends an event
+  // and so catches up itself; do it before taking the lock
+  const from = getStartingPosition(await prisma.projectionPosition.findMany({ where: { gameId } }));
+  const baseState = from > 0 ? (await ReplayService.rebuildState(gameId, from)).state : undefined;
+
+  return prisma.$transaction(async (tx) => {
+    // Two appends to the same game must not apply the same events twice
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`projections:${gameId}`}))`;
+
+    // Positions may have moved on since; events between are skipped per projection below
+    const positions = await tx.projectionPosition.findMany({ where: { gameId } });
+    const positionOf = (name: string) => positions.find(position => position.projection === name)?.sequenceNumber ?? 0;
+
+    const [createdRow, rows] = await Promise.all([
+      tx.gameEvent.findFirst({ where: { gameId, eventType: EventType.GAME_CREATED } }),
+      tx.gameEvent.findMany({
+        where: { gameId, sequenceNumber: { gt: from } },
+        orderBy: { sequenceNumber: 'asc' },
+      }),
+    ]);
+    if (!createdRow || rows.length === 0) {
+      return 0;
+    }
+
+    const [created] = ReplayService.toEngineEvents([createdRow]) as GameEvent<GameCreatedEventData>[];
+    const events = ReplayService.toEngineEvents(rows);
+
+    const engine = new EventSourcingEngine(gameId, [], baseState, from);
+    let before = cloneState(engine.replayEvents());
+
+    for (const event of events) {
+      const after = cloneState(engine.applyEvent(event));
+      for (const projection of PROJECTIONS) {
+        if (event.sequenceNumber > positionOf(projection.name)) {
+          await projection.apply(event, { tx, created, before, after });
+        }
+      }
+      before = after;
+    }
+
+    const sequenceNumber = events[events.length - 1].sequenceNumber;
+    for (const projection of PROJECTIONS) {
+      await tx.projectionPosition.upsert({
+        where: { projection_gameId: { projection: projection.name, gameId } },
+        update: { sequenceNumber },
+        create: { projection: projection.name, gameId, sequenceNumber },
+      });
+    }
+
+    return events.length;
+  }, {
+    timeout: 30000, // Long games replay a few hundred events
+  });
+}
+
+/**
+ * Drop every read model and rebuild it by replaying all games from their first event
+ */
+export async function rebuildProjections(
+  onGame?: (gameId: string, events: number, error?: unknown) => void
+): Promise<{ games: number; events: number; failed: number }> {
+  await prisma.$transaction(async (tx) => {
+    for (const projection of PROJECTIONS) {
+      await projection.reset(tx);
+    }
+    await tx.projectionPosition.deleteMany({});
+  });
+
+  const games = await prisma.game.findMany({
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  });
+
+  const totals = { games: games.length, events: 0, failed: 0 };
+  for (const game of games) {
+    try {
+      const events = await catchUpProjections(game.id);
+      totals.events += events;
+      onGame?.(game.id, events);
+    } catch (error) {
+      totals.failed++;
+      onGame?.(game.id, 0, error);
+    }
+  }
+
+  return totals;
+}
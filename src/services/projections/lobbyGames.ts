@@ -0,0 +1,46 @@
+import { GameStatus as LobbyStatus } from '@prisma/client';
+import { EventType } from '../../../packages/common/src/types/events';
+import { GameType, OPEN_SEAT } from '../../../packages/common/src/types/game';
+import type { Projection } from './index';
+
+/**
+ * A row per game with who is seated and where it stands, for the lobby and "My Games"
+ */
+export const lobbyGamesProjection: Projection = {
+  name: 'lobby_games',
+
+  async apply(event, { tx, created, after }) {
+    // A partnership table seats its own two players out of the partnership's four
+    const atTable = after.partnership?.tableNumber !== undefined;
+    const seats = (!atTable && (after.partnership?.seats ?? after.cutthroat?.seats)) || after.players.map(player => player.id);
+    const status: LobbyStatus = event.eventType === EventType.GAME_CANCELLED
+      ? LobbyStatus.CANCELLED
+      : after.gameOver ? LobbyStatus.FINISHED : LobbyStatus[after.status];
+
+    const row = {
+      status,
+      playerIds: seats.filter(id => id !== OPEN_SEAT),
+      currentPlayerId: after.gameOver ? null : after.currentPlayerId || null,
+      lastEventAt: new Date(event.createdAt),
+    };
+
+    await tx.lobbyGame.upsert({
+      where: { gameId: event.gameId },
+      update: row,
+      create: {
+        gameId: event.gameId,
+        gameType: created.eventData.gameType ?? GameType.Standard,
+        maxPlayers: created.eventData.maxPlayers,
+        isPrivate: created.eventData.isPrivate,
+        vsAI: created.eventData.vsAI,
+        parentGameId: atTable ? after.partnership!.parentGameId : null,
+        createdAt: new Date(created.createdAt),
+        ...row,
+      },
+    });
+  },
+
+  async reset(tx) {
+    await tx.lobbyGame.deleteMany({});
+  },
+};
@@ -0,0 +1,43 @@
+import { Difficulty } from '../../../packages/common/src/types/game';
+import type { Projection } from './index';
+import { getGameOutcome } from './gameOutcome';
+
+/**
+ * One row per player per finished game, which the stats endpoint aggregates
+ */
+export const playerResultsProjection: Projection = {
+  name: 'player_results',
+
+  async apply(event, context) {
+    const outcome = getGameOutcome(event, context);
+    if (!outcome) {
+      return;
+    }
+
+    const { after } = context;
+    for (const player of outcome.players) {
+      const opponents = outcome.players.filter(other => other.id !== player.id);
+      const result = {
+        opponentId: opponents.length === 1 ? opponents[0].id : null,
+        won: player.won,
+        endReason: outcome.endReason,
+        pointsFor: player.score,
+        pointsAgainst: player.opponentScore,
+        durationMs: outcome.durationMs,
+        vsAI: after.vsAI,
+        aiDifficulty: after.vsAI ? after.aiDifficulty ?? Difficulty.Medium : null,
+        finishedAt: outcome.finishedAt,
+      };
+
+      await context.tx.playerResult.upsert({
+        where: { userId_gameId: { userId: player.id, gameId: event.gameId } },
+        update: result,
+        create: { userId: player.id, gameId: event.gameId, ...result },
+      });
+    }
+  },
+
+  async reset(tx) {
+    await tx.playerResult.deleteMany({});
+  },
+};
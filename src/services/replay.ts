@@ -1,4 +1,4 @@
-import { EventStore, GameEventData } from './eventStore';
+import { EventStore, GameEventData, isSnapshotIntact } from './eventStore';
 import { EventSourcingEngine } from '../../packages/common/src/game-engine/event-sourcing';
 import { GameState } from '../../packages/common/src/types/game';
 import { GameEvent } from '../../packages/common/src/types/events';
@@ -10,7 +10,7 @@ import { GameEvent } from '../../packages/common/src/types/events';
  * - Full game state reconstruction from events
  * - Incremental state updates from tail events  
  * - Integration with existing EventSourcingEngine
- * - Future: Snapshot-based optimization
+ * - Snapshot-based optimization, falling back to a full replay when a snapshot fails its hash
  */
 
 export interface ReplayResult {
@@ -32,6 +32,25 @@ export class ReplayService {
     return this.applyPlayerFilter(clonedState, playerId);
   }
 
+  /**
+   * Convert stored events to the format expected by EventSourcingEngine
+   */
+  static toEngineEvents(events: GameEventData[]): GameEvent[] {
+    return events.map(event => ({
+      id: event.id,
+      gameId: event.gameId,
+      playerId: event.playerId || undefined, // Convert null to undefined
+      eventType: event.eventType as any, // EventType enum
+      sequenceNumber: event.sequenceNumber,
+      eventVersion: event.eventVersion,
+      eventData: event.eventData,
+      metadata: event.metadata || {},
+      processed: true,
+      processedAt: event.createdAt.toISOString(),
+      createdAt: event.createdAt.toISOString()
+    }));
+  }
+
   /**
    * Rebuild complete game state from event stream
    * 
@@ -47,7 +66,14 @@ export class ReplayService {
       let baseState: GameState | undefined;
       let startingVersion = 0;
 
-      if (latestSnapshot && (!upToVersion || latestSnapshot.sequenceNumber <= upToVersion)) {
+      if (latestSnapshot && !isSnapshotIntact(latestSnapshot)) {
+        await EventStore.invalidateSnapshot(
+          gameId,
+          latestSnapshot,
+          'SNAPSHOT_HASH_MISMATCH',
+          `Snapshot at version ${latestSnapshot.sequenceNumber} does not match its stored hash`
+        );
+      } else if (latestSnapshot && (!upToVersion || latestSnapshot.sequenceNumber <= upToVersion)) {
         baseState = latestSnapshot.state;
         startingVersion = latestSnapshot.sequenceNumber;
         console.log(`📸 ReplayService: Using snapshot at version ${startingVersion} for game ${gameId}`);
@@ -64,19 +90,7 @@ export class ReplayService {
       console.log(`📚 ReplayService: Loaded ${events.length} events after version ${startingVersion}`);
 
       // Convert our EventStore format to the format expected by EventSourcingEngine
-      const gameEvents: GameEvent[] = events.map(event => ({
-        id: event.id,
-        gameId: event.gameId,
-        playerId: event.playerId || undefined, // Convert null to undefined
-        eventType: event.eventType as any, // EventType enum
-        sequenceNumber: event.sequenceNumber,
-        eventVersion: 1,
-        eventData: event.eventData,
-        metadata: event.metadata || {},
-        processed: true,
-        processedAt: event.createdAt.toISOString(),
-        createdAt: event.createdAt.toISOString()
-      }));
+      const gameEvents = this.toEngineEvents(events);
 
       // Use existing event sourcing engine to rebuild state
       const engine = new EventSourcingEngine(gameId, gameEvents, baseState, startingVersion);
@@ -130,19 +144,7 @@ export class ReplayService {
       console.log(`📬 ReplayService: Applying ${tailEvents.length} tail events`);
 
       // Convert to EventSourcingEngine format
-      const gameEvents: GameEvent[] = tailEvents.map(event => ({
-        id: event.id,
-        gameId: event.gameId,
-        playerId: event.playerId || undefined, // Convert null to undefined
-        eventType: event.eventType as any,
-        sequenceNumber: event.sequenceNumber,
-        eventVersion: 1,
-        eventData: event.eventData,
-        metadata: event.metadata || {},
-        processed: true,
-        processedAt: event.createdAt.toISOString(),
-        createdAt: event.createdAt.toISOString()
-      }));
+      const gameEvents = this.toEngineEvents(tailEvents);
 
       // Apply tail events to base state  
       const engine = new EventSourcingEngine(gameId, gameEvents, baseState, fromVersion);
@@ -208,6 +210,16 @@ export class ReplayService {
     // Find the viewer and opponent
     const viewer = filteredState.players.find((p: any) => p.id === viewerId);
     const opponent = filteredState.players.find((p: any) => p.id !== viewerId);
+
+    // A cutthroat dealer sitting out the hand watches it without seeing either hand
+    const isSittingOut = !viewer && state.cutthroat?.sittingOut?.id === viewerId;
+    if (isSittingOut && state.phase !== 'layoff' && state.phase !== 'round_over' && state.phase !== 'game_over') {
+      for (const player of filteredState.players) {
+        player.handSize = player.hand?.length || 0;
+        player.hand = Array(player.handSize).fill({ id: 'hidden', rank: '?', suit: '?', isHidden: true });
+      }
+      return filteredState;
+    }
     
     if (!viewer || !opponent) {
       console.warn(`⚠️ ReplayService: Could not identify viewer/opponent for filtering`);
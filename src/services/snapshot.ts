@@ -5,7 +5,7 @@ import { EventStore } from './eventStore';
 const DEFAULT_INTERVAL = 25;
 const DISABLED_FLAG = 'false';
 
-const defaultForceEvents = ['GAME_STARTED', 'ROUND_ENDED', 'GAME_FINISHED'];
+const defaultForceEvents = ['GAME_STARTED', 'ROUND_ENDED', 'ROUND_DRAWN', 'GAME_FINISHED'];
 const configForceEvents = process.env.GAME_SNAPSHOT_FORCE_EVENTS
   ? process.env.GAME_SNAPSHOT_FORCE_EVENTS.split(',').map((value) => value.trim()).filter(Boolean)
   : [];
@@ -1,4 +1,4 @@
-import { Suit, Rank } from '@gin-rummy/common';
+import { Suit, Rank, DEFAULT_RULE_SET } from '@gin-rummy/common';
 
 export const CARD_SUITS = [
   { suit: Suit.Hearts, symbol: '♥', color: 'red' },
@@ -39,10 +39,11 @@ export const MOVE_TYPES = {
 
 export const GAME_RULES = {
   HAND_SIZE: 10,
-  MAX_DEADWOOD_TO_KNOCK: 10,
-  GIN_BONUS: 25,
-  UNDERCUT_BONUS: 25,
-  GAME_WINNING_SCORE: 100,
+  // Defaults only - each game carries its own rule set in GAME_CREATED
+  MAX_DEADWOOD_TO_KNOCK: DEFAULT_RULE_SET.knockLimit,
+  GIN_BONUS: DEFAULT_RULE_SET.ginBonus,
+  UNDERCUT_BONUS: DEFAULT_RULE_SET.undercutBonus,
+  GAME_WINNING_SCORE: DEFAULT_RULE_SET.targetScore,
   TURN_TIME_LIMIT: 30, // seconds
 } as const;
 
@@ -1,4 +1,5 @@
 import { prisma } from './database';
+import type { HollywoodSettlement } from '@gin-rummy/common';
 
 /**
  * ELO Rating System for Gin Rummy
@@ -52,6 +53,16 @@ function getKFactor(gamesPlayed: number): number {
   return K_FACTORS.EXPERT;
 }
 
+/**
+ * Winner's actual score for a Hollywood settlement: their share of the three games,
+ * never below a draw since they won the settlement overall
+ */
+export function getSettlementScore(settlement: HollywoodSettlement, winnerId: string): number {
+  if (settlement.games.length === 0) return 1;
+  const gamesWon = settlement.games.filter(game => game.winnerId === winnerId).length;
+  return Math.max(0.5, gamesWon / settlement.games.length);
+}
+
 /**
  * Calculate ELO rating changes for both players
  */
@@ -59,7 +70,8 @@ export function calculateEloChanges(
   winnerElo: number,
   loserElo: number,
   winnerGamesPlayed: number,
-  loserGamesPlayed: number
+  loserGamesPlayed: number,
+  winnerActualScore: number = 1 // Below 1 for partial wins such as a split Hollywood settlement
 ): EloCalculation {
   // Calculate expected scores
   const winnerExpected = calculateExpectedScore(winnerElo, loserElo);
@@ -70,8 +82,8 @@ export function calculateEloChanges(
   const loserK = getKFactor(loserGamesPlayed);
   
   // Calculate rating changes
-  const winnerChange = Math.round(winnerK * (1 - winnerExpected));
-  const loserChange = Math.round(loserK * (0 - loserExpected));
+  const winnerChange = Math.round(winnerK * (winnerActualScore - winnerExpected));
+  const loserChange = Math.round(loserK * ((1 - winnerActualScore) - loserExpected));
   
   return {
     winner: {
@@ -93,7 +105,8 @@ export function calculateEloChanges(
 export async function updatePlayerElos(
   winnerId: string,
   loserId: string,
-  gameId: string
+  gameId: string,
+  settlement?: HollywoodSettlement
 ): Promise<EloCalculation> {
   console.log(`🎯 ELO: Updating ratings for game ${gameId} - Winner: ${winnerId}, Loser: ${loserId}`);
   
@@ -121,7 +134,8 @@ export async function updatePlayerElos(
       winner.elo,
       loser.elo,
       winner.gamesPlayed,
-      loser.gamesPlayed
+      loser.gamesPlayed,
+      settlement ? getSettlementScore(settlement, winnerId) : 1
     );
 
     console.log(`🎯 ELO: Calculated changes - Winner: ${eloChanges.winner.change} (${winner.elo} → ${eloChanges.winner.newElo}), Loser: ${eloChanges.loser.change} (${loser.elo} → ${eloChanges.loser.newElo})`);
@@ -178,6 +192,88 @@ export async function updatePlayerElos(
   }
 }
 
+export interface TeamEloChange {
+  userId: string;
+  oldElo: number;
+  newElo: number;
+  change: number;
+}
+
+/**
+ * Update ELO ratings after a partnership or cutthroat game. Each player is
+ * rated against the average of the opposing side, keeping their own K-factor.
+ */
+export async function updateTeamElos(
+  winnerIds: string[],
+  loserIds: string[],
+  gameId: string
+): Promise<TeamEloChange[]> {
+  console.log(`🎯 ELO: Updating team ratings for game ${gameId} - Winners: ${winnerIds.join(', ')}, Losers: ${loserIds.join(', ')}`);
+
+  try {
+    const players = await prisma.user.findMany({
+      where: { id: { in: [...winnerIds, ...loserIds] } },
+      select: { id: true, username: true, elo: true, gamesPlayed: true }
+    });
+
+    const winners = players.filter(player => winnerIds.includes(player.id));
+    const losers = players.filter(player => loserIds.includes(player.id));
+
+    if (winners.length !== winnerIds.length || losers.length !== loserIds.length) {
+      throw new Error('Player not found for ELO update');
+    }
+
+    const average = (team: typeof players) => ({
+      elo: Math.round(team.reduce((sum, player) => sum + player.elo, 0) / team.length),
+      gamesPlayed: Math.round(team.reduce((sum, player) => sum + player.gamesPlayed, 0) / team.length),
+    });
+    const winningTeam = average(winners);
+    const losingTeam = average(losers);
+
+    const changes: TeamEloChange[] = [
+      ...winners.map(player => ({
+        userId: player.id,
+        won: true,
+        ...calculateEloChanges(player.elo, losingTeam.elo, player.gamesPlayed, losingTeam.gamesPlayed).winner
+      })),
+      ...losers.map(player => ({
+        userId: player.id,
+        won: false,
+        ...calculateEloChanges(winningTeam.elo, player.elo, winningTeam.gamesPlayed, player.gamesPlayed).loser
+      })),
+    ].map(({ won, ...change }) => {
+      console.log(`🎯 ELO: ${change.userId} ${won ? 'won' : 'lost'} ${change.change} (${change.oldElo} → ${change.newElo})`);
+      return change;
+    });
+
+    await prisma.$transaction(changes.flatMap(change => [
+      prisma.user.update({
+        where: { id: change.userId },
+        data: {
+          elo: change.newElo,
+          gamesPlayed: { increment: 1 },
+          ...(winnerIds.includes(change.userId) && { gamesWon: { increment: 1 } })
+        }
+      }),
+      prisma.eloHistory.create({
+        data: {
+          userId: change.userId,
+          elo: change.newElo,
+          change: change.change,
+          gameId: gameId
+        }
+      })
+    ]));
+
+    console.log(`✅ ELO: Successfully updated team ratings for game ${gameId}`);
+    return changes;
+
+  } catch (error) {
+    console.error(`❌ ELO: Failed to update team ratings for game ${gameId}:`, error);
+    throw error;
+  }
+}
+
 /**
  * Get ELO rating tier name
  */
@@ -237,10 +333,11 @@ export async function getPlayerEloStats(playerId: string) {
 }
 
 /**
- * Get ELO leaderboard
+ * Get ELO leaderboard, leaving out bots unless asked for
  */
-export async function getEloLeaderboard(limit: number = 10) {
+export async function getEloLeaderboard(limit: number = 10, includeBots: boolean = false) {
   const topPlayers = await prisma.user.findMany({
+    where: includeBots ? {} : { isBot: false },
     orderBy: { elo: 'desc' },
     take: limit,
     select: {
@@ -248,7 +345,8 @@ export async function getEloLeaderboard(limit: number = 10) {
       username: true,
       elo: true,
       gamesPlayed: true,
-      gamesWon: true
+      gamesWon: true,
+      isBot: true
     }
   });
 
@@ -28,6 +28,14 @@ export function formatCard(card: Card): { display: string; symbol: string; color
   };
 }
 
+/**
+ * Short label for a card from its id (suit_rank), e.g. "Q♥"
+ */
+export function formatCardId(cardId: string): string {
+  const [suit, rank] = cardId.split('_');
+  return `${rank ?? cardId}${getSuitSymbol(suit as Suit)}`;
+}
+
 /**
  * Format time duration in seconds to MM:SS
  */
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { checkDeal, commitToSeed, createCommittedDeal, getDealSeed, verifyDeals } from '../lib/deal-seeds';
+
+const GAME_ID = 'verify-game';
+
+const dealt = (sequenceNumber: number, roundNumber: number, eventType = 'START_NEW_ROUND') => {
+  const { deal, seedCommitment } = createCommittedDeal(GAME_ID, roundNumber);
+  return {
+    eventType,
+    sequenceNumber,
+    eventData: eventType === 'GAME_STARTED'
+      ? { initialDeal: deal, seedCommitment }
+      : { roundNumber, newDeal: deal, seedCommitment },
+  };
+};
+
+const revealed = (eventType: string, sequenceNumber: number, roundNumber: number) => ({
+  eventType,
+  sequenceNumber,
+  eventData: { seed: getDealSeed(GAME_ID, roundNumber) },
+});
+
+describe('Deal Verification', () => {
+  beforeEach(() => {
+    process.env.DEAL_SEED_SECRET = 'test-deal-seed-secret';
+  });
+
+  afterEach(() => {
+    delete process.env.DEAL_SEED_SECRET;
+  });
+
+  it('should refuse to deal without a deal seed secret', () => {
+    delete process.env.DEAL_SEED_SECRET;
+
+    expect(() => createCommittedDeal(GAME_ID, 1)).toThrow('DEAL_SEED_SECRET is not configured');
+  });
+
+  describe('checkDeal', () => {
+    it('should verify a deal shuffled from the revealed seed', () => {
+      const { deal, seedCommitment } = createCommittedDeal(GAME_ID, 1);
+
+      expect(checkDeal(deal, seedCommitment, getDealSeed(GAME_ID, 1)).status).toBe('verified');
+    });
+
+    it('should reject a seed that does not match the commitment', () => {
+      const { deal, seedCommitment } = createCommittedDeal(GAME_ID, 1);
+      const result = checkDeal(deal, seedCommitment, getDealSeed(GAME_ID, 2));
+
+      expect(result.status).toBe('mismatch');
+      expect(result.reason).toContain('commitment');
+    });
+
+    it('should reject a deal that was stacked after committing', () => {
+      const { deal, seedCommitment } = createCommittedDeal(GAME_ID, 1);
+      const stacked = { ...deal, player1Hand: deal.player2Hand, player2Hand: deal.player1Hand };
+      const result = checkDeal(stacked, seedCommitment, getDealSeed(GAME_ID, 1));
+
+      expect(result.status).toBe('mismatch');
+      expect(result.reason).toContain('differs');
+    });
+
+    it('should report a deal without a commitment as uncommitted', () => {
+      const { deal } = createCommittedDeal(GAME_ID, 1);
+
+      expect(checkDeal(deal, undefined, getDealSeed(GAME_ID, 1)).status).toBe('uncommitted');
+    });
+  });
+
+  describe('verifyDeals', () => {
+    it('should check each hand against the seed revealed by the event that ended it', () => {
+      const report = verifyDeals([
+        dealt(2, 1, 'GAME_STARTED'),
+        revealed('GIN', 10, 1),
+        dealt(11, 2),
+        revealed('AI_LAYOFF_DECISION', 20, 2),
+        dealt(21, 3),
+        revealed('ROUND_DRAWN', 30, 3),
+        dealt(31, 4),
+        revealed('GAME_FINISHED', 40, 4),
+      ], true);
+
+      expect(report.deals.map(deal => deal.status)).toEqual(['verified', 'verified', 'verified', 'verified']);
+      expect(report.verified).toBe(true);
+    });
+
+    it('should only take the first reveal after a deal', () => {
+      const report = verifyDeals([
+        dealt(2, 1, 'GAME_STARTED'),
+        revealed('ROUND_ENDED', 10, 1),
+        { eventType: 'GAME_FINISHED', sequenceNumber: 11, eventData: { seed: 'another-seed' } },
+      ], true);
+
+      expect(report.deals[0]).toMatchObject({ status: 'verified', seed: getDealSeed(GAME_ID, 1) });
+    });
+
+    it('should leave the hand in play pending while the game goes on', () => {
+      const report = verifyDeals([dealt(2, 1, 'GAME_STARTED')]);
+
+      expect(report.deals[0].status).toBe('pending');
+      expect(report.verified).toBe(true);
+    });
+
+    it('should not verify a finished game with a hand that never revealed its seed', () => {
+      const report = verifyDeals([
+        dealt(2, 1, 'GAME_STARTED'),
+        { eventType: 'GAME_FINISHED', sequenceNumber: 10, eventData: {} },
+      ], true);
+
+      expect(report.deals[0].status).toBe('unrevealed');
+      expect(report.verified).toBe(false);
+    });
+
+    it('should fail the report when a revealed seed does not check out', () => {
+      const { deal } = createCommittedDeal(GAME_ID, 1);
+      const report = verifyDeals([
+        { eventType: 'GAME_STARTED', sequenceNumber: 2, eventData: { initialDeal: deal, seedCommitment: commitToSeed('other') } },
+        revealed('ROUND_ENDED', 10, 1),
+      ]);
+
+      expect(report.deals[0].status).toBe('mismatch');
+      expect(report.verified).toBe(false);
+    });
+  });
+});
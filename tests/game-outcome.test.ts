@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import { EventType, GameEvent, createGameEvent } from '../packages/common/src/types/events';
+import { GameState, PartnershipState, PlayerState } from '../packages/common/src/types/game';
+import { getGameOutcome } from '../src/services/projections/gameOutcome';
+import { headToHeadProjection } from '../src/services/projections/headToHead';
+import type { ProjectionContext } from '../src/services/projections';
+
+const created = createGameEvent('game', EventType.GAME_CREATED, {}, 'alice', 1) as ProjectionContext['created'];
+created.createdAt = '2026-01-01T00:00:00.000Z';
+
+const player = (id: string, score: number, flags: Partial<PlayerState> = {}) =>
+  ({ id, score, hasGin: false, hasKnocked: false, ...flags }) as PlayerState;
+
+const state = (players: PlayerState[], overrides: Partial<GameState> = {}) =>
+  ({ players, gameOver: false, ...overrides }) as GameState;
+
+const context = (before: GameState, after: GameState, tx = {}) =>
+  ({ tx, created, before, after }) as ProjectionContext;
+
+const event = (eventType: EventType, eventData: object = {}): GameEvent => ({
+  ...createGameEvent('game', eventType, eventData as any, 'alice', 40),
+  createdAt: '2026-01-01T00:10:00.000Z',
+});
+
+describe('Game Outcome', () => {
+  it('should report a gin that ends the game', () => {
+    const before = state([player('alice', 80), player('bob', 40)]);
+    const after = state([player('alice', 125, { hasGin: true }), player('bob', 40)], { gameOver: true, winner: 'alice' });
+
+    const outcome = getGameOutcome(event(EventType.ROUND_ENDED), context(before, after));
+
+    expect(outcome).toEqual({
+      endReason: 'GIN',
+      finishedAt: new Date('2026-01-01T00:10:00.000Z'),
+      durationMs: 10 * 60 * 1000,
+      players: [
+        { id: 'alice', won: true, score: 125, opponentScore: 40 },
+        { id: 'bob', won: false, score: 40, opponentScore: 125 },
+      ],
+    });
+  });
+
+  it('should tell a knock from an undercut by what the knocker scored', () => {
+    const before = state([player('alice', 90, { hasKnocked: true }), player('bob', 80)]);
+
+    const knocked = state([player('alice', 102), player('bob', 80)], { gameOver: true, winner: 'alice', lastKnocker: 'alice' });
+    expect(getGameOutcome(event(EventType.ROUND_ENDED), context(before, knocked))?.endReason).toBe('KNOCK');
+
+    const undercut = state([player('alice', 90), player('bob', 105)], { gameOver: true, winner: 'bob', lastKnocker: 'alice' });
+    expect(getGameOutcome(event(EventType.ROUND_ENDED), context(before, undercut))?.endReason).toBe('UNDERCUT');
+  });
+
+  it('should only report the event that ends the game', () => {
+    const playing = state([player('alice', 40), player('bob', 20)]);
+    const over = state([player('alice', 110), player('bob', 20)], { gameOver: true, winner: 'alice' });
+
+    expect(getGameOutcome(event(EventType.DISCARD_CARD), context(playing, playing))).toBeNull();
+    expect(getGameOutcome(event(EventType.ROUND_ENDED), context(playing, over))).not.toBeNull();
+    expect(getGameOutcome(event(EventType.GAME_FINISHED, { endReason: 'KNOCK' }), context(over, over))).toBeNull();
+  });
+
+  it('should leave partnership tables to their partnership game', () => {
+    const partnership = { parentGameId: 'parent', tableNumber: 0, seats: ['north', 'east', 'south', 'west'] } as PartnershipState;
+    const before = state([player('north', 90), player('east', 20)], { partnership });
+    const after = state([player('north', 110), player('east', 20)], { partnership, gameOver: true, winner: 'north' });
+
+    expect(getGameOutcome(event(EventType.ROUND_ENDED), context(before, after))).toBeNull();
+  });
+
+  it('should score a partnership game by team', () => {
+    const seats = ['north', 'east', 'south', 'west'];
+    const players = seats.map(id => player(id, 0));
+    const partnership = { parentGameId: 'parent', seats, tables: [], handsScored: 3 } as unknown as PartnershipState;
+    const before = state(players, { partnership: { ...partnership, teamScores: [70, 60] } });
+    const after = state(players, { partnership: { ...partnership, teamScores: [70, 60], winningTeam: 1 }, gameOver: true, winner: 'east' });
+
+    const forfeit = event(EventType.PARTNERSHIP_HAND_SCORED, { tableScores: [], teamScores: [70, 60], winningTeam: 1, forfeitReason: 'QUIT' });
+    const outcome = getGameOutcome(forfeit, context(before, after));
+
+    expect(outcome?.endReason).toBe('QUIT');
+    expect(outcome?.players).toEqual([
+      { id: 'north', won: false, score: 70, opponentScore: 60 },
+      { id: 'east', won: true, score: 60, opponentScore: 70 },
+      { id: 'south', won: false, score: 70, opponentScore: 60 },
+      { id: 'west', won: true, score: 60, opponentScore: 70 },
+    ]);
+
+    const unexplained = event(EventType.PARTNERSHIP_HAND_SCORED, { tableScores: [], teamScores: [70, 60], winningTeam: 1 });
+    expect(getGameOutcome(unexplained, context(before, after))?.endReason).toBe('FORFEIT');
+  });
+
+  it('should count a head-to-head result once from each side', async () => {
+    const upserts: any[] = [];
+    const tx = { headToHead: { upsert: async (args: any) => upserts.push(args) } };
+    const before = state([player('alice', 80), player('bob', 40)]);
+    const after = state([player('alice', 125, { hasGin: true }), player('bob', 40)], { gameOver: true, winner: 'alice' });
+
+    await headToHeadProjection.apply(event(EventType.ROUND_ENDED), context(before, after, tx));
+    await headToHeadProjection.apply(event(EventType.GAME_FINISHED, { endReason: 'GIN' }), context(after, after, tx));
+
+    expect(upserts).toHaveLength(2);
+    expect(upserts[0].where).toEqual({ playerId_opponentId: { playerId: 'alice', opponentId: 'bob' } });
+    expect(upserts[0].update).toMatchObject({ wins: { increment: 1 }, losses: { increment: 0 } });
+    expect(upserts[1].where).toEqual({ playerId_opponentId: { playerId: 'bob', opponentId: 'alice' } });
+    expect(upserts[1].update).toMatchObject({ wins: { increment: 0 }, losses: { increment: 1 } });
+  });
+});
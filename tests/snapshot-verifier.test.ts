@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { EventSourcedGinRummyGame } from '../packages/common/src/game-engine/event-sourced-gin-rummy';
+import { EventSourcingEngine } from '../packages/common/src/game-engine/event-sourcing';
+import { createSeededRandom, dealRound } from '../packages/common/src/utils/cards';
+
+vi.mock('@prisma/client', () => ({ PrismaClient: class {}, Prisma: {} }));
+
+vi.mock('../src/services/eventStore', async importOriginal => ({
+  ...(await importOriginal<typeof import('../src/services/eventStore')>()),
+  EventStore: {
+    getSnapshots: vi.fn(),
+    getAllEvents: vi.fn(),
+    invalidateSnapshot: vi.fn(),
+  },
+}));
+
+const { EventStore, hashState } = await import('../src/services/eventStore');
+const { verifyGameSnapshots } = await import('../lib/snapshot-verifier');
+
+const GAME_ID = 'snapshot-game';
+
+function startGame() {
+  const game = new EventSourcedGinRummyGame(GAME_ID);
+  const events = game.createInitialGameEvents('player1', 'ai-player', true, 'Alice', 'AI', {
+    initialDeal: dealRound(createSeededRandom(`${GAME_ID}:1`)),
+  });
+  const state = new EventSourcingEngine(GAME_ID, JSON.parse(JSON.stringify(events))).replayEvents();
+  const stored = events.map(event => ({
+    ...event,
+    playerId: event.playerId ?? null,
+    requestId: null,
+    createdAt: new Date(event.createdAt),
+  }));
+  return { stored, state };
+}
+
+function snapshotOf(state: any, id = 'snapshot-1') {
+  return { id, sequenceNumber: 2, state, stateHash: hashState(state), createdAt: new Date(), createdBy: null };
+}
+
+describe('Snapshot Verifier', () => {
+  beforeEach(() => {
+    vi.mocked(EventStore.invalidateSnapshot).mockReset();
+  });
+
+  it('should keep a snapshot that matches a full replay', async () => {
+    const { stored, state } = startGame();
+    vi.mocked(EventStore.getAllEvents).mockResolvedValue(stored as any);
+    vi.mocked(EventStore.getSnapshots).mockResolvedValue([snapshotOf(state)]);
+
+    const result = await verifyGameSnapshots(GAME_ID);
+
+    expect(result).toEqual({ gameId: GAME_ID, checked: 1, invalidated: [] });
+    expect(EventStore.invalidateSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('should invalidate a snapshot that diverged from the events', async () => {
+    const { stored, state } = startGame();
+    const diverged = JSON.parse(JSON.stringify(state));
+    diverged.players[0].score = 99;
+    vi.mocked(EventStore.getAllEvents).mockResolvedValue(stored as any);
+    vi.mocked(EventStore.getSnapshots).mockResolvedValue([snapshotOf(diverged)]);
+
+    const result = await verifyGameSnapshots(GAME_ID);
+
+    expect(result.invalidated).toEqual([2]);
+    expect(EventStore.invalidateSnapshot).toHaveBeenCalledWith(
+      GAME_ID,
+      expect.objectContaining({ id: 'snapshot-1' }),
+      'SNAPSHOT_DIVERGED',
+      expect.any(String)
+    );
+  });
+
+  it('should invalidate a snapshot whose state no longer matches its hash', async () => {
+    const { stored, state } = startGame();
+    const tampered = { ...snapshotOf(state), state: { ...state, gameOver: true } };
+    vi.mocked(EventStore.getAllEvents).mockResolvedValue(stored as any);
+    vi.mocked(EventStore.getSnapshots).mockResolvedValue([tampered]);
+
+    const result = await verifyGameSnapshots(GAME_ID);
+
+    expect(result.invalidated).toEqual([2]);
+    expect(vi.mocked(EventStore.invalidateSnapshot).mock.calls[0][2]).toBe('SNAPSHOT_HASH_MISMATCH');
+  });
+});